@@ -27,10 +27,14 @@ import Messages from './pages/Messages';
 import Groups from './pages/Groups';
 import Events from './pages/Events';
 import LostFoundPage from './pages/LostFound';
+import PublicLostReport from './pages/PublicLostReport';
+import MicrochipLookup from './pages/MicrochipLookup';
 import Notifications from './pages/Notifications';
 import Photos from './pages/Photos';
 import Reels from './pages/Reels';
 import UserProfile from './pages/Profile';
+import HandleProfile from './pages/HandleProfile';
+import TagBrowse from './pages/TagBrowse';
 import Donations from './pages/Donations';
 import HelpPage from './pages/Help';
 import Admin from './pages/Admin';
@@ -114,6 +118,8 @@ function AppContent() {
           <Route path="/" element={<Landing />} />
           <Route path="/auth/signup" element={<PublicRoute><SignUp /></PublicRoute>} />
           <Route path="/auth/login" element={<PublicRoute><Login /></PublicRoute>} />
+          <Route path="/lost/:reportId" element={<PublicLostReport />} />
+          <Route path="/chip" element={<MicrochipLookup />} />
 
           {/* Protected Routes */}
           <Route path="/onboarding" element={<ProtectedRoute><Onboarding /></ProtectedRoute>} />
@@ -136,6 +142,8 @@ function AppContent() {
           <Route path="/help/privacy" element={<PlaceholderPage title="Privacy Policy" />} />
           <Route path="/help/terms" element={<PlaceholderPage title="Terms of Use" />} />
           <Route path="/profile/:userId" element={<ProtectedRoute><UserProfile /></ProtectedRoute>} />
+          <Route path="/u/:handle" element={<ProtectedRoute><HandleProfile /></ProtectedRoute>} />
+          <Route path="/tags/:tag" element={<ProtectedRoute><TagBrowse /></ProtectedRoute>} />
           <Route path="/admin" element={<ProtectedRoute><Admin /></ProtectedRoute>} />
           <Route path="/billing" element={<ProtectedRoute><Billing /></ProtectedRoute>} />
 
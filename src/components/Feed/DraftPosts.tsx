@@ -1,32 +1,28 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../lib/auth';
 import { supabase } from '../../lib/supabase';
-import { Edit, Trash2, Send, Calendar, Clock, Globe, Users, Lock } from 'lucide-react';
+import { formatScheduledTime, publishScheduledPost, ScheduledPost, ScheduledPostStatus } from '../../lib/scheduledPosts';
+import { Edit, Trash2, Send, Calendar, Clock, Globe, Users, Lock, CheckCircle, AlertTriangle, RotateCcw } from 'lucide-react';
 import { motion } from 'framer-motion';
 import toast from 'react-hot-toast';
 import ConfirmDialog from '../UI/ConfirmDialog';
 
-interface ScheduledPost {
-  id: string;
-  content: string;
-  visibility: 'public' | 'friends' | 'private';
-  pet_id?: string;
-  scheduled_for?: string;
-  is_draft: boolean;
-  status: 'draft' | 'scheduled' | 'published';
-  created_at: string;
-  pets?: {
-    name: string;
-    species: string;
-  };
-}
+type ContentTab = 'drafts' | 'scheduled' | 'published' | 'failed';
+
+const TAB_STATUS: Record<ContentTab, ScheduledPostStatus> = {
+  drafts: 'draft',
+  scheduled: 'scheduled',
+  published: 'published',
+  failed: 'failed'
+};
 
 const DraftPosts: React.FC = () => {
   const { profile } = useAuth();
   const [scheduledPosts, setScheduledPosts] = useState<ScheduledPost[]>([]);
   const [loading, setLoading] = useState(true);
   const [deletingPost, setDeletingPost] = useState<ScheduledPost | null>(null);
-  const [activeTab, setActiveTab] = useState<'drafts' | 'scheduled'>('drafts');
+  const [activeTab, setActiveTab] = useState<ContentTab>('drafts');
+  const [publishingId, setPublishingId] = useState<string | null>(null);
 
   useEffect(() => {
     if (profile) {
@@ -45,8 +41,8 @@ const DraftPosts: React.FC = () => {
           pets(name, species)
         `)
         .eq('author_id', profile.id)
-        .eq('is_draft', activeTab === 'drafts')
-        .order('created_at', { ascending: false });
+        .eq('status', TAB_STATUS[activeTab])
+        .order(activeTab === 'scheduled' ? 'scheduled_for' : 'created_at', { ascending: activeTab === 'scheduled' });
 
       if (error) {
         console.error('Error loading scheduled posts:', error);
@@ -62,45 +58,24 @@ const DraftPosts: React.FC = () => {
     }
   };
 
+  // Publish now and retry both go through the publisher's own path, so a
+  // post can't go out twice if the scheduled run picks it up at the same time
   const publishNow = async (post: ScheduledPost) => {
+    setPublishingId(post.id);
     try {
-      // Create the actual post
-      const { error: postError } = await supabase
-        .from('posts')
-        .insert({
-          author_id: profile?.id,
-          content: post.content,
-          visibility: post.visibility,
-          pet_id: post.pet_id,
-          likes_count: 0,
-          comments_count: 0,
-          shares_count: 0
-        });
-
-      if (postError) {
-        toast.error('Failed to publish post');
-        console.error('Error publishing post:', postError);
-        return;
-      }
+      const result = await publishScheduledPost(supabase, post.id);
 
-      // Update scheduled post status
-      const { error: updateError } = await supabase
-        .from('scheduled_posts')
-        .update({ 
-          status: 'published',
-          published_at: new Date().toISOString()
-        })
-        .eq('id', post.id);
-
-      if (updateError) {
-        console.error('Error updating scheduled post:', updateError);
+      if (result?.status === 'failed') {
+        toast.error(result.failure_reason || 'Failed to publish post');
+      } else {
+        toast.success(result ? 'Post published successfully!' : 'This post was already published');
       }
-
-      toast.success('Post published successfully!');
       loadScheduledPosts();
     } catch (error) {
       console.error('Error publishing post:', error);
       toast.error('Failed to publish post');
+    } finally {
+      setPublishingId(null);
     }
   };
 
@@ -137,22 +112,12 @@ const DraftPosts: React.FC = () => {
     }
   };
 
-  const formatScheduledTime = (dateString: string) => {
-    const date = new Date(dateString);
-    const now = new Date();
-    const diffInHours = Math.floor((date.getTime() - now.getTime()) / (1000 * 60 * 60));
-
-    if (diffInHours < 24) {
-      return `in ${diffInHours} hour${diffInHours !== 1 ? 's' : ''}`;
-    } else {
-      const diffInDays = Math.floor(diffInHours / 24);
-      return `in ${diffInDays} day${diffInDays !== 1 ? 's' : ''}`;
-    }
-  };
-
-  const filteredPosts = scheduledPosts.filter(post => 
-    activeTab === 'drafts' ? post.is_draft : !post.is_draft
-  );
+  const tabs: Array<{ id: ContentTab; label: string }> = [
+    { id: 'drafts', label: 'Drafts' },
+    { id: 'scheduled', label: 'Scheduled' },
+    { id: 'published', label: 'Published' },
+    { id: 'failed', label: 'Failed' }
+  ];
 
   if (loading) {
     return (
@@ -174,33 +139,26 @@ const DraftPosts: React.FC = () => {
       <div className="flex items-center justify-between">
         <h2 className="text-2xl font-bold text-gray-900">Content Manager</h2>
         <div className="flex space-x-1 bg-gray-100 rounded-lg p-1">
-          <button
-            onClick={() => setActiveTab('drafts')}
-            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-              activeTab === 'drafts'
-                ? 'bg-white text-blue-600 shadow-sm'
-                : 'text-gray-600 hover:text-gray-900'
-            }`}
-          >
-            Drafts
-          </button>
-          <button
-            onClick={() => setActiveTab('scheduled')}
-            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-              activeTab === 'scheduled'
-                ? 'bg-white text-blue-600 shadow-sm'
-                : 'text-gray-600 hover:text-gray-900'
-            }`}
-          >
-            Scheduled
-          </button>
+          {tabs.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                activeTab === tab.id
+                  ? 'bg-white text-blue-600 shadow-sm'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
         </div>
       </div>
 
       {/* Posts List */}
-      {filteredPosts.length > 0 ? (
+      {scheduledPosts.length > 0 ? (
         <div className="space-y-4">
-          {filteredPosts.map((post, index) => {
+          {scheduledPosts.map((post, index) => {
             const VisibilityIcon = getVisibilityIcon(post.visibility);
             
             return (
@@ -227,15 +185,26 @@ const DraftPosts: React.FC = () => {
                   </div>
                   
                   <div className="flex space-x-2 ml-4">
-                    {!post.is_draft && (
+                    {post.status === 'scheduled' && (
                       <button
                         onClick={() => publishNow(post)}
-                        className="p-2 text-green-600 hover:bg-green-50 rounded-full transition-colors"
+                        disabled={publishingId === post.id}
+                        className="p-2 text-green-600 hover:bg-green-50 rounded-full transition-colors disabled:opacity-50"
                         title="Publish now"
                       >
                         <Send className="h-4 w-4" />
                       </button>
                     )}
+                    {post.status === 'failed' && (
+                      <button
+                        onClick={() => publishNow(post)}
+                        disabled={publishingId === post.id}
+                        className="p-2 text-blue-600 hover:bg-blue-50 rounded-full transition-colors disabled:opacity-50"
+                        title="Retry"
+                      >
+                        <RotateCcw className={`h-4 w-4 ${publishingId === post.id ? 'animate-spin' : ''}`} />
+                      </button>
+                    )}
                     <button
                       onClick={() => setDeletingPost(post)}
                       className="p-2 text-red-600 hover:bg-red-50 rounded-full transition-colors"
@@ -249,29 +218,44 @@ const DraftPosts: React.FC = () => {
                 {/* Schedule Info */}
                 <div className="flex items-center justify-between text-sm text-gray-500 pt-4 border-t border-gray-100">
                   <div className="flex items-center space-x-4">
-                    {post.is_draft ? (
+                    {post.status === 'draft' && (
                       <div className="flex items-center space-x-1">
                         <Edit className="h-4 w-4" />
                         <span>Draft saved {new Date(post.created_at).toLocaleDateString()}</span>
                       </div>
-                    ) : (
+                    )}
+                    {post.status === 'scheduled' && post.scheduled_for && (
                       <div className="flex items-center space-x-1">
                         <Clock className="h-4 w-4" />
                         <span>
-                          Scheduled for {new Date(post.scheduled_for!).toLocaleString()}
-                          {new Date(post.scheduled_for!) > new Date() && (
-                            <span className="text-blue-600 ml-1">
-                              ({formatScheduledTime(post.scheduled_for!)})
-                            </span>
-                          )}
+                          Scheduled for {new Date(post.scheduled_for).toLocaleString()}
+                          <span className="text-blue-600 ml-1">
+                            ({formatScheduledTime(post.scheduled_for)})
+                          </span>
+                        </span>
+                      </div>
+                    )}
+                    {post.status === 'published' && (
+                      <div className="flex items-center space-x-1">
+                        <CheckCircle className="h-4 w-4 text-green-600" />
+                        <span>
+                          Published {post.published_at ? new Date(post.published_at).toLocaleString() : ''}
+                          {!post.post_id && <span className="ml-1">(since deleted)</span>}
                         </span>
                       </div>
                     )}
+                    {post.status === 'failed' && (
+                      <div className="flex items-center space-x-1 text-red-600">
+                        <AlertTriangle className="h-4 w-4" />
+                        <span>{post.failure_reason || 'Publishing failed'}</span>
+                      </div>
+                    )}
                   </div>
                   
                   <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                     post.status === 'draft' ? 'bg-gray-100 text-gray-800' :
                     post.status === 'scheduled' ? 'bg-blue-100 text-blue-800' :
+                    post.status === 'failed' ? 'bg-red-100 text-red-800' :
                     'bg-green-100 text-green-800'
                   }`}>
                     {post.status}
@@ -291,7 +275,7 @@ const DraftPosts: React.FC = () => {
                 Draft posts will appear here for you to edit and publish later
               </p>
             </>
-          ) : (
+          ) : activeTab === 'scheduled' ? (
             <>
               <Calendar className="h-16 w-16 text-gray-300 mx-auto mb-4" />
               <h3 className="text-xl font-medium text-gray-900 mb-2">No scheduled posts</h3>
@@ -299,6 +283,22 @@ const DraftPosts: React.FC = () => {
                 Posts scheduled for future publishing will appear here
               </p>
             </>
+          ) : activeTab === 'published' ? (
+            <>
+              <CheckCircle className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+              <h3 className="text-xl font-medium text-gray-900 mb-2">Nothing published yet</h3>
+              <p className="text-gray-600">
+                Scheduled posts that have gone live will appear here
+              </p>
+            </>
+          ) : (
+            <>
+              <AlertTriangle className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+              <h3 className="text-xl font-medium text-gray-900 mb-2">No failed posts</h3>
+              <p className="text-gray-600">
+                Scheduled posts that couldn't be published will appear here to retry
+              </p>
+            </>
           )}
         </div>
       )}
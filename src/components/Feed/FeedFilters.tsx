@@ -1,9 +1,10 @@
 import React from 'react';
-import { Filter, TrendingUp, Clock, Heart, Users } from 'lucide-react';
+import { Filter, TrendingUp, Clock, Heart, Users, Sparkles } from 'lucide-react';
+import { FeedSort } from '../../lib/feed';
 
 interface FeedFiltersProps {
-  sortBy: 'recent' | 'popular' | 'following';
-  onSortChange: (sort: 'recent' | 'popular' | 'following') => void;
+  sortBy: FeedSort;
+  onSortChange: (sort: FeedSort) => void;
   showFollowingOnly: boolean;
   onFollowingToggle: (show: boolean) => void;
   className?: string;
@@ -19,7 +20,8 @@ const FeedFilters: React.FC<FeedFiltersProps> = ({
   const sortOptions = [
     { value: 'recent', label: 'Recent', icon: Clock },
     { value: 'popular', label: 'Popular', icon: TrendingUp },
-    { value: 'following', label: 'Following', icon: Users }
+    { value: 'following', label: 'Following', icon: Users },
+    { value: 'for_you', label: 'For You', icon: Sparkles }
   ];
 
   return (
@@ -16,6 +16,7 @@ interface PostActionsProps {
     comments_count: number;
     shares_count: number;
     user_liked?: boolean;
+    user_saved?: boolean;
     profiles: {
       display_name: string;
       avatar_url?: string;
@@ -42,6 +43,8 @@ const PostActions: React.FC<PostActionsProps> = ({
   const [showMenu, setShowMenu] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
   const [saving, setSaving] = useState(false);
+  // Unknown until checked, unless the post came from the feed
+  const [saved, setSaved] = useState(post.user_saved);
 
   const isOwnPost = post.author_id === profile?.id;
 
@@ -51,23 +54,29 @@ const PostActions: React.FC<PostActionsProps> = ({
     setSaving(true);
 
     try {
-      // Check if already saved
-      const { data: existingSave } = await supabase
-        .from('saved_posts')
-        .select('id')
-        .eq('user_id', profile.id)
-        .eq('post_id', post.id)
-        .limit(1);
-
-      const saveRecord = firstRow(existingSave);
-      if (saveRecord) {
+      let isSaved = saved;
+      if (isSaved === undefined) {
+        // Check if already saved
+        const { data: existingSave } = await supabase
+          .from('saved_posts')
+          .select('id')
+          .eq('user_id', profile.id)
+          .eq('post_id', post.id)
+          .limit(1);
+
+        isSaved = Boolean(firstRow(existingSave));
+      }
+
+      if (isSaved) {
         // Unsave
         const { error } = await supabase
           .from('saved_posts')
           .delete()
-          .eq('id', saveRecord.id);
+          .eq('user_id', profile.id)
+          .eq('post_id', post.id);
 
         if (!error) {
+          setSaved(false);
           toast.success('Post removed from saved');
         }
       } else {
@@ -80,6 +89,7 @@ const PostActions: React.FC<PostActionsProps> = ({
           });
 
         if (!error) {
+          setSaved(true);
           toast.success('Post saved!');
         }
       }
@@ -136,9 +146,11 @@ const PostActions: React.FC<PostActionsProps> = ({
           <button
             onClick={handleSavePost}
             disabled={saving}
-            className="flex items-center space-x-2 text-gray-600 hover:text-purple-600 transition-colors disabled:opacity-50"
+            className={`flex items-center space-x-2 transition-colors disabled:opacity-50 ${
+              saved ? 'text-purple-600' : 'text-gray-600 hover:text-purple-600'
+            }`}
           >
-            <Bookmark className="h-5 w-5" />
+            <Bookmark className={`h-5 w-5 ${saved ? 'fill-current' : ''}`} />
           </button>
         </div>
 
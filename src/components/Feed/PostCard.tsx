@@ -1,9 +1,12 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../lib/auth';
-import { Heart, MessageCircle, Share, Globe, Users, Lock, User, Tag } from 'lucide-react';
+import { Heart, MessageCircle, Share, Globe, Users, Lock, User, Tag, HelpCircle } from 'lucide-react';
 import { motion } from 'framer-motion';
 import PostActions from './PostActions';
 import PostComments from './PostComments';
+import PostHistory from './PostHistory';
+import RichText from '../UI/RichText';
+import { FeedRanking } from '../../lib/feed';
 
 interface PostCardProps {
   post: {
@@ -16,6 +19,7 @@ interface PostCardProps {
     comments_count: number;
     shares_count: number;
     created_at: string;
+    edited_at?: string | null;
     profiles: {
       id: string;
       display_name: string;
@@ -25,8 +29,10 @@ interface PostCardProps {
       id: string;
       name: string;
       species: string;
-    };
+    } | null;
     user_liked?: boolean;
+    user_saved?: boolean;
+    ranking?: FeedRanking;
   };
   onLike: () => void;
   onEdit?: () => void;
@@ -47,6 +53,8 @@ const PostCard: React.FC<PostCardProps> = ({
 }) => {
   const { profile } = useAuth();
   const [showComments, setShowComments] = useState(false);
+  const [showRanking, setShowRanking] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
   const getVisibilityIcon = (visibility: string) => {
     switch (visibility) {
@@ -98,6 +106,15 @@ const PostCard: React.FC<PostCardProps> = ({
               <h3 className="font-semibold text-gray-900">{post.profiles.display_name}</h3>
               <div className="flex items-center space-x-2 text-sm text-gray-500">
                 <span>{formatTimeAgo(post.created_at)}</span>
+                {post.edited_at && (
+                  <button
+                    onClick={() => setShowHistory(true)}
+                    className="hover:text-gray-700 hover:underline"
+                    title={`Edited ${formatTimeAgo(post.edited_at).toLowerCase()}`}
+                  >
+                    Edited
+                  </button>
+                )}
                 <VisibilityIcon className="h-3 w-3" />
                 {post.pets && (
                   <>
@@ -110,11 +127,42 @@ const PostCard: React.FC<PostCardProps> = ({
                 )}
               </div>
             </div>
+            {post.ranking && (
+              <button
+                onClick={() => setShowRanking(!showRanking)}
+                className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                title="Why am I seeing this?"
+              >
+                <HelpCircle className="h-4 w-4" />
+              </button>
+            )}
           </div>
 
+          {/* Ranking explanation */}
+          {post.ranking && showRanking && (
+            <div className="bg-gray-50 rounded-lg p-3 mb-4 text-sm">
+              <p className="font-medium text-gray-900 mb-2">Why am I seeing this?</p>
+              <ul className="space-y-1">
+                {post.ranking.reasons.map(reason => (
+                  <li key={reason.id} className="flex justify-between text-gray-600">
+                    <span>{reason.detail}</span>
+                    <span className="font-medium text-gray-900 ml-2 whitespace-nowrap">+{reason.points}</span>
+                  </li>
+                ))}
+                {post.ranking.reasons.length === 0 && (
+                  <li className="text-gray-600">One of the newest posts you haven't seen</li>
+                )}
+              </ul>
+              <p className="text-xs text-gray-500 mt-2">
+                Posted {formatTimeAgo(post.created_at).toLowerCase()}, so it keeps {Math.round(post.ranking.recency * 100)}% of its points
+                {' '}(score {post.ranking.score})
+              </p>
+            </div>
+          )}
+
           {/* Post Content */}
           {post.content && (
-            <p className="text-gray-900 mb-4 whitespace-pre-wrap">{post.content}</p>
+            <p className="text-gray-900 mb-4 whitespace-pre-wrap"><RichText text={post.content} /></p>
           )}
         </div>
 
@@ -151,6 +199,15 @@ const PostCard: React.FC<PostCardProps> = ({
         onClose={() => setShowComments(false)}
         initialCommentsCount={post.comments_count}
       />
+
+      {/* Edit History Modal */}
+      {post.edited_at && (
+        <PostHistory
+          postId={post.id}
+          isOpen={showHistory}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
     </>
   );
 };
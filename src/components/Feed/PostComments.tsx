@@ -4,6 +4,7 @@ import { supabase } from '../../lib/supabase';
 import { MessageCircle, Heart, Reply, MoreHorizontal, Flag, Trash2, Edit, User } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
+import RichText from '../UI/RichText';
 
 interface Comment {
   id: string;
@@ -290,7 +291,7 @@ const PostComments: React.FC<PostCommentsProps> = ({
                             />
                           </div>
                         ) : (
-                          <p className="text-sm text-gray-700 mt-1">{comment.content}</p>
+                          <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap"><RichText text={comment.content} /></p>
                         )}
                       </div>
                     </motion.div>
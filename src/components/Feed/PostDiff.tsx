@@ -0,0 +1,30 @@
+import React from 'react';
+import { diffWords } from '../../lib/postRevisions';
+
+interface PostDiffProps {
+  before: string;
+  after: string;
+  className?: string;
+}
+
+// Two versions of a post's text, with removed words struck out and added ones highlighted
+const PostDiff: React.FC<PostDiffProps> = ({ before, after, className = '' }) => {
+  return (
+    <p className={`whitespace-pre-wrap ${className}`}>
+      {diffWords(before, after).map((part, index) => (
+        <span
+          key={index}
+          className={
+            part.type === 'added' ? 'bg-green-100 text-green-800' :
+            part.type === 'removed' ? 'bg-red-100 text-red-800 line-through' :
+            undefined
+          }
+        >
+          {part.text}
+        </span>
+      ))}
+    </p>
+  );
+};
+
+export default PostDiff;
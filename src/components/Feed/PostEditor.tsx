@@ -3,6 +3,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Edit, X, Check, Image, Tag } from 'lucide-react';
 import { useAuth } from '../../lib/auth';
 import { supabase, Pet } from '../../lib/supabase';
+import { telemetry } from '../../lib/telemetry';
 import toast from 'react-hot-toast';
 
 interface PostEditorProps {
@@ -42,6 +43,13 @@ const PostEditor: React.FC<PostEditorProps> = ({
 
     setSubmitting(true);
 
+    // The database keeps the revision; telemetry only needs what changed
+    const changed = [
+      content.trim() !== post.content && 'content',
+      visibility !== post.visibility && 'visibility',
+      (petId || null) !== (post.pet_id || null) && 'pet'
+    ].filter((field): field is string => !!field);
+
     try {
       const { error } = await supabase
         .from('posts')
@@ -57,6 +65,7 @@ const PostEditor: React.FC<PostEditorProps> = ({
         toast.error('Failed to update post');
         console.error('Error updating post:', error);
       } else {
+        telemetry.posts.edit({ post_id: post.id, changed });
         toast.success('Post updated successfully!');
         onUpdate();
         onClose();
@@ -0,0 +1,135 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { History, X, Image } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase } from '../../lib/supabase';
+import { PostRevision, loadPostRevisions } from '../../lib/postRevisions';
+import PostDiff from './PostDiff';
+
+interface PostHistoryProps {
+  postId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Every version of an edited post, newest first, each diffed against the one before
+const PostHistory: React.FC<PostHistoryProps> = ({ postId, isOpen, onClose }) => {
+  const [revisions, setRevisions] = useState<PostRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadRevisions = async () => {
+      setLoading(true);
+      try {
+        setRevisions(await loadPostRevisions(supabase, postId));
+      } catch (error) {
+        console.error('Error loading edit history:', error);
+        toast.error('Failed to load edit history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (isOpen) {
+      loadRevisions();
+    }
+  }, [isOpen, postId]);
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <div className="fixed inset-0 z-50 overflow-y-auto">
+        <div className="flex items-center justify-center min-h-full p-4">
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black bg-opacity-50"
+          />
+
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="relative bg-white rounded-lg shadow-xl max-w-lg w-full mx-4"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between p-4 border-b border-gray-200">
+              <div className="flex items-center space-x-2">
+                <History className="h-5 w-5 text-gray-600" />
+                <h2 className="text-lg font-semibold text-gray-900">Edit History</h2>
+              </div>
+              <button
+                onClick={onClose}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <div className="p-4 max-h-[70vh] overflow-y-auto space-y-4">
+              {loading ? (
+                <div className="animate-pulse space-y-3">
+                  {[...Array(2)].map((_, i) => (
+                    <div key={i} className="h-20 bg-gray-200 rounded-lg"></div>
+                  ))}
+                </div>
+              ) : revisions.length === 0 ? (
+                <p className="text-gray-600 text-center py-6">No edit history for this post</p>
+              ) : (
+                [...revisions].reverse().map(revision => {
+                  const previous = revisions.find(r => r.version === revision.version - 1);
+                  const mediaAdded = previous ? revision.media_urls.filter(url => !previous.media_urls.includes(url)).length : 0;
+                  const mediaRemoved = previous ? previous.media_urls.filter(url => !revision.media_urls.includes(url)).length : 0;
+
+                  return (
+                    <div key={revision.id} className="border border-gray-200 rounded-lg p-3">
+                      <div className="flex items-center justify-between text-sm mb-2">
+                        <span className="font-medium text-gray-900">
+                          {previous ? `Edited by ${revision.editor?.display_name || 'a deleted user'}` : 'Original'}
+                        </span>
+                        <span className="text-gray-500">{new Date(revision.created_at).toLocaleString()}</span>
+                      </div>
+
+                      {previous ? (
+                        <PostDiff before={previous.content} after={revision.content} className="text-gray-900 text-sm" />
+                      ) : (
+                        <p className="text-gray-900 whitespace-pre-wrap text-sm">{revision.content}</p>
+                      )}
+
+                      {previous && (previous.visibility !== revision.visibility || mediaAdded + mediaRemoved > 0) && (
+                        <div className="flex flex-wrap gap-2 mt-2 text-xs text-gray-600">
+                          {previous.visibility !== revision.visibility && (
+                            <span className="bg-gray-100 px-2 py-1 rounded-full capitalize">
+                              {previous.visibility} → {revision.visibility}
+                            </span>
+                          )}
+                          {mediaAdded + mediaRemoved > 0 && (
+                            <span className="bg-gray-100 px-2 py-1 rounded-full flex items-center space-x-1">
+                              <Image className="h-3 w-3" />
+                              <span>
+                                {[mediaAdded > 0 && `${mediaAdded} added`, mediaRemoved > 0 && `${mediaRemoved} removed`]
+                                  .filter(Boolean)
+                                  .join(', ')}
+                              </span>
+                            </span>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </motion.div>
+        </div>
+      </div>
+    </AnimatePresence>
+  );
+};
+
+export default PostHistory;
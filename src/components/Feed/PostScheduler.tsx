@@ -1,8 +1,10 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Calendar, Clock, X, Check, Save } from 'lucide-react';
+import { Calendar, Clock, X, Check, Save, Image } from 'lucide-react';
 import { useAuth } from '../../lib/auth';
 import { supabase, Pet } from '../../lib/supabase';
+import { uploadFileSecure } from '../../lib/storage';
+import { buildScheduledPost, ScheduledPostDraft } from '../../lib/scheduledPosts';
 import toast from 'react-hot-toast';
 
 interface PostSchedulerProps {
@@ -19,21 +21,56 @@ const PostScheduler: React.FC<PostSchedulerProps> = ({
   onScheduled
 }) => {
   const { profile } = useAuth();
-  const [postData, setPostData] = useState({
+  const [postData, setPostData] = useState<ScheduledPostDraft>({
     content: '',
-    visibility: 'public' as 'public' | 'friends' | 'private',
+    visibility: 'public',
     pet_id: '',
     scheduled_for: '',
     is_draft: false
   });
+  const [mediaFiles, setMediaFiles] = useState<File[]>([]);
+  const [mediaPreviews, setMediaPreviews] = useState<string[]>([]);
   const [submitting, setSubmitting] = useState(false);
 
+  const handleMediaUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+
+    if (mediaFiles.length + files.length > 5) {
+      toast.error('Maximum 5 media files allowed');
+      return;
+    }
+
+    const validFiles = files.filter(file => {
+      if (file.size > 10 * 1024 * 1024) {
+        toast.error(`${file.name} is too large (max 10MB)`);
+        return false;
+      }
+      return true;
+    });
+
+    setMediaFiles(prev => [...prev, ...validFiles]);
+
+    // Generate previews
+    validFiles.forEach(file => {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        setMediaPreviews(prev => [...prev, e.target?.result as string]);
+      };
+      reader.readAsDataURL(file);
+    });
+  };
+
+  const removeMedia = (index: number) => {
+    setMediaFiles(prev => prev.filter((_, i) => i !== index));
+    setMediaPreviews(prev => prev.filter((_, i) => i !== index));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!profile) return;
 
-    if (!postData.content.trim()) {
-      toast.error('Post content is required');
+    if (!postData.content.trim() && mediaFiles.length === 0) {
+      toast.error('Please add some content or media');
       return;
     }
 
@@ -50,19 +87,21 @@ const PostScheduler: React.FC<PostSchedulerProps> = ({
     setSubmitting(true);
 
     try {
-      const scheduledPost = {
-        author_id: profile.id,
-        content: postData.content.trim(),
-        visibility: postData.visibility,
-        pet_id: postData.pet_id || null,
-        scheduled_for: postData.is_draft ? null : postData.scheduled_for,
-        is_draft: postData.is_draft,
-        status: postData.is_draft ? 'draft' : 'scheduled'
-      };
+      // Upload now so the post goes out with its media even if the author is offline
+      const mediaUrls: string[] = [];
+      for (const file of mediaFiles) {
+        const filename = `${Date.now()}_${Math.random().toString(36).substr(2, 9)}_${file.name}`;
+        const mediaUrl = await uploadFileSecure('postMedia', filename, file);
+        if (!mediaUrl) {
+          toast.error(`Failed to upload ${file.name}`);
+          return;
+        }
+        mediaUrls.push(mediaUrl);
+      }
 
       const { error } = await supabase
         .from('scheduled_posts')
-        .insert(scheduledPost);
+        .insert(buildScheduledPost(profile.id, postData, mediaUrls));
 
       if (error) {
         toast.error(postData.is_draft ? 'Failed to save draft' : 'Failed to schedule post');
@@ -89,6 +128,8 @@ const PostScheduler: React.FC<PostSchedulerProps> = ({
       scheduled_for: '',
       is_draft: false
     });
+    setMediaFiles([]);
+    setMediaPreviews([]);
   };
 
   const getMinDateTime = () => {
@@ -135,7 +176,7 @@ const PostScheduler: React.FC<PostSchedulerProps> = ({
               {/* Content */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Post Content *
+                  Post Content
                 </label>
                 <textarea
                   value={postData.content}
@@ -146,6 +187,41 @@ const PostScheduler: React.FC<PostSchedulerProps> = ({
                 />
               </div>
 
+              {/* Media */}
+              <div>
+                {mediaPreviews.length > 0 && (
+                  <div className="grid grid-cols-2 gap-2 mb-2">
+                    {mediaPreviews.map((preview, index) => (
+                      <div key={index} className="relative">
+                        <img
+                          src={preview}
+                          alt={`Preview ${index + 1}`}
+                          className="w-full h-32 object-cover rounded-lg"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => removeMedia(index)}
+                          className="absolute top-2 right-2 bg-red-600 text-white rounded-full p-1 hover:bg-red-700 transition-colors"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <label className="inline-flex items-center space-x-2 cursor-pointer text-sm text-gray-600 hover:text-gray-900 transition-colors">
+                  <Image className="h-5 w-5" />
+                  <span>Add photos or videos</span>
+                  <input
+                    type="file"
+                    accept="image/*,video/*"
+                    multiple
+                    onChange={handleMediaUpload}
+                    className="hidden"
+                  />
+                </label>
+              </div>
+
               {/* Visibility */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -153,7 +229,7 @@ const PostScheduler: React.FC<PostSchedulerProps> = ({
                 </label>
                 <select
                   value={postData.visibility}
-                  onChange={(e) => setPostData(prev => ({ ...prev, visibility: e.target.value as any }))}
+                  onChange={(e) => setPostData(prev => ({ ...prev, visibility: e.target.value as ScheduledPostDraft['visibility'] }))}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
                   <option value="public">🌍 Public - Anyone can see</option>
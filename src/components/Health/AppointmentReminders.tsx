@@ -75,6 +75,15 @@ const AppointmentReminders: React.FC = () => {
         .order('date', { ascending: true });
 
       if (appointmentsData) {
+        // Reminders already sent by the reminder-dispatch function
+        const { data: deliveriesData } = await supabase
+          .from('reminder_deliveries')
+          .select('related_id')
+          .eq('kind', 'appointment')
+          .in('related_id', appointmentsData.map(record => record.id));
+
+        const remindedIds = new Set((deliveriesData || []).map(d => d.related_id));
+
         // Transform to appointment format
         const transformedAppointments = appointmentsData.map(record => ({
           id: record.id,
@@ -84,7 +93,7 @@ const AppointmentReminders: React.FC = () => {
           appointment_datetime: record.date + 'T09:00', // Default time
           veterinarian: record.veterinarian,
           location: '',
-          reminder_sent: false,
+          reminder_sent: remindedIds.has(record.id),
           created_at: record.created_at,
           pets: record.pets
         }));
@@ -254,6 +263,12 @@ const AppointmentReminders: React.FC = () => {
                            daysUntil === 1 ? 'Tomorrow' :
                            `${daysUntil} days away`}
                         </span>
+                        {appointment.reminder_sent && (
+                          <div className="flex items-center space-x-1 text-blue-600">
+                            <Bell className="h-3 w-3" />
+                            <span>Reminder sent</span>
+                          </div>
+                        )}
                       </div>
                       {appointment.veterinarian && (
                         <p className="text-sm text-gray-600 mt-1">Dr. {appointment.veterinarian}</p>
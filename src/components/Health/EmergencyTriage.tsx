@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { supabase, Pet, VetClinic } from '../../lib/supabase';
+import { RedFlag, RedFlagInput } from '../../lib/emergencyTriage';
+import { localDateInZone, getLocalTimeZone } from '../../lib/medicationSchedule';
+import { telemetry } from '../../lib/telemetry';
+import { AlertTriangle, Phone, ArrowLeft, Check, Loader } from 'lucide-react';
+import toast from 'react-hot-toast';
+import VetClinicList from './VetClinicList';
+
+interface EmergencyTriageProps {
+  pet: Pet;
+  flags: RedFlag[];
+  input: RedFlagInput;
+  onBack: () => void;
+  onSaved: () => void;
+}
+
+const EmergencyTriage: React.FC<EmergencyTriageProps> = ({ pet, flags, input, onBack, onSaved }) => {
+  const [recordData, setRecordData] = useState({
+    title: `Emergency: ${flags.map(f => f.title).join(', ')}`,
+    veterinarian: '',
+    description: [
+      `Symptoms: ${input.symptoms.join(', ')}`,
+      input.behavior_changes,
+      input.additional_notes
+    ].filter(Boolean).join('\n')
+  });
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  // Pre-fill the clinic the owner is most likely heading to
+  const handleClinicsLoaded = (clinics: VetClinic[]) => {
+    const clinic = clinics.find(c => c.is_emergency) || clinics[0];
+    if (clinic) {
+      setRecordData(prev => prev.veterinarian ? prev : { ...prev, veterinarian: clinic.name });
+    }
+  };
+
+  const saveRecord = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('health_records')
+        .insert({
+          pet_id: pet.id,
+          type: 'emergency',
+          title: recordData.title.trim() || 'Emergency',
+          description: recordData.description.trim() || null,
+          veterinarian: recordData.veterinarian.trim() || null,
+          date: localDateInZone(new Date(), getLocalTimeZone())
+        });
+
+      if (error) {
+        console.error('Error saving emergency record:', error);
+        toast.error('Failed to save emergency record');
+        return;
+      }
+
+      telemetry.health.record({ type: 'emergency', red_flags: flags.map(f => f.id) });
+      toast.success('Emergency record saved');
+      setSaved(true);
+      onSaved();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <div className="flex items-start space-x-3">
+          <AlertTriangle className="h-6 w-6 text-red-600 mt-0.5" />
+          <div>
+            <p className="font-semibold text-red-800">This may be an emergency</p>
+            <p className="text-sm text-red-700">
+              Contact a vet now. Do not wait for an online analysis.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* First aid */}
+      {flags.map(flag => (
+        <div key={flag.id}>
+          <h3 className="font-semibold text-gray-900">{flag.title}</h3>
+          <p className="text-sm text-gray-600 mb-2">{flag.reason}</p>
+          <ol className="list-decimal list-inside space-y-1 text-sm text-gray-800">
+            {flag.firstAid.map(step => (
+              <li key={step}>{step}</li>
+            ))}
+          </ol>
+        </div>
+      ))}
+
+      {/* Clinics */}
+      <div>
+        <h3 className="font-semibold text-gray-900 mb-2 flex items-center space-x-2">
+          <Phone className="h-4 w-4 text-green-600" />
+          <span>Call a Vet</span>
+        </h3>
+        <VetClinicList onLoaded={handleClinicsLoaded} />
+      </div>
+
+      {/* Pre-filled emergency record */}
+      <div className="border-t border-gray-200 pt-4 space-y-3">
+        <h3 className="font-semibold text-gray-900">Emergency Record for {pet.name}</h3>
+        {saved ? (
+          <p className="text-sm text-green-700 flex items-center space-x-1">
+            <Check className="h-4 w-4" />
+            <span>Saved to {pet.name}'s health records</span>
+          </p>
+        ) : (
+          <>
+            <input
+              type="text"
+              value={recordData.title}
+              onChange={(e) => setRecordData(prev => ({ ...prev, title: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500"
+            />
+            <input
+              type="text"
+              value={recordData.veterinarian}
+              onChange={(e) => setRecordData(prev => ({ ...prev, veterinarian: e.target.value }))}
+              placeholder="Clinic or veterinarian"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500"
+            />
+            <textarea
+              value={recordData.description}
+              onChange={(e) => setRecordData(prev => ({ ...prev, description: e.target.value }))}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500"
+            />
+          </>
+        )}
+      </div>
+
+      <div className="flex space-x-3">
+        <button
+          onClick={onBack}
+          className="flex-1 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors flex items-center justify-center space-x-2"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          <span>Back</span>
+        </button>
+        {!saved && (
+          <button
+            onClick={saveRecord}
+            disabled={saving}
+            className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors flex items-center justify-center space-x-2"
+          >
+            {saving ? <Loader className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+            <span>Save Emergency Record</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EmergencyTriage;
@@ -0,0 +1,316 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../lib/auth';
+import { supabase, Pet, HealthRecord, Medication } from '../../lib/supabase';
+import { BUCKETS } from '../../lib/buckets';
+import { telemetry } from '../../lib/telemetry';
+import {
+  ATTACHMENT_LINK_DURATIONS,
+  buildHealthBundle,
+  bytesToBase64,
+  renderHealthSummaryHtml,
+  getAttachmentPath,
+  medicationOverlapsRange,
+  HealthExportData,
+  ExportAttachment
+} from '../../lib/healthExport';
+import { Download, FileText, FileJson, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import toast from 'react-hot-toast';
+
+interface HealthExportProps {
+  isOpen: boolean;
+  onClose: () => void;
+  pets: Pet[];
+  initialPetId?: string;
+}
+
+const HealthExport: React.FC<HealthExportProps> = ({ isOpen, onClose, pets, initialPetId }) => {
+  const { profile } = useAuth();
+  const [petId, setPetId] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [linkSeconds, setLinkSeconds] = useState(ATTACHMENT_LINK_DURATIONS[1].seconds);
+  const [exporting, setExporting] = useState<'pdf' | 'json' | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPetId(initialPetId || pets[0]?.id || '');
+    }
+  }, [isOpen, initialPetId, pets]);
+
+  // The JSON bundle embeds attachment files; the PDF summary links to them
+  const loadExportData = async (format: 'pdf' | 'json'): Promise<HealthExportData | null> => {
+    const pet = pets.find(p => p.id === petId);
+    if (!profile || !pet) return null;
+
+    const range = { from: fromDate || undefined, to: toDate || undefined };
+
+    let recordsQuery = supabase
+      .from('health_records')
+      .select('*')
+      .eq('pet_id', pet.id)
+      .order('date', { ascending: true });
+    if (range.from) recordsQuery = recordsQuery.gte('date', range.from);
+    if (range.to) recordsQuery = recordsQuery.lte('date', range.to);
+
+    let vitalsQuery = supabase
+      .from('pet_vitals')
+      .select('*')
+      .eq('pet_id', pet.id)
+      .order('recorded_at', { ascending: true });
+    if (range.from) vitalsQuery = vitalsQuery.gte('recorded_at', range.from);
+    if (range.to) vitalsQuery = vitalsQuery.lte('recorded_at', range.to);
+
+    const [
+      { data: recordsData, error: recordsError },
+      { data: medicationsData, error: medicationsError },
+      { data: vitalsData, error: vitalsError }
+    ] = await Promise.all([
+      recordsQuery,
+      supabase
+        .from('medications')
+        .select('*')
+        .eq('pet_id', pet.id)
+        .order('start_date', { ascending: true }),
+      vitalsQuery
+    ]);
+
+    if (recordsError) throw recordsError;
+    if (medicationsError) throw medicationsError;
+    if (vitalsError) throw vitalsError;
+
+    const records: HealthRecord[] = recordsData || [];
+    const generatedAt = new Date().toISOString();
+
+    const attachments: ExportAttachment[] = [];
+    const expiresAt = new Date(Date.now() + linkSeconds * 1000).toISOString();
+    for (const record of records) {
+      if (!record.attachment_url) continue;
+      const path = getAttachmentPath(record.attachment_url, BUCKETS.healthAttachments);
+      if (!path) continue;
+      const fileName = path.split('/').pop() || path;
+
+      if (format === 'json') {
+        const { data: file, error } = await supabase.storage
+          .from(BUCKETS.healthAttachments)
+          .download(path);
+
+        if (error || !file) {
+          console.error('Error downloading attachment:', error);
+          continue;
+        }
+        attachments.push({
+          recordId: record.id,
+          fileName,
+          contentType: file.type || undefined,
+          data: bytesToBase64(new Uint8Array(await file.arrayBuffer()))
+        });
+        continue;
+      }
+
+      const { data: signed, error } = await supabase.storage
+        .from(BUCKETS.healthAttachments)
+        .createSignedUrl(path, linkSeconds);
+
+      if (error || !signed) {
+        console.error('Error signing attachment:', error);
+        continue;
+      }
+      attachments.push({ recordId: record.id, fileName, url: signed.signedUrl, expiresAt });
+    }
+
+    return {
+      pet,
+      owner: { display_name: profile.display_name, email: profile.email },
+      records,
+      medications: (medicationsData as Medication[] || []).filter(m => medicationOverlapsRange(m, range)),
+      vitals: vitalsData || [],
+      attachments,
+      range,
+      generatedAt
+    };
+  };
+
+  const getFileName = (data: HealthExportData, extension: string) => {
+    const safeName = data.pet.name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+    return `${safeName}-health-${data.generatedAt.split('T')[0]}.${extension}`;
+  };
+
+  const handleExportJson = async () => {
+    setExporting('json');
+
+    try {
+      const data = await loadExportData('json');
+      if (!data) return;
+
+      const blob = new Blob([JSON.stringify(buildHealthBundle(data), null, 2)], { type: 'application/fhir+json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getFileName(data, 'json');
+      link.click();
+      URL.revokeObjectURL(url);
+
+      telemetry.health.export({ format: 'json', pet_id: data.pet.id, records: data.records.length });
+      toast.success('Health bundle downloaded!');
+    } catch (error) {
+      console.error('Error exporting health records:', error);
+      toast.error('Failed to export health records');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleExportPdf = async () => {
+    // Open the window before any await so popup blockers treat it as user initiated
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      toast.error('Allow pop-ups to save the PDF summary');
+      return;
+    }
+
+    setExporting('pdf');
+
+    try {
+      const data = await loadExportData('pdf');
+      if (!data) {
+        printWindow.close();
+        return;
+      }
+
+      printWindow.document.write(renderHealthSummaryHtml(data));
+      printWindow.document.close();
+      printWindow.focus();
+      printWindow.print();
+
+      telemetry.health.export({ format: 'pdf', pet_id: data.pet.id, records: data.records.length });
+    } catch (error) {
+      printWindow.close();
+      console.error('Error exporting health records:', error);
+      toast.error('Failed to export health records');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex items-center justify-center min-h-full p-4">
+            {/* Backdrop */}
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={onClose}
+              className="fixed inset-0 bg-black bg-opacity-50"
+            />
+
+            {/* Modal */}
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              className="relative bg-white rounded-lg shadow-xl max-w-md w-full mx-4"
+            >
+              {/* Header */}
+              <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                <div className="flex items-center space-x-2">
+                  <Download className="h-5 w-5 text-blue-600" />
+                  <h2 className="text-xl font-semibold text-gray-900">Export Health Records</h2>
+                </div>
+                <button
+                  onClick={onClose}
+                  className="text-gray-400 hover:text-gray-600 transition-colors"
+                >
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-4">
+                <p className="text-sm text-gray-600">
+                  Share a pet's records, vaccinations, medications, vitals and attachments with a new vet or boarding facility.
+                </p>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Pet</label>
+                  <select
+                    value={petId}
+                    onChange={(e) => setPetId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {pets.map(pet => (
+                      <option key={pet.id} value={pet.id}>{pet.name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                    <input
+                      type="date"
+                      value={fromDate}
+                      max={toDate || undefined}
+                      onChange={(e) => setFromDate(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                    <input
+                      type="date"
+                      value={toDate}
+                      min={fromDate || undefined}
+                      onChange={(e) => setToDate(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500">Leave the dates empty to export the full history.</p>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Attachment links in the PDF last</label>
+                  <select
+                    value={linkSeconds}
+                    onChange={(e) => setLinkSeconds(Number(e.target.value))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {ATTACHMENT_LINK_DURATIONS.map(duration => (
+                      <option key={duration.seconds} value={duration.seconds}>{duration.label}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    PDF attachment links stop working after this. The FHIR JSON file includes the attachments themselves.
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3 pt-2">
+                  <button
+                    onClick={handleExportPdf}
+                    disabled={!petId || exporting !== null}
+                    className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+                  >
+                    <FileText className="h-4 w-4" />
+                    <span>{exporting === 'pdf' ? 'Preparing...' : 'PDF Summary'}</span>
+                  </button>
+                  <button
+                    onClick={handleExportJson}
+                    disabled={!petId || exporting !== null}
+                    className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+                  >
+                    <FileJson className="h-4 w-4" />
+                    <span>{exporting === 'json' ? 'Preparing...' : 'FHIR JSON'}</span>
+                  </button>
+                </div>
+              </div>
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default HealthExport;
@@ -0,0 +1,412 @@
+import React, { useState, useEffect } from 'react';
+import { supabase, Pet, HealthRecord } from '../../lib/supabase';
+import { telemetry } from '../../lib/telemetry';
+import {
+  parseCsv,
+  guessColumnMapping,
+  csvRowsToDrafts,
+  parseInvoiceText,
+  invoiceToDrafts,
+  markDuplicates,
+  IMPORT_FIELD_LABELS,
+  ColumnMapping,
+  ImportDraft,
+  ImportField
+} from '../../lib/healthImport';
+import { extractPdfLines } from '../../lib/pdfText';
+import { Upload, FileText, X, ArrowLeft, AlertTriangle, Copy, Check } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import toast from 'react-hot-toast';
+
+interface HealthImportProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+  pets: Pet[];
+  initialPetId?: string;
+}
+
+type ImportStep = 'upload' | 'map' | 'preview';
+
+const recordTypes: HealthRecord['type'][] = ['checkup', 'vaccination', 'medication', 'surgery', 'emergency', 'symptom', 'other'];
+
+const HealthImport: React.FC<HealthImportProps> = ({ isOpen, onClose, onImported, pets, initialPetId }) => {
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [petId, setPetId] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [drafts, setDrafts] = useState<ImportDraft[]>([]);
+  const [parsing, setParsing] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPetId(initialPetId || pets[0]?.id || '');
+    }
+  }, [isOpen, initialPetId, pets]);
+
+  const resetWizard = () => {
+    setStep('upload');
+    setFileName('');
+    setCsvRows([]);
+    setMapping([]);
+    setDrafts([]);
+  };
+
+  const handleClose = () => {
+    resetWizard();
+    onClose();
+  };
+
+  const showPreview = async (newDrafts: ImportDraft[]) => {
+    const { data: existing, error } = await supabase
+      .from('health_records')
+      .select('id, type, title, date, cost')
+      .eq('pet_id', petId);
+
+    if (error) {
+      console.error('Error loading existing records:', error);
+      toast.error('Could not check for duplicates');
+    }
+
+    setDrafts(markDuplicates(newDrafts, existing || []));
+    setStep('preview');
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !petId) return;
+
+    setParsing(true);
+    setFileName(file.name);
+
+    try {
+      if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
+        const lines = await extractPdfLines(file);
+        const invoiceDrafts = invoiceToDrafts(parseInvoiceText(lines));
+        if (invoiceDrafts.length === 0) {
+          toast.error(lines.length === 0
+            ? 'This PDF has no text layer. Scanned invoices need to be entered manually.'
+            : 'No priced line items found in this invoice');
+          return;
+        }
+        await showPreview(invoiceDrafts);
+      } else {
+        const rows = parseCsv(await file.text());
+        if (rows.length < 2) {
+          toast.error('The CSV needs a header row and at least one record');
+          return;
+        }
+        setCsvRows(rows);
+        setMapping(guessColumnMapping(rows[0]));
+        setStep('map');
+      }
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast.error('Failed to read file');
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const handleMappingContinue = async () => {
+    if (!mapping.includes('title') || !mapping.includes('date')) {
+      toast.error('Map at least a title and a date column');
+      return;
+    }
+    await showPreview(csvRowsToDrafts(csvRows.slice(1), mapping));
+  };
+
+  const updateDraft = (key: string, changes: Partial<ImportDraft>) => {
+    setDrafts(prev => prev.map(draft => draft.key === key ? { ...draft, ...changes } : draft));
+  };
+
+  const selectedDrafts = drafts.filter(d => d.include && d.errors.length === 0);
+
+  const handleImport = async () => {
+    if (selectedDrafts.length === 0) return;
+
+    setImporting(true);
+
+    try {
+      // One insert so the import either lands completely or not at all
+      const { error } = await supabase
+        .from('health_records')
+        .insert(selectedDrafts.map(draft => ({
+          pet_id: petId,
+          type: draft.type,
+          title: draft.title,
+          date: draft.date,
+          veterinarian: draft.veterinarian || null,
+          cost: draft.cost ?? null,
+          description: draft.description || null
+        })));
+
+      if (error) {
+        toast.error('Failed to import records');
+        console.error('Error importing records:', error);
+      } else {
+        telemetry.health.import({
+          pet_id: petId,
+          source: fileName.toLowerCase().endsWith('.pdf') ? 'pdf' : 'csv',
+          imported: selectedDrafts.length,
+          duplicates_skipped: drafts.filter(d => d.duplicateOf && !d.include).length
+        });
+        toast.success(`Imported ${selectedDrafts.length} record${selectedDrafts.length === 1 ? '' : 's'}!`);
+        onImported();
+        handleClose();
+      }
+    } catch (error) {
+      console.error('Error importing records:', error);
+      toast.error('Failed to import records');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex items-center justify-center min-h-full p-4">
+            {/* Backdrop */}
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={handleClose}
+              className="fixed inset-0 bg-black bg-opacity-50"
+            />
+
+            {/* Modal */}
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              className="relative bg-white rounded-lg shadow-xl max-w-4xl w-full mx-4 max-h-[90vh] overflow-y-auto"
+            >
+              {/* Header */}
+              <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                <div className="flex items-center space-x-3">
+                  {step !== 'upload' && (
+                    <button
+                      onClick={() => setStep(step === 'preview' && csvRows.length > 0 ? 'map' : 'upload')}
+                      className="text-gray-400 hover:text-gray-600 transition-colors"
+                    >
+                      <ArrowLeft className="h-5 w-5" />
+                    </button>
+                  )}
+                  <div>
+                    <h2 className="text-xl font-semibold text-gray-900">Import Health Records</h2>
+                    <p className="text-sm text-gray-500">
+                      {step === 'upload' && 'Step 1 of 3 · Choose a file'}
+                      {step === 'map' && `Step 2 of 3 · Match columns in ${fileName}`}
+                      {step === 'preview' && `Step 3 of 3 · Review ${fileName}`}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={handleClose}
+                  className="text-gray-400 hover:text-gray-600 transition-colors"
+                >
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+
+              {step === 'upload' && (
+                <div className="p-6 space-y-6">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Pet</label>
+                    <select
+                      value={petId}
+                      onChange={(e) => setPetId(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {pets.map(pet => (
+                        <option key={pet.id} value={pet.id}>{pet.name}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <label className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center block cursor-pointer hover:border-blue-400 transition-colors">
+                    <Upload className="h-10 w-10 text-gray-400 mx-auto mb-3" />
+                    <p className="font-medium text-gray-900">
+                      {parsing ? 'Reading file...' : 'Upload a CSV export or PDF invoice'}
+                    </p>
+                    <p className="text-sm text-gray-500 mt-1">
+                      CSV files can use any column names. PDF invoices must contain text, not a scanned image.
+                    </p>
+                    <input
+                      type="file"
+                      accept=".csv,text/csv,.pdf,application/pdf"
+                      onChange={handleFileSelect}
+                      disabled={parsing || !petId}
+                      className="hidden"
+                    />
+                  </label>
+                </div>
+              )}
+
+              {step === 'map' && (
+                <div className="p-6 space-y-6">
+                  <p className="text-sm text-gray-600">
+                    We matched the columns we recognised. Check each one and choose what it contains.
+                  </p>
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-gray-200">
+                          <th className="text-left py-2 pr-4 font-medium text-gray-700">Column</th>
+                          <th className="text-left py-2 pr-4 font-medium text-gray-700">Example</th>
+                          <th className="text-left py-2 font-medium text-gray-700">Import as</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {csvRows[0].map((header, column) => (
+                          <tr key={column} className="border-b border-gray-100">
+                            <td className="py-2 pr-4 font-medium text-gray-900">{header || `Column ${column + 1}`}</td>
+                            <td className="py-2 pr-4 text-gray-500 truncate max-w-xs">{csvRows[1]?.[column]}</td>
+                            <td className="py-2">
+                              <select
+                                value={mapping[column]}
+                                onChange={(e) => setMapping(prev => prev.map((field, i) =>
+                                  i === column ? e.target.value as ImportField : field
+                                ))}
+                                className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              >
+                                {(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map(field => (
+                                  <option key={field} value={field}>{IMPORT_FIELD_LABELS[field]}</option>
+                                ))}
+                              </select>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <div className="flex justify-end">
+                    <button
+                      onClick={handleMappingContinue}
+                      className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+                    >
+                      Preview {csvRows.length - 1} Records
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {step === 'preview' && (
+                <div className="p-6 space-y-4">
+                  <div className="flex items-center space-x-4 text-sm">
+                    <span className="text-gray-900 font-medium">{selectedDrafts.length} to import</span>
+                    {drafts.some(d => d.duplicateOf) && (
+                      <span className="text-yellow-700">
+                        {drafts.filter(d => d.duplicateOf).length} possible duplicates
+                      </span>
+                    )}
+                    {drafts.some(d => d.errors.length > 0) && (
+                      <span className="text-red-600">
+                        {drafts.filter(d => d.errors.length > 0).length} need attention
+                      </span>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    {drafts.map(draft => (
+                      <div
+                        key={draft.key}
+                        className={`border rounded-lg p-3 ${
+                          draft.errors.length > 0 ? 'border-red-200 bg-red-50' :
+                          draft.duplicateOf ? 'border-yellow-200 bg-yellow-50' :
+                          'border-gray-200'
+                        }`}
+                      >
+                        <div className="flex items-start space-x-3">
+                          <input
+                            type="checkbox"
+                            checked={draft.include}
+                            disabled={draft.errors.length > 0}
+                            onChange={(e) => updateDraft(draft.key, { include: e.target.checked })}
+                            className="mt-2 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                          />
+                          <div className="flex-1 grid grid-cols-1 md:grid-cols-5 gap-2">
+                            <select
+                              value={draft.type}
+                              onChange={(e) => updateDraft(draft.key, { type: e.target.value as HealthRecord['type'] })}
+                              className="px-2 py-1 text-sm border border-gray-300 rounded-md capitalize"
+                            >
+                              {recordTypes.map(type => (
+                                <option key={type} value={type}>{type}</option>
+                              ))}
+                            </select>
+                            <input
+                              type="text"
+                              value={draft.title}
+                              onChange={(e) => updateDraft(draft.key, {
+                                title: e.target.value,
+                                errors: draft.errors.filter(err => err !== 'Missing title' || !e.target.value)
+                              })}
+                              className="md:col-span-2 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                            />
+                            <input
+                              type="date"
+                              value={draft.date}
+                              onChange={(e) => updateDraft(draft.key, {
+                                date: e.target.value,
+                                errors: draft.errors.filter(err => err !== 'Missing or unreadable date' || !e.target.value)
+                              })}
+                              className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+                            />
+                            <div className="text-sm text-gray-700 py-1">
+                              {draft.cost !== undefined ? `$${draft.cost.toFixed(2)}` : '—'}
+                              {draft.veterinarian && <span className="text-gray-500"> · {draft.veterinarian}</span>}
+                            </div>
+                          </div>
+                        </div>
+
+                        {draft.duplicateOf && (
+                          <div className="flex items-center space-x-2 text-xs text-yellow-800 mt-2 ml-7">
+                            <Copy className="h-3 w-3" />
+                            <span>
+                              Already recorded: {draft.duplicateOf.title} ({new Date(draft.duplicateOf.date).toLocaleDateString()}
+                              {draft.duplicateOf.cost != null ? `, $${Number(draft.duplicateOf.cost).toFixed(2)}` : ''})
+                            </span>
+                          </div>
+                        )}
+                        {draft.errors.map(error => (
+                          <div key={error} className="flex items-center space-x-2 text-xs text-red-700 mt-2 ml-7">
+                            <AlertTriangle className="h-3 w-3" />
+                            <span>{error}</span>
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="flex items-center justify-between pt-4 border-t border-gray-200">
+                    <div className="flex items-center space-x-2 text-sm text-gray-500">
+                      <FileText className="h-4 w-4" />
+                      <span>{fileName}</span>
+                    </div>
+                    <button
+                      onClick={handleImport}
+                      disabled={importing || selectedDrafts.length === 0}
+                      className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+                    >
+                      <Check className="h-4 w-4" />
+                      <span>{importing ? 'Importing...' : `Import ${selectedDrafts.length} Records`}</span>
+                    </button>
+                  </div>
+                </div>
+              )}
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default HealthImport;
@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../lib/auth';
 import { supabase, Pet, HealthRecord } from '../../lib/supabase';
+import { evaluateVaccinations } from '../../lib/vaccineProtocols';
+import { detectVitalAlerts, getSeries } from '../../lib/vitals';
+import { computeHealthScore, combineHealthScores, HealthScoreFactor } from '../../lib/healthScore';
 import { 
   TrendingUp, AlertTriangle, Calendar, DollarSign, 
   Activity, Shield, Heart, Clock, Award
@@ -18,6 +21,7 @@ interface HealthInsight {
   upcomingVaccinations: number;
   mostCommonType: string;
   healthScore: number;
+  scoreFactors: HealthScoreFactor[];
   recommendations: string[];
   costTrend: 'up' | 'down' | 'stable';
   recentActivity: Array<{
@@ -35,6 +39,7 @@ const HealthInsights: React.FC<HealthInsightsProps> = ({ selectedPetId }) => {
     upcomingVaccinations: 0,
     mostCommonType: '',
     healthScore: 0,
+    scoreFactors: [],
     recommendations: [],
     costTrend: 'stable',
     recentActivity: []
@@ -75,6 +80,22 @@ const HealthInsights: React.FC<HealthInsightsProps> = ({ selectedPetId }) => {
 
       const { data: records } = await query.order('date', { ascending: false });
 
+      const scopedPets = (petsData || []).filter(pet => !selectedPetId || pet.id === selectedPetId);
+      const scopedPetIds = scopedPets.map(pet => pet.id);
+      const [{ data: vitalsData }, { data: medicationsData }] = scopedPets.length > 0
+        ? await Promise.all([
+          supabase
+            .from('pet_vitals')
+            .select('*')
+            .in('pet_id', scopedPetIds)
+            .order('recorded_at', { ascending: true }),
+          supabase
+            .from('medications')
+            .select('pet_id, is_active, end_date, frequency')
+            .in('pet_id', scopedPetIds)
+        ])
+        : [{ data: [] }, { data: [] }];
+
       if (records) {
         // Calculate insights
         const totalRecords = records.length;
@@ -83,10 +104,11 @@ const HealthInsights: React.FC<HealthInsightsProps> = ({ selectedPetId }) => {
         // Find last checkup
         const lastCheckup = records.find(r => r.type === 'checkup')?.date;
         
-        // Count upcoming vaccinations (future vaccination records)
-        const upcomingVaccinations = records.filter(r => 
-          r.type === 'vaccination' && new Date(r.date) > new Date()
-        ).length;
+        // Vaccine status from each pet's protocol and history
+        const vaccineStatuses = scopedPets
+          .flatMap(pet => evaluateVaccinations(pet, records.filter(r => r.pet_id === pet.id)));
+        const upcomingVaccinations = vaccineStatuses.filter(s => s.status === 'upcoming').length;
+        const overdueVaccinations = vaccineStatuses.filter(s => s.status === 'overdue').length;
 
         // Most common record type
         const typeCounts = records.reduce((acc, record) => {
@@ -97,28 +119,44 @@ const HealthInsights: React.FC<HealthInsightsProps> = ({ selectedPetId }) => {
         const mostCommonType = Object.entries(typeCounts)
           .sort(([,a], [,b]) => b - a)[0]?.[0] || '';
 
-        // Calculate health score (simplified)
-        let healthScore = 70; // Base score
-        if (lastCheckup) {
-          const daysSinceCheckup = Math.floor(
-            (new Date().getTime() - new Date(lastCheckup).getTime()) / (1000 * 60 * 60 * 24)
-          );
-          if (daysSinceCheckup < 365) healthScore += 20;
-          if (daysSinceCheckup < 180) healthScore += 10;
-        }
-        if (upcomingVaccinations > 0) healthScore += 10;
+        // Health score from the documented model, averaged across pets
+        const healthScore = combineHealthScores(scopedPets.map(pet => ({
+          name: pet.name,
+          score: computeHealthScore({
+            pet,
+            records: records.filter(r => r.pet_id === pet.id),
+            medications: (medicationsData || []).filter(m => m.pet_id === pet.id),
+            vitals: (vitalsData || []).filter(v => v.pet_id === pet.id)
+          })
+        })));
+
+        // Vitals trends: sudden weight changes and out-of-range readings
+        const vitalAlerts = scopedPets.flatMap(pet =>
+          detectVitalAlerts((vitalsData || []).filter(v => v.pet_id === pet.id), pet.species)
+            .map(alert => ({ ...alert, petName: pet.name }))
+        );
+        const petsWithoutWeights = scopedPets.filter(pet =>
+          getSeries((vitalsData || []).filter(v => v.pet_id === pet.id), 'weight').length < 2
+        );
 
         // Generate recommendations
-        const recommendations = [];
+        const recommendations = vitalAlerts.map(alert =>
+          scopedPets.length > 1 ? `${alert.petName}: ${alert.message}` : alert.message
+        );
         if (!lastCheckup || new Date().getTime() - new Date(lastCheckup).getTime() > 365 * 24 * 60 * 60 * 1000) {
           recommendations.push('Schedule an annual checkup');
         }
-        if (upcomingVaccinations === 0) {
+        if (overdueVaccinations > 0) {
+          recommendations.push(`${overdueVaccinations} vaccination${overdueVaccinations === 1 ? ' is' : 's are'} overdue`);
+        } else if (vaccineStatuses.length === 0) {
           recommendations.push('Check vaccination schedule');
         }
         if (totalRecords < 3) {
           recommendations.push('Keep detailed health records');
         }
+        if (petsWithoutWeights.length > 0) {
+          recommendations.push('Log weight regularly to track trends');
+        }
 
         // Calculate cost trend (simplified)
         const recentCosts = records.slice(0, 5).map(r => r.cost || 0);
@@ -156,7 +194,8 @@ const HealthInsights: React.FC<HealthInsightsProps> = ({ selectedPetId }) => {
           lastCheckup,
           upcomingVaccinations,
           mostCommonType,
-          healthScore: Math.min(100, healthScore),
+          healthScore: healthScore.score,
+          scoreFactors: healthScore.factors,
           recommendations,
           costTrend,
           recentActivity
@@ -263,6 +302,45 @@ const HealthInsights: React.FC<HealthInsightsProps> = ({ selectedPetId }) => {
         </motion.div>
       </div>
 
+      {/* Health Score Breakdown */}
+      {insights.scoreFactors.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.35 }}
+          className="bg-white rounded-lg shadow-md p-6"
+        >
+          <div className="flex items-center space-x-3 mb-4">
+            <div className="p-2 bg-yellow-100 rounded-full">
+              <Award className="h-5 w-5 text-yellow-600" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-900">How the Health Score is Calculated</h3>
+          </div>
+          <div className="space-y-4">
+            {insights.scoreFactors.map(factor => {
+              const ratio = factor.points / factor.maxPoints;
+              return (
+                <div key={factor.id}>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="font-medium text-gray-900">{factor.label}</span>
+                    <span className="text-gray-600">{factor.points}/{factor.maxPoints}</span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className={`h-2 rounded-full transition-all duration-500 ${
+                        ratio >= 0.8 ? 'bg-green-500' : ratio >= 0.5 ? 'bg-yellow-500' : 'bg-red-500'
+                      }`}
+                      style={{ width: `${ratio * 100}%` }}
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">{factor.detail}</p>
+                </div>
+              );
+            })}
+          </div>
+        </motion.div>
+      )}
+
       {/* Health Recommendations */}
       {insights.recommendations.length > 0 && (
         <motion.div
@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../lib/auth';
+import { supabase, Pet } from '../../lib/supabase';
+import { telemetry } from '../../lib/telemetry';
+import { VITAL_METRICS } from '../../lib/vitals';
+import { X, Activity } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import toast from 'react-hot-toast';
+
+interface LogVitalsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+  pet: Pet;
+}
+
+const emptyForm = () => ({
+  recorded_at: new Date().toISOString().split('T')[0],
+  weight: '',
+  body_condition_score: '',
+  temperature: '',
+  heart_rate: '',
+  notes: ''
+});
+
+const LogVitalsModal: React.FC<LogVitalsModalProps> = ({ isOpen, onClose, onSaved, pet }) => {
+  const { profile } = useAuth();
+  const [formData, setFormData] = useState(emptyForm);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleClose = () => {
+    setFormData(emptyForm());
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile) return;
+
+    if (!formData.weight && !formData.body_condition_score && !formData.temperature && !formData.heart_rate) {
+      toast.error('Enter at least one reading');
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const { error } = await supabase
+        .from('pet_vitals')
+        .insert({
+          pet_id: pet.id,
+          recorded_at: formData.recorded_at,
+          weight: formData.weight ? parseFloat(formData.weight) : null,
+          body_condition_score: formData.body_condition_score ? parseInt(formData.body_condition_score) : null,
+          temperature: formData.temperature ? parseFloat(formData.temperature) : null,
+          heart_rate: formData.heart_rate ? parseInt(formData.heart_rate) : null,
+          notes: formData.notes || null,
+          recorded_by: profile.id
+        });
+
+      if (error) {
+        toast.error('Failed to save vitals');
+        console.error('Error saving vitals:', error);
+      } else {
+        telemetry.health.vitals({ pet_id: pet.id });
+        toast.success('Vitals logged!');
+        handleClose();
+        onSaved();
+      }
+    } catch (error) {
+      console.error('Error saving vitals:', error);
+      toast.error('Failed to save vitals');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex items-center justify-center min-h-full p-4">
+            {/* Backdrop */}
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={handleClose}
+              className="fixed inset-0 bg-black bg-opacity-50"
+            />
+
+            {/* Modal */}
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              className="relative bg-white rounded-lg shadow-xl max-w-md w-full mx-4"
+            >
+              {/* Header */}
+              <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                <div className="flex items-center space-x-2">
+                  <Activity className="h-5 w-5 text-blue-600" />
+                  <h2 className="text-xl font-semibold text-gray-900">Log Vitals for {pet.name}</h2>
+                </div>
+                <button
+                  onClick={handleClose}
+                  className="text-gray-400 hover:text-gray-600 transition-colors"
+                >
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+
+              {/* Form */}
+              <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+                  <input
+                    type="date"
+                    required
+                    max={new Date().toISOString().split('T')[0]}
+                    value={formData.recorded_at}
+                    onChange={(e) => setFormData(prev => ({ ...prev, recorded_at: e.target.value }))}
+                    className={inputClass}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {VITAL_METRICS.weight.label} ({VITAL_METRICS.weight.unit})
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step={VITAL_METRICS.weight.step}
+                      value={formData.weight}
+                      onChange={(e) => setFormData(prev => ({ ...prev, weight: e.target.value }))}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {VITAL_METRICS.body_condition_score.shortLabel} (1–9)
+                    </label>
+                    <select
+                      value={formData.body_condition_score}
+                      onChange={(e) => setFormData(prev => ({ ...prev, body_condition_score: e.target.value }))}
+                      className={inputClass}
+                    >
+                      <option value="">—</option>
+                      {[1, 2, 3, 4, 5, 6, 7, 8, 9].map(score => (
+                        <option key={score} value={score}>
+                          {score}{score === 1 ? ' (emaciated)' : score === 5 ? ' (ideal)' : score === 9 ? ' (obese)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {VITAL_METRICS.temperature.label} ({VITAL_METRICS.temperature.unit})
+                    </label>
+                    <input
+                      type="number"
+                      min="80"
+                      max="115"
+                      step={VITAL_METRICS.temperature.step}
+                      value={formData.temperature}
+                      onChange={(e) => setFormData(prev => ({ ...prev, temperature: e.target.value }))}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {VITAL_METRICS.heart_rate.label} ({VITAL_METRICS.heart_rate.unit})
+                    </label>
+                    <input
+                      type="number"
+                      min="10"
+                      max="400"
+                      step={VITAL_METRICS.heart_rate.step}
+                      value={formData.heart_rate}
+                      onChange={(e) => setFormData(prev => ({ ...prev, heart_rate: e.target.value }))}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                  <input
+                    type="text"
+                    value={formData.notes}
+                    onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                    className={inputClass}
+                    placeholder="e.g., Weighed at the vet"
+                  />
+                </div>
+
+                <div className="flex space-x-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={handleClose}
+                    className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={submitting}
+                    className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {submitting ? 'Saving...' : 'Save Vitals'}
+                  </button>
+                </div>
+              </form>
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default LogVitalsModal;
@@ -1,35 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../lib/auth';
-import { supabase, Pet } from '../../lib/supabase';
+import { supabase, Pet, Medication, MedicationDose } from '../../lib/supabase';
+import {
+  DEFAULT_DOSE_TIMES, getDoseTimes, getLocalTimeZone, isValidTimeZone, getNextDose,
+  getTodaysDoses, countMissedDoses, resolveDoseStatus, type ScheduledDose
+} from '../../lib/medicationSchedule';
+import { telemetry } from '../../lib/telemetry';
 import { 
-  Pill, Plus, Clock, Calendar, AlertTriangle, 
-  Check, X, Bell, Repeat, Edit, Trash2
+  Pill, Plus, Clock, AlertTriangle, Check, X, SkipForward
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
 import PetSelector from '../Pets/PetSelector';
 
-interface Medication {
-  id: string;
-  pet_id: string;
-  name: string;
-  dosage: string;
-  frequency: string;
-  start_date: string;
-  end_date?: string;
-  instructions?: string;
-  is_active: boolean;
-  next_dose?: string;
-  created_at: string;
-  pets: {
-    name: string;
-    species: string;
-  };
-}
-
 const MedicationTracker: React.FC = () => {
   const { profile } = useAuth();
   const [medications, setMedications] = useState<Medication[]>([]);
+  const [doses, setDoses] = useState<MedicationDose[]>([]);
   const [pets, setPets] = useState<Pet[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddModal, setShowAddModal] = useState(false);
@@ -37,12 +24,18 @@ const MedicationTracker: React.FC = () => {
     pet_id: '',
     name: '',
     dosage: '',
-    frequency: 'daily',
+    frequency: 'daily' as Medication['frequency'],
+    dose_times: DEFAULT_DOSE_TIMES.daily,
+    timezone: getLocalTimeZone(),
     start_date: new Date().toISOString().split('T')[0],
     end_date: '',
     instructions: ''
   });
   const [submitting, setSubmitting] = useState(false);
+  const [loggingDose, setLoggingDose] = useState<string | null>(null);
+  // Zone picks for backfilled medications, keyed by medication id
+  const [zoneDrafts, setZoneDrafts] = useState<Record<string, string>>({});
+  const [confirmingZone, setConfirmingZone] = useState<string | null>(null);
 
   const frequencyOptions = [
     { value: 'daily', label: 'Daily' },
@@ -71,38 +64,37 @@ const MedicationTracker: React.FC = () => {
 
       setPets(petsData || []);
 
-      // Load medications (stored as health records with type 'medication')
-      const { data: medicationsData } = await supabase
-        .from('health_records')
+      // Load medication schedules
+      const { data: medicationsData, error: medicationsError } = await supabase
+        .from('medications')
         .select(`
-          id,
-          pet_id,
-          title,
-          description,
-          date,
-          created_at,
+          *,
           pets!inner(name, species, owner_id)
         `)
         .eq('pets.owner_id', profile.id)
-        .eq('type', 'medication')
-        .order('date', { ascending: false });
-
-      if (medicationsData) {
-        // Transform to medication format
-        const transformedMedications = medicationsData.map(record => ({
-          id: record.id,
-          pet_id: record.pet_id,
-          name: record.title,
-          dosage: 'As prescribed', // Simplified
-          frequency: 'daily',
-          start_date: record.date,
-          instructions: record.description,
-          is_active: new Date(record.date) <= new Date(),
-          created_at: record.created_at,
-          pets: record.pets
-        }));
-        
-        setMedications(transformedMedications);
+        .order('is_active', { ascending: false })
+        .order('start_date', { ascending: false });
+
+      if (medicationsError) {
+        console.error('Error loading medications:', medicationsError);
+        return;
+      }
+
+      setMedications(medicationsData || []);
+
+      // Load the last week of dose logs for missed-dose tracking
+      const medicationIds = (medicationsData || []).map(m => m.id);
+      if (medicationIds.length > 0) {
+        const since = new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString();
+        const { data: dosesData } = await supabase
+          .from('medication_doses')
+          .select('*')
+          .in('medication_id', medicationIds)
+          .gte('scheduled_for', since);
+
+        setDoses(dosesData || []);
+      } else {
+        setDoses([]);
       }
     } catch (error) {
       console.error('Error loading medications:', error);
@@ -111,6 +103,21 @@ const MedicationTracker: React.FC = () => {
     }
   };
 
+  const handleFrequencyChange = (frequency: Medication['frequency']) => {
+    setMedicationData(prev => ({
+      ...prev,
+      frequency,
+      dose_times: DEFAULT_DOSE_TIMES[frequency]
+    }));
+  };
+
+  const handleDoseTimeChange = (index: number, value: string) => {
+    setMedicationData(prev => ({
+      ...prev,
+      dose_times: prev.dose_times.map((time, i) => (i === index ? value : time))
+    }));
+  };
+
   const handleAddMedication = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!profile) return;
@@ -120,24 +127,31 @@ const MedicationTracker: React.FC = () => {
       return;
     }
 
+    if (!isValidTimeZone(medicationData.timezone)) {
+      toast.error('Please enter a valid time zone, e.g. America/New_York');
+      return;
+    }
+
+    if (medicationData.end_date && medicationData.end_date < medicationData.start_date) {
+      toast.error('End date must be after the start date');
+      return;
+    }
+
     setSubmitting(true);
 
     try {
-      const description = [
-        `Dosage: ${medicationData.dosage}`,
-        `Frequency: ${medicationData.frequency}`,
-        medicationData.end_date && `End date: ${medicationData.end_date}`,
-        medicationData.instructions && `Instructions: ${medicationData.instructions}`
-      ].filter(Boolean).join('\n');
-
       const { error } = await supabase
-        .from('health_records')
+        .from('medications')
         .insert({
           pet_id: medicationData.pet_id,
-          type: 'medication',
-          title: medicationData.name,
-          description,
-          date: medicationData.start_date
+          name: medicationData.name.trim(),
+          dosage: medicationData.dosage.trim(),
+          frequency: medicationData.frequency,
+          dose_times: medicationData.dose_times.filter(Boolean),
+          timezone: medicationData.timezone,
+          start_date: medicationData.start_date,
+          end_date: medicationData.end_date || null,
+          instructions: medicationData.instructions.trim() || null
         });
 
       if (error) {
@@ -145,6 +159,7 @@ const MedicationTracker: React.FC = () => {
         console.error('Error adding medication:', error);
       } else {
         toast.success('Medication added!');
+        telemetry.health.record({ type: 'medication', frequency: medicationData.frequency });
         setShowAddModal(false);
         resetForm();
         loadData();
@@ -163,6 +178,8 @@ const MedicationTracker: React.FC = () => {
       name: '',
       dosage: '',
       frequency: 'daily',
+      dose_times: DEFAULT_DOSE_TIMES.daily,
+      timezone: getLocalTimeZone(),
       start_date: new Date().toISOString().split('T')[0],
       end_date: '',
       instructions: ''
@@ -175,10 +192,8 @@ const MedicationTracker: React.FC = () => {
       const statusNote = newStatus ? 'Resumed' : 'Discontinued';
       
       const { error } = await supabase
-        .from('health_records')
-        .update({
-          description: `${medication.instructions || ''}\n\n${statusNote} on ${new Date().toLocaleDateString()}`
-        })
+        .from('medications')
+        .update({ is_active: newStatus })
         .eq('id', medication.id);
 
       if (error) {
@@ -194,6 +209,88 @@ const MedicationTracker: React.FC = () => {
     }
   };
 
+  const confirmTimeZone = async (medication: Medication) => {
+    const timezone = (zoneDrafts[medication.id] ?? getLocalTimeZone()).trim();
+    if (!isValidTimeZone(timezone)) {
+      toast.error('Please enter a valid time zone, e.g. America/New_York');
+      return;
+    }
+
+    setConfirmingZone(medication.id);
+
+    try {
+      const { error } = await supabase
+        .from('medications')
+        .update({ timezone })
+        .eq('id', medication.id);
+
+      if (error) {
+        toast.error('Failed to save time zone');
+        console.error('Error saving medication time zone:', error);
+      } else {
+        toast.success('Dose reminders scheduled');
+        loadData();
+      }
+    } catch (error) {
+      console.error('Error saving medication time zone:', error);
+      toast.error('Failed to save time zone');
+    } finally {
+      setConfirmingZone(null);
+    }
+  };
+
+  const logDose = async (medication: Medication, scheduled: ScheduledDose, action: 'given' | 'skipped') => {
+    if (!profile) return;
+
+    const key = `${medication.id}:${scheduled.scheduledFor.toISOString()}`;
+    setLoggingDose(key);
+
+    try {
+      const status = resolveDoseStatus(scheduled.scheduledFor, action);
+      const { error } = await supabase
+        .from('medication_doses')
+        .upsert({
+          medication_id: medication.id,
+          scheduled_for: scheduled.scheduledFor.toISOString(),
+          status,
+          logged_at: new Date().toISOString(),
+          logged_by: profile.id
+        }, { onConflict: 'medication_id,scheduled_for' });
+
+      if (error) {
+        toast.error('Failed to log dose');
+        console.error('Error logging dose:', error);
+      } else {
+        toast.success(status === 'skipped' ? 'Dose skipped' : status === 'late' ? 'Dose logged as late' : 'Dose logged');
+        telemetry.health.dose({ medication_id: medication.id, status });
+        loadData();
+      }
+    } catch (error) {
+      console.error('Error logging dose:', error);
+      toast.error('Failed to log dose');
+    } finally {
+      setLoggingDose(null);
+    }
+  };
+
+  const getDoseChipClass = (state: ScheduledDose['state']) => {
+    switch (state) {
+      case 'given': return 'bg-green-100 text-green-800';
+      case 'late': return 'bg-yellow-100 text-yellow-800';
+      case 'skipped': return 'bg-gray-100 text-gray-600';
+      case 'missed': return 'bg-red-100 text-red-800';
+      case 'due': return 'bg-blue-100 text-blue-800';
+      default: return 'bg-gray-50 text-gray-600';
+    }
+  };
+
+  const formatDoseTime = (date: Date, timeZone: string | null) =>
+    date.toLocaleTimeString([], {
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : undefined
+    });
+
   if (loading) {
     return (
       <div className="space-y-4">
@@ -227,60 +324,157 @@ const MedicationTracker: React.FC = () => {
       {/* Medications List */}
       {medications.length > 0 ? (
         <div className="space-y-4">
-          {medications.map((medication, index) => (
-            <motion.div
-              key={medication.id}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: index * 0.1 }}
-              className="bg-white rounded-lg shadow-md p-4"
-            >
-              <div className="flex items-center justify-between">
-                <div className="flex items-center space-x-4">
-                  <div className={`p-3 rounded-full ${
-                    medication.is_active ? 'bg-green-100 text-green-600' : 'bg-gray-100 text-gray-600'
-                  }`}>
-                    <Pill className="h-5 w-5" />
-                  </div>
-                  <div>
-                    <h3 className="font-semibold text-gray-900">{medication.name}</h3>
-                    <p className="text-sm text-gray-600">{medication.pets.name}</p>
-                    <div className="flex items-center space-x-4 text-sm text-gray-500">
-                      <span>{medication.dosage}</span>
-                      <span>•</span>
-                      <span className="capitalize">{medication.frequency.replace('_', ' ')}</span>
-                      <span>•</span>
-                      <span>Started {new Date(medication.start_date).toLocaleDateString()}</span>
+          {medications.map((medication, index) => {
+            const todaysDoses = medication.is_active ? getTodaysDoses(medication, doses) : [];
+            const missedCount = medication.is_active ? countMissedDoses(medication, doses) : 0;
+            const nextDose = medication.is_active ? getNextDose(medication) : null;
+
+            return (
+              <motion.div
+                key={medication.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.1 }}
+                className="bg-white rounded-lg shadow-md p-4"
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-4">
+                    <div className={`p-3 rounded-full ${
+                      medication.is_active ? 'bg-green-100 text-green-600' : 'bg-gray-100 text-gray-600'
+                    }`}>
+                      <Pill className="h-5 w-5" />
+                    </div>
+                    <div>
+                      <h3 className="font-semibold text-gray-900">{medication.name}</h3>
+                      <p className="text-sm text-gray-600">{medication.pets?.name}</p>
+                      <div className="flex items-center space-x-4 text-sm text-gray-500">
+                        <span>{medication.dosage || 'As prescribed'}</span>
+                        <span>•</span>
+                        <span className="capitalize">{medication.frequency.replace(/_/g, ' ')}</span>
+                        <span>•</span>
+                        <span>Started {new Date(medication.start_date).toLocaleDateString()}</span>
+                        {medication.end_date && (
+                          <>
+                            <span>•</span>
+                            <span>Ends {new Date(medication.end_date).toLocaleDateString()}</span>
+                          </>
+                        )}
+                      </div>
                     </div>
                   </div>
+                  
+                  <div className="flex items-center space-x-2">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                      medication.is_active 
+                        ? 'bg-green-100 text-green-800' 
+                        : 'bg-gray-100 text-gray-800'
+                    }`}>
+                      {medication.is_active ? 'Active' : 'Inactive'}
+                    </span>
+                    <button
+                      onClick={() => toggleMedicationStatus(medication)}
+                      className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                        medication.is_active
+                          ? 'bg-red-100 text-red-700 hover:bg-red-200'
+                          : 'bg-green-100 text-green-700 hover:bg-green-200'
+                      }`}
+                    >
+                      {medication.is_active ? 'Discontinue' : 'Resume'}
+                    </button>
+                  </div>
                 </div>
                 
-                <div className="flex items-center space-x-2">
-                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                    medication.is_active 
-                      ? 'bg-green-100 text-green-800' 
-                      : 'bg-gray-100 text-gray-800'
-                  }`}>
-                    {medication.is_active ? 'Active' : 'Inactive'}
-                  </span>
-                  <button
-                    onClick={() => toggleMedicationStatus(medication)}
-                    className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
-                      medication.is_active
-                        ? 'bg-red-100 text-red-700 hover:bg-red-200'
-                        : 'bg-green-100 text-green-700 hover:bg-green-200'
-                    }`}
-                  >
-                    {medication.is_active ? 'Discontinue' : 'Resume'}
-                  </button>
-                </div>
-              </div>
-              
-              {medication.instructions && (
-                <p className="text-sm text-gray-700 mt-3 ml-16">{medication.instructions}</p>
-              )}
-            </motion.div>
-          ))}
+                {medication.instructions && (
+                  <p className="text-sm text-gray-700 mt-3 ml-16">{medication.instructions}</p>
+                )}
+
+                {medication.is_active && !medication.timezone && medication.frequency !== 'as_needed' && (
+                  <div className="mt-3 ml-16 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                    <p className="text-sm text-yellow-800 mb-2">
+                      This medication was added before dose times had a time zone. Confirm the zone its
+                      {' '}{getDoseTimes(medication).join(', ')} doses are in to get reminders.
+                    </p>
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="text"
+                        value={zoneDrafts[medication.id] ?? getLocalTimeZone()}
+                        onChange={(e) => setZoneDrafts(prev => ({ ...prev, [medication.id]: e.target.value }))}
+                        className="flex-1 px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        placeholder="e.g., America/New_York"
+                      />
+                      <button
+                        onClick={() => confirmTimeZone(medication)}
+                        disabled={confirmingZone === medication.id}
+                        className="px-3 py-1 rounded text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                      >
+                        Confirm
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {medication.is_active && (missedCount > 0 || nextDose) && (
+                  <div className="flex items-center space-x-4 text-sm mt-3 ml-16">
+                    {nextDose && (
+                      <span className="flex items-center text-gray-600">
+                        <Clock className="h-4 w-4 mr-1" />
+                        Next dose {nextDose.toLocaleDateString()} at {formatDoseTime(nextDose, medication.timezone)}
+                      </span>
+                    )}
+                    {missedCount > 0 && (
+                      <span className="flex items-center text-red-600 font-medium">
+                        <AlertTriangle className="h-4 w-4 mr-1" />
+                        {missedCount} missed {missedCount === 1 ? 'dose' : 'doses'} this week
+                      </span>
+                    )}
+                  </div>
+                )}
+
+                {todaysDoses.length > 0 && (
+                  <div className="mt-3 ml-16 space-y-2">
+                    <p className="text-xs font-medium text-gray-500 uppercase">Today</p>
+                    {todaysDoses.map((scheduled) => {
+                      const key = `${medication.id}:${scheduled.scheduledFor.toISOString()}`;
+                      const isLogged = !!scheduled.dose;
+
+                      return (
+                        <div key={key} className="flex items-center justify-between">
+                          <div className="flex items-center space-x-2">
+                            <span className="text-sm text-gray-900 w-20">
+                              {formatDoseTime(scheduled.scheduledFor, medication.timezone)}
+                            </span>
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${getDoseChipClass(scheduled.state)}`}>
+                              {scheduled.state}
+                            </span>
+                          </div>
+                          {!isLogged && scheduled.state !== 'upcoming' && (
+                            <div className="flex items-center space-x-2">
+                              <button
+                                onClick={() => logDose(medication, scheduled, 'given')}
+                                disabled={loggingDose === key}
+                                className="px-2 py-1 rounded text-xs font-medium bg-green-100 text-green-700 hover:bg-green-200 disabled:opacity-50 transition-colors flex items-center space-x-1"
+                              >
+                                <Check className="h-3 w-3" />
+                                <span>Given</span>
+                              </button>
+                              <button
+                                onClick={() => logDose(medication, scheduled, 'skipped')}
+                                disabled={loggingDose === key}
+                                className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 transition-colors flex items-center space-x-1"
+                              >
+                                <SkipForward className="h-3 w-3" />
+                                <span>Skip</span>
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </motion.div>
+            );
+          })}
         </div>
       ) : (
         <div className="text-center py-12">
@@ -381,7 +575,7 @@ const MedicationTracker: React.FC = () => {
                       <select
                         required
                         value={medicationData.frequency}
-                        onChange={(e) => setMedicationData(prev => ({ ...prev, frequency: e.target.value }))}
+                        onChange={(e) => handleFrequencyChange(e.target.value as Medication['frequency'])}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                       >
                         {frequencyOptions.map(option => (
@@ -391,6 +585,40 @@ const MedicationTracker: React.FC = () => {
                     </div>
                   </div>
 
+                  {medicationData.dose_times.length > 0 && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Dose Times
+                      </label>
+                      <div className="grid grid-cols-3 gap-2">
+                        {medicationData.dose_times.map((time, index) => (
+                          <input
+                            key={index}
+                            type="time"
+                            required
+                            value={time}
+                            onChange={(e) => handleDoseTimeChange(index, e.target.value)}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Time Zone
+                    </label>
+                    <input
+                      type="text"
+                      value={medicationData.timezone}
+                      onChange={(e) => setMedicationData(prev => ({ ...prev, timezone: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="e.g., America/New_York"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Dose times are in this time zone, even when travelling</p>
+                  </div>
+
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">
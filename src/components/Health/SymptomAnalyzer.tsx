@@ -1,21 +1,24 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../lib/auth';
-import { supabase } from '../../lib/supabase';
-import { getHealthTip } from '../../lib/ai';
+import { supabase, Pet } from '../../lib/supabase';
+import { RedFlag, RED_FLAG_SYMPTOMS, detectRedFlags } from '../../lib/emergencyTriage';
+import { telemetry } from '../../lib/telemetry';
+import { localDateInZone, getLocalTimeZone } from '../../lib/medicationSchedule';
+import type { SymptomAnalysis } from '../../lib/symptoms';
 import { 
   Stethoscope, AlertTriangle, Brain, Thermometer, 
   Heart, Activity, Clock, X, Send, Loader
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
+import EmergencyTriage from './EmergencyTriage';
 
 const ENABLE_AI = import.meta.env.VITE_ENABLE_AI === 'true';
 
 interface SymptomAnalyzerProps {
-  petId: string;
-  petName: string;
-  petSpecies: string;
-  onAnalysisComplete?: (analysis: any) => void;
+  pet: Pet;
+  /** Called once a record is saved; emergency records have no analysis. */
+  onAnalysisComplete?: (analysis?: SymptomAnalysis & { health_record_id: string }) => void;
 }
 
 interface SymptomData {
@@ -29,14 +32,13 @@ interface SymptomData {
 }
 
 const SymptomAnalyzer: React.FC<SymptomAnalyzerProps> = ({
-  petId,
-  petName,
-  petSpecies,
+  pet,
   onAnalysisComplete
 }) => {
   const { profile } = useAuth();
   const [isOpen, setIsOpen] = useState(false);
   const [analyzing, setAnalyzing] = useState(false);
+  const [redFlags, setRedFlags] = useState<RedFlag[] | null>(null);
   const [symptomData, setSymptomData] = useState<SymptomData>({
     symptoms: [],
     duration: '',
@@ -51,7 +53,8 @@ const SymptomAnalyzer: React.FC<SymptomAnalyzerProps> = ({
     'Vomiting', 'Diarrhea', 'Loss of appetite', 'Lethargy', 'Coughing',
     'Sneezing', 'Limping', 'Excessive drinking', 'Excessive urination',
     'Difficulty breathing', 'Skin irritation', 'Hair loss', 'Bad breath',
-    'Excessive scratching', 'Hiding behavior', 'Aggression', 'Restlessness'
+    'Excessive scratching', 'Hiding behavior', 'Aggression', 'Restlessness',
+    ...RED_FLAG_SYMPTOMS
   ];
 
   const toggleSymptom = (symptom: string) => {
@@ -69,61 +72,35 @@ const SymptomAnalyzer: React.FC<SymptomAnalyzerProps> = ({
       return;
     }
 
+    // Red flags skip the analysis entirely and go straight to the emergency screen
+    const flags = detectRedFlags(pet, symptomData);
+    if (flags.length > 0) {
+      setRedFlags(flags);
+      telemetry.health.emergency({ pet_id: pet.id, species: pet.species, red_flags: flags.map(f => f.id) });
+      return;
+    }
+
     setAnalyzing(true);
 
     try {
-      let analysisData;
-
-      if (ENABLE_AI) {
-        // Use OpenAI for real analysis
-        const symptomsText = `${petSpecies} named ${petName} showing: ${symptomData.symptoms.join(', ')}. Duration: ${symptomData.duration}. Severity: ${symptomData.severity}. Additional notes: ${symptomData.additional_notes}`;
-        const aiTip = await getHealthTip(symptomsText);
-        
-        analysisData = {
-          analysis_type: 'ai_generated',
-          urgency_level: symptomData.severity === 'severe' ? 'high' : symptomData.severity === 'moderate' ? 'medium' : 'low',
-          recommendations: [aiTip || 'Monitor your pet and consult a veterinarian if symptoms persist'],
-          when_to_see_vet: symptomData.severity === 'severe' 
-            ? 'Seek immediate veterinary attention'
-            : 'Monitor for 24-48 hours, contact vet if symptoms worsen',
-          disclaimer: 'This AI analysis is for informational purposes only. Always consult with a qualified veterinarian.',
-          generated_at: new Date().toISOString()
-        };
-      } else {
-        // Mock analysis for demo
-        analysisData = {
-          analysis_type: 'mock',
-          urgency_level: symptomData.severity === 'severe' ? 'high' : symptomData.severity === 'moderate' ? 'medium' : 'low',
-          recommendations: [
-            'Monitor your pet closely for any changes',
-            'Ensure your pet stays hydrated',
-            'Contact your veterinarian if symptoms worsen'
-          ],
-          when_to_see_vet: 'Schedule a veterinary appointment to discuss these symptoms',
-          disclaimer: 'This is a demo analysis. Always consult with a qualified veterinarian.',
-          generated_at: new Date().toISOString()
-        };
-      }
-
-      // Save analysis to health records
-      const { error: recordError } = await supabase
-        .from('health_records')
-        .insert({
-          pet_id: petId,
-          type: 'symptom',
-          title: `Symptom Analysis - ${new Date().toLocaleDateString()}`,
-          description: `Symptoms: ${symptomData.symptoms.join(', ')}`,
-          date: new Date().toISOString().split('T')[0],
-          symptom_analysis: analysisData
-        });
+      // The function runs the analysis and saves it as a symptom record
+      const { data: analysisData, error } = await supabase.functions.invoke('analyze-symptoms', {
+        body: {
+          pet_id: pet.id,
+          pet_name: pet.name,
+          pet_species: pet.species,
+          ...symptomData,
+          recorded_on: localDateInZone(new Date(), getLocalTimeZone())
+        }
+      });
 
-      if (recordError) {
-        console.error('Error saving analysis:', recordError);
+      if (error || !analysisData?.health_record_id) {
+        console.error('Error saving analysis:', error);
         toast.error('Failed to save analysis');
         return;
       }
 
-      toast.success(ENABLE_AI ? 'AI analysis completed and saved!' : 'Symptom analysis saved!');
+      toast.success(analysisData.analysis_type === 'ai_generated' ? 'AI analysis completed and saved!' : 'Symptom analysis saved!');
       setIsOpen(false);
       resetForm();
       
@@ -138,6 +115,11 @@ const SymptomAnalyzer: React.FC<SymptomAnalyzerProps> = ({
     }
   };
 
+  const closeModal = () => {
+    setIsOpen(false);
+    setRedFlags(null);
+  };
+
   const resetForm = () => {
     setSymptomData({
       symptoms: [],
@@ -150,6 +132,8 @@ const SymptomAnalyzer: React.FC<SymptomAnalyzerProps> = ({
     });
   };
 
+  const hasRedFlags = detectRedFlags(pet, symptomData).length > 0;
+
   return (
     <>
       <button
@@ -169,7 +153,7 @@ const SymptomAnalyzer: React.FC<SymptomAnalyzerProps> = ({
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
                 exit={{ opacity: 0 }}
-                onClick={() => setIsOpen(false)}
+                onClick={closeModal}
                 className="fixed inset-0 bg-black bg-opacity-50"
               />
 
@@ -188,11 +172,11 @@ const SymptomAnalyzer: React.FC<SymptomAnalyzerProps> = ({
                     </div>
                     <div>
                       <h2 className="text-xl font-semibold text-gray-900">AI Symptom Analyzer</h2>
-                      <p className="text-sm text-gray-600">for {petName}</p>
+                      <p className="text-sm text-gray-600">for {pet.name}</p>
                     </div>
                   </div>
                   <button
-                    onClick={() => setIsOpen(false)}
+                    onClick={closeModal}
                     className="text-gray-400 hover:text-gray-600 transition-colors"
                   >
                     <X className="h-6 w-6" />
@@ -200,171 +184,184 @@ const SymptomAnalyzer: React.FC<SymptomAnalyzerProps> = ({
                 </div>
 
                 {/* Content */}
-                <div className="p-6 space-y-6">
-                  {/* Disclaimer */}
-                  <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-                    <div className="flex items-start space-x-2">
-                      <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
-                      <div className="text-sm text-yellow-800">
-                        <p className="font-medium mb-1">Important Disclaimer</p>
-                        <p>This AI analysis is for informational purposes only and should not replace professional veterinary care. Always consult with a qualified veterinarian for proper diagnosis and treatment.</p>
+                {redFlags ? (
+                  <EmergencyTriage
+                    pet={pet}
+                    flags={redFlags}
+                    input={symptomData}
+                    onBack={() => setRedFlags(null)}
+                    onSaved={() => {
+                      resetForm();
+                      onAnalysisComplete?.();
+                    }}
+                  />
+                ) : (
+                  <div className="p-6 space-y-6">
+                    {/* Disclaimer */}
+                    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                      <div className="flex items-start space-x-2">
+                        <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
+                        <div className="text-sm text-yellow-800">
+                          <p className="font-medium mb-1">Important Disclaimer</p>
+                          <p>This AI analysis is for informational purposes only and should not replace professional veterinary care. Always consult with a qualified veterinarian for proper diagnosis and treatment.</p>
+                        </div>
                       </div>
                     </div>
-                  </div>
 
-                  {/* Symptoms Selection */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-3">
-                      What symptoms have you observed? *
-                    </label>
-                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
-                      {commonSymptoms.map((symptom) => (
-                        <button
-                          key={symptom}
-                          type="button"
-                          onClick={() => toggleSymptom(symptom)}
-                          className={`p-2 text-sm rounded-lg border transition-colors ${
-                            symptomData.symptoms.includes(symptom)
-                              ? 'border-purple-600 bg-purple-50 text-purple-700'
-                              : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
-                          }`}
+                    {/* Symptoms Selection */}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-3">
+                        What symptoms have you observed? *
+                      </label>
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                        {commonSymptoms.map((symptom) => (
+                          <button
+                            key={symptom}
+                            type="button"
+                            onClick={() => toggleSymptom(symptom)}
+                            className={`p-2 text-sm rounded-lg border transition-colors ${
+                              symptomData.symptoms.includes(symptom)
+                                ? 'border-purple-600 bg-purple-50 text-purple-700'
+                                : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
+                            }`}
+                          >
+                            {symptom}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    {/* Duration and Severity */}
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          How long have symptoms been present? *
+                        </label>
+                        <select
+                          value={symptomData.duration}
+                          onChange={(e) => setSymptomData(prev => ({ ...prev, duration: e.target.value }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                          required
+                        >
+                          <option value="">Select duration</option>
+                          <option value="less_than_hour">Less than 1 hour</option>
+                          <option value="few_hours">A few hours</option>
+                          <option value="today">Today</option>
+                          <option value="yesterday">Since yesterday</option>
+                          <option value="few_days">A few days</option>
+                          <option value="week">About a week</option>
+                          <option value="weeks">Several weeks</option>
+                          <option value="month_plus">A month or more</option>
+                        </select>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          Severity Level *
+                        </label>
+                        <select
+                          value={symptomData.severity}
+                          onChange={(e) => setSymptomData(prev => ({ ...prev, severity: e.target.value as any }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                          required
                         >
-                          {symptom}
-                        </button>
-                      ))}
+                          <option value="mild">Mild - Minor discomfort</option>
+                          <option value="moderate">Moderate - Noticeable impact</option>
+                          <option value="severe">Severe - Significant distress</option>
+                        </select>
+                      </div>
                     </div>
-                  </div>
 
-                  {/* Duration and Severity */}
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">
-                        How long have symptoms been present? *
-                      </label>
-                      <select
-                        value={symptomData.duration}
-                        onChange={(e) => setSymptomData(prev => ({ ...prev, duration: e.target.value }))}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
-                        required
-                      >
-                        <option value="">Select duration</option>
-                        <option value="less_than_hour">Less than 1 hour</option>
-                        <option value="few_hours">A few hours</option>
-                        <option value="today">Today</option>
-                        <option value="yesterday">Since yesterday</option>
-                        <option value="few_days">A few days</option>
-                        <option value="week">About a week</option>
-                        <option value="weeks">Several weeks</option>
-                        <option value="month_plus">A month or more</option>
-                      </select>
+                    {/* Appetite and Energy */}
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          Appetite Changes
+                        </label>
+                        <select
+                          value={symptomData.appetite}
+                          onChange={(e) => setSymptomData(prev => ({ ...prev, appetite: e.target.value as any }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        >
+                          <option value="normal">Normal appetite</option>
+                          <option value="decreased">Decreased appetite</option>
+                          <option value="increased">Increased appetite</option>
+                          <option value="none">No appetite</option>
+                        </select>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          Energy Level
+                        </label>
+                        <select
+                          value={symptomData.energy}
+                          onChange={(e) => setSymptomData(prev => ({ ...prev, energy: e.target.value as any }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        >
+                          <option value="normal">Normal energy</option>
+                          <option value="decreased">Low energy/lethargic</option>
+                          <option value="increased">Hyperactive/restless</option>
+                        </select>
+                      </div>
                     </div>
 
+                    {/* Behavior Changes */}
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">
-                        Severity Level *
+                        Behavior Changes
                       </label>
-                      <select
-                        value={symptomData.severity}
-                        onChange={(e) => setSymptomData(prev => ({ ...prev, severity: e.target.value as any }))}
+                      <textarea
+                        value={symptomData.behavior_changes}
+                        onChange={(e) => setSymptomData(prev => ({ ...prev, behavior_changes: e.target.value }))}
+                        rows={2}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
-                        required
-                      >
-                        <option value="mild">Mild - Minor discomfort</option>
-                        <option value="moderate">Moderate - Noticeable impact</option>
-                        <option value="severe">Severe - Significant distress</option>
-                      </select>
+                        placeholder="Any unusual behaviors you've noticed..."
+                      />
                     </div>
-                  </div>
 
-                  {/* Appetite and Energy */}
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {/* Additional Notes */}
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">
-                        Appetite Changes
+                        Additional Notes
                       </label>
-                      <select
-                        value={symptomData.appetite}
-                        onChange={(e) => setSymptomData(prev => ({ ...prev, appetite: e.target.value as any }))}
+                      <textarea
+                        value={symptomData.additional_notes}
+                        onChange={(e) => setSymptomData(prev => ({ ...prev, additional_notes: e.target.value }))}
+                        rows={3}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
-                      >
-                        <option value="normal">Normal appetite</option>
-                        <option value="decreased">Decreased appetite</option>
-                        <option value="increased">Increased appetite</option>
-                        <option value="none">No appetite</option>
-                      </select>
+                        placeholder="Any other details that might be relevant..."
+                      />
                     </div>
 
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">
-                        Energy Level
-                      </label>
-                      <select
-                        value={symptomData.energy}
-                        onChange={(e) => setSymptomData(prev => ({ ...prev, energy: e.target.value as any }))}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    {/* Actions */}
+                    <div className="flex space-x-3 pt-4">
+                      <button
+                        onClick={closeModal}
+                        className="flex-1 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
                       >
-                        <option value="normal">Normal energy</option>
-                        <option value="decreased">Low energy/lethargic</option>
-                        <option value="increased">Hyperactive/restless</option>
-                      </select>
+                        Cancel
+                      </button>
+                      <button
+                        onClick={analyzeSymptoms}
+                        disabled={analyzing || symptomData.symptoms.length === 0 || (!symptomData.duration && !hasRedFlags)}
+                        className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
+                      >
+                        {analyzing ? (
+                          <>
+                            <Loader className="h-4 w-4 animate-spin" />
+                            <span>Analyzing...</span>
+                          </>
+                        ) : (
+                          <>
+                            <Brain className="h-4 w-4" />
+                            <span>{ENABLE_AI ? 'AI Analyze' : 'Analyze Symptoms'}</span>
+                          </>
+                        )}
+                      </button>
                     </div>
                   </div>
-
-                  {/* Behavior Changes */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Behavior Changes
-                    </label>
-                    <textarea
-                      value={symptomData.behavior_changes}
-                      onChange={(e) => setSymptomData(prev => ({ ...prev, behavior_changes: e.target.value }))}
-                      rows={2}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
-                      placeholder="Any unusual behaviors you've noticed..."
-                    />
-                  </div>
-
-                  {/* Additional Notes */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Additional Notes
-                    </label>
-                    <textarea
-                      value={symptomData.additional_notes}
-                      onChange={(e) => setSymptomData(prev => ({ ...prev, additional_notes: e.target.value }))}
-                      rows={3}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
-                      placeholder="Any other details that might be relevant..."
-                    />
-                  </div>
-
-                  {/* Actions */}
-                  <div className="flex space-x-3 pt-4">
-                    <button
-                      onClick={() => setIsOpen(false)}
-                      className="flex-1 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
-                    >
-                      Cancel
-                    </button>
-                    <button
-                      onClick={analyzeSymptoms}
-                      disabled={analyzing || symptomData.symptoms.length === 0 || !symptomData.duration}
-                      className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
-                    >
-                      {analyzing ? (
-                        <>
-                          <Loader className="h-4 w-4 animate-spin" />
-                          <span>Analyzing...</span>
-                        </>
-                      ) : (
-                        <>
-                          <Brain className="h-4 w-4" />
-                          <span>{ENABLE_AI ? 'AI Analyze' : 'Analyze Symptoms'}</span>
-                        </>
-                      )}
-                    </button>
-                  </div>
-                </div>
+                )}
               </motion.div>
             </div>
           </div>
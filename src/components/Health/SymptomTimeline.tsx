@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { supabase, Pet, HealthRecord } from '../../lib/supabase';
+import {
+  SymptomOutcome, SymptomUrgency, SYMPTOM_OUTCOMES, URGENCY_LABELS, REPEAT_WINDOW_DAYS,
+  buildSymptomTimeline, describeOutcome
+} from '../../lib/symptoms';
+import { Thermometer, Repeat, Link2, Edit, Check, X, Loader } from 'lucide-react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+
+interface SymptomTimelineProps {
+  pet: Pet;
+  /** All of the pet's health records; follow-ups are picked from these. */
+  records: HealthRecord[];
+  onUpdated: () => void;
+}
+
+const URGENCY_COLORS: Record<SymptomUrgency, string> = {
+  low: 'bg-green-100 text-green-700',
+  medium: 'bg-yellow-100 text-yellow-700',
+  high: 'bg-red-100 text-red-700'
+};
+
+const OUTCOME_COLORS: Record<SymptomOutcome, string> = {
+  monitoring: 'bg-gray-100 text-gray-700',
+  vet_confirmed: 'bg-blue-100 text-blue-700',
+  resolved: 'bg-green-100 text-green-700',
+  worsened: 'bg-red-100 text-red-700'
+};
+
+const SymptomTimeline: React.FC<SymptomTimelineProps> = ({ pet, records, onUpdated }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [outcomeForm, setOutcomeForm] = useState({
+    symptom_outcome: 'monitoring' as SymptomOutcome,
+    outcome_notes: '',
+    follow_up_record_id: ''
+  });
+  const [saving, setSaving] = useState(false);
+
+  // Newest first, but repeats are worked out oldest first
+  const episodes = buildSymptomTimeline(records).reverse();
+
+  const startEditing = (record: HealthRecord) => {
+    setEditingId(record.id);
+    setOutcomeForm({
+      symptom_outcome: record.symptom_outcome || 'monitoring',
+      outcome_notes: record.outcome_notes || '',
+      follow_up_record_id: record.follow_up_record_id || ''
+    });
+  };
+
+  const saveOutcome = async (record: HealthRecord) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('health_records')
+        .update({
+          symptom_outcome: outcomeForm.symptom_outcome,
+          outcome_notes: outcomeForm.outcome_notes.trim() || null,
+          outcome_recorded_at: new Date().toISOString(),
+          follow_up_record_id: outcomeForm.follow_up_record_id || null
+        })
+        .eq('id', record.id);
+
+      if (error) {
+        console.error('Error saving symptom outcome:', error);
+        toast.error('Failed to save outcome');
+        return;
+      }
+
+      toast.success('Outcome saved');
+      setEditingId(null);
+      onUpdated();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (episodes.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <Thermometer className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+        <p className="text-gray-600">No symptoms recorded for {pet.name}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative border-l-2 border-gray-200 ml-3 space-y-6">
+      {episodes.map(({ record, analysis, symptoms, repeats }, index) => {
+        const followUp = records.find(r => r.id === record.follow_up_record_id);
+        const followUpOptions = records.filter(r => r.type !== 'symptom' && r.date >= record.date);
+        const outcome = describeOutcome(record);
+
+        return (
+          <motion.div
+            key={record.id}
+            initial={{ opacity: 0, x: -10 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: index * 0.05 }}
+            className="relative pl-6"
+          >
+            <div className={`absolute -left-[9px] top-1 w-4 h-4 rounded-full border-2 border-white ${
+              analysis?.urgency_level === 'high' ? 'bg-red-500' :
+              analysis?.urgency_level === 'medium' ? 'bg-yellow-500' : 'bg-gray-400'
+            }`} />
+
+            <div className="flex items-start justify-between">
+              <div>
+                <p className="text-xs text-gray-500">{new Date(record.date).toLocaleDateString()}</p>
+                <h4 className="font-medium text-gray-900">{record.title}</h4>
+              </div>
+              {editingId !== record.id && (
+                <button
+                  onClick={() => startEditing(record)}
+                  className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                  title="Update outcome"
+                >
+                  <Edit className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2 mt-2">
+              {analysis && (
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${URGENCY_COLORS[analysis.urgency_level]}`}>
+                  {URGENCY_LABELS[analysis.urgency_level]}
+                </span>
+              )}
+              {record.symptom_outcome && (
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${OUTCOME_COLORS[record.symptom_outcome]}`}>
+                  {SYMPTOM_OUTCOMES[record.symptom_outcome]}
+                </span>
+              )}
+              {repeats.length > 0 && (
+                <span
+                  className="px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-700 flex items-center space-x-1"
+                  title={`Also seen within the previous ${REPEAT_WINDOW_DAYS} days`}
+                >
+                  <Repeat className="h-3 w-3" />
+                  <span>Repeat: {repeats.join(', ')}</span>
+                </span>
+              )}
+            </div>
+
+            {symptoms.length > 0 && (
+              <p className="text-sm text-gray-700 mt-2">{symptoms.join(', ')}</p>
+            )}
+            {analysis?.inputs && (
+              <p className="text-xs text-gray-500 mt-1">
+                Severity {analysis.inputs.severity} · appetite {analysis.inputs.appetite} · energy {analysis.inputs.energy}
+              </p>
+            )}
+            {analysis?.when_to_see_vet && (
+              <p className="text-xs text-gray-600 mt-1">{analysis.when_to_see_vet}</p>
+            )}
+
+            {editingId === record.id ? (
+              <div className="mt-3 p-3 bg-gray-50 rounded-lg space-y-2">
+                <select
+                  value={outcomeForm.symptom_outcome}
+                  onChange={(e) => setOutcomeForm(prev => ({ ...prev, symptom_outcome: e.target.value as SymptomOutcome }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {(Object.keys(SYMPTOM_OUTCOMES) as SymptomOutcome[]).map(value => (
+                    <option key={value} value={value}>{SYMPTOM_OUTCOMES[value]}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={outcomeForm.outcome_notes}
+                  onChange={(e) => setOutcomeForm(prev => ({ ...prev, outcome_notes: e.target.value }))}
+                  placeholder={outcomeForm.symptom_outcome === 'vet_confirmed' ? 'Diagnosis, e.g. ear infection' : 'Notes'}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <select
+                  value={outcomeForm.follow_up_record_id}
+                  onChange={(e) => setOutcomeForm(prev => ({ ...prev, follow_up_record_id: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">No follow-up record</option>
+                  {followUpOptions.map(r => (
+                    <option key={r.id} value={r.id}>
+                      {new Date(r.date).toLocaleDateString()} – {r.title}
+                    </option>
+                  ))}
+                </select>
+                <div className="flex justify-end space-x-2">
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className="px-3 py-1 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors flex items-center space-x-1"
+                  >
+                    <X className="h-3 w-3" />
+                    <span>Cancel</span>
+                  </button>
+                  <button
+                    onClick={() => saveOutcome(record)}
+                    disabled={saving}
+                    className="px-3 py-1 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center space-x-1"
+                  >
+                    {saving ? <Loader className="h-3 w-3 animate-spin" /> : <Check className="h-3 w-3" />}
+                    <span>Save</span>
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <>
+                {outcome && record.symptom_outcome !== 'monitoring' && (
+                  <p className="text-sm text-gray-700 mt-2">{outcome}</p>
+                )}
+                {followUp && (
+                  <p className="text-xs text-blue-600 mt-1 flex items-center space-x-1">
+                    <Link2 className="h-3 w-3" />
+                    <span>Follow-up: {followUp.title} ({new Date(followUp.date).toLocaleDateString()})</span>
+                  </p>
+                )}
+              </>
+            )}
+          </motion.div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SymptomTimeline;
@@ -1,58 +1,35 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../lib/auth';
-import { supabase, Pet } from '../../lib/supabase';
+import { supabase, Pet, HealthRecord } from '../../lib/supabase';
+import {
+  evaluateVaccinations, getProtocolsForSpecies, getCustomVaccinations, daysUntil,
+  type VaccineStatus
+} from '../../lib/vaccineProtocols';
+import { telemetry } from '../../lib/telemetry';
 import { 
-  Shield, Calendar, Bell, Plus, Check, X, 
-  AlertTriangle, Clock, CheckCircle
+  Shield, Calendar, Plus, Check, X, 
+  AlertTriangle, CheckCircle
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
 
-interface VaccinationReminder {
-  id: string;
-  pet_id: string;
-  vaccine_name: string;
-  due_date: string;
-  is_completed: boolean;
-  completed_date?: string;
-  notes?: string;
-  created_at: string;
-  pets: {
-    name: string;
-    species: string;
-  };
-}
+type VaccinationRecord = Pick<HealthRecord, 'id' | 'pet_id' | 'type' | 'title' | 'description' | 'date'>;
 
 const VaccinationReminders: React.FC = () => {
   const { profile } = useAuth();
-  const [reminders, setReminders] = useState<VaccinationReminder[]>([]);
+  const [records, setRecords] = useState<VaccinationRecord[]>([]);
   const [pets, setPets] = useState<Pet[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddModal, setShowAddModal] = useState(false);
   const [reminderData, setReminderData] = useState({
     pet_id: '',
     vaccine_name: '',
+    custom_name: '',
     due_date: '',
     notes: ''
   });
   const [submitting, setSubmitting] = useState(false);
-
-  const commonVaccines = {
-    dog: [
-      'Rabies', 'DHPP (Distemper, Hepatitis, Parvovirus, Parainfluenza)',
-      'Bordetella (Kennel Cough)', 'Lyme Disease', 'Canine Influenza'
-    ],
-    cat: [
-      'Rabies', 'FVRCP (Feline Viral Rhinotracheitis, Calicivirus, Panleukopenia)',
-      'FeLV (Feline Leukemia)', 'FIV (Feline Immunodeficiency Virus)'
-    ],
-    rabbit: [
-      'RHDV (Rabbit Hemorrhagic Disease)', 'Myxomatosis'
-    ],
-    other: [
-      'Species-specific vaccines', 'Annual wellness check'
-    ]
-  };
+  const [recordingKey, setRecordingKey] = useState<string | null>(null);
 
   useEffect(() => {
     if (profile) {
@@ -77,38 +54,27 @@ const VaccinationReminders: React.FC = () => {
         setPets(petsData || []);
       }
 
-      // Load vaccination reminders
-      const { data: remindersData, error: remindersError } = await supabase
+      // Load full vaccination history; past records are doses given,
+      // future-dated ones are booked appointments
+      const { data: recordsData, error: recordsError } = await supabase
         .from('health_records')
         .select(`
           id,
           pet_id,
+          type,
           title,
           date,
           description,
-          created_at,
-          pets!inner(name, species, owner_id)
+          pets!inner(owner_id)
         `)
         .eq('pets.owner_id', profile.id)
         .eq('type', 'vaccination')
-        .gte('date', new Date().toISOString().split('T')[0])
         .order('date', { ascending: true });
 
-      if (remindersError) {
-        console.error('Error loading reminders:', remindersError);
+      if (recordsError) {
+        console.error('Error loading vaccinations:', recordsError);
       } else {
-        // Transform health records to reminder format
-        const transformedReminders = (remindersData || []).map(record => ({
-          id: record.id,
-          pet_id: record.pet_id,
-          vaccine_name: record.title,
-          due_date: record.date,
-          is_completed: false,
-          notes: record.description,
-          created_at: record.created_at,
-          pets: record.pets
-        }));
-        setReminders(transformedReminders);
+        setRecords((recordsData || []) as VaccinationRecord[]);
       }
     } catch (error) {
       console.error('Error loading data:', error);
@@ -121,7 +87,11 @@ const VaccinationReminders: React.FC = () => {
     e.preventDefault();
     if (!profile) return;
 
-    if (!reminderData.pet_id || !reminderData.vaccine_name || !reminderData.due_date) {
+    const vaccineName = reminderData.vaccine_name === 'custom'
+      ? reminderData.custom_name.trim()
+      : reminderData.vaccine_name;
+
+    if (!reminderData.pet_id || !vaccineName || !reminderData.due_date) {
       toast.error('Please fill in all required fields');
       return;
     }
@@ -134,7 +104,7 @@ const VaccinationReminders: React.FC = () => {
         .insert({
           pet_id: reminderData.pet_id,
           type: 'vaccination',
-          title: reminderData.vaccine_name,
+          title: vaccineName,
           description: reminderData.notes || null,
           date: reminderData.due_date
         });
@@ -156,25 +126,43 @@ const VaccinationReminders: React.FC = () => {
     }
   };
 
-  const markCompleted = async (reminder: VaccinationReminder) => {
+  /**
+   * Records a dose given today. A booked (future-dated) appointment for the
+   * same vaccine is moved to today instead of leaving a duplicate behind.
+   */
+  const recordDose = async (pet: Pet, vaccineName: string, bookedRecordId?: string) => {
+    const key = `${pet.id}:${vaccineName}`;
+    setRecordingKey(key);
+
     try {
-      const { error } = await supabase
-        .from('health_records')
-        .update({
-          description: `${reminder.notes || ''}\n\nCompleted on ${new Date().toLocaleDateString()}`
-        })
-        .eq('id', reminder.id);
+      const today = new Date().toISOString().split('T')[0];
+      const { error } = bookedRecordId
+        ? await supabase
+            .from('health_records')
+            .update({ date: today })
+            .eq('id', bookedRecordId)
+        : await supabase
+            .from('health_records')
+            .insert({
+              pet_id: pet.id,
+              type: 'vaccination',
+              title: vaccineName,
+              date: today
+            });
 
       if (error) {
-        toast.error('Failed to mark as completed');
-        console.error('Error marking completed:', error);
+        toast.error('Failed to record vaccination');
+        console.error('Error recording vaccination:', error);
       } else {
-        toast.success('Vaccination marked as completed!');
+        toast.success('Vaccination recorded!');
+        telemetry.health.record({ type: 'vaccination', vaccine: vaccineName });
         loadData();
       }
     } catch (error) {
-      console.error('Error marking completed:', error);
-      toast.error('Failed to mark as completed');
+      console.error('Error recording vaccination:', error);
+      toast.error('Failed to record vaccination');
+    } finally {
+      setRecordingKey(null);
     }
   };
 
@@ -182,33 +170,51 @@ const VaccinationReminders: React.FC = () => {
     setReminderData({
       pet_id: '',
       vaccine_name: '',
+      custom_name: '',
       due_date: '',
       notes: ''
     });
   };
 
-  const getDaysUntilDue = (dueDate: string) => {
-    const due = new Date(dueDate);
-    const today = new Date();
-    const diffTime = due.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    return diffDays;
+  const getStatusColor = (status: VaccineStatus['status']) => {
+    switch (status) {
+      case 'overdue': return 'text-red-600 bg-red-50';
+      case 'upcoming': return 'text-orange-600 bg-orange-50';
+      case 'complete': return 'text-green-600 bg-green-50';
+      default: return 'text-gray-600 bg-gray-50';
+    }
   };
 
-  const getUrgencyColor = (daysUntil: number) => {
-    if (daysUntil < 0) return 'text-red-600 bg-red-50';
-    if (daysUntil <= 7) return 'text-orange-600 bg-orange-50';
-    if (daysUntil <= 30) return 'text-yellow-600 bg-yellow-50';
-    return 'text-green-600 bg-green-50';
+  const getDueLabel = (date: string) => {
+    const days = daysUntil(date);
+    return days < 0 ? `${Math.abs(days)} days overdue` :
+      days === 0 ? 'Due today' :
+      days === 1 ? 'Due tomorrow' :
+      `${days} days left`;
   };
 
   const getSelectedPetVaccines = () => {
     const selectedPet = pets.find(p => p.id === reminderData.pet_id);
     if (!selectedPet) return [];
     
-    return commonVaccines[selectedPet.species] || commonVaccines.other;
+    return getProtocolsForSpecies(selectedPet.species).map(p => p.name);
   };
 
+  const today = new Date().toISOString().split('T')[0];
+  const petStatuses = pets.map(pet => {
+    const petRecords = records.filter(r => r.pet_id === pet.id);
+    return {
+      pet,
+      statuses: evaluateVaccinations(pet, petRecords),
+      customReminders: getCustomVaccinations(pet.species, petRecords).filter(r => r.date >= today)
+    };
+  });
+  const overdueCount = petStatuses.reduce((sum, p) => sum + p.statuses.filter(s => s.status === 'overdue').length, 0);
+  const upcomingCount = petStatuses.reduce(
+    (sum, p) => sum + p.statuses.filter(s => s.status === 'upcoming').length + p.customReminders.length,
+    0
+  );
+
   if (loading) {
     return (
       <div className="space-y-4">
@@ -239,54 +245,148 @@ const VaccinationReminders: React.FC = () => {
         </button>
       </div>
 
-      {/* Reminders List */}
-      {reminders.length > 0 ? (
-        <div className="space-y-4">
-          {reminders.map((reminder, index) => {
-            const daysUntil = getDaysUntilDue(reminder.due_date);
-            const urgencyColor = getUrgencyColor(daysUntil);
-            
+      {/* Summary */}
+      {pets.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="bg-white p-4 rounded-lg shadow-md flex items-center space-x-3">
+            <div className="p-3 rounded-full bg-red-50 text-red-600">
+              <AlertTriangle className="h-5 w-5" />
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-gray-900">{overdueCount}</p>
+              <p className="text-sm text-gray-600">Overdue</p>
+            </div>
+          </div>
+          <div className="bg-white p-4 rounded-lg shadow-md flex items-center space-x-3">
+            <div className="p-3 rounded-full bg-orange-50 text-orange-600">
+              <Calendar className="h-5 w-5" />
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-gray-900">{upcomingCount}</p>
+              <p className="text-sm text-gray-600">Upcoming</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Per-pet schedules */}
+      {petStatuses.some(p => p.statuses.length > 0 || p.customReminders.length > 0) ? (
+        <div className="space-y-6">
+          {petStatuses.map(({ pet, statuses, customReminders }) => {
+            if (statuses.length === 0 && customReminders.length === 0) return null;
+
             return (
-              <motion.div
-                key={reminder.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.1 }}
-                className="bg-white rounded-lg shadow-md p-4"
-              >
+              <div key={pet.id} className="space-y-3">
                 <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-4">
-                    <div className={`p-3 rounded-full ${urgencyColor}`}>
-                      <Shield className="h-5 w-5" />
-                    </div>
-                    <div>
-                      <h3 className="font-semibold text-gray-900">{reminder.vaccine_name}</h3>
-                      <p className="text-sm text-gray-600">{reminder.pets.name}</p>
-                      <div className="flex items-center space-x-2 text-sm text-gray-500">
-                        <Calendar className="h-3 w-3" />
-                        <span>Due: {new Date(reminder.due_date).toLocaleDateString()}</span>
-                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${urgencyColor}`}>
-                          {daysUntil < 0 ? `${Math.abs(daysUntil)} days overdue` :
-                           daysUntil === 0 ? 'Due today' :
-                           daysUntil === 1 ? 'Due tomorrow' :
-                           `${daysUntil} days left`}
-                        </span>
+                  <h3 className="text-lg font-semibold text-gray-900">{pet.name}</h3>
+                  {!pet.date_of_birth && statuses.length > 0 && (
+                    <span className="text-xs text-gray-500">Add a date of birth for puppy/kitten series dates</span>
+                  )}
+                </div>
+
+                {statuses.map((vaccine, index) => {
+                  const statusColor = getStatusColor(vaccine.status);
+                  const key = `${pet.id}:${vaccine.protocol.name}`;
+                  const bookedRecord = vaccine.scheduledDate
+                    ? records.find(r =>
+                        r.pet_id === pet.id &&
+                        r.date === vaccine.scheduledDate &&
+                        vaccine.protocol.aliases.some(alias => alias.test(r.title))
+                      )
+                    : undefined;
+
+                  return (
+                    <motion.div
+                      key={key}
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: index * 0.05 }}
+                      className="bg-white rounded-lg shadow-md p-4"
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-4">
+                          <div className={`p-3 rounded-full ${statusColor}`}>
+                            {vaccine.status === 'complete' ? <CheckCircle className="h-5 w-5" /> : <Shield className="h-5 w-5" />}
+                          </div>
+                          <div>
+                            <div className="flex items-center space-x-2">
+                              <h4 className="font-semibold text-gray-900">{vaccine.protocol.name}</h4>
+                              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                                vaccine.protocol.core ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-700'
+                              }`}>
+                                {vaccine.protocol.core ? 'Core' : 'Non-core'}
+                              </span>
+                            </div>
+                            <p className="text-sm text-gray-600">{vaccine.message}</p>
+                            <div className="flex items-center space-x-2 text-sm text-gray-500">
+                              <Calendar className="h-3 w-3" />
+                              {vaccine.scheduledDate ? (
+                                <span>Booked: {new Date(vaccine.scheduledDate).toLocaleDateString()}</span>
+                              ) : (
+                                <span>Due: {new Date(vaccine.dueDate).toLocaleDateString()}</span>
+                              )}
+                              <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${statusColor}`}>
+                                {vaccine.status === 'overdue' || vaccine.status === 'upcoming'
+                                  ? getDueLabel(vaccine.scheduledDate || vaccine.dueDate)
+                                  : vaccine.status}
+                              </span>
+                              {vaccine.lastGiven && (
+                                <span>• Last given {new Date(vaccine.lastGiven).toLocaleDateString()}</span>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+
+                        {vaccine.status !== 'complete' && (
+                          <button
+                            onClick={() => recordDose(pet, vaccine.protocol.name, bookedRecord?.id)}
+                            disabled={recordingKey === key}
+                            className="bg-green-600 text-white px-3 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors text-sm font-medium"
+                          >
+                            Record Dose
+                          </button>
+                        )}
+                      </div>
+                    </motion.div>
+                  );
+                })}
+
+                {customReminders.map((reminder) => {
+                  const daysLeft = daysUntil(reminder.date);
+
+                  return (
+                    <div key={reminder.id} className="bg-white rounded-lg shadow-md p-4">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-4">
+                          <div className={`p-3 rounded-full ${daysLeft <= 30 ? 'text-orange-600 bg-orange-50' : 'text-green-600 bg-green-50'}`}>
+                            <Shield className="h-5 w-5" />
+                          </div>
+                          <div>
+                            <h4 className="font-semibold text-gray-900">{reminder.title}</h4>
+                            <div className="flex items-center space-x-2 text-sm text-gray-500">
+                              <Calendar className="h-3 w-3" />
+                              <span>Due: {new Date(reminder.date).toLocaleDateString()}</span>
+                              <span className="px-2 py-1 rounded-full text-xs font-medium text-orange-600 bg-orange-50">
+                                {getDueLabel(reminder.date)}
+                              </span>
+                            </div>
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => recordDose(pet, reminder.title, reminder.id)}
+                          disabled={recordingKey === `${pet.id}:${reminder.title}`}
+                          className="bg-green-600 text-white px-3 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors text-sm font-medium"
+                        >
+                          Mark Complete
+                        </button>
                       </div>
+                      {reminder.description && (
+                        <p className="text-sm text-gray-700 mt-3 ml-16">{reminder.description}</p>
+                      )}
                     </div>
-                  </div>
-                  
-                  <button
-                    onClick={() => markCompleted(reminder)}
-                    className="bg-green-600 text-white px-3 py-2 rounded-lg hover:bg-green-700 transition-colors text-sm font-medium"
-                  >
-                    Mark Complete
-                  </button>
-                </div>
-                
-                {reminder.notes && (
-                  <p className="text-sm text-gray-700 mt-3 ml-16">{reminder.notes}</p>
-                )}
-              </motion.div>
+                  );
+                })}
+              </div>
             );
           })}
         </div>
@@ -384,8 +484,8 @@ const VaccinationReminders: React.FC = () => {
                       <input
                         type="text"
                         required
-                        value={reminderData.vaccine_name}
-                        onChange={(e) => setReminderData(prev => ({ ...prev, vaccine_name: e.target.value }))}
+                        value={reminderData.custom_name}
+                        onChange={(e) => setReminderData(prev => ({ ...prev, custom_name: e.target.value }))}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                         placeholder="Enter vaccine name"
                       />
@@ -0,0 +1,217 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useAuth } from '../../lib/auth';
+import { supabase, VetClinic } from '../../lib/supabase';
+import { Phone, Plus, Trash2, MapPin, Clock, X, Check } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface VetClinicListProps {
+  /** Called once clinics load, e.g. to pre-fill a record with the first one. */
+  onLoaded?: (clinics: VetClinic[]) => void;
+}
+
+const VetClinicList: React.FC<VetClinicListProps> = ({ onLoaded }) => {
+  const { profile } = useAuth();
+  const [clinics, setClinics] = useState<VetClinic[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    name: '',
+    phone: '',
+    address: '',
+    is_emergency: false
+  });
+  const onLoadedRef = useRef(onLoaded);
+
+  onLoadedRef.current = onLoaded;
+
+  const loadClinics = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('vet_clinics')
+        .select('*')
+        .eq('owner_id', profile.id)
+        .order('is_emergency', { ascending: false })
+        .order('name');
+
+      if (error) {
+        console.error('Error loading vet clinics:', error);
+        return;
+      }
+
+      setClinics(data || []);
+      onLoadedRef.current?.(data || []);
+    } finally {
+      setLoading(false);
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    if (profile) {
+      loadClinics();
+    }
+  }, [profile, loadClinics]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile || !formData.name.trim() || !formData.phone.trim()) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('vet_clinics')
+        .insert({
+          owner_id: profile.id,
+          name: formData.name.trim(),
+          phone: formData.phone.trim(),
+          address: formData.address.trim() || null,
+          is_emergency: formData.is_emergency
+        });
+
+      if (error) {
+        console.error('Error saving vet clinic:', error);
+        toast.error('Failed to save clinic');
+        return;
+      }
+
+      toast.success('Clinic saved');
+      setFormData({ name: '', phone: '', address: '', is_emergency: false });
+      setShowAddForm(false);
+      loadClinics();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (clinic: VetClinic) => {
+    const { error } = await supabase
+      .from('vet_clinics')
+      .delete()
+      .eq('id', clinic.id);
+
+    if (error) {
+      console.error('Error deleting vet clinic:', error);
+      toast.error('Failed to remove clinic');
+      return;
+    }
+
+    setClinics(prev => prev.filter(c => c.id !== clinic.id));
+  };
+
+  if (loading) {
+    return <div className="h-12 bg-gray-100 rounded-lg animate-pulse" />;
+  }
+
+  return (
+    <div className="space-y-2">
+      {clinics.map(clinic => (
+        <div key={clinic.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+          <div className="min-w-0">
+            <div className="flex items-center space-x-2">
+              <p className="font-medium text-gray-900 truncate">{clinic.name}</p>
+              {clinic.is_emergency && (
+                <span className="flex items-center space-x-1 px-2 py-0.5 bg-red-100 text-red-700 rounded-full text-xs font-medium">
+                  <Clock className="h-3 w-3" />
+                  <span>24h</span>
+                </span>
+              )}
+            </div>
+            {clinic.address && (
+              <p className="text-xs text-gray-500 flex items-center space-x-1 mt-0.5">
+                <MapPin className="h-3 w-3" />
+                <span className="truncate">{clinic.address}</span>
+              </p>
+            )}
+          </div>
+          <div className="flex items-center space-x-1 ml-3">
+            <a
+              href={`tel:${clinic.phone.replace(/[^\d+]/g, '')}`}
+              className="flex items-center space-x-1 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm font-medium"
+            >
+              <Phone className="h-4 w-4" />
+              <span>Call</span>
+            </a>
+            <button
+              onClick={() => handleDelete(clinic)}
+              className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+              title="Remove clinic"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {clinics.length === 0 && !showAddForm && (
+        <p className="text-sm text-gray-600">No saved clinics yet. Save your vet and nearest 24-hour clinic so they are one tap away.</p>
+      )}
+
+      {showAddForm ? (
+        <form onSubmit={handleAdd} className="p-3 bg-gray-50 rounded-lg space-y-2">
+          <input
+            type="text"
+            required
+            value={formData.name}
+            onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="Clinic name"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="tel"
+            required
+            value={formData.phone}
+            onChange={(e) => setFormData(prev => ({ ...prev, phone: e.target.value }))}
+            placeholder="Phone number"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="text"
+            value={formData.address}
+            onChange={(e) => setFormData(prev => ({ ...prev, address: e.target.value }))}
+            placeholder="Address (optional)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.is_emergency}
+              onChange={(e) => setFormData(prev => ({ ...prev, is_emergency: e.target.checked }))}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Open 24 hours for emergencies</span>
+          </label>
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setShowAddForm(false)}
+              className="px-3 py-1 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors flex items-center space-x-1"
+            >
+              <X className="h-3 w-3" />
+              <span>Cancel</span>
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-3 py-1 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center space-x-1"
+            >
+              <Check className="h-3 w-3" />
+              <span>Save</span>
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          onClick={() => setShowAddForm(true)}
+          className="text-blue-600 hover:text-blue-700 text-sm font-medium flex items-center space-x-1"
+        >
+          <Plus className="h-4 w-4" />
+          <span>Add Clinic</span>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default VetClinicList;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { VitalPoint } from '../../lib/vitals';
+
+interface VitalsChartProps {
+  series: VitalPoint[];
+  unit: string;
+  height?: number;
+}
+
+const WIDTH = 300;
+const PADDING = { top: 12, right: 8, bottom: 18, left: 8 };
+
+const VitalsChart: React.FC<VitalsChartProps> = ({ series, unit, height = 110 }) => {
+  if (series.length === 0) {
+    return (
+      <div className="flex items-center justify-center text-sm text-gray-500" style={{ height }}>
+        No readings yet
+      </div>
+    );
+  }
+
+  const values = series.map(p => p.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  // Pad flat series so a single value still sits mid-chart
+  const spread = max - min || Math.max(Math.abs(max) * 0.1, 1);
+  const low = min - spread * 0.15;
+  const high = max + spread * 0.15;
+
+  const times = series.map(p => new Date(p.date).getTime());
+  const start = times[0];
+  const span = times[times.length - 1] - start || 1;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const points = series.map((p, i) => ({
+    x: PADDING.left + (series.length === 1 ? plotWidth / 2 : ((times[i] - start) / span) * plotWidth),
+    y: PADDING.top + (1 - (p.value - low) / (high - low)) * plotHeight,
+    point: p
+  }));
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full" style={{ height }} role="img">
+      <line
+        x1={PADDING.left}
+        x2={WIDTH - PADDING.right}
+        y1={height - PADDING.bottom}
+        y2={height - PADDING.bottom}
+        className="stroke-gray-200"
+      />
+      {points.length > 1 && (
+        <polyline
+          points={points.map(p => `${p.x},${p.y}`).join(' ')}
+          fill="none"
+          className="stroke-blue-500"
+          strokeWidth={2}
+          strokeLinejoin="round"
+        />
+      )}
+      {points.map(({ x, y, point }) => (
+        <circle key={`${point.date}-${x}`} cx={x} cy={y} r={3} className="fill-blue-600">
+          <title>{`${formatDate(point.date)}: ${point.value} ${unit}`}</title>
+        </circle>
+      ))}
+      <text x={PADDING.left} y={height - 4} className="fill-gray-500" fontSize={10}>
+        {formatDate(series[0].date)}
+      </text>
+      {series.length > 1 && (
+        <text x={WIDTH - PADDING.right} y={height - 4} textAnchor="end" className="fill-gray-500" fontSize={10}>
+          {formatDate(series[series.length - 1].date)}
+        </text>
+      )}
+    </svg>
+  );
+};
+
+export default VitalsChart;
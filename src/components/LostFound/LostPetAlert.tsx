@@ -1,9 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../lib/auth';
-import { supabase, LostFound } from '../../lib/supabase';
+import { searchLostFound, formatDistance, NearbyLostFound } from '../../lib/lostFound';
 import { AlertTriangle, MapPin, Phone, Mail, DollarSign, Clock, X } from 'lucide-react';
+import MessageReporterButton from './MessageReporterButton';
 import { motion, AnimatePresence } from 'framer-motion';
 
+const ALERT_PAGE_SIZE = 5;
+
 interface LostPetAlertProps {
   userLocation?: { lat: number; lng: number };
   radius?: number; // in miles
@@ -14,53 +17,40 @@ const LostPetAlert: React.FC<LostPetAlertProps> = ({
   radius = 10 
 }) => {
   const { profile } = useAuth();
-  const [nearbyLostPets, setNearbyLostPets] = useState<LostFound[]>([]);
+  const [nearbyLostPets, setNearbyLostPets] = useState<NearbyLostFound[]>([]);
   const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
   const [dismissedAlerts, setDismissedAlerts] = useState<string[]>([]);
 
   useEffect(() => {
     if (profile && userLocation) {
       loadNearbyLostPets();
     }
-  }, [profile, userLocation]);
+  }, [profile, userLocation, radius]);
 
-  const loadNearbyLostPets = async () => {
+  const loadNearbyLostPets = async (nextPage = 0) => {
     if (!profile || !userLocation) return;
 
     try {
-      // Get lost pets within radius (simplified distance calculation)
-      const { data, error } = await supabase
-        .from('lost_found')
-        .select(`
-          *,
-          profiles!lost_found_reporter_id_fkey(display_name, avatar_url)
-        `)
-        .eq('status', 'lost')
-        .eq('is_resolved', false)
-        .neq('reporter_id', profile.id) // Don't show user's own reports
-        .order('created_at', { ascending: false })
-        .limit(5);
-
-      if (error) {
-        console.error('Error loading nearby lost pets:', error);
-      } else {
-        // Filter by distance (simplified - in production would use PostGIS)
-        const nearbyPets = (data || []).filter(pet => {
-          const distance = calculateDistance(
-            userLocation.lat, userLocation.lng,
-            pet.latitude, pet.longitude
-          );
-          return distance <= radius;
-        });
-
-        // Filter out dismissed alerts
-        const stored = localStorage.getItem('dismissed-lost-alerts');
-        const dismissed = stored ? JSON.parse(stored) : [];
-        setDismissedAlerts(dismissed);
-        
-        const visiblePets = nearbyPets.filter(pet => !dismissed.includes(pet.id));
-        setNearbyLostPets(visiblePets);
-      }
+      const result = await searchLostFound({
+        center: userLocation,
+        radiusMiles: radius,
+        status: 'lost',
+        excludeReporterId: profile.id, // Don't show user's own reports
+        page: nextPage,
+        pageSize: ALERT_PAGE_SIZE
+      });
+
+      // Filter out dismissed alerts
+      const stored = localStorage.getItem('dismissed-lost-alerts');
+      const dismissed = stored ? JSON.parse(stored) : [];
+      setDismissedAlerts(dismissed);
+
+      const visiblePets = result.reports.filter(pet => !dismissed.includes(pet.id));
+      setNearbyLostPets(prev => nextPage === 0 ? visiblePets : [...prev, ...visiblePets]);
+      setPage(nextPage);
+      setHasMore(result.hasMore);
     } catch (error) {
       console.error('Error loading nearby lost pets:', error);
     } finally {
@@ -68,18 +58,6 @@ const LostPetAlert: React.FC<LostPetAlertProps> = ({
     }
   };
 
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-    const R = 3959; // Earth's radius in miles
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-      Math.sin(dLon/2) * Math.sin(dLon/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
-  };
-
   const dismissAlert = (petId: string) => {
     const newDismissed = [...dismissedAlerts, petId];
     setDismissedAlerts(newDismissed);
@@ -127,6 +105,7 @@ const LostPetAlert: React.FC<LostPetAlertProps> = ({
                 <div className="flex items-center space-x-1 text-sm text-red-600 mb-2">
                   <MapPin className="h-3 w-3" />
                   <span>{pet.last_seen_location}</span>
+                  <span className="text-red-500">· {formatDistance(pet.distance_miles)}</span>
                 </div>
                 <p className="text-sm text-red-700 line-clamp-2">{pet.description}</p>
                 
@@ -144,14 +123,11 @@ const LostPetAlert: React.FC<LostPetAlertProps> = ({
                   >
                     View Details →
                   </a>
-                  {pet.contact_phone && (
-                    <a
-                      href={`tel:${pet.contact_phone}`}
-                      className="text-sm text-red-600 hover:text-red-700 font-medium"
-                    >
-                      Call Owner
-                    </a>
-                  )}
+                  <MessageReporterButton
+                    reportId={pet.id}
+                    label="Message Owner"
+                    className="text-sm text-red-600 hover:text-red-700 font-medium"
+                  />
                 </div>
               </div>
             </div>
@@ -165,6 +141,15 @@ const LostPetAlert: React.FC<LostPetAlertProps> = ({
           </div>
         </motion.div>
       ))}
+
+      {hasMore && (
+        <button
+          onClick={() => loadNearbyLostPets(page + 1)}
+          className="text-sm text-red-600 hover:text-red-700 font-medium"
+        >
+          Show more nearby alerts
+        </button>
+      )}
     </div>
   );
 };
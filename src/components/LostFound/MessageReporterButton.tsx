@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Loader, MessageCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { startLostFoundRelay } from '../../lib/lostFound';
+
+interface MessageReporterButtonProps {
+  reportId: string;
+  label?: string;
+  className?: string;
+}
+
+// Opens a relay thread in Messages; neither side sees the other's contact
+// details unless the reporter chooses to share them
+const MessageReporterButton: React.FC<MessageReporterButtonProps> = ({
+  reportId,
+  label = 'Message',
+  className = 'px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm font-medium'
+}) => {
+  const navigate = useNavigate();
+  const [starting, setStarting] = useState(false);
+
+  const handleClick = async () => {
+    setStarting(true);
+    try {
+      const threadId = await startLostFoundRelay(reportId);
+      navigate(`/messages?thread=${threadId}`);
+    } catch (error) {
+      console.error('Error starting relay thread:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to contact the reporter');
+      setStarting(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={starting}
+      className={`${className} flex items-center justify-center space-x-1 disabled:opacity-50`}
+    >
+      {starting ? <Loader className="h-4 w-4 animate-spin" /> : <MessageCircle className="h-4 w-4" />}
+      <span>{label}</span>
+    </button>
+  );
+};
+
+export default MessageReporterButton;
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Check, Loader, Send } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { sendRelayMessage } from '../../lib/microchip';
+
+interface RelayMessageFormProps {
+  /** From a microchip lookup; the finder never learns who the owner is. */
+  relayToken: string;
+}
+
+const RelayMessageForm: React.FC<RelayMessageFormProps> = ({ relayToken }) => {
+  const [formStartedAt] = useState(() => Date.now());
+  const [form, setForm] = useState({
+    message: '',
+    contact_name: '',
+    contact_phone: '',
+    contact_email: '',
+    website: ''
+  });
+  const [submitting, setSubmitting] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.message.trim()) {
+      toast.error('Tell the owner where the pet is');
+      return;
+    }
+    if (!form.contact_phone.trim() && !form.contact_email.trim()) {
+      toast.error('Leave a phone number or email so the owner can reach you');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await sendRelayMessage({
+        relayToken,
+        message: form.message,
+        contactName: form.contact_name,
+        contactPhone: form.contact_phone,
+        contactEmail: form.contact_email,
+        website: form.website,
+        formStartedAt
+      });
+
+      setSent(true);
+    } catch (error) {
+      console.error('Error sending relay message:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send message');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (sent) {
+    return (
+      <div className="bg-green-50 border border-green-200 rounded-lg p-6 text-center">
+        <Check className="h-10 w-10 text-green-600 mx-auto mb-2" />
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">Message sent</h2>
+        <p className="text-gray-700">
+          The owner has been notified and will contact you using the details you left.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Message for the owner *
+        </label>
+        <textarea
+          value={form.message}
+          onChange={(e) => setForm(prev => ({ ...prev, message: e.target.value }))}
+          rows={3}
+          maxLength={500}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder="Where is the pet now, and how is it doing?"
+          required
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          How can the owner reach you? *
+        </label>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <input
+            type="text"
+            value={form.contact_name}
+            onChange={(e) => setForm(prev => ({ ...prev, contact_name: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="Name"
+            maxLength={100}
+          />
+          <input
+            type="tel"
+            value={form.contact_phone}
+            onChange={(e) => setForm(prev => ({ ...prev, contact_phone: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="Phone"
+          />
+          <input
+            type="email"
+            value={form.contact_email}
+            onChange={(e) => setForm(prev => ({ ...prev, contact_email: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="Email"
+          />
+        </div>
+      </div>
+
+      {/* Honeypot: hidden from people, filled in by bots */}
+      <input
+        type="text"
+        name="website"
+        value={form.website}
+        onChange={(e) => setForm(prev => ({ ...prev, website: e.target.value }))}
+        className="hidden"
+        tabIndex={-1}
+        autoComplete="off"
+        aria-hidden="true"
+      />
+
+      <button
+        type="submit"
+        disabled={submitting}
+        className="w-full bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors font-medium flex items-center justify-center space-x-2"
+      >
+        {submitting ? <Loader className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+        <span>{submitting ? 'Sending...' : 'Message the Owner'}</span>
+      </button>
+    </form>
+  );
+};
+
+export default RelayMessageForm;
@@ -0,0 +1,176 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../lib/auth';
+import { supabase, LostFoundMatch } from '../../lib/supabase';
+import { Sparkles, Camera, MapPin, Check, X, Loader } from 'lucide-react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import MessageReporterButton from './MessageReporterButton';
+
+interface ReportMatchesProps {
+  /** Called after a match is confirmed and both reports are resolved. */
+  onResolved?: () => void;
+}
+
+const ReportMatches: React.FC<ReportMatchesProps> = ({ onResolved }) => {
+  const { profile } = useAuth();
+  const [matches, setMatches] = useState<LostFoundMatch[]>([]);
+  const [workingId, setWorkingId] = useState<string | null>(null);
+
+  const loadMatches = useCallback(async () => {
+    if (!profile) return;
+
+    const { data, error } = await supabase
+      .from('lost_found_matches')
+      .select(`
+        *,
+        lost_report:lost_found!lost_found_matches_lost_report_id_fkey(*),
+        found_report:lost_found!lost_found_matches_found_report_id_fkey(*)
+      `)
+      .eq('status', 'pending')
+      .order('score', { ascending: false });
+
+    if (error) {
+      console.error('Error loading matches:', error);
+      return;
+    }
+
+    setMatches(data || []);
+  }, [profile]);
+
+  useEffect(() => {
+    if (profile) {
+      loadMatches();
+    }
+  }, [profile, loadMatches]);
+
+  const confirmMatch = async (match: LostFoundMatch) => {
+    setWorkingId(match.id);
+    try {
+      const { error } = await supabase.rpc('confirm_lost_found_match', { p_match_id: match.id });
+
+      if (error) {
+        console.error('Error confirming match:', error);
+        toast.error('Failed to confirm match');
+        return;
+      }
+
+      toast.success(`Reunited with ${match.lost_report?.pet_name}! Both reports are resolved.`);
+      loadMatches();
+      onResolved?.();
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const dismissMatch = async (match: LostFoundMatch) => {
+    setWorkingId(match.id);
+    try {
+      const { error } = await supabase.rpc('dismiss_lost_found_match', { p_match_id: match.id });
+
+      if (error) {
+        console.error('Error dismissing match:', error);
+        toast.error('Failed to dismiss match');
+        return;
+      }
+
+      setMatches(prev => prev.filter(m => m.id !== match.id));
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  if (matches.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-purple-50 border border-purple-200 rounded-lg p-6 mb-8">
+      <div className="flex items-center space-x-2 mb-4">
+        <Sparkles className="h-5 w-5 text-purple-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Possible Matches</h2>
+      </div>
+
+      <div className="space-y-4">
+        {matches.map((match, index) => {
+          const isOwner = match.lost_report?.reporter_id === profile?.id;
+          const other = isOwner ? match.found_report : match.lost_report;
+          if (!other) return null;
+
+          return (
+            <motion.div
+              key={match.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.1 }}
+              className="bg-white rounded-lg p-4 flex flex-col sm:flex-row sm:items-start sm:space-x-4"
+            >
+              {other.photo_url ? (
+                <img
+                  src={other.photo_url}
+                  alt={other.pet_name}
+                  className="w-full sm:w-28 h-28 rounded-lg object-cover mb-3 sm:mb-0"
+                />
+              ) : (
+                <div className="w-full sm:w-28 h-28 rounded-lg bg-gray-100 flex items-center justify-center mb-3 sm:mb-0">
+                  <Camera className="h-8 w-8 text-gray-400" />
+                </div>
+              )}
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between mb-1">
+                  <h3 className="font-semibold text-gray-900">
+                    {isOwner
+                      ? `This might be ${match.lost_report?.pet_name}`
+                      : `The ${other.species} you found might be ${other.pet_name}`}
+                  </h3>
+                  <span className="px-2 py-1 bg-purple-100 text-purple-800 rounded-full text-xs font-medium">
+                    {match.score}% match
+                  </span>
+                </div>
+                <div className="flex items-center space-x-1 text-sm text-gray-600 mb-2">
+                  <MapPin className="h-3 w-3" />
+                  <span className="truncate">{other.last_seen_location}</span>
+                </div>
+                <p className="text-sm text-gray-700 line-clamp-2 mb-2">{other.description}</p>
+                <ul className="text-xs text-gray-500 space-y-0.5 mb-3">
+                  {match.factors.filter(f => f.points > 0).map(factor => (
+                    <li key={factor.id}>✓ {factor.detail}</li>
+                  ))}
+                </ul>
+
+                <div className="flex space-x-2">
+                  {isOwner ? (
+                    <button
+                      onClick={() => confirmMatch(match)}
+                      disabled={workingId === match.id}
+                      className="px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors text-sm font-medium flex items-center space-x-1"
+                    >
+                      {workingId === match.id ? <Loader className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                      <span>Yes, it's my pet</span>
+                    </button>
+                  ) : (
+                    <span className="text-sm text-gray-600 self-center">Waiting for the owner to confirm</span>
+                  )}
+                  <MessageReporterButton
+                    reportId={other.id}
+                    className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+                  />
+                  <button
+                    onClick={() => dismissMatch(match)}
+                    disabled={workingId === match.id}
+                    className="px-3 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors text-sm font-medium flex items-center space-x-1"
+                  >
+                    <X className="h-4 w-4" />
+                    <span>{isOwner ? 'Not my pet' : 'Not a match'}</span>
+                  </button>
+                </div>
+              </div>
+            </motion.div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ReportMatches;
@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from 'react';
+import { supabase, LostFound, LostPetSighting } from '../../lib/supabase';
+import { Eye, MapPin, Clock, Phone, Mail, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import SightingsMap from './SightingsMap';
+
+interface ReportSightingsProps {
+  report: LostFound;
+}
+
+// Sightings sent by members and from the public report page; only the report
+// owner can read them
+const ReportSightings: React.FC<ReportSightingsProps> = ({ report }) => {
+  const [sightings, setSightings] = useState<LostPetSighting[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadSightings = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('lost_pet_sightings')
+          .select('*')
+          .eq('report_id', report.id)
+          .order('seen_at', { ascending: false });
+
+        if (error) {
+          console.error('Error loading sightings:', error);
+          return;
+        }
+
+        setSightings(data || []);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSightings();
+  }, [report.id]);
+
+  const deleteSighting = async (sighting: LostPetSighting) => {
+    const { error } = await supabase
+      .from('lost_pet_sightings')
+      .delete()
+      .eq('id', sighting.id);
+
+    if (error) {
+      console.error('Error deleting sighting:', error);
+      toast.error('Failed to delete sighting');
+      return;
+    }
+
+    setSightings(prev => prev.filter(s => s.id !== sighting.id));
+  };
+
+  if (loading) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6">
+      <h3 className="font-semibold text-gray-900 mb-3 flex items-center space-x-2">
+        <Eye className="h-4 w-4" />
+        <span>Sightings ({sightings.length})</span>
+      </h3>
+
+      {sightings.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          No sightings yet. Share the report link so people nearby can send one without an account.
+        </p>
+      ) : (
+        <>
+          <SightingsMap report={report} sightings={sightings} />
+          <div className="space-y-3">
+            {sightings.map(sighting => (
+              <div key={sighting.id} className="border border-gray-200 rounded-lg p-3 flex space-x-3">
+                {sighting.photo_url && (
+                  <a href={sighting.photo_url} target="_blank" rel="noopener noreferrer" className="flex-shrink-0">
+                    <img src={sighting.photo_url} alt="Sighting" className="w-20 h-20 rounded-lg object-cover" />
+                  </a>
+                )}
+                <div className="flex-1 min-w-0 text-sm">
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-center space-x-1 text-gray-900 font-medium">
+                      <MapPin className="h-3 w-3 flex-shrink-0" />
+                      {sighting.latitude != null && sighting.longitude != null ? (
+                        <a
+                          href={`https://www.openstreetmap.org/?mlat=${sighting.latitude}&mlon=${sighting.longitude}#map=17/${sighting.latitude}/${sighting.longitude}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:text-blue-700 truncate"
+                        >
+                          {sighting.location_description}
+                        </a>
+                      ) : (
+                        <span className="truncate">{sighting.location_description}</span>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => deleteSighting(sighting)}
+                      className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                      title="Delete sighting"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                  <div className="flex items-center space-x-1 text-gray-500 mb-1">
+                    <Clock className="h-3 w-3" />
+                    <span>{new Date(sighting.seen_at).toLocaleString()}</span>
+                  </div>
+                  {sighting.notes && <p className="text-gray-700 mb-1">{sighting.notes}</p>}
+                  {(sighting.contact_name || sighting.contact_phone || sighting.contact_email) && (
+                    <div className="flex flex-wrap items-center gap-x-3 text-gray-600">
+                      {sighting.contact_name && <span>{sighting.contact_name}</span>}
+                      {sighting.contact_phone && (
+                        <a href={`tel:${sighting.contact_phone}`} className="flex items-center space-x-1 text-blue-600 hover:text-blue-700">
+                          <Phone className="h-3 w-3" />
+                          <span>{sighting.contact_phone}</span>
+                        </a>
+                      )}
+                      {sighting.contact_email && (
+                        <a href={`mailto:${sighting.contact_email}`} className="flex items-center space-x-1 text-blue-600 hover:text-blue-700">
+                          <Mail className="h-3 w-3" />
+                          <span>{sighting.contact_email}</span>
+                        </a>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReportSightings;
@@ -0,0 +1,298 @@
+import React, { useEffect, useState } from 'react';
+import { Camera, Check, Crosshair, Loader, Send, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import InteractiveMap from '../Maps/InteractiveMap';
+import { getLocation } from '../../mobile/gps';
+import { submitSighting } from '../../lib/lostFound';
+import { geocoder } from '../../lib/geocoding';
+
+interface SightingFormProps {
+  report: { id: string; pet_name: string };
+  /** Where the map starts; visitors only get the approximate area. */
+  center: { lat: number; lng: number };
+}
+
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024;
+
+// datetime-local wants local time without a zone
+function localDateTimeValue(date: Date): string {
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+const SightingForm: React.FC<SightingFormProps> = ({ report, center }) => {
+  const [formStartedAt] = useState(() => Date.now());
+  const [form, setForm] = useState({
+    location_description: '',
+    seen_at: localDateTimeValue(new Date()),
+    notes: '',
+    contact_name: '',
+    contact_phone: '',
+    contact_email: '',
+    website: ''
+  });
+  const [pin, setPin] = useState<{ lat: number; lng: number } | null>(null);
+  const [pinPlace, setPinPlace] = useState<string | null>(null);
+  const [photoFile, setPhotoFile] = useState<File | null>(null);
+  const [photoPreview, setPhotoPreview] = useState('');
+  const [locating, setLocating] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  // Name the marked spot, and use it as the description if there is none yet
+  useEffect(() => {
+    setPinPlace(null);
+    if (!pin) return;
+
+    let cancelled = false;
+    geocoder.reverseGeocode(pin.lat, pin.lng)
+      .then(place => {
+        if (cancelled || !place) return;
+        setPinPlace(place);
+        setForm(prev => prev.location_description.trim() ? prev : { ...prev, location_description: place });
+      })
+      .catch(error => console.error('Error reverse geocoding sighting:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pin]);
+
+  const handlePhotoSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast.error('Please select an image file');
+      return;
+    }
+    if (file.size > MAX_PHOTO_SIZE) {
+      toast.error('Photos must be under 5MB');
+      return;
+    }
+
+    setPhotoFile(file);
+    setPhotoPreview(await readAsDataUrl(file));
+  };
+
+  const locateMe = async () => {
+    setLocating(true);
+    try {
+      const coords = await getLocation();
+      setPin({ lat: coords.lat, lng: coords.lng });
+    } catch (error) {
+      console.error('Error getting location:', error);
+      toast.error('Unable to get your location');
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.location_description.trim()) {
+      toast.error('Tell us where you saw the pet');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await submitSighting({
+        reportId: report.id,
+        locationDescription: form.location_description,
+        latitude: pin?.lat,
+        longitude: pin?.lng,
+        seenAt: new Date(form.seen_at).toISOString(),
+        notes: form.notes,
+        contactName: form.contact_name,
+        contactPhone: form.contact_phone,
+        contactEmail: form.contact_email,
+        photo: photoFile ? photoPreview : undefined,
+        website: form.website,
+        formStartedAt
+      });
+
+      setSent(true);
+    } catch (error) {
+      console.error('Error sending sighting:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send sighting');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (sent) {
+    return (
+      <div className="bg-green-50 border border-green-200 rounded-lg p-6 text-center">
+        <Check className="h-10 w-10 text-green-600 mx-auto mb-2" />
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">Thank you!</h2>
+        <p className="text-gray-700">
+          We've passed your sighting on to {report.pet_name}'s owner.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Where did you see {report.pet_name}? *
+        </label>
+        <input
+          type="text"
+          value={form.location_description}
+          onChange={(e) => setForm(prev => ({ ...prev, location_description: e.target.value }))}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder="e.g. Corner of Main St and 3rd Ave"
+          maxLength={200}
+          required
+        />
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm text-gray-600">
+            {pin
+              ? pinPlace ? `Spot marked near ${pinPlace}` : 'Spot marked on the map'
+              : 'Optionally tap the map to mark the spot'}
+          </span>
+          <button
+            type="button"
+            onClick={locateMe}
+            disabled={locating}
+            className="text-sm text-blue-600 hover:text-blue-700 font-medium flex items-center space-x-1 disabled:opacity-50"
+          >
+            {locating ? <Loader className="h-4 w-4 animate-spin" /> : <Crosshair className="h-4 w-4" />}
+            <span>I'm there now</span>
+          </button>
+        </div>
+        <InteractiveMap
+          center={pin ?? center}
+          zoom={15}
+          markers={pin ? [{
+            id: 'sighting',
+            latitude: pin.lat,
+            longitude: pin.lng,
+            title: 'Sighting',
+            type: 'sighting'
+          }] : []}
+          onLocationSelect={(lat, lng) => setPin({ lat, lng })}
+          height="200px"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">When? *</label>
+        <input
+          type="datetime-local"
+          value={form.seen_at}
+          max={localDateTimeValue(new Date())}
+          onChange={(e) => setForm(prev => ({ ...prev, seen_at: e.target.value }))}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          required
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Photo</label>
+        {photoPreview ? (
+          <div className="relative">
+            <img src={photoPreview} alt="Sighting" className="w-full h-40 object-cover rounded-lg" />
+            <button
+              type="button"
+              onClick={() => {
+                setPhotoFile(null);
+                setPhotoPreview('');
+              }}
+              className="absolute top-2 right-2 p-1 bg-red-500 text-white rounded-full hover:bg-red-600 transition-colors"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        ) : (
+          <label className="flex items-center justify-center space-x-2 w-full px-3 py-4 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-gray-400 text-gray-600">
+            <Camera className="h-5 w-5" />
+            <span className="text-sm">Add a photo if you took one</span>
+            <input type="file" accept="image/jpeg,image/png,image/webp" onChange={handlePhotoSelect} className="hidden" />
+          </label>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Details</label>
+        <textarea
+          value={form.notes}
+          onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+          rows={3}
+          maxLength={1000}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder="Which way was it heading? Did it look hurt?"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Your contact details (only shared with the owner)
+        </label>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <input
+            type="text"
+            value={form.contact_name}
+            onChange={(e) => setForm(prev => ({ ...prev, contact_name: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="Name"
+            maxLength={100}
+          />
+          <input
+            type="tel"
+            value={form.contact_phone}
+            onChange={(e) => setForm(prev => ({ ...prev, contact_phone: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="Phone"
+          />
+          <input
+            type="email"
+            value={form.contact_email}
+            onChange={(e) => setForm(prev => ({ ...prev, contact_email: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="Email"
+          />
+        </div>
+      </div>
+
+      {/* Honeypot: hidden from people, filled in by bots */}
+      <input
+        type="text"
+        name="website"
+        value={form.website}
+        onChange={(e) => setForm(prev => ({ ...prev, website: e.target.value }))}
+        className="hidden"
+        tabIndex={-1}
+        autoComplete="off"
+        aria-hidden="true"
+      />
+
+      <button
+        type="submit"
+        disabled={submitting}
+        className="w-full bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors font-medium flex items-center justify-center space-x-2"
+      >
+        {submitting ? <Loader className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+        <span>{submitting ? 'Sending...' : 'Send Sighting'}</span>
+      </button>
+    </form>
+  );
+};
+
+export default SightingForm;
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Route, Flame, Compass } from 'lucide-react';
+import InteractiveMap from '../Maps/InteractiveMap';
+import { LostFound, LostPetSighting } from '../../lib/supabase';
+import { sightingTimeline, heatmapCells, travelSummary } from '../../lib/sightings';
+
+interface SightingsMapProps {
+  report: LostFound;
+  sightings: LostPetSighting[];
+}
+
+function formatSpan(hours: number): string {
+  if (hours < 1) return 'under an hour';
+  if (hours < 48) return `${Math.round(hours)} hour${Math.round(hours) === 1 ? '' : 's'}`;
+  return `${Math.round(hours / 24)} days`;
+}
+
+// Where the pet has been seen since it went missing: a timeline from the
+// last-seen location through each sighting, or a heatmap of where sightings cluster
+const SightingsMap: React.FC<SightingsMapProps> = ({ report, sightings }) => {
+  const [view, setView] = useState<'timeline' | 'heatmap'>('timeline');
+
+  const timeline = sightingTimeline(report, sightings);
+  const summary = travelSummary(timeline);
+  const latest = timeline[timeline.length - 1];
+
+  if (timeline.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex bg-gray-100 rounded-lg p-1">
+          <button
+            onClick={() => setView('timeline')}
+            className={`px-3 py-1 rounded-md text-sm font-medium flex items-center space-x-1 transition-colors ${
+              view === 'timeline' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            <Route className="h-4 w-4" />
+            <span>Timeline</span>
+          </button>
+          <button
+            onClick={() => setView('heatmap')}
+            className={`px-3 py-1 rounded-md text-sm font-medium flex items-center space-x-1 transition-colors ${
+              view === 'heatmap' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            <Flame className="h-4 w-4" />
+            <span>Heatmap</span>
+          </button>
+        </div>
+        {summary && (
+          <div className="flex items-center space-x-1 text-sm text-gray-700">
+            <Compass className="h-4 w-4 text-orange-600" />
+            <span>
+              Heading {summary.direction}, {summary.miles < 10 ? summary.miles.toFixed(1) : Math.round(summary.miles)} mi
+              in {formatSpan(summary.hours)}
+            </span>
+          </div>
+        )}
+      </div>
+
+      <InteractiveMap
+        center={{ lat: latest.latitude, lng: latest.longitude }}
+        zoom={14}
+        markers={view === 'timeline'
+          ? timeline.map((point, index) => ({
+            id: point.id,
+            latitude: point.latitude,
+            longitude: point.longitude,
+            title: point.isOrigin ? 'Last seen (report)' : `Sighting ${index}`,
+            description: new Date(point.seen_at).toLocaleString(),
+            type: point.isOrigin ? 'lost' as const : 'sighting' as const
+          }))
+          : []}
+        path={view === 'timeline' ? timeline : []}
+        heatmap={view === 'heatmap' ? heatmapCells(timeline) : []}
+        height="280px"
+      />
+    </div>
+  );
+};
+
+export default SightingsMap;
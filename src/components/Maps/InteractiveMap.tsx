@@ -1,91 +1,303 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { MapPin, Navigation, Layers, ZoomIn, ZoomOut } from 'lucide-react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { MapPin, Navigation, ZoomIn, ZoomOut, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import FallbackMap from './FallbackMap';
+import {
+  clusterMarkers,
+  MAP_TILE_ATTRIBUTION,
+  MAP_TILE_URL,
+  projectToPixels,
+  type MarkerCluster
+} from '../../lib/mapTiles';
 
-interface MapMarker {
+export interface MapMarker {
   id: string;
   latitude: number;
   longitude: number;
   title: string;
   description?: string;
-  type: 'lost' | 'found' | 'resolved' | 'event' | 'user';
+  type: 'lost' | 'found' | 'resolved' | 'event' | 'user' | 'sighting';
   onClick?: () => void;
 }
 
-interface InteractiveMapProps {
+export interface MapPathPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface MapHeatPoint {
+  latitude: number;
+  longitude: number;
+  /** 0-1 */
+  intensity: number;
+}
+
+export interface InteractiveMapProps {
   center: { lat: number; lng: number };
   zoom?: number;
   markers?: MapMarker[];
   onLocationSelect?: (lat: number, lng: number) => void;
+  /** Drawn as a line with arrows, in order, e.g. a timeline of sightings. */
+  path?: MapPathPoint[];
+  /** Drawn as blobs that get stronger with intensity, under the markers. */
+  heatmap?: MapHeatPoint[];
   height?: string;
   className?: string;
 }
 
-const InteractiveMap: React.FC<InteractiveMapProps> = ({
-  center,
-  zoom = 13,
-  markers = [],
-  onLocationSelect,
-  height = '400px',
-  className = ''
-}) => {
-  const mapRef = useRef<HTMLDivElement>(null);
-  const [currentZoom, setCurrentZoom] = useState(zoom);
-  const [currentCenter, setCurrentCenter] = useState(center);
+const MIN_ZOOM = 2;
+const MAX_ZOOM = 19;
+// Give up on the tile server if not a single tile arrives within this time
+const TILE_TIMEOUT_MS = 10000;
+
+const MARKER_COLORS: Record<MapMarker['type'], string> = {
+  lost: 'bg-red-500',
+  found: 'bg-blue-500',
+  resolved: 'bg-green-500',
+  event: 'bg-purple-500',
+  user: 'bg-gray-500',
+  sighting: 'bg-orange-500'
+};
+
+// lucide's MapPin as markup, since Leaflet icons are plain HTML
+const PIN_SVG = '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M20 10c0 6-8 12-8 12s-8-6-8-12a8 8 0 0 1 16 0Z"/><circle cx="12" cy="10" r="3"/></svg>';
+
+const markerIcon = (color: string) => L.divIcon({
+  className: '',
+  html: `<div class="${color} text-white p-2 rounded-full shadow-lg hover:scale-110 transition-transform">${PIN_SVG}</div>`,
+  iconSize: [32, 32],
+  iconAnchor: [16, 16]
+});
+
+// Colored after the most common marker type in the cluster
+const clusterIcon = (cluster: MarkerCluster<MapMarker>) => {
+  const counts = new Map<MapMarker['type'], number>();
+  cluster.items.forEach(item => counts.set(item.type, (counts.get(item.type) ?? 0) + 1));
+  const [type] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+
+  return L.divIcon({
+    className: '',
+    html: `<div class="${MARKER_COLORS[type]} text-white w-10 h-10 rounded-full ring-4 ring-white/70 shadow-lg flex items-center justify-center text-sm font-semibold hover:scale-110 transition-transform">${cluster.items.length}</div>`,
+    iconSize: [40, 40],
+    iconAnchor: [20, 20]
+  });
+};
+
+const InteractiveMap: React.FC<InteractiveMapProps> = (props) => {
+  const {
+    center,
+    zoom = 13,
+    markers = [],
+    onLocationSelect,
+    path = [],
+    heatmap = [],
+    height = '400px',
+    className = ''
+  } = props;
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const markerLayerRef = useRef<L.LayerGroup | null>(null);
+  const overlayLayerRef = useRef<L.LayerGroup | null>(null);
+  const selectionPinRef = useRef<L.Marker | null>(null);
+  const lastSelectedRef = useRef<{ lat: number; lng: number } | null>(null);
+  const onLocationSelectRef = useRef(onLocationSelect);
+  // The map and pin start from the latest view; later changes go through the
+  // effects below instead of recreating them
+  const viewRef = useRef({ center, zoom });
+  const [tilesFailed, setTilesFailed] = useState(() => !navigator.onLine);
+  const [viewport, setViewport] = useState({ zoom, center });
   const [selectedMarker, setSelectedMarker] = useState<MapMarker | null>(null);
 
-  // Simplified map implementation (in production, would use Leaflet or Google Maps)
-  const getMarkerColor = (type: string) => {
-    switch (type) {
-      case 'lost': return 'bg-red-500';
-      case 'found': return 'bg-blue-500';
-      case 'resolved': return 'bg-green-500';
-      case 'event': return 'bg-purple-500';
-      case 'user': return 'bg-gray-500';
-      default: return 'bg-gray-500';
-    }
-  };
+  onLocationSelectRef.current = onLocationSelect;
+  viewRef.current = { center, zoom };
 
-  const getMarkerIcon = (type: string) => {
-    switch (type) {
-      case 'lost':
-      case 'found':
-      case 'resolved':
-        return MapPin;
-      default:
-        return MapPin;
-    }
-  };
+  const selectLocation = useCallback((latlng: L.LatLng) => {
+    selectionPinRef.current?.setLatLng(latlng);
+    lastSelectedRef.current = { lat: latlng.lat, lng: latlng.lng };
+    onLocationSelectRef.current?.(latlng.lat, latlng.lng);
+  }, []);
 
-  const handleMapClick = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!onLocationSelect) return;
-
-    const rect = e.currentTarget.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-    
-    // Convert pixel coordinates to lat/lng (simplified calculation)
-    const lat = currentCenter.lat + (0.5 - y / rect.height) * 0.01 * (21 - currentZoom);
-    const lng = currentCenter.lng + (x / rect.width - 0.5) * 0.01 * (21 - currentZoom);
-    
-    onLocationSelect(lat, lng);
-  };
+  // Try the tile server again when the connection comes back
+  useEffect(() => {
+    const retry = () => setTilesFailed(false);
+    window.addEventListener('online', retry);
+    return () => window.removeEventListener('online', retry);
+  }, []);
 
-  const zoomIn = () => {
-    setCurrentZoom(prev => Math.min(prev + 1, 18));
-  };
+  useEffect(() => {
+    if (tilesFailed || !containerRef.current) return;
 
-  const zoomOut = () => {
-    setCurrentZoom(prev => Math.max(prev - 1, 1));
-  };
+    const { center: initialCenter, zoom: initialZoom } = viewRef.current;
+    const map = L.map(containerRef.current, {
+      zoomControl: false,
+      minZoom: MIN_ZOOM,
+      maxZoom: MAX_ZOOM
+    }).setView([initialCenter.lat, initialCenter.lng], initialZoom);
+    map.createPane('heatmap').style.zIndex = '350';
+
+    // Tiles that error still count towards `load`, so a layer that loads
+    // without a single good tile means the server is unreachable
+    let tilesLoaded = 0;
+    const tiles = L.tileLayer(MAP_TILE_URL, {
+      attribution: MAP_TILE_ATTRIBUTION,
+      maxZoom: MAX_ZOOM
+    });
+    tiles.on('tileload', () => { tilesLoaded++; });
+    tiles.on('load', () => {
+      if (tilesLoaded === 0) setTilesFailed(true);
+    });
+    tiles.addTo(map);
+    const timeout = window.setTimeout(() => {
+      if (tilesLoaded === 0) setTilesFailed(true);
+    }, TILE_TIMEOUT_MS);
+
+    overlayLayerRef.current = L.layerGroup().addTo(map);
+    markerLayerRef.current = L.layerGroup().addTo(map);
+
+    map.on('moveend', () => {
+      const mapCenter = map.getCenter();
+      setViewport({ zoom: map.getZoom(), center: { lat: mapCenter.lat, lng: mapCenter.lng } });
+    });
+    map.on('click', (e: L.LeafletMouseEvent) => {
+      if (onLocationSelectRef.current) selectLocation(e.latlng);
+    });
+
+    mapRef.current = map;
+    return () => {
+      window.clearTimeout(timeout);
+      map.remove();
+      mapRef.current = null;
+      markerLayerRef.current = null;
+      overlayLayerRef.current = null;
+      selectionPinRef.current = null;
+    };
+  }, [tilesFailed, selectLocation]);
+
+  // Follow the center prop, except when it only echoes a location picked here
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    const picked = lastSelectedRef.current;
+    if (picked && picked.lat === center.lat && picked.lng === center.lng) return;
+
+    map.setView([center.lat, center.lng], zoom);
+    selectionPinRef.current?.setLatLng([center.lat, center.lng]);
+  }, [center.lat, center.lng, zoom]);
+
+  // Draggable pin for picking a location
+  const selectable = Boolean(onLocationSelect);
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !selectable) return;
+
+    const { center: pinCenter } = viewRef.current;
+    const pin = L.marker([pinCenter.lat, pinCenter.lng], {
+      icon: markerIcon('bg-red-500'),
+      draggable: true,
+      autoPan: true,
+      zIndexOffset: 1000
+    }).addTo(map);
+    pin.on('dragend', () => selectLocation(pin.getLatLng()));
+    selectionPinRef.current = pin;
+
+    return () => {
+      pin.remove();
+      selectionPinRef.current = null;
+    };
+    // tilesFailed: the map is recreated when tiles come back after a retry
+  }, [selectable, selectLocation, tilesFailed]);
+
+  // Markers, clustered for the current zoom level
+  useEffect(() => {
+    const map = mapRef.current;
+    const layer = markerLayerRef.current;
+    if (!map || !layer) return;
+
+    layer.clearLayers();
+    const clusters = viewport.zoom >= MAX_ZOOM
+      ? markers.map(marker => ({ latitude: marker.latitude, longitude: marker.longitude, items: [marker] }))
+      : clusterMarkers(markers, viewport.zoom);
+
+    clusters.forEach(cluster => {
+      if (cluster.items.length === 1) {
+        const [marker] = cluster.items;
+        L.marker([marker.latitude, marker.longitude], { icon: markerIcon(MARKER_COLORS[marker.type]), title: marker.title })
+          .on('click', () => {
+            setSelectedMarker(marker);
+            marker.onClick?.();
+          })
+          .addTo(layer);
+        return;
+      }
+
+      const bounds = L.latLngBounds(cluster.items.map(item => [item.latitude, item.longitude] as L.LatLngTuple));
+      L.marker([cluster.latitude, cluster.longitude], {
+        icon: clusterIcon(cluster),
+        title: `Zoom in to see ${cluster.items.length} markers`
+      })
+        .on('click', () => map.fitBounds(bounds, { padding: [48, 48], maxZoom: MAX_ZOOM }))
+        .addTo(layer);
+    });
+  }, [markers, viewport.zoom, tilesFailed]);
+
+  // Heatmap and path, under the markers
+  useEffect(() => {
+    const layer = overlayLayerRef.current;
+    if (!layer) return;
+
+    layer.clearLayers();
+    heatmap.forEach(point => {
+      const size = 48 + 48 * point.intensity;
+      L.marker([point.latitude, point.longitude], {
+        pane: 'heatmap',
+        interactive: false,
+        keyboard: false,
+        icon: L.divIcon({
+          className: '',
+          html: `<div class="rounded-full" style="width: ${size}px; height: ${size}px; background: radial-gradient(circle, rgba(239, 68, 68, ${0.25 + 0.5 * point.intensity}) 0%, rgba(249, 115, 22, ${0.15 + 0.25 * point.intensity}) 45%, transparent 70%)"></div>`,
+          iconSize: [size, size],
+          iconAnchor: [size / 2, size / 2]
+        })
+      }).addTo(layer);
+    });
+
+    if (path.length > 1) {
+      L.polyline(path.map(p => [p.latitude, p.longitude] as L.LatLngTuple), {
+        color: '#ea580c',
+        weight: 2,
+        dashArray: '4 3',
+        interactive: false
+      }).addTo(layer);
+
+      // An arrow halfway along each leg, pointing the way the path goes
+      path.slice(1).forEach((to, index) => {
+        const from = path[index];
+        const a = projectToPixels(from.latitude, from.longitude, 0);
+        const b = projectToPixels(to.latitude, to.longitude, 0);
+        const angle = Math.atan2(b.y - a.y, b.x - a.x) * 180 / Math.PI;
+
+        L.marker([(from.latitude + to.latitude) / 2, (from.longitude + to.longitude) / 2], {
+          interactive: false,
+          keyboard: false,
+          icon: L.divIcon({
+            className: '',
+            html: `<svg width="10" height="10" viewBox="0 0 10 10" style="transform: rotate(${angle}deg)"><path d="M 0 0 L 10 5 L 0 10 z" fill="#ea580c" /></svg>`,
+            iconSize: [10, 10],
+            iconAnchor: [5, 5]
+          })
+        }).addTo(layer);
+      });
+    }
+  }, [path, heatmap, tilesFailed]);
 
   const centerOnUser = () => {
     if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
         (position) => {
-          setCurrentCenter({
-            lat: position.coords.latitude,
-            lng: position.coords.longitude
-          });
+          mapRef.current?.setView([position.coords.latitude, position.coords.longitude]);
         },
         (error) => {
           console.error('Geolocation error:', error);
@@ -97,89 +309,25 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
     }
   };
 
+  if (tilesFailed) {
+    return <FallbackMap {...props} />;
+  }
+
   return (
     <div className={`relative ${className}`} style={{ height }}>
       {/* Map Container */}
-      <div
-        ref={mapRef}
-        onClick={handleMapClick}
-        className="w-full h-full bg-gradient-to-br from-green-100 via-blue-100 to-purple-100 rounded-lg overflow-hidden cursor-crosshair relative"
-        style={{
-          backgroundImage: `
-            radial-gradient(circle at 20% 20%, rgba(120, 119, 198, 0.1) 0%, transparent 50%),
-            radial-gradient(circle at 80% 80%, rgba(255, 119, 198, 0.1) 0%, transparent 50%),
-            radial-gradient(circle at 40% 40%, rgba(120, 219, 226, 0.1) 0%, transparent 50%)
-          `
-        }}
-      >
-        {/* Grid Pattern */}
-        <div 
-          className="absolute inset-0 opacity-20"
-          style={{
-            backgroundImage: `
-              linear-gradient(rgba(0,0,0,0.1) 1px, transparent 1px),
-              linear-gradient(90deg, rgba(0,0,0,0.1) 1px, transparent 1px)
-            `,
-            backgroundSize: '20px 20px'
-          }}
-        />
-
-        {/* Markers */}
-        {markers.map((marker, index) => {
-          const MarkerIcon = getMarkerIcon(marker.type);
-          const markerColor = getMarkerColor(marker.type);
-          
-          // Calculate position based on center and zoom (simplified)
-          const offsetLat = (marker.latitude - currentCenter.lat) * 1000 * currentZoom;
-          const offsetLng = (marker.longitude - currentCenter.lng) * 1000 * currentZoom;
-          
-          const x = 50 + offsetLng; // Percentage from left
-          const y = 50 - offsetLat; // Percentage from top
-          
-          // Only show markers that are within view
-          if (x < -10 || x > 110 || y < -10 || y > 110) return null;
-          
-          return (
-            <div
-              key={marker.id}
-              className="absolute transform -translate-x-1/2 -translate-y-1/2 cursor-pointer z-10"
-              style={{ 
-                left: `${Math.max(0, Math.min(100, x))}%`, 
-                top: `${Math.max(0, Math.min(100, y))}%` 
-              }}
-              onClick={(e) => {
-                e.stopPropagation();
-                setSelectedMarker(marker);
-                marker.onClick?.();
-              }}
-            >
-              <div className={`${markerColor} text-white p-2 rounded-full shadow-lg hover:scale-110 transition-transform`}>
-                <MarkerIcon className="h-4 w-4" />
-              </div>
-            </div>
-          );
-        })}
-
-        {/* Center Marker (for location selection) */}
-        {onLocationSelect && (
-          <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 pointer-events-none">
-            <div className="bg-red-500 text-white p-2 rounded-full shadow-lg">
-              <MapPin className="h-4 w-4" />
-            </div>
-          </div>
-        )}
-      </div>
+      <div ref={containerRef} className="w-full h-full rounded-lg overflow-hidden z-0" />
 
       {/* Map Controls */}
-      <div className="absolute top-4 right-4 flex flex-col space-y-2">
+      <div className="absolute top-4 right-4 flex flex-col space-y-2 z-[1000]">
         <button
-          onClick={zoomIn}
+          onClick={() => mapRef.current?.zoomIn()}
           className="bg-white p-2 rounded-lg shadow-md hover:bg-gray-50 transition-colors"
         >
           <ZoomIn className="h-4 w-4 text-gray-600" />
         </button>
         <button
-          onClick={zoomOut}
+          onClick={() => mapRef.current?.zoomOut()}
           className="bg-white p-2 rounded-lg shadow-md hover:bg-gray-50 transition-colors"
         >
           <ZoomOut className="h-4 w-4 text-gray-600" />
@@ -193,18 +341,18 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
       </div>
 
       {/* Map Info */}
-      <div className="absolute bottom-4 left-4 bg-white/90 backdrop-blur-sm px-3 py-2 rounded-lg shadow-md">
+      <div className="absolute bottom-4 left-4 bg-white/90 backdrop-blur-sm px-3 py-2 rounded-lg shadow-md z-[1000]">
         <p className="text-xs text-gray-600">
-          Zoom: {currentZoom} | Center: {currentCenter.lat.toFixed(4)}, {currentCenter.lng.toFixed(4)}
+          Zoom: {viewport.zoom} | Center: {viewport.center.lat.toFixed(4)}, {viewport.center.lng.toFixed(4)}
         </p>
         {onLocationSelect && (
-          <p className="text-xs text-blue-600 mt-1">Click to select location</p>
+          <p className="text-xs text-blue-600 mt-1">Drag the pin or click to select location</p>
         )}
       </div>
 
       {/* Marker Popup */}
       {selectedMarker && (
-        <div className="absolute top-4 left-4 bg-white rounded-lg shadow-lg p-4 max-w-xs z-20">
+        <div className="absolute top-4 left-4 bg-white rounded-lg shadow-lg p-4 max-w-xs z-[1000]">
           <div className="flex items-center justify-between mb-2">
             <h3 className="font-semibold text-gray-900">{selectedMarker.title}</h3>
             <button
@@ -227,4 +375,4 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
   );
 };
 
-export default InteractiveMap;
\ No newline at end of file
+export default InteractiveMap;
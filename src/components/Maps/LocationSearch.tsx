@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Loader, MapPin } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { geocoder, GeocodeResult } from '../../lib/geocoding';
+
+interface LocationSearchProps {
+  onSelect: (result: GeocodeResult) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+// Stands in for GPS: finds a typed town, ZIP or address on the map
+const LocationSearch: React.FC<LocationSearchProps> = ({
+  onSelect,
+  placeholder = 'Town, ZIP or address',
+  className = ''
+}) => {
+  const [query, setQuery] = useState('');
+  const [searching, setSearching] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+
+    setSearching(true);
+    try {
+      const result = await geocoder.geocode(query);
+      if (result) {
+        onSelect(result);
+      } else {
+        toast.error(`Couldn't find "${query.trim()}"`);
+      }
+    } catch (error) {
+      console.error('Error geocoding location:', error);
+      toast.error('Location search is unavailable right now');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className={`flex space-x-2 ${className}`}>
+      <div className="relative flex-1">
+        <MapPin className="h-4 w-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={placeholder}
+          className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+      <button
+        type="submit"
+        disabled={searching || !query.trim()}
+        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center space-x-1"
+      >
+        {searching && <Loader className="h-4 w-4 animate-spin" />}
+        <span>Search</span>
+      </button>
+    </form>
+  );
+};
+
+export default LocationSearch;
@@ -20,7 +20,7 @@ const ReportModal: React.FC<ReportModalProps> = ({
   reportedUserId,
   contentTitle
 }) => {
-  const { submitReport, submitting, reportReasons } = useReporting();
+  const { submitReport, submitting, reportReasons, contentLabels } = useReporting();
   const [selectedReason, setSelectedReason] = useState('');
   const [description, setDescription] = useState('');
 
@@ -47,6 +47,7 @@ const ReportModal: React.FC<ReportModalProps> = ({
   };
 
   const reasons = reportReasons[contentType] || [];
+  const contentLabel = contentLabels[contentType] ?? contentType;
 
   if (!isOpen) return null;
 
@@ -90,7 +91,7 @@ const ReportModal: React.FC<ReportModalProps> = ({
             <form onSubmit={handleSubmit} className="p-6">
               <div className="mb-4">
                 <p className="text-sm text-gray-600 mb-2">
-                  You're reporting this {contentType}
+                  You're reporting this {contentLabel}
                   {contentTitle && `: "${contentTitle}"`}
                 </p>
                 <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
@@ -107,7 +108,7 @@ const ReportModal: React.FC<ReportModalProps> = ({
               <div className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Why are you reporting this {contentType}? *
+                    Why are you reporting this {contentLabel}? *
                   </label>
                   <div className="space-y-2">
                     {reasons.map((reason) => (
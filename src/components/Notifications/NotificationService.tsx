@@ -97,6 +97,9 @@ const NotificationService: React.FC = () => {
       case 'event': return '📅';
       case 'lost_found': return '🚨';
       case 'group_invite': return '👥';
+      case 'reminder': return '⏰';
+      case 'scheduled_post': return '🗓️';
+      case 'mention': return '@';
       default: return '🔔';
     }
   };
@@ -113,9 +116,17 @@ const NotificationService: React.FC = () => {
       case 'event':
         return `/events#event-${notification.related_id}`;
       case 'lost_found':
-        return `/lostfound#report-${notification.related_id}`;
+        // Microchip relay messages about a pet with no open report carry no id
+        return notification.related_id ? `/lostfound#report-${notification.related_id}` : '/notifications';
       case 'group_invite':
         return `/groups#group-${notification.related_id}`;
+      case 'reminder':
+        return '/health';
+      case 'scheduled_post':
+        return '/settings?tab=drafts';
+      case 'mention':
+        // Reel mentions carry no post id
+        return notification.related_id ? `/feed#post-${notification.related_id}` : '/reels';
       default:
         return '/notifications';
     }
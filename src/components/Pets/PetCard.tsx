@@ -1,6 +1,6 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { Heart, Calendar, Weight, Palette, Edit, Trash2, MapPin, Shield } from 'lucide-react';
+import { Heart, Calendar, Weight, Palette, Edit, Trash2, MapPin, Shield, AlertTriangle } from 'lucide-react';
 import { Pet } from '../../lib/supabase';
 
 interface PetCardProps {
@@ -8,13 +8,16 @@ interface PetCardProps {
   onEdit: () => void;
   onDelete: () => void;
   showActions?: boolean;
+  /** Shows a "Report Lost" link for the owner's own pets. */
+  canReportLost?: boolean;
 }
 
 const PetCard: React.FC<PetCardProps> = ({ 
   pet, 
   onEdit, 
   onDelete, 
-  showActions = true 
+  showActions = true,
+  canReportLost = false
 }) => {
   const calculateAge = (dateOfBirth: string) => {
     const birth = new Date(dateOfBirth);
@@ -130,6 +133,16 @@ const PetCard: React.FC<PetCardProps> = ({
           <p className="text-gray-700 text-sm mt-3 line-clamp-2">{pet.bio}</p>
         )}
 
+        {canReportLost && !pet.is_lost && (
+          <Link
+            to={`/lostfound?pet=${pet.id}`}
+            className="mt-3 flex items-center space-x-1 text-sm text-gray-600 hover:text-red-600 transition-colors"
+          >
+            <AlertTriangle className="h-4 w-4" />
+            <span>Report this pet lost</span>
+          </Link>
+        )}
+
         {/* Footer */}
         <div className="mt-3 flex justify-between items-center">
           <span className={`px-2 py-1 rounded-full text-xs font-medium ${
@@ -1,12 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../lib/auth';
-import { supabase, Pet, HealthRecord } from '../../lib/supabase';
+import { supabase, Pet, HealthRecord, PetVital } from '../../lib/supabase';
+import { VITAL_METRICS, VitalMetric, VitalAlert, getSeries, getPercentChange, detectVitalAlerts } from '../../lib/vitals';
+import { computeHealthScore, HealthScoreFactor } from '../../lib/healthScore';
 import { 
   Activity, Calendar, AlertTriangle, CheckCircle, 
-  Clock, Stethoscope, Shield, TrendingUp
+  Clock, Stethoscope, Shield, TrendingUp, Plus
 } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { Link } from 'react-router-dom';
+import VitalsChart from '../Health/VitalsChart';
+import LogVitalsModal from '../Health/LogVitalsModal';
 
 interface PetHealthSummaryProps {
   pet: Pet;
@@ -18,10 +22,12 @@ interface HealthSummary {
   totalRecords: number;
   recentSymptoms: number;
   healthScore: number;
+  scoreFactors: HealthScoreFactor[];
   urgentItems: Array<{
     type: string;
     message: string;
     date?: string;
+    severity?: VitalAlert['severity'];
   }>;
 }
 
@@ -31,8 +37,12 @@ const PetHealthSummary: React.FC<PetHealthSummaryProps> = ({ pet }) => {
     totalRecords: 0,
     recentSymptoms: 0,
     healthScore: 0,
+    scoreFactors: [],
     urgentItems: []
   });
+  const [vitals, setVitals] = useState<PetVital[]>([]);
+  const [chartMetric, setChartMetric] = useState<VitalMetric>('weight');
+  const [showVitalsModal, setShowVitalsModal] = useState(false);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -43,11 +53,25 @@ const PetHealthSummary: React.FC<PetHealthSummaryProps> = ({ pet }) => {
 
   const loadHealthSummary = async () => {
     try {
-      const { data: records } = await supabase
-        .from('health_records')
-        .select('*')
-        .eq('pet_id', pet.id)
-        .order('date', { ascending: false });
+      const [{ data: records }, { data: vitalsData }, { data: medicationsData }] = await Promise.all([
+        supabase
+          .from('health_records')
+          .select('*')
+          .eq('pet_id', pet.id)
+          .order('date', { ascending: false }),
+        supabase
+          .from('pet_vitals')
+          .select('*')
+          .eq('pet_id', pet.id)
+          .order('recorded_at', { ascending: true }),
+        supabase
+          .from('medications')
+          .select('is_active, end_date, frequency')
+          .eq('pet_id', pet.id)
+      ]);
+
+      setVitals(vitalsData || []);
+      const vitalAlerts = detectVitalAlerts(vitalsData || [], pet.species);
 
       if (records) {
         const totalRecords = records.length;
@@ -67,20 +91,21 @@ const PetHealthSummary: React.FC<PetHealthSummaryProps> = ({ pet }) => {
           r.type === 'symptom' && new Date(r.date) >= thirtyDaysAgo
         ).length;
 
-        // Calculate health score
-        let healthScore = 70; // Base score
-        if (lastCheckup) {
-          const daysSinceCheckup = Math.floor(
-            (new Date().getTime() - new Date(lastCheckup).getTime()) / (1000 * 60 * 60 * 24)
-          );
-          if (daysSinceCheckup < 365) healthScore += 20;
-          if (daysSinceCheckup < 180) healthScore += 10;
-        }
-        if (nextVaccination) healthScore += 10;
-        if (recentSymptoms === 0) healthScore += 10;
+        // Health score from the documented model, with a per-factor breakdown
+        const healthScore = computeHealthScore({
+          pet,
+          records,
+          medications: medicationsData || [],
+          vitals: vitalsData || []
+        });
 
         // Generate urgent items
-        const urgentItems = [];
+        const urgentItems: HealthSummary['urgentItems'] = vitalAlerts.map(alert => ({
+          type: alert.metric,
+          message: alert.message,
+          date: alert.date,
+          severity: alert.severity
+        }));
         if (!lastCheckup || new Date().getTime() - new Date(lastCheckup).getTime() > 365 * 24 * 60 * 60 * 1000) {
           urgentItems.push({
             type: 'checkup',
@@ -99,7 +124,8 @@ const PetHealthSummary: React.FC<PetHealthSummaryProps> = ({ pet }) => {
           nextVaccination,
           totalRecords,
           recentSymptoms,
-          healthScore: Math.min(100, healthScore),
+          healthScore: healthScore.score,
+          scoreFactors: healthScore.factors,
           urgentItems
         });
       }
@@ -122,6 +148,10 @@ const PetHealthSummary: React.FC<PetHealthSummaryProps> = ({ pet }) => {
     );
   }
 
+  const chartSeries = getSeries(vitals, chartMetric);
+  const latestReading = chartSeries[chartSeries.length - 1];
+  const monthChange = getPercentChange(chartSeries, 30);
+
   const getHealthScoreColor = (score: number) => {
     if (score >= 80) return 'text-green-600 bg-green-100';
     if (score >= 60) return 'text-yellow-600 bg-yellow-100';
@@ -155,6 +185,18 @@ const PetHealthSummary: React.FC<PetHealthSummaryProps> = ({ pet }) => {
         </div>
       </div>
 
+      {/* Factors that cost points */}
+      {summary.scoreFactors.some(f => f.points < f.maxPoints) && (
+        <div className="space-y-1 mb-4">
+          {summary.scoreFactors.filter(f => f.points < f.maxPoints).map(factor => (
+            <div key={factor.id} className="flex items-start justify-between text-xs" title={factor.detail}>
+              <span className="text-gray-600">{factor.label}: {factor.detail}</span>
+              <span className="font-medium text-gray-900 ml-2 whitespace-nowrap">-{factor.maxPoints - factor.points}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Quick Stats */}
       <div className="grid grid-cols-2 gap-4 mb-4">
         <div className="text-center">
@@ -188,19 +230,67 @@ const PetHealthSummary: React.FC<PetHealthSummaryProps> = ({ pet }) => {
         )}
       </div>
 
+      {/* Vitals Trend */}
+      <div className="mt-4 pt-4 border-t border-gray-200">
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex space-x-1">
+            {(Object.keys(VITAL_METRICS) as VitalMetric[]).map(metric => (
+              <button
+                key={metric}
+                onClick={() => setChartMetric(metric)}
+                className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                  chartMetric === metric ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {VITAL_METRICS[metric].shortLabel}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => setShowVitalsModal(true)}
+            className="text-blue-600 hover:text-blue-700 text-xs font-medium flex items-center space-x-1"
+          >
+            <Plus className="h-3 w-3" />
+            <span>Log Vitals</span>
+          </button>
+        </div>
+
+        {latestReading && (
+          <div className="flex items-center justify-between text-sm mb-1">
+            <span className="font-medium text-gray-900">
+              {latestReading.value} {VITAL_METRICS[chartMetric].unit}
+            </span>
+            {monthChange !== null && Math.abs(monthChange) >= 0.1 && (
+              <span className={`flex items-center space-x-1 text-xs ${monthChange < 0 ? 'text-orange-600' : 'text-gray-600'}`}>
+                <TrendingUp className={`h-3 w-3 ${monthChange < 0 ? 'rotate-180' : ''}`} />
+                <span>{monthChange > 0 ? '+' : ''}{monthChange.toFixed(1)}% in 30 days</span>
+              </span>
+            )}
+          </div>
+        )}
+        <VitalsChart series={chartSeries} unit={VITAL_METRICS[chartMetric].unit} />
+      </div>
+
       {/* Urgent Items */}
       {summary.urgentItems.length > 0 && (
         <div className="mt-4 pt-4 border-t border-gray-200">
           <div className="space-y-2">
             {summary.urgentItems.map((item, index) => (
               <div key={index} className="flex items-center space-x-2 text-sm">
-                <AlertTriangle className="h-4 w-4 text-orange-500" />
-                <span className="text-orange-700">{item.message}</span>
+                <AlertTriangle className={`h-4 w-4 ${item.severity === 'critical' ? 'text-red-500' : 'text-orange-500'}`} />
+                <span className={item.severity === 'critical' ? 'text-red-700' : 'text-orange-700'}>{item.message}</span>
               </div>
             ))}
           </div>
         </div>
       )}
+
+      <LogVitalsModal
+        isOpen={showVitalsModal}
+        onClose={() => setShowVitalsModal(false)}
+        onSaved={loadHealthSummary}
+        pet={pet}
+      />
     </motion.div>
   );
 };
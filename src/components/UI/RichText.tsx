@@ -0,0 +1,50 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { parseRichText } from '../../lib/richText';
+
+interface RichTextProps {
+  text: string;
+  className?: string;
+  linkClassName?: string;
+}
+
+// Post, comment and caption text with #tags and @mentions as links
+const RichText: React.FC<RichTextProps> = ({
+  text,
+  className = '',
+  linkClassName = 'text-blue-600 hover:underline'
+}) => {
+  return (
+    <span className={className}>
+      {parseRichText(text).map((segment, index) => {
+        if (segment.type === 'tag') {
+          return (
+            <Link
+              key={index}
+              to={`/tags/${segment.tag}`}
+              onClick={(e) => e.stopPropagation()}
+              className={linkClassName}
+            >
+              {segment.text}
+            </Link>
+          );
+        }
+        if (segment.type === 'mention') {
+          return (
+            <Link
+              key={index}
+              to={`/u/${segment.handle}`}
+              onClick={(e) => e.stopPropagation()}
+              className={`font-medium ${linkClassName}`}
+            >
+              {segment.text}
+            </Link>
+          );
+        }
+        return <React.Fragment key={index}>{segment.text}</React.Fragment>;
+      })}
+    </span>
+  );
+};
+
+export default RichText;
@@ -0,0 +1,119 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../lib/auth';
+import { supabase } from '../lib/supabase';
+import { getLocation } from '../mobile/gps';
+import { firstRow } from '../lib/firstrow';
+import toast from 'react-hot-toast';
+
+/** A shared location older than this is refreshed when the app opens. */
+const REFRESH_AFTER_MS = 60 * 60 * 1000;
+
+/**
+ * Opt-in sharing of the user's last known location, used by the
+ * `lost-pet-broadcast` function to alert neighbors about lost pets.
+ */
+export const useAlertLocation = () => {
+  const { profile } = useAuth();
+  const [isSharing, setIsSharing] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const saveLocation = useCallback(async (): Promise<boolean> => {
+    if (!profile) return false;
+
+    const coords = await getLocation();
+    const { error } = await supabase
+      .from('user_locations')
+      .upsert({
+        user_id: profile.id,
+        latitude: coords.lat,
+        longitude: coords.lng,
+        accuracy: coords.accuracy ?? null,
+        updated_at: new Date().toISOString()
+      });
+
+    if (error) {
+      console.error('Error saving alert location:', error);
+      return false;
+    }
+    return true;
+  }, [profile]);
+
+  const loadAlertLocation = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('user_locations')
+        .select('updated_at')
+        .eq('user_id', profile.id)
+        .limit(1);
+
+      if (error) {
+        console.error('Error loading alert location:', error);
+        return;
+      }
+
+      const location = firstRow(data);
+      setIsSharing(!!location);
+
+      // Keep the location current without asking again
+      if (location && Date.now() - new Date(location.updated_at).getTime() > REFRESH_AFTER_MS) {
+        await saveLocation();
+      }
+    } catch (error) {
+      console.error('Error refreshing alert location:', error);
+    }
+  }, [profile, saveLocation]);
+
+  useEffect(() => {
+    if (profile) {
+      loadAlertLocation();
+    }
+  }, [profile, loadAlertLocation]);
+
+  const startSharing = async () => {
+    setLoading(true);
+    try {
+      if (await saveLocation()) {
+        setIsSharing(true);
+        toast.success("You'll be alerted when a pet goes missing nearby");
+      } else {
+        toast.error('Failed to enable lost pet alerts');
+      }
+    } catch (error) {
+      console.error('Error getting location:', error);
+      toast.error('Location access is needed for nearby lost pet alerts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const stopSharing = async () => {
+    if (!profile) return;
+
+    setLoading(true);
+    try {
+      const { error } = await supabase
+        .from('user_locations')
+        .delete()
+        .eq('user_id', profile.id);
+
+      if (error) {
+        console.error('Error removing alert location:', error);
+        toast.error('Failed to disable lost pet alerts');
+      } else {
+        setIsSharing(false);
+        toast.success('Your location is no longer shared');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    isSharing,
+    loading,
+    startSharing,
+    stopSharing
+  };
+};
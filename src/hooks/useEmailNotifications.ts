@@ -13,6 +13,7 @@ interface EmailPreferences {
   events: boolean;
   lost_found_alerts: boolean;
   group_activity: boolean;
+  health_reminders: boolean;
 }
 
 export const useEmailNotifications = () => {
@@ -25,7 +26,8 @@ export const useEmailNotifications = () => {
     messages: true,
     events: true,
     lost_found_alerts: true,
-    group_activity: false
+    group_activity: false,
+    health_reminders: true
   });
   const [loading, setLoading] = useState(false);
 
@@ -3,7 +3,7 @@ import { useAuth } from '../lib/auth';
 import { supabase } from '../lib/supabase';
 import toast from 'react-hot-toast';
 
-export type ReportableContentType = 'post' | 'comment' | 'user' | 'group' | 'event' | 'reel' | 'message';
+export type ReportableContentType = 'post' | 'comment' | 'user' | 'group' | 'event' | 'reel' | 'message' | 'lost_found_relay';
 
 export interface ReportData {
   contentType: ReportableContentType;
@@ -107,12 +107,25 @@ export const useReporting = () => {
       'Spam',
       'Threats',
       'Other'
+    ],
+    lost_found_relay: [
+      'Asking for money or a payment code',
+      'Claims to have the pet but will not prove it',
+      'Harassment or threats',
+      'Spam',
+      'Other'
     ]
   };
 
+  // Wording for types whose id is not a readable name
+  const contentLabels: Partial<Record<ReportableContentType, string>> = {
+    lost_found_relay: 'conversation'
+  };
+
   return {
     submitReport,
     submitting,
-    reportReasons
+    reportReasons,
+    contentLabels
   };
 };
\ No newline at end of file
@@ -0,0 +1,181 @@
+import type { Pet } from './supabase';
+
+export type RedFlagId = 'toxin' | 'bloat' | 'urinary_blockage' | 'breathing' | 'seizure';
+
+export interface RedFlag {
+  id: RedFlagId;
+  title: string;
+  /** Why this combination was flagged, in owner-facing words. */
+  reason: string;
+  firstAid: string[];
+}
+
+export interface RedFlagInput {
+  symptoms: string[];
+  behavior_changes?: string;
+  additional_notes?: string;
+}
+
+/** Symptom options that only exist to catch emergencies; shown in the analyzer. */
+export const RED_FLAG_SYMPTOMS = [
+  'Ate something toxic',
+  'Seizure',
+  'Straining to urinate',
+  'Swollen belly',
+  'Retching without vomiting'
+];
+
+/** Dogs at or above this weight (lbs) are treated as large for bloat risk. */
+export const LARGE_DOG_WEIGHT_LBS = 50;
+
+// Deep-chested breeds with the highest bloat (GDV) risk, whatever their weight
+const BLOAT_RISK_BREEDS = /great dane|german shepherd|standard poodle|weimaraner|saint bernard|st\.? bernard|doberman|akita|bloodhound|irish setter|irish wolfhound|gordon setter|boxer|newfoundland|mastiff|labrador|golden retriever/i;
+
+const TEXT_PATTERNS: Record<RedFlagId, RegExp> = {
+  toxin: /poison|toxi[cn]|antifreeze|rat bait|slug bait|\bate (some )?(chocolate|grapes|raisins|xylitol|gum|lil(y|ies)|onions?|garlic|ibuprofen|paracetamol|acetaminophen|pills|medication)/i,
+  bloat: /bloat|swollen (belly|stomach|abdomen)|distended|dry heav|retching/i,
+  urinary_blockage: /strain(ing)? to (urinate|pee)|can'?t (urinate|pee)|no urine|blocked|in and out of the litter/i,
+  breathing: /difficult(y)? breathing|trouble breathing|labou?red breathing|gasping|can'?t breathe|open[- ]mouth breathing|blue (gums|tongue)/i,
+  seizure: /seiz|convuls|fitting|twitching uncontrollabl/i
+};
+
+const SYMPTOM_TRIGGERS: Record<RedFlagId, string[]> = {
+  toxin: ['Ate something toxic'],
+  bloat: ['Swollen belly', 'Retching without vomiting'],
+  urinary_blockage: ['Straining to urinate'],
+  breathing: ['Difficulty breathing'],
+  seizure: ['Seizure']
+};
+
+const TITLES: Record<RedFlagId, string> = {
+  toxin: 'Possible poisoning',
+  bloat: 'Possible bloat (GDV)',
+  urinary_blockage: 'Possible urinary blockage',
+  breathing: 'Breathing difficulty',
+  seizure: 'Seizure'
+};
+
+type FirstAidSteps = { default: string[] } & Partial<Record<Pet['species'], string[]>>;
+
+// Kept short on purpose: these are read in a hurry, on the way to the vet
+export const FIRST_AID: Record<RedFlagId, FirstAidSteps> = {
+  toxin: {
+    default: [
+      'Call your vet or a pet poison hotline now (ASPCA: 888-426-4435)',
+      'Do not make your pet vomit unless a vet tells you to',
+      'Bring the packaging or a sample of what was eaten'
+    ],
+    cat: [
+      'Call your vet or a pet poison hotline now (ASPCA: 888-426-4435)',
+      'Never give hydrogen peroxide or any human medicine to a cat',
+      'If lilies were involved, even pollen is dangerous — go in even if your cat seems fine',
+      'Bring the packaging or a sample of what was eaten'
+    ]
+  },
+  bloat: {
+    default: [
+      'Go to the nearest emergency vet now — bloat can be fatal within hours',
+      'Do not give food or water',
+      'Do not try to make your dog vomit or walk it off',
+      'Call ahead so the clinic can prepare'
+    ]
+  },
+  urinary_blockage: {
+    default: [
+      'Go to a vet now — a blocked bladder can be fatal within a day',
+      'Do not press on the belly',
+      'Keep your cat in a carrier and as calm as possible'
+    ]
+  },
+  breathing: {
+    default: [
+      'Keep your pet calm, cool and still',
+      'Remove any collar or harness',
+      'Keep the airway straight; do not put anything in the mouth',
+      'Go to the nearest vet now'
+    ],
+    cat: [
+      'Put your cat in a carrier and do not restrain it — struggling makes breathing worse',
+      'Keep the carrier somewhere cool and quiet',
+      'Go to the nearest vet now'
+    ],
+    rabbit: [
+      'Keep your rabbit upright in a carrier in a cool, quiet place',
+      'Do not hold it on its back',
+      'Go to the nearest vet now'
+    ],
+    bird: [
+      'Put your bird in a small, warm carrier away from fumes or smoke',
+      'Do not handle it more than necessary',
+      'Go to an avian or emergency vet now'
+    ]
+  },
+  seizure: {
+    default: [
+      'Keep your hands away from the mouth — pets do not swallow their tongues',
+      'Move furniture and stairs out of reach and dim the lights',
+      'Time the seizure; over 5 minutes, or several in a row, is critical',
+      'Keep your pet warm and quiet afterwards and call your vet'
+    ]
+  }
+};
+
+export function getFirstAidSteps(id: RedFlagId, species: Pet['species']): string[] {
+  return FIRST_AID[id][species] || FIRST_AID[id].default;
+}
+
+export function isLargeDog(pet: Pick<Pet, 'species' | 'breed' | 'weight'>): boolean {
+  return pet.species === 'dog' && (
+    (pet.weight ?? 0) >= LARGE_DOG_WEIGHT_LBS || (!!pet.breed && BLOAT_RISK_BREEDS.test(pet.breed))
+  );
+}
+
+function isMale(pet: Pick<Pet, 'gender'>): boolean {
+  return /\bmale\b|^m$/i.test(pet.gender?.trim() || '');
+}
+
+/**
+ * Red flags in the analyzer's answers that call for the emergency screen
+ * instead of an analysis. Runs entirely on the device, before any AI call.
+ */
+export function detectRedFlags(
+  pet: Pick<Pet, 'species' | 'breed' | 'weight' | 'gender'>,
+  input: RedFlagInput
+): RedFlag[] {
+  const text = [...input.symptoms, input.behavior_changes, input.additional_notes].filter(Boolean).join('\n');
+  const has = (id: RedFlagId) =>
+    SYMPTOM_TRIGGERS[id].some(s => input.symptoms.includes(s)) || TEXT_PATTERNS[id].test(text);
+  const flags: Array<{ id: RedFlagId; reason: string }> = [];
+
+  if (has('breathing')) {
+    flags.push({ id: 'breathing', reason: 'Breathing difficulty can become life-threatening within minutes' });
+  }
+  if (has('seizure')) {
+    flags.push({ id: 'seizure', reason: 'Seizures need a vet to find the cause and prevent more' });
+  }
+  if (has('toxin')) {
+    flags.push({ id: 'toxin', reason: 'Many toxins are treatable only in the first hours after exposure' });
+  }
+  if (pet.species === 'dog' && has('bloat')) {
+    const signs = SYMPTOM_TRIGGERS.bloat.filter(s => input.symptoms.includes(s)).length;
+    // Large and deep-chested dogs are flagged on one sign; others need both
+    if (isLargeDog(pet) || signs >= 2) {
+      flags.push({
+        id: 'bloat',
+        reason: isLargeDog(pet)
+          ? 'A swollen belly or unproductive retching in a large dog can mean bloat'
+          : 'A swollen belly with unproductive retching can mean bloat'
+      });
+    }
+  }
+  if (pet.species === 'cat' && isMale(pet) && has('urinary_blockage')) {
+    flags.push({ id: 'urinary_blockage', reason: 'Male cats straining to urinate may have a blocked urethra' });
+  }
+
+  return flags.map(({ id, reason }) => ({
+    id,
+    title: TITLES[id],
+    reason,
+    firstAid: getFirstAidSteps(id, pet.species)
+  }));
+}
@@ -0,0 +1,110 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Post } from './supabase';
+
+export type FeedSort = 'recent' | 'popular' | 'following' | 'for_you';
+
+/** Why the ranked feed picked a post; see `_shared/feedRanking.ts`. */
+export interface FeedRanking {
+  score: number;
+  recency: number;
+  reasons: Array<{ id: string; points: number; maxPoints: number; detail: string }>;
+}
+
+/** A row of `feed_posts`: the post with its author, pet and the caller's flags. */
+export interface FeedPost extends Omit<Post, 'profiles' | 'pets'> {
+  profiles: {
+    id: string;
+    display_name: string;
+    avatar_url?: string;
+  };
+  pets?: {
+    id: string;
+    name: string;
+    species: string;
+  } | null;
+  user_liked: boolean;
+  user_saved: boolean;
+  author_followed: boolean;
+  /** Only on posts from the ranked feed. */
+  ranking?: FeedRanking;
+}
+
+/** The last post of a page; the next page starts right after it. */
+export interface FeedCursor {
+  created_at: string;
+  id: string;
+  likes_count: number;
+}
+
+export interface FeedPage {
+  posts: FeedPost[];
+  /** Null once there are no more posts. */
+  nextCursor: FeedCursor | null;
+}
+
+export const FEED_PAGE_SIZE = 20;
+
+export function feedCursor(post: Pick<FeedPost, 'created_at' | 'id' | 'likes_count'>): FeedCursor {
+  return { created_at: post.created_at, id: post.id, likes_count: post.likes_count };
+}
+
+/**
+ * Appends a page, skipping posts already shown; popular pages can repeat a
+ * post whose likes changed while scrolling.
+ */
+export function appendFeedPage<T extends { id: string }>(existing: T[], page: T[]): T[] {
+  const seen = new Set(existing.map(post => post.id));
+  return [...existing, ...page.filter(post => !seen.has(post.id))];
+}
+
+/**
+ * One page of the feed from `get_feed_page`, in a single round trip.
+ * Throws the Supabase error so callers can show their own message.
+ */
+export async function loadFeedPage(
+  sb: SupabaseClient,
+  sort: FeedSort,
+  cursor: FeedCursor | null = null,
+  pageSize: number = FEED_PAGE_SIZE
+): Promise<FeedPage> {
+  // Ask for one extra row to know whether another page exists
+  const { data, error } = await sb.rpc('get_feed_page', {
+    p_sort: sort,
+    p_cursor_created_at: cursor?.created_at ?? null,
+    p_cursor_id: cursor?.id ?? null,
+    p_cursor_likes: cursor?.likes_count ?? null,
+    p_limit: pageSize + 1
+  });
+
+  if (error) throw error;
+
+  const rows = (data || []) as FeedPost[];
+  const posts = rows.slice(0, pageSize);
+  return {
+    posts,
+    nextCursor: rows.length > pageSize ? feedCursor(posts[posts.length - 1]) : null
+  };
+}
+
+/**
+ * One page of the ranked feed from the `feed-for-you` function. Ranking has no
+ * keyset, so the next page excludes the posts already shown; the cursor only
+ * marks that there is one.
+ */
+export async function loadForYouPage(
+  sb: SupabaseClient,
+  shownIds: string[] = [],
+  pageSize: number = FEED_PAGE_SIZE
+): Promise<FeedPage> {
+  const { data, error } = await sb.functions.invoke('feed-for-you', {
+    body: { page_size: pageSize, exclude_ids: shownIds }
+  });
+
+  if (error) throw error;
+
+  const posts = (data?.posts || []) as FeedPost[];
+  return {
+    posts,
+    nextCursor: data?.has_more && posts.length > 0 ? feedCursor(posts[posts.length - 1]) : null
+  };
+}
@@ -0,0 +1,216 @@
+// Turns free-text locations into coordinates and back. The provider is
+// pluggable: any Nominatim-compatible server, or a local gazetteer for tests
+// and offline development. Kept free of the Supabase client so tests can
+// import it too.
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  /** Short human-readable name, e.g. "Mission District, San Francisco". */
+  label: string;
+}
+
+export interface GeocodingProvider {
+  search(query: string): Promise<GeocodeResult | null>;
+  reverse(latitude: number, longitude: number): Promise<string | null>;
+}
+
+export interface GazetteerPlace {
+  name: string;
+  latitude: number;
+  longitude: number;
+  /** Other ways people write the place, e.g. ZIP codes or "SF". */
+  aliases?: string[];
+}
+
+export interface Geocoder {
+  geocode(query: string): Promise<GeocodeResult | null>;
+  reverseGeocode(latitude: number, longitude: number): Promise<string | null>;
+}
+
+export const DEFAULT_NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+/** The public Nominatim server allows one request per second. */
+export const NOMINATIM_MIN_INTERVAL_MS = 1000;
+/** Reverse lookups farther than this from every gazetteer place find nothing. */
+export const GAZETTEER_MAX_MILES = 25;
+const CACHE_SIZE = 200;
+
+/** Stand-in places for the local provider. */
+export const DEFAULT_GAZETTEER: GazetteerPlace[] = [
+  { name: 'San Francisco, CA', latitude: 37.7749, longitude: -122.4194, aliases: ['sf', '94103', '94110'] },
+  { name: 'Oakland, CA', latitude: 37.8044, longitude: -122.2712, aliases: ['94612'] },
+  { name: 'Los Angeles, CA', latitude: 34.0522, longitude: -118.2437, aliases: ['la', '90012'] },
+  { name: 'Seattle, WA', latitude: 47.6062, longitude: -122.3321, aliases: ['98101'] },
+  { name: 'Denver, CO', latitude: 39.7392, longitude: -104.9903, aliases: ['80202'] },
+  { name: 'Chicago, IL', latitude: 41.8781, longitude: -87.6298, aliases: ['60601'] },
+  { name: 'Austin, TX', latitude: 30.2672, longitude: -97.7431, aliases: ['78701'] },
+  { name: 'New York, NY', latitude: 40.7128, longitude: -74.006, aliases: ['nyc', '10007'] },
+  { name: 'Boston, MA', latitude: 42.3601, longitude: -71.0589, aliases: ['02108'] },
+  { name: 'Miami, FL', latitude: 25.7617, longitude: -80.1918, aliases: ['33130'] }
+];
+
+interface NominatimAddress {
+  road?: string;
+  pedestrian?: string;
+  park?: string;
+  neighbourhood?: string;
+  suburb?: string;
+  city?: string;
+  town?: string;
+  village?: string;
+  state?: string;
+}
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name: string;
+  address?: NominatimAddress;
+}
+
+function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function distanceMiles(aLat: number, aLng: number, bLat: number, bLng: number): number {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(bLat - aLat);
+  const dLng = toRad(bLng - aLng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(aLat)) * Math.cos(toRad(bLat)) * Math.sin(dLng / 2) ** 2;
+  return 3959 * 2 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * The most specific street-level part of an address plus its town, falling
+ * back to the start of Nominatim's long display name.
+ */
+export function placeLabel(place: Pick<NominatimPlace, 'display_name' | 'address'>): string {
+  const address = place.address ?? {};
+  const local = address.park ?? address.road ?? address.pedestrian ?? address.neighbourhood ?? address.suburb;
+  const town = address.city ?? address.town ?? address.village ?? address.state;
+  const parts = [local, town].filter((part): part is string => Boolean(part));
+
+  return parts.length > 0
+    ? [...new Set(parts)].join(', ')
+    : place.display_name.split(',').slice(0, 2).map(part => part.trim()).join(', ');
+}
+
+export function nominatimProvider(
+  baseUrl: string = DEFAULT_NOMINATIM_URL,
+  fetchFn: typeof fetch = (...args) => fetch(...args)
+): GeocodingProvider {
+  const root = baseUrl.replace(/\/+$/, '');
+  let queue: Promise<unknown> = Promise.resolve();
+
+  // Requests go out one at a time, spaced to respect the usage policy
+  const request = <T>(path: string, params: Record<string, string>): Promise<T> => {
+    const run = queue.then(async () => {
+      const url = `${root}/${path}?${new URLSearchParams({ format: 'jsonv2', addressdetails: '1', ...params })}`;
+      const response = await fetchFn(url, { headers: { Accept: 'application/json' } });
+      if (!response.ok) {
+        throw new Error(`Geocoding request failed (${response.status})`);
+      }
+      return response.json() as Promise<T>;
+    });
+    const wait = () => new Promise(resolve => setTimeout(resolve, NOMINATIM_MIN_INTERVAL_MS));
+    queue = run.then(wait, wait);
+    return run;
+  };
+
+  return {
+    async search(query) {
+      const results = await request<NominatimPlace[]>('search', { q: query, limit: '1' });
+      const [place] = results;
+      if (!place) return null;
+
+      return {
+        latitude: parseFloat(place.lat),
+        longitude: parseFloat(place.lon),
+        label: placeLabel(place)
+      };
+    },
+
+    async reverse(latitude, longitude) {
+      const place = await request<NominatimPlace & { error?: string }>('reverse', {
+        lat: String(latitude),
+        lon: String(longitude),
+        zoom: '17'
+      });
+      return place.error || !place.display_name ? null : placeLabel(place);
+    }
+  };
+}
+
+export function gazetteerProvider(places: GazetteerPlace[] = DEFAULT_GAZETTEER): GeocodingProvider {
+  return {
+    async search(query) {
+      const q = normalizeQuery(query);
+      const place = places.find(p =>
+        [p.name, p.name.split(',')[0], ...(p.aliases ?? [])].some(name => {
+          const n = normalizeQuery(name);
+          return q === n || (n.length >= 4 && q.includes(n));
+        })
+      );
+      return place ? { latitude: place.latitude, longitude: place.longitude, label: place.name } : null;
+    },
+
+    async reverse(latitude, longitude) {
+      let nearest: GazetteerPlace | null = null;
+      let nearestMiles = GAZETTEER_MAX_MILES;
+      for (const place of places) {
+        const miles = distanceMiles(latitude, longitude, place.latitude, place.longitude);
+        if (miles <= nearestMiles) {
+          nearest = place;
+          nearestMiles = miles;
+        }
+      }
+      return nearest?.name ?? null;
+    }
+  };
+}
+
+/**
+ * Wraps a provider with a cache. Queries are matched case-insensitively and
+ * coordinates to four decimals (~10 m); failed lookups are not cached.
+ */
+export function createGeocoder(provider: GeocodingProvider, cacheSize: number = CACHE_SIZE): Geocoder {
+  const cache = new Map<string, Promise<GeocodeResult | string | null>>();
+
+  const cached = <T extends GeocodeResult | string | null>(key: string, lookup: () => Promise<T>): Promise<T> => {
+    const hit = cache.get(key);
+    if (hit) {
+      // Move to the back so the oldest entry is the least recently used
+      cache.delete(key);
+      cache.set(key, hit);
+      return hit as Promise<T>;
+    }
+
+    const pending = lookup();
+    cache.set(key, pending);
+    pending.catch(() => cache.delete(key));
+    if (cache.size > cacheSize) {
+      cache.delete(cache.keys().next().value as string);
+    }
+    return pending;
+  };
+
+  return {
+    geocode(query) {
+      const q = normalizeQuery(query);
+      if (!q) return Promise.resolve(null);
+      return cached(`search:${q}`, () => provider.search(q));
+    },
+
+    reverseGeocode(latitude, longitude) {
+      return cached(`reverse:${latitude.toFixed(4)},${longitude.toFixed(4)}`, () => provider.reverse(latitude, longitude));
+    }
+  };
+}
+
+// "local" uses the built-in gazetteer instead of a geocoding server
+const GEOCODER_PROVIDER: string = import.meta.env?.VITE_GEOCODER_PROVIDER || 'nominatim';
+const GEOCODER_URL: string = import.meta.env?.VITE_GEOCODER_URL || DEFAULT_NOMINATIM_URL;
+
+export const geocoder: Geocoder = createGeocoder(
+  GEOCODER_PROVIDER === 'local' ? gazetteerProvider() : nominatimProvider(GEOCODER_URL)
+);
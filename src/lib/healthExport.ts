@@ -0,0 +1,391 @@
+import type { Pet, HealthRecord, Medication, Profile, PetVital } from './supabase';
+import { VITAL_METRICS, VitalMetric } from './vitals';
+import { URGENCY_LABELS, describeOutcome, getSymptomAnalysis } from './symptoms';
+import { escapeHtml } from '../../supabase/functions/_shared/html.ts';
+
+export interface ExportRange {
+  from?: string;
+  to?: string;
+}
+
+/**
+ * A record's attachment. The JSON bundle carries the file itself (`data`) so
+ * it keeps working; the printable summary can only link to it, through a
+ * signed `url` that stops working at `expiresAt`.
+ */
+export interface ExportAttachment {
+  recordId: string;
+  fileName: string;
+  contentType?: string;
+  /** Base64 file contents. */
+  data?: string;
+  url?: string;
+  expiresAt?: string;
+}
+
+/** How long the summary's attachment links last, for the owner to pick. */
+export const ATTACHMENT_LINK_DURATIONS = [
+  { label: '1 day', seconds: 24 * 60 * 60 },
+  { label: '1 week', seconds: 7 * 24 * 60 * 60 },
+  { label: '30 days', seconds: 30 * 24 * 60 * 60 },
+  { label: '1 year', seconds: 365 * 24 * 60 * 60 }
+];
+
+export interface HealthExportData {
+  pet: Pet;
+  owner: Pick<Profile, 'display_name' | 'email'>;
+  records: HealthRecord[];
+  medications: Medication[];
+  vitals: PetVital[];
+  attachments: ExportAttachment[];
+  range: ExportRange;
+  generatedAt: string;
+}
+
+type Resource = { resourceType: string; id: string } & Record<string, unknown>;
+
+export interface HealthBundle {
+  resourceType: 'Bundle';
+  type: 'collection';
+  timestamp: string;
+  meta: { source: string; range: ExportRange };
+  entry: { fullUrl: string; resource: Resource }[];
+}
+
+const RECORD_TYPE_LABELS: Record<HealthRecord['type'], string> = {
+  checkup: 'Checkup',
+  vaccination: 'Vaccination',
+  medication: 'Medication',
+  surgery: 'Surgery',
+  emergency: 'Emergency',
+  symptom: 'Symptom',
+  other: 'Other'
+};
+
+const FREQUENCY_TEXT: Record<Medication['frequency'], string> = {
+  daily: 'Once daily',
+  twice_daily: 'Twice daily',
+  three_times_daily: 'Three times daily',
+  weekly: 'Once weekly',
+  as_needed: 'As needed'
+};
+
+const VITAL_COLUMNS: VitalMetric[] = ['weight', 'body_condition_score', 'temperature', 'heart_rate'];
+
+const VITAL_OBSERVATIONS: Record<VitalMetric, {
+  category: string;
+  code: Record<string, unknown>;
+  unit: Record<string, string>;
+}> = {
+  weight: {
+    category: 'vital-signs',
+    code: { coding: [{ system: 'http://loinc.org', code: '29463-7', display: 'Body weight' }] },
+    unit: { unit: 'lb', system: 'http://unitsofmeasure.org', code: '[lb_av]' }
+  },
+  body_condition_score: {
+    category: 'exam',
+    code: { text: 'Body condition score (1-9 scale)' },
+    unit: { unit: 'score' }
+  },
+  temperature: {
+    category: 'vital-signs',
+    code: { coding: [{ system: 'http://loinc.org', code: '8310-5', display: 'Body temperature' }] },
+    unit: { unit: 'degF', system: 'http://unitsofmeasure.org', code: '[degF]' }
+  },
+  heart_rate: {
+    category: 'vital-signs',
+    code: { coding: [{ system: 'http://loinc.org', code: '8867-4', display: 'Heart rate' }] },
+    unit: { unit: '/min', system: 'http://unitsofmeasure.org', code: '/min' }
+  }
+};
+
+export function isInRange(date: string, range: ExportRange): boolean {
+  const day = date.split('T')[0];
+  return (!range.from || day >= range.from) && (!range.to || day <= range.to);
+}
+
+/** Medications whose course overlaps the range at all. */
+export function medicationOverlapsRange(medication: Medication, range: ExportRange): boolean {
+  return (!range.to || medication.start_date <= range.to) &&
+    (!range.from || !medication.end_date || medication.end_date >= range.from);
+}
+
+/** Base64 for embedding a file in the bundle; chunked to stay under argument limits. */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Storage path of an attachment inside the private health bucket, taken from
+ * the stored public URL (`.../object/public/<bucket>/<path>`).
+ */
+export function getAttachmentPath(url: string, bucket: string): string | null {
+  const marker = `/${bucket}/`;
+  const index = url.indexOf(marker);
+  if (index === -1) return null;
+  return decodeURIComponent(url.slice(index + marker.length).split('?')[0]);
+}
+
+/**
+ * FHIR R4-flavoured collection bundle: the pet as a Patient with the animal
+ * extension, vaccinations as Immunization, medications as
+ * MedicationStatement, vitals as Observation and everything else as
+ * Encounter/Procedure/Condition. Not a validated FHIR profile, just close
+ * enough for clinic systems to map.
+ */
+export function buildHealthBundle(data: HealthExportData): HealthBundle {
+  const { pet, records, medications, vitals, attachments } = data;
+  const patientRef = { reference: `Patient/${pet.id}`, display: pet.name };
+  const entry: HealthBundle['entry'] = [];
+  const add = (resource: Resource) => {
+    entry.push({ fullUrl: `urn:uuid:${resource.id}`, resource });
+  };
+
+  add({
+    resourceType: 'Patient',
+    id: pet.id,
+    name: [{ text: pet.name }],
+    gender: ['male', 'female'].includes((pet.gender || '').toLowerCase()) ? pet.gender!.toLowerCase() : 'unknown',
+    birthDate: pet.date_of_birth,
+    extension: [{
+      url: 'http://hl7.org/fhir/StructureDefinition/patient-animal',
+      extension: [
+        { url: 'species', valueCodeableConcept: { text: pet.species } },
+        ...(pet.breed ? [{ url: 'breed', valueCodeableConcept: { text: pet.breed } }] : [])
+      ]
+    }],
+    contact: [{
+      relationship: [{ text: 'Owner' }],
+      name: { text: data.owner.display_name },
+      telecom: [{ system: 'email', value: data.owner.email }]
+    }]
+  });
+
+  for (const record of records) {
+    const note = record.description ? [{ text: record.description }] : undefined;
+    const performer = record.veterinarian ? [{ actor: { display: record.veterinarian } }] : undefined;
+
+    switch (record.type) {
+      case 'vaccination':
+        add({
+          resourceType: 'Immunization',
+          id: record.id,
+          status: 'completed',
+          vaccineCode: { text: record.title },
+          patient: patientRef,
+          occurrenceDateTime: record.date,
+          performer,
+          note
+        });
+        break;
+      case 'surgery':
+        add({
+          resourceType: 'Procedure',
+          id: record.id,
+          status: 'completed',
+          code: { text: record.title },
+          subject: patientRef,
+          performedDateTime: record.date,
+          performer,
+          note
+        });
+        break;
+      case 'symptom': {
+        const outcome = describeOutcome(record);
+        const analysis = getSymptomAnalysis(record);
+        add({
+          resourceType: 'Condition',
+          id: record.id,
+          clinicalStatus: record.symptom_outcome
+            ? { text: record.symptom_outcome === 'resolved' ? 'resolved' : 'active' }
+            : undefined,
+          severity: analysis ? { text: URGENCY_LABELS[analysis.urgency_level] } : undefined,
+          code: { text: record.title },
+          subject: patientRef,
+          onsetDateTime: record.date,
+          note: outcome ? [...(note || []), { text: `Outcome: ${outcome}` }] : note
+        });
+        break;
+      }
+      default:
+        add({
+          resourceType: 'Encounter',
+          id: record.id,
+          status: 'finished',
+          class: { code: record.type === 'emergency' ? 'EMER' : 'AMB' },
+          type: [{ text: RECORD_TYPE_LABELS[record.type] }],
+          reasonCode: [{ text: record.title }],
+          subject: patientRef,
+          period: { start: record.date },
+          participant: record.veterinarian ? [{ individual: { display: record.veterinarian } }] : undefined,
+          note
+        });
+    }
+  }
+
+  for (const medication of medications) {
+    add({
+      resourceType: 'MedicationStatement',
+      id: medication.id,
+      status: medication.is_active && (!medication.end_date || medication.end_date >= data.generatedAt.split('T')[0])
+        ? 'active'
+        : 'completed',
+      medicationCodeableConcept: { text: medication.name },
+      subject: patientRef,
+      effectivePeriod: { start: medication.start_date, end: medication.end_date },
+      dosage: [{
+        text: `${medication.dosage}, ${FREQUENCY_TEXT[medication.frequency].toLowerCase()}`,
+        timing: medication.dose_times.length ? { repeat: { timeOfDay: medication.dose_times } } : undefined,
+        patientInstruction: medication.instructions
+      }]
+    });
+  }
+
+  for (const vital of vitals) {
+    (Object.keys(VITAL_OBSERVATIONS) as VitalMetric[]).forEach(metric => {
+      const value = vital[metric];
+      if (value == null) return;
+      const observation = VITAL_OBSERVATIONS[metric];
+      add({
+        resourceType: 'Observation',
+        id: `${vital.id}-${metric}`,
+        status: 'final',
+        category: [{ coding: [{ code: observation.category }] }],
+        code: observation.code,
+        subject: patientRef,
+        effectiveDateTime: vital.recorded_at,
+        valueQuantity: { value: Number(value), ...observation.unit },
+        note: vital.notes ? [{ text: vital.notes }] : undefined
+      });
+    });
+  }
+
+  for (const attachment of attachments) {
+    add({
+      resourceType: 'DocumentReference',
+      id: `${attachment.recordId}-attachment`,
+      status: 'current',
+      subject: patientRef,
+      context: { related: [{ reference: `urn:uuid:${attachment.recordId}` }] },
+      content: [{
+        attachment: attachment.data
+          ? { contentType: attachment.contentType, title: attachment.fileName, data: attachment.data }
+          : { title: attachment.fileName, url: attachment.url }
+      }]
+    });
+  }
+
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: data.generatedAt,
+    meta: { source: 'PawPilot HQ', range: data.range },
+    entry
+  };
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date.split('T')[0]}T00:00:00`).toLocaleDateString();
+}
+
+function table(headers: string[], rows: string[][]): string {
+  if (rows.length === 0) return '<p class="empty">None in this period</p>';
+  return `<table><thead><tr>${headers.map(h => `<th>${h}</th>`).join('')}</tr></thead><tbody>${
+    rows.map(row => `<tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('')
+  }</tbody></table>`;
+}
+
+/** Standalone printable HTML summary; saved as PDF through the print dialog. */
+export function renderHealthSummaryHtml(data: HealthExportData): string {
+  const { pet, records, medications, vitals, attachments, range } = data;
+  const period = range.from || range.to
+    ? `${range.from ? formatDate(range.from) : 'Start'} – ${range.to ? formatDate(range.to) : 'Today'}`
+    : 'All records';
+  const vaccinations = records.filter(r => r.type === 'vaccination');
+  const otherRecords = records.filter(r => r.type !== 'vaccination');
+  const attachmentsByRecord = new Map(attachments.map(a => [a.recordId, a]));
+
+  const attachmentLink = (record: HealthRecord) => {
+    const attachment = attachmentsByRecord.get(record.id);
+    if (!attachment) return '';
+    if (!attachment.url) return escapeHtml(attachment.fileName);
+    return `<a href="${escapeHtml(attachment.url)}">${escapeHtml(attachment.fileName)}</a>`;
+  };
+  const linksExpireAt = attachments.find(a => a.url && a.expiresAt)?.expiresAt;
+
+  const outcomeLine = (record: HealthRecord) => {
+    const outcome = record.type === 'symptom' ? describeOutcome(record) : null;
+    return outcome ? `<br><em>Outcome: ${escapeHtml(outcome)}</em>` : '';
+  };
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(pet.name)} - Health Summary</title>
+<style>
+  body { font-family: -apple-system, Segoe UI, Roboto, sans-serif; color: #111827; margin: 32px; font-size: 12px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 24px 0 8px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; }
+  .muted { color: #6b7280; }
+  .details { display: grid; grid-template-columns: repeat(3, 1fr); gap: 4px 16px; margin-top: 12px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #f3f4f6; vertical-align: top; }
+  th { background: #f9fafb; font-weight: 600; }
+  .empty { color: #9ca3af; font-style: italic; }
+  @media print { body { margin: 0; } a { color: inherit; } }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(pet.name)}</h1>
+  <div class="muted">Health summary · ${escapeHtml(period)} · Generated ${new Date(data.generatedAt).toLocaleString()}</div>
+  <div class="details">
+    <div><strong>Species:</strong> ${escapeHtml(pet.species)}</div>
+    <div><strong>Breed:</strong> ${escapeHtml(pet.breed || 'Unknown')}</div>
+    <div><strong>Sex:</strong> ${escapeHtml(pet.gender || 'Unknown')}</div>
+    <div><strong>Date of birth:</strong> ${pet.date_of_birth ? formatDate(pet.date_of_birth) : 'Unknown'}</div>
+    <div><strong>Owner:</strong> ${escapeHtml(data.owner.display_name)}</div>
+    <div><strong>Contact:</strong> ${escapeHtml(data.owner.email)}</div>
+  </div>
+  ${linksExpireAt ? `<p class="muted">Attachment links work until ${new Date(linksExpireAt).toLocaleDateString()}.</p>` : ''}
+
+  <h2>Vaccinations</h2>
+  ${table(['Date', 'Vaccine', 'Veterinarian', 'Notes', 'Attachment'], vaccinations.map(r => [
+    formatDate(r.date),
+    escapeHtml(r.title),
+    escapeHtml(r.veterinarian || ''),
+    escapeHtml(r.description || ''),
+    attachmentLink(r)
+  ]))}
+
+  <h2>Medications</h2>
+  ${table(['Medication', 'Dosage', 'Frequency', 'Course', 'Status'], medications.map(m => [
+    `<strong>${escapeHtml(m.name)}</strong>${m.instructions ? `<br>${escapeHtml(m.instructions)}` : ''}`,
+    escapeHtml(m.dosage),
+    FREQUENCY_TEXT[m.frequency],
+    `${formatDate(m.start_date)}${m.end_date ? ` – ${formatDate(m.end_date)}` : ' – ongoing'}`,
+    m.is_active ? 'Active' : 'Discontinued'
+  ]))}
+
+  <h2>Vitals</h2>
+  ${table(['Date', ...VITAL_COLUMNS.map(m => VITAL_METRICS[m].label), 'Notes'], vitals.map(v => [
+    formatDate(v.recorded_at),
+    ...VITAL_COLUMNS.map(m => v[m] != null ? `${v[m]} ${VITAL_METRICS[m].unit}` : ''),
+    escapeHtml(v.notes || '')
+  ]))}
+
+  <h2>Health Records</h2>
+  ${table(['Date', 'Type', 'Details', 'Veterinarian', 'Attachment'], otherRecords.map(r => [
+    formatDate(r.date),
+    escapeHtml(RECORD_TYPE_LABELS[r.type]),
+    `<strong>${escapeHtml(r.title)}</strong>${r.description ? `<br>${escapeHtml(r.description)}` : ''}${outcomeLine(r)}`,
+    escapeHtml(r.veterinarian || ''),
+    attachmentLink(r)
+  ]))}
+</body>
+</html>`;
+}
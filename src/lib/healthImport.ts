@@ -0,0 +1,292 @@
+import type { HealthRecord } from './supabase';
+
+export type ImportField = 'type' | 'title' | 'date' | 'veterinarian' | 'cost' | 'description' | 'ignore';
+
+export type ColumnMapping = ImportField[];
+
+export interface ImportDraft {
+  key: string;
+  type: HealthRecord['type'];
+  title: string;
+  date: string;
+  veterinarian?: string;
+  cost?: number;
+  description?: string;
+  errors: string[];
+  duplicateOf?: Pick<HealthRecord, 'id' | 'type' | 'title' | 'date' | 'cost'>;
+  include: boolean;
+}
+
+export interface ParsedInvoice {
+  clinic?: string;
+  veterinarian?: string;
+  date?: string;
+  items: { description: string; cost: number }[];
+}
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  type: 'Record type',
+  title: 'Title',
+  date: 'Date',
+  veterinarian: 'Veterinarian',
+  cost: 'Cost',
+  description: 'Notes',
+  ignore: "Don't import"
+};
+
+const HEADER_SYNONYMS: Record<Exclude<ImportField, 'ignore'>, RegExp> = {
+  date: /^(date|service date|visit date|date of service|invoice date|performed)$/i,
+  title: /^(title|item|description|service|treatment|procedure|product|line item|name)$/i,
+  type: /^(type|category|record type|class)$/i,
+  veterinarian: /^(vet|veterinarian|doctor|provider|clinician|dr\.?)$/i,
+  cost: /^(cost|price|amount|total|charge|fee|line total)$/i,
+  description: /^(notes?|comments?|details|remarks)$/i
+};
+
+// Order matters: the first matching rule wins
+const TYPE_KEYWORDS: [HealthRecord['type'], RegExp][] = [
+  ['emergency', /\b(emergency|urgent|after[- ]hours|er visit|triage)\b/i],
+  ['vaccination', /\b(vacc|vaccine|vaccination|rabies|dhpp|da2pp|dapp|distemper|parvo|bordetella|lepto|lyme|fvrcp|felv|booster|rhdv|myxo|influenza)\b/i],
+  ['surgery', /\b(surgery|surgical|spay|neuter|castration|ovariohysterectomy|extraction|dental cleaning|anesthesia|anaesthesia|mass removal|suture)\b/i],
+  ['medication', /\b(\d+\s?mg|tablet|tab|capsule|chewable|rx|prescription|dispens|apoquel|rimadyl|carprofen|gabapentin|metacam|simparica|nexgard|bravecto|heartgard|revolution|antibiotic|amoxicillin|clavamox)\b/i],
+  ['checkup', /\b(exam|examination|consult|consultation|checkup|check-up|wellness|office visit|annual|recheck|physical)\b/i],
+  ['symptom', /\b(vomit|diarrh|limp|cough|itch|rash|lethargy|symptom)\b/i]
+];
+
+const RECORD_TYPES: HealthRecord['type'][] = ['checkup', 'vaccination', 'medication', 'surgery', 'emergency', 'symptom', 'other'];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const INVOICE_SKIP = /\b(sub-?total|total|tax|gst|vat|hst|balance|payment|paid|amount due|discount|change|deposit|visa|mastercard|amex|cash|credit)\b/i;
+
+/** Parses CSV text (RFC 4180 quoting, comma or semicolon separated). */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const separator = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell !== ''));
+}
+
+/** Best guess of which record field each CSV column holds, from its header. */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const used = new Set<ImportField>();
+  return headers.map(header => {
+    const match = (Object.keys(HEADER_SYNONYMS) as Exclude<ImportField, 'ignore'>[])
+      .find(field => !used.has(field) && HEADER_SYNONYMS[field].test(header.trim()));
+    if (!match) return 'ignore';
+    used.add(match);
+    return match;
+  });
+}
+
+export function inferRecordType(text: string): HealthRecord['type'] {
+  const normalized = text.toLowerCase().trim();
+  const exact = RECORD_TYPES.find(type => type === normalized);
+  if (exact) return exact;
+  return TYPE_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0] || 'other';
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return null;
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Normalises the date formats clinics export to 'YYYY-MM-DD'. Numeric dates
+ * are read as month/day unless the first part can only be a day.
+ */
+export function normalizeDate(value: string): string | null {
+  const text = value.trim();
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (match) return isoDate(+match[1], +match[2], +match[3]);
+
+  match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+  if (match) {
+    const [first, second, year] = [+match[1], +match[2], +match[3]];
+    return first > 12 ? isoDate(year, second, first) : isoDate(year, first, second);
+  }
+
+  match = text.match(/^([a-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})/i);
+  if (match && MONTHS.includes(match[1].toLowerCase())) {
+    return isoDate(+match[3], MONTHS.indexOf(match[1].toLowerCase()) + 1, +match[2]);
+  }
+
+  match = text.match(/^(\d{1,2})\s+([a-z]{3})[a-z]*\.?,?\s+(\d{4})/i);
+  if (match && MONTHS.includes(match[2].toLowerCase())) {
+    return isoDate(+match[3], MONTHS.indexOf(match[2].toLowerCase()) + 1, +match[1]);
+  }
+
+  return null;
+}
+
+export function parseCost(value: string): number | null {
+  const cleaned = value.replace(/[^\d.,-]/g, '');
+  if (!cleaned) return null;
+  // "1.234,56" and "1234,56" use a decimal comma
+  const normalized = /,\d{2}$/.test(cleaned)
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned.replace(/,/g, '');
+  const amount = parseFloat(normalized);
+  return Number.isFinite(amount) ? Math.round(amount * 100) / 100 : null;
+}
+
+function validateDraft(draft: Omit<ImportDraft, 'errors' | 'include'>): ImportDraft {
+  const errors: string[] = [];
+  if (!draft.title) errors.push('Missing title');
+  if (!draft.date) errors.push('Missing or unreadable date');
+  return { ...draft, errors, include: errors.length === 0 };
+}
+
+/** Turns mapped CSV rows (without the header row) into record drafts. */
+export function csvRowsToDrafts(rows: string[][], mapping: ColumnMapping): ImportDraft[] {
+  return rows.map((row, index) => {
+    const values: Partial<Record<ImportField, string>> = {};
+    mapping.forEach((field, column) => {
+      if (field !== 'ignore' && row[column]) values[field] = row[column];
+    });
+
+    const title = values.title || '';
+    const cost = values.cost ? parseCost(values.cost) : null;
+    return validateDraft({
+      key: `csv-${index}`,
+      type: inferRecordType(values.type || `${title} ${values.description || ''}`),
+      title,
+      date: values.date ? normalizeDate(values.date) || '' : '',
+      veterinarian: values.veterinarian || undefined,
+      cost: cost ?? undefined,
+      description: values.description || undefined
+    });
+  });
+}
+
+/**
+ * Pulls the clinic, visit date and priced line items out of the text of an
+ * invoice. Invoices vary a lot, so anything this misses can still be fixed in
+ * the preview.
+ */
+export function parseInvoiceText(lines: string[]): ParsedInvoice {
+  const invoice: ParsedInvoice = { items: [] };
+
+  for (const rawLine of lines) {
+    const line = rawLine.replace(/\s+/g, ' ').trim();
+    if (!line) continue;
+
+    if (!invoice.clinic && /\b(veterinary|vet|animal hospital|animal clinic|pet clinic|pet hospital)\b/i.test(line) && !/\d+[.,]\d{2}$/.test(line)) {
+      invoice.clinic = line;
+      continue;
+    }
+
+    const doctor = line.match(/\b(?:[Dd]r\.?|[Dd]octor|[Vv]eterinarian:?|[Aa]ttending:?)\s+(?:[Dd]r\.?\s+)?([A-Z][a-zA-Z'-]+(?:\s+[A-Z][a-zA-Z'-]+)?)/);
+    if (!invoice.veterinarian && doctor) {
+      invoice.veterinarian = doctor[1];
+    }
+
+    if (!invoice.date) {
+      const labelled = line.match(/\b(?:date|invoice date|visit date|service date)\s*:?\s*(.+)$/i);
+      const date = normalizeDate(labelled ? labelled[1] : line);
+      if (date) {
+        invoice.date = date;
+        if (labelled) continue;
+      }
+    }
+
+    const item = line.match(/^(?:\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4}\s+)?(.*?[a-zA-Z].*?)\s+(?:\d+(?:\.\d+)?\s+(?:x\s+)?)?[$£€]?\s?(-?\d{1,3}(?:[,.]\d{3})*[.,]\d{2})$/);
+    if (item && !INVOICE_SKIP.test(item[1])) {
+      const cost = parseCost(item[2]);
+      if (cost !== null && cost > 0) {
+        invoice.items.push({ description: item[1].replace(/\s+(?:x|qty:?)?\s*\d*$/i, '').trim(), cost });
+      }
+    }
+  }
+
+  return invoice;
+}
+
+export function invoiceToDrafts(invoice: ParsedInvoice): ImportDraft[] {
+  return invoice.items.map((item, index) => validateDraft({
+    key: `pdf-${index}`,
+    type: inferRecordType(item.description),
+    title: item.description,
+    date: invoice.date || '',
+    veterinarian: invoice.veterinarian,
+    cost: item.cost,
+    description: invoice.clinic ? `Imported from ${invoice.clinic} invoice` : 'Imported from invoice'
+  }));
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Flags drafts that look like a record the pet already has: same date and
+ * either a matching title or the same type and cost. Flagged drafts are left
+ * out of the import unless the user opts back in.
+ */
+export function markDuplicates(
+  drafts: ImportDraft[],
+  existing: Pick<HealthRecord, 'id' | 'type' | 'title' | 'date' | 'cost'>[]
+): ImportDraft[] {
+  const seen = new Set<string>();
+
+  return drafts.map(draft => {
+    const title = normalizeTitle(draft.title);
+    const duplicateOf = existing.find(record => {
+      if (record.date !== draft.date) return false;
+      const existingTitle = normalizeTitle(record.title);
+      const sameTitle = !!title && !!existingTitle &&
+        (existingTitle === title || existingTitle.includes(title) || title.includes(existingTitle));
+      const sameCharge = record.type === draft.type && draft.cost !== undefined && record.cost === draft.cost;
+      return sameTitle || sameCharge;
+    });
+
+    // Repeated rows within the same file are duplicates of each other
+    const fileKey = `${draft.date}|${title}|${draft.cost ?? ''}`;
+    const repeated = seen.has(fileKey);
+    seen.add(fileKey);
+
+    if (duplicateOf) return { ...draft, duplicateOf, include: false };
+    if (repeated) return { ...draft, errors: [...draft.errors, 'Repeated in this file'], include: false };
+    return draft;
+  });
+}
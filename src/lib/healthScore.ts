@@ -0,0 +1,245 @@
+import type { Pet, HealthRecord, Medication, PetVital } from './supabase';
+import { evaluateVaccinations } from './vaccineProtocols';
+import { detectVitalAlerts, getSeries } from './vitals';
+
+/*
+ * Health score model
+ *
+ * The score is the sum of five factors, each worth a fixed number of points
+ * (100 in total). A factor starts at its maximum and loses points for what the
+ * records show, so every point missing from the score can be traced to one
+ * line of the breakdown.
+ *
+ *   Preventive care (25)  Checkup within the expected interval for the pet's
+ *                         age and species: every 6 months for juveniles and
+ *                         seniors, otherwise every 12. Up to 1.5× the interval
+ *                         keeps 15 points, any older checkup 5, none 0.
+ *   Vaccinations (25)     -10 per overdue core vaccine, -5 per overdue
+ *                         lifestyle vaccine the pet has started.
+ *   Medications (10)      -3 per active, ongoing medication.
+ *   Recent issues (20)    -10 per emergency in the last 90 days, -4 per
+ *                         symptom logged in the last 30 days.
+ *   Weight & vitals (20)  -15 per critical vitals alert, -8 per warning.
+ *
+ * Missing data never costs points except for preventive care, where having no
+ * checkup on record is itself the problem.
+ */
+
+export type HealthScoreFactorId =
+  | 'preventive_care'
+  | 'vaccinations'
+  | 'medications'
+  | 'recent_issues'
+  | 'weight_trend';
+
+export interface HealthScoreFactor {
+  id: HealthScoreFactorId;
+  label: string;
+  /** Points earned, out of `maxPoints`. */
+  points: number;
+  maxPoints: number;
+  /** Why the factor scored what it did, in owner-facing words. */
+  detail: string;
+}
+
+export interface HealthScore {
+  score: number;
+  factors: HealthScoreFactor[];
+}
+
+export interface HealthScoreInput {
+  pet: Pick<Pet, 'species' | 'date_of_birth'>;
+  records: Pick<HealthRecord, 'type' | 'title' | 'description' | 'date'>[];
+  medications: Pick<Medication, 'is_active' | 'end_date' | 'frequency'>[];
+  vitals: PetVital[];
+}
+
+export const HEALTH_SCORE_WEIGHTS: Record<HealthScoreFactorId, number> = {
+  preventive_care: 25,
+  vaccinations: 25,
+  medications: 10,
+  recent_issues: 20,
+  weight_trend: 20
+};
+
+const FACTOR_LABELS: Record<HealthScoreFactorId, string> = {
+  preventive_care: 'Preventive care',
+  vaccinations: 'Vaccinations',
+  medications: 'Medications',
+  recent_issues: 'Recent issues',
+  weight_trend: 'Weight & vitals'
+};
+
+/** Age from which a pet is considered senior and should be seen twice a year. */
+export const SENIOR_AGE_YEARS: Partial<Record<Pet['species'], number>> = {
+  dog: 7,
+  cat: 10,
+  rabbit: 5,
+  bird: 10
+};
+
+const EMERGENCY_WINDOW_DAYS = 90;
+const SYMPTOM_WINDOW_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysBetween(from: string, to: string): number {
+  return Math.floor((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+}
+
+function plural(count: number, word: string, many = `${word}s`): string {
+  return `${count} ${count === 1 ? word : many}`;
+}
+
+function factor(id: HealthScoreFactorId, points: number, detail: string): HealthScoreFactor {
+  const maxPoints = HEALTH_SCORE_WEIGHTS[id];
+  return {
+    id,
+    label: FACTOR_LABELS[id],
+    points: Math.max(0, Math.min(maxPoints, points)),
+    maxPoints,
+    detail
+  };
+}
+
+/** Months between checkups expected for the pet's age and species. */
+export function getCheckupIntervalMonths(
+  pet: Pick<Pet, 'species' | 'date_of_birth'>,
+  today: string = new Date().toISOString().split('T')[0]
+): number {
+  if (!pet.date_of_birth) return 12;
+  const ageYears = daysBetween(pet.date_of_birth, today) / 365.25;
+  const seniorAge = SENIOR_AGE_YEARS[pet.species];
+  if (ageYears < 1 || (seniorAge !== undefined && ageYears >= seniorAge)) return 6;
+  return 12;
+}
+
+function scorePreventiveCare(input: HealthScoreInput, today: string): HealthScoreFactor {
+  const max = HEALTH_SCORE_WEIGHTS.preventive_care;
+  const intervalMonths = getCheckupIntervalMonths(input.pet, today);
+  const intervalDays = Math.round(intervalMonths * 30.4);
+  const lastCheckup = input.records
+    .filter(r => r.type === 'checkup' && r.date <= today)
+    .sort((a, b) => b.date.localeCompare(a.date))[0];
+  const norm = `checkups every ${intervalMonths} months are recommended`;
+
+  if (!lastCheckup) {
+    return factor('preventive_care', 0, `No checkup on record; ${norm}`);
+  }
+
+  const days = daysBetween(lastCheckup.date, today);
+  const ago = days < 60 ? plural(days, 'day') : plural(Math.round(days / 30.4), 'month');
+  if (days <= intervalDays) {
+    return factor('preventive_care', max, `Last checkup ${ago} ago; ${norm}`);
+  }
+  if (days <= intervalDays * 1.5) {
+    return factor('preventive_care', 15, `Last checkup ${ago} ago is past due; ${norm}`);
+  }
+  return factor('preventive_care', 5, `Last checkup ${ago} ago is well past due; ${norm}`);
+}
+
+function scoreVaccinations(input: HealthScoreInput, today: string): HealthScoreFactor {
+  const statuses = evaluateVaccinations(input.pet, input.records, today);
+  if (statuses.length === 0) {
+    return factor('vaccinations', HEALTH_SCORE_WEIGHTS.vaccinations, 'No standard vaccine protocol for this species');
+  }
+
+  const overdue = statuses.filter(s => s.status === 'overdue');
+  const overdueCore = overdue.filter(s => s.protocol.core);
+  const overdueLifestyle = overdue.filter(s => !s.protocol.core);
+  const points = HEALTH_SCORE_WEIGHTS.vaccinations - overdueCore.length * 10 - overdueLifestyle.length * 5;
+
+  if (overdue.length === 0) {
+    return factor('vaccinations', points, 'All vaccines up to date');
+  }
+  return factor('vaccinations', points, `Overdue: ${overdue.map(s => s.protocol.name.split(' (')[0]).join(', ')}`);
+}
+
+function scoreMedications(input: HealthScoreInput, today: string): HealthScoreFactor {
+  const active = input.medications.filter(m =>
+    m.is_active && m.frequency !== 'as_needed' && (!m.end_date || m.end_date >= today)
+  );
+  if (active.length === 0) {
+    return factor('medications', HEALTH_SCORE_WEIGHTS.medications, 'No ongoing medications');
+  }
+  return factor(
+    'medications',
+    HEALTH_SCORE_WEIGHTS.medications - active.length * 3,
+    `${plural(active.length, 'ongoing medication')} being given`
+  );
+}
+
+function scoreRecentIssues(input: HealthScoreInput, today: string): HealthScoreFactor {
+  const within = (date: string, days: number) => date <= today && daysBetween(date, today) <= days;
+  const emergencies = input.records.filter(r => r.type === 'emergency' && within(r.date, EMERGENCY_WINDOW_DAYS)).length;
+  const symptoms = input.records.filter(r => r.type === 'symptom' && within(r.date, SYMPTOM_WINDOW_DAYS)).length;
+
+  if (emergencies === 0 && symptoms === 0) {
+    return factor('recent_issues', HEALTH_SCORE_WEIGHTS.recent_issues, 'No recent emergencies or symptoms');
+  }
+  const parts: string[] = [];
+  if (emergencies > 0) parts.push(`${plural(emergencies, 'emergency', 'emergencies')} in ${EMERGENCY_WINDOW_DAYS} days`);
+  if (symptoms > 0) parts.push(`${plural(symptoms, 'symptom')} in ${SYMPTOM_WINDOW_DAYS} days`);
+  return factor(
+    'recent_issues',
+    HEALTH_SCORE_WEIGHTS.recent_issues - emergencies * 10 - symptoms * 4,
+    parts.join(', ')
+  );
+}
+
+function scoreWeightTrend(input: HealthScoreInput, today: string): HealthScoreFactor {
+  const alerts = detectVitalAlerts(input.vitals, input.pet.species, today);
+  if (alerts.length > 0) {
+    const penalty = alerts.reduce((sum, alert) => sum + (alert.severity === 'critical' ? 15 : 8), 0);
+    return factor('weight_trend', HEALTH_SCORE_WEIGHTS.weight_trend - penalty, alerts.map(a => a.message).join('; '));
+  }
+  if (getSeries(input.vitals, 'weight').length < 2) {
+    return factor('weight_trend', HEALTH_SCORE_WEIGHTS.weight_trend, 'Not enough weight readings to show a trend');
+  }
+  return factor('weight_trend', HEALTH_SCORE_WEIGHTS.weight_trend, 'Weight and vitals within normal range');
+}
+
+/** Scores one pet and explains each factor; see the model described above. */
+export function computeHealthScore(
+  input: HealthScoreInput,
+  today: string = new Date().toISOString().split('T')[0]
+): HealthScore {
+  const factors = [
+    scorePreventiveCare(input, today),
+    scoreVaccinations(input, today),
+    scoreMedications(input, today),
+    scoreRecentIssues(input, today),
+    scoreWeightTrend(input, today)
+  ];
+  return {
+    score: factors.reduce((sum, f) => sum + f.points, 0),
+    factors
+  };
+}
+
+/**
+ * Averages several pets' scores factor by factor. Details name the pets that
+ * lost points so the combined breakdown stays explainable.
+ */
+export function combineHealthScores(scores: Array<{ name: string; score: HealthScore }>): HealthScore {
+  if (scores.length === 0) return { score: 0, factors: [] };
+  if (scores.length === 1) return scores[0].score;
+
+  const factors = scores[0].score.factors.map((first, index) => {
+    const perPet = scores.map(({ name, score }) => ({ name, factor: score.factors[index] }));
+    const losing = perPet.filter(p => p.factor.points < p.factor.maxPoints);
+    const points = Math.round(perPet.reduce((sum, p) => sum + p.factor.points, 0) / perPet.length);
+    return {
+      ...first,
+      points,
+      detail: losing.length > 0
+        ? losing.map(p => `${p.name}: ${p.factor.detail}`).join('; ')
+        : `All ${scores.length} pets on track`
+    };
+  });
+
+  return {
+    score: factors.reduce((sum, f) => sum + f.points, 0),
+    factors
+  };
+}
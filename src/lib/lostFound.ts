@@ -0,0 +1,158 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase, LostFound } from './supabase';
+
+export type LostFoundStatusFilter = 'all' | 'lost' | 'found' | 'resolved';
+
+/** A report returned by `search_lost_found`, with its distance from the search center. */
+export interface NearbyLostFound extends LostFound {
+  distance_miles: number;
+}
+
+export interface LostFoundSearch {
+  center: { lat: number; lng: number };
+  radiusMiles: number;
+  status?: LostFoundStatusFilter;
+  /** Leave out one user's reports, e.g. the viewer's own in alerts. */
+  excludeReporterId?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface LostFoundPage {
+  reports: NearbyLostFound[];
+  hasMore: boolean;
+}
+
+/**
+ * What visitors without an account see of a report: no contact details, and
+ * the location rounded by `get_public_lost_report` to about half a mile.
+ */
+export interface PublicLostFoundReport extends Pick<LostFound,
+  'id' | 'status' | 'pet_name' | 'species' | 'breed' | 'color' | 'description' | 'photo_url' |
+  'last_seen_location' | 'reward_offered' | 'reward_amount' | 'is_resolved' | 'created_at'> {
+  approx_latitude: number;
+  approx_longitude: number;
+}
+
+export interface SightingSubmission {
+  reportId: string;
+  locationDescription: string;
+  latitude?: number;
+  longitude?: number;
+  seenAt: string;
+  notes?: string;
+  contactName?: string;
+  contactPhone?: string;
+  contactEmail?: string;
+  /** Base64 data URL of a photo of the sighting. */
+  photo?: string;
+  /** Honeypot; the form keeps it hidden and empty. */
+  website?: string;
+  formStartedAt: number;
+}
+
+export const LOST_FOUND_PAGE_SIZE = 12;
+export const SEARCH_RADIUS_OPTIONS = [1, 5, 10, 25, 50];
+
+const RELAY_EMAIL_DOMAIN = import.meta.env.VITE_RELAY_EMAIL_DOMAIN as string | undefined;
+
+/**
+ * One page of reports within `radiusMiles` of `center`, nearest first.
+ * Throws the Supabase error so callers can show their own message.
+ */
+export async function searchLostFound({
+  center,
+  radiusMiles,
+  status = 'all',
+  excludeReporterId,
+  page = 0,
+  pageSize = LOST_FOUND_PAGE_SIZE
+}: LostFoundSearch): Promise<LostFoundPage> {
+  // Ask for one extra row to know whether another page exists
+  const { data, error } = await supabase.rpc('search_lost_found', {
+    p_lat: center.lat,
+    p_lng: center.lng,
+    p_radius_miles: radiusMiles,
+    p_status: status === 'all' ? null : status,
+    p_exclude_reporter: excludeReporterId ?? null,
+    p_limit: pageSize + 1,
+    p_offset: page * pageSize
+  });
+
+  if (error) throw error;
+
+  const rows = (data || []) as NearbyLostFound[];
+  return { reports: rows.slice(0, pageSize), hasMore: rows.length > pageSize };
+}
+
+export function formatDistance(miles: number): string {
+  if (miles < 0.1) return 'Nearby';
+  return `${miles < 10 ? miles.toFixed(1) : Math.round(miles)} mi away`;
+}
+
+export async function getPublicLostReport(reportId: string): Promise<PublicLostFoundReport | null> {
+  const { data, error } = await supabase.rpc('get_public_lost_report', { p_report_id: reportId });
+  if (error) throw error;
+  return ((data || []) as PublicLostFoundReport[])[0] ?? null;
+}
+
+/**
+ * Sends a sighting to the report owner through `lost-pet-sighting`. Rejects
+ * with the function's message, e.g. when the visitor is rate limited.
+ */
+export async function submitSighting(sighting: SightingSubmission): Promise<void> {
+  const { error } = await supabase.functions.invoke('lost-pet-sighting', {
+    body: {
+      report_id: sighting.reportId,
+      location_description: sighting.locationDescription,
+      latitude: sighting.latitude ?? null,
+      longitude: sighting.longitude ?? null,
+      seen_at: sighting.seenAt,
+      notes: sighting.notes,
+      contact_name: sighting.contactName,
+      contact_phone: sighting.contactPhone,
+      contact_email: sighting.contactEmail,
+      photo: sighting.photo ?? null,
+      website: sighting.website,
+      form_started_at: sighting.formStartedAt
+    }
+  });
+
+  if (error) {
+    const body = error instanceof FunctionsHttpError
+      ? await error.context.json().catch(() => null)
+      : null;
+    throw new Error(body?.error || 'Failed to send sighting');
+  }
+}
+
+/**
+ * The masked address that forwards to the reporter through
+ * `lost-found-email-relay`, or null when the email relay is not set up.
+ */
+export function relayEmailAddress(relayAlias: string): string | null {
+  return RELAY_EMAIL_DOMAIN ? `lost-${relayAlias}@${RELAY_EMAIL_DOMAIN}` : null;
+}
+
+/** What each side of a relay thread is called, since neither sees the other's profile. */
+export function relayRoleLabels(status: LostFound['status']): { reporter: string; contact: string } {
+  return status === 'found'
+    ? { reporter: 'Finder', contact: 'Possible owner' }
+    : { reporter: 'Pet owner', contact: 'Finder' };
+}
+
+/**
+ * Opens the caller's relay thread with a report's reporter, reusing an
+ * existing one. Rejects with the database's message, e.g. when rate limited.
+ */
+export async function startLostFoundRelay(reportId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('start_lost_found_relay', { p_report_id: reportId });
+  if (error) throw new Error(error.message || 'Failed to contact the reporter');
+  return data as string;
+}
+
+/** Posts the reporter's contact details into a relay thread. */
+export async function revealRelayContact(threadId: string): Promise<void> {
+  const { error } = await supabase.rpc('reveal_relay_contact', { p_thread_id: threadId });
+  if (error) throw new Error(error.message || 'Failed to share contact details');
+}
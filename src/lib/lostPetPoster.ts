@@ -0,0 +1,151 @@
+import QRCode from 'qrcode';
+import type { LostFound } from './supabase';
+import { MAP_TILE_URL, projectToPixels, TILE_SIZE, tileUrl } from './mapTiles';
+import { escapeHtml } from '../../supabase/functions/_shared/html.ts';
+
+export type PosterPageSize = 'a4' | 'letter';
+
+export interface PosterOptions {
+  pageSize: PosterPageSize;
+  /** Public page the QR code points to, see `publicReportUrl`. */
+  reportUrl: string;
+  /** SVG markup from `createPosterQrSvg`. */
+  qrSvg: string;
+  /** From `lost_found_contacts`; the email is usually the masked relay address. */
+  contact?: { phone?: string | null; email?: string | null };
+}
+
+export interface MapTile {
+  url: string;
+  /** Offset from the center of the snippet, in pixels. */
+  left: number;
+  top: number;
+}
+
+export const POSTER_PAGE_SIZES: Record<PosterPageSize, { label: string; css: string }> = {
+  a4: { label: 'A4', css: 'A4' },
+  letter: { label: 'Letter', css: 'letter' }
+};
+
+const MAP_ZOOM = 16;
+
+/** Read-only page for a single report that works without signing in. */
+export function publicReportUrl(reportId: string, origin: string = window.location.origin): string {
+  return `${origin}/lost/${reportId}`;
+}
+
+export function createPosterQrSvg(url: string): Promise<string> {
+  // Level Q survives a creased or rain-spotted flyer
+  return QRCode.toString(url, { type: 'svg', errorCorrectionLevel: 'Q', margin: 1 });
+}
+
+/**
+ * The 3x3 block of map tiles around a point, positioned so the point sits at
+ * the center of the snippet.
+ */
+export function mapTilesAround(
+  lat: number,
+  lng: number,
+  zoom: number = MAP_ZOOM,
+  template: string = MAP_TILE_URL
+): MapTile[] {
+  const { x, y } = projectToPixels(lat, lng, zoom);
+  const tileX = Math.floor(x / TILE_SIZE);
+  const tileY = Math.floor(y / TILE_SIZE);
+  const tileCount = 2 ** zoom;
+
+  const tiles: MapTile[] = [];
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const tx = (tileX + dx + tileCount) % tileCount;
+      const ty = tileY + dy;
+      if (ty < 0 || ty >= tileCount) continue;
+      tiles.push({
+        url: tileUrl(template, zoom, tx, ty),
+        left: Math.round((tileX + dx) * TILE_SIZE - x),
+        top: Math.round(ty * TILE_SIZE - y)
+      });
+    }
+  }
+  return tiles;
+}
+
+function formatReward(amount: number): string {
+  return `$${amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Standalone printable lost pet poster; saved as PDF or printed through the
+ * print dialog, which opens once the photo and map have loaded.
+ */
+export function renderLostPetPosterHtml(report: LostFound, options: PosterOptions): string {
+  const pageSize = POSTER_PAGE_SIZES[options.pageSize];
+  const heading = report.status === 'found' ? `Found ${report.species}` : `Lost ${report.species}`;
+  const details = [report.breed, report.color].filter(Boolean).join(' · ');
+  const tiles = mapTilesAround(report.latitude, report.longitude);
+  const { phone, email } = options.contact ?? {};
+  const contacts = [
+    phone ? `<div class="contact-line">${escapeHtml(phone)}</div>` : '',
+    email ? `<div class="contact-line">${escapeHtml(email)}</div>` : ''
+  ].join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(heading)}: ${escapeHtml(report.pet_name)}</title>
+<style>
+  @page { size: ${pageSize.css}; margin: 12mm; }
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, Segoe UI, Roboto, sans-serif; color: #111827; margin: 0; text-align: center; }
+  .banner { background: ${report.status === 'found' ? '#2563eb' : '#dc2626'}; color: #fff; font-size: 56px; font-weight: 800; letter-spacing: 2px; text-transform: uppercase; padding: 8px 0; }
+  h1 { font-size: 40px; margin: 12px 0 0; }
+  .details { font-size: 18px; color: #374151; margin-top: 4px; text-transform: capitalize; }
+  .photo { width: 100%; height: 85mm; object-fit: cover; margin-top: 12px; border-radius: 6px; }
+  .no-photo { height: 40mm; display: flex; align-items: center; justify-content: center; background: #f3f4f6; color: #9ca3af; margin-top: 12px; }
+  .description { font-size: 15px; margin: 10px 0 0; }
+  .reward { display: inline-block; margin-top: 10px; font-size: 26px; font-weight: 800; color: #15803d; border: 3px solid #15803d; padding: 4px 16px; border-radius: 6px; }
+  .bottom { display: flex; gap: 12px; margin-top: 12px; text-align: left; }
+  .map { position: relative; flex: 1; height: 55mm; overflow: hidden; border-radius: 6px; border: 1px solid #d1d5db; }
+  .map img { position: absolute; width: ${TILE_SIZE}px; height: ${TILE_SIZE}px; }
+  .pin { position: absolute; left: 50%; top: 50%; width: 18px; height: 18px; margin: -9px 0 0 -9px; border-radius: 50%; background: #dc2626; border: 3px solid #fff; box-shadow: 0 0 0 2px #dc2626; }
+  .attribution { position: absolute; right: 0; bottom: 0; background: rgba(255,255,255,0.8); font-size: 8px; padding: 1px 4px; }
+  .side { width: 60mm; display: flex; flex-direction: column; }
+  .label { font-size: 11px; font-weight: 700; color: #6b7280; text-transform: uppercase; }
+  .location { font-size: 14px; margin-bottom: 8px; }
+  .contact-line { font-size: 20px; font-weight: 700; }
+  .qr { margin-top: auto; display: flex; align-items: center; gap: 8px; }
+  .qr svg { width: 28mm; height: 28mm; flex-shrink: 0; }
+  .qr-text { font-size: 10px; color: #374151; word-break: break-all; }
+  * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+</style>
+</head>
+<body>
+  <div class="banner">${escapeHtml(heading)}</div>
+  <h1>${escapeHtml(report.pet_name)}</h1>
+  ${details ? `<div class="details">${escapeHtml(details)}</div>` : ''}
+  ${report.photo_url
+    ? `<img class="photo" src="${escapeHtml(report.photo_url)}" alt="${escapeHtml(report.pet_name)}">`
+    : '<div class="no-photo">No photo</div>'}
+  <p class="description">${escapeHtml(report.description)}</p>
+  ${report.reward_offered && report.reward_amount ? `<div class="reward">${formatReward(report.reward_amount)} Reward</div>` : ''}
+  <div class="bottom">
+    <div class="map">
+      ${tiles.map(t => `<img src="${t.url}" alt="" style="left: calc(50% + ${t.left}px); top: calc(50% + ${t.top}px);">`).join('')}
+      <div class="pin"></div>
+      <div class="attribution">© OpenStreetMap contributors</div>
+    </div>
+    <div class="side">
+      <div class="label">${report.status === 'found' ? 'Found near' : 'Last seen'}</div>
+      <div class="location">${escapeHtml(report.last_seen_location)}</div>
+      ${contacts ? `<div class="label">Contact</div>${contacts}` : ''}
+      <div class="qr">
+        ${options.qrSvg}
+        <div class="qr-text">Scan to see updates or report a sighting<br>${escapeHtml(options.reportUrl)}</div>
+      </div>
+    </div>
+  </div>
+  <script>window.addEventListener('load', function () { window.focus(); window.print(); });</script>
+</body>
+</html>`;
+}
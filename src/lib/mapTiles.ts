@@ -0,0 +1,75 @@
+// Tile configuration and marker clustering for the Web Mercator maps. Kept
+// free of Leaflet and the DOM so tests can import it too.
+
+export const TILE_SIZE = 256;
+export const DEFAULT_TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+export const DEFAULT_TILE_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+/** Any OpenStreetMap-compatible `{z}/{x}/{y}` server, e.g. a self-hosted one. */
+export const MAP_TILE_URL: string = import.meta.env?.VITE_MAP_TILE_URL || DEFAULT_TILE_URL;
+export const MAP_TILE_ATTRIBUTION: string = import.meta.env?.VITE_MAP_TILE_ATTRIBUTION || DEFAULT_TILE_ATTRIBUTION;
+
+/** Markers closer than this on screen are drawn as one cluster. */
+export const CLUSTER_RADIUS_PX = 48;
+
+export interface ClusterablePoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface MarkerCluster<T extends ClusterablePoint> {
+  latitude: number;
+  longitude: number;
+  items: T[];
+}
+
+/** Fills in a `{z}/{x}/{y}` template; `{s}` gets the first subdomain. */
+export function tileUrl(template: string, zoom: number, x: number, y: number): string {
+  return template
+    .replace('{s}', 'a')
+    .replace('{z}', String(zoom))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y));
+}
+
+/** Position in pixels on the whole world map at a zoom level. */
+export function projectToPixels(lat: number, lng: number, zoom: number): { x: number; y: number } {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const latRad = lat * Math.PI / 180;
+  return {
+    x: (lng + 180) / 360 * scale,
+    y: (1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2 * scale
+  };
+}
+
+/**
+ * Groups points that would overlap on screen at a zoom level. Each point joins
+ * the first cluster within `radius` pixels of it, and the cluster moves to the
+ * average position of its points.
+ */
+export function clusterMarkers<T extends ClusterablePoint>(
+  points: T[],
+  zoom: number,
+  radius: number = CLUSTER_RADIUS_PX
+): MarkerCluster<T>[] {
+  const clusters: Array<MarkerCluster<T> & { x: number; y: number }> = [];
+
+  for (const point of points) {
+    const { x, y } = projectToPixels(point.latitude, point.longitude, zoom);
+    const cluster = clusters.find(c => Math.hypot(c.x - x, c.y - y) <= radius);
+
+    if (!cluster) {
+      clusters.push({ latitude: point.latitude, longitude: point.longitude, items: [point], x, y });
+      continue;
+    }
+
+    const count = cluster.items.length;
+    cluster.items.push(point);
+    cluster.latitude = (cluster.latitude * count + point.latitude) / (count + 1);
+    cluster.longitude = (cluster.longitude * count + point.longitude) / (count + 1);
+    cluster.x = (cluster.x * count + x) / (count + 1);
+    cluster.y = (cluster.y * count + y) / (count + 1);
+  }
+
+  return clusters.map(({ latitude, longitude, items }) => ({ latitude, longitude, items }));
+}
@@ -0,0 +1,111 @@
+import type { Medication, MedicationDose } from './supabase';
+import {
+  LATE_GRACE_MINUTES,
+  addDays,
+  expandDoses,
+  localDateInZone,
+  scheduleTimeZone,
+  zonedTimeToUtc
+} from '../../supabase/functions/_shared/doseSchedule.ts';
+
+// The schedule maths is shared with the reminder dispatcher
+export {
+  DEFAULT_DOSE_TIMES,
+  LATE_GRACE_MINUTES,
+  expandDoses,
+  getDoseTimes,
+  isValidTimeZone,
+  localDateInZone,
+  scheduleTimeZone,
+  zonedTimeToUtc
+} from '../../supabase/functions/_shared/doseSchedule.ts';
+
+type ScheduleFields = Pick<Medication, 'frequency' | 'dose_times' | 'timezone' | 'start_date' | 'end_date'>;
+
+export type DoseState = MedicationDose['status'] | 'upcoming' | 'due' | 'missed';
+
+export interface ScheduledDose {
+  scheduledFor: Date;
+  state: DoseState;
+  dose?: MedicationDose;
+}
+
+/** Minutes before the scheduled time a dose is shown as due. */
+export const DUE_WINDOW_MINUTES = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/** The first scheduled dose at or after `now`, or null when the course has ended. */
+export function getNextDose(medication: ScheduleFields, now: Date = new Date()): Date | null {
+  const horizon = new Date(now.getTime() + 8 * DAY_MS);
+  return expandDoses(medication, now, horizon)[0] || null;
+}
+
+/** Status to record when a dose is marked as given or skipped at `loggedAt`. */
+export function resolveDoseStatus(
+  scheduledFor: Date,
+  action: 'given' | 'skipped',
+  loggedAt: Date = new Date()
+): MedicationDose['status'] {
+  if (action === 'skipped') return 'skipped';
+  const lateAfter = scheduledFor.getTime() + LATE_GRACE_MINUTES * 60 * 1000;
+  return loggedAt.getTime() > lateAfter ? 'late' : 'given';
+}
+
+/** State of an unlogged dose relative to `now`. */
+export function getPendingDoseState(scheduledFor: Date, now: Date = new Date()): DoseState {
+  const diffMinutes = (scheduledFor.getTime() - now.getTime()) / 60000;
+  if (diffMinutes > DUE_WINDOW_MINUTES) return 'upcoming';
+  if (diffMinutes >= -LATE_GRACE_MINUTES) return 'due';
+  return 'missed';
+}
+
+/** Pairs each scheduled dose in [from, to] with its log entry, if any. */
+export function buildDoseTimeline(
+  medication: ScheduleFields,
+  doses: MedicationDose[],
+  from: Date,
+  to: Date,
+  now: Date = new Date()
+): ScheduledDose[] {
+  const byTime = new Map(doses.map(dose => [new Date(dose.scheduled_for).getTime(), dose]));
+
+  return expandDoses(medication, from, to).map(scheduledFor => {
+    const dose = byTime.get(scheduledFor.getTime());
+    return {
+      scheduledFor,
+      dose,
+      state: dose ? dose.status : getPendingDoseState(scheduledFor, now)
+    };
+  });
+}
+
+/** Scheduled doses for the medication's current local day. */
+export function getTodaysDoses(
+  medication: ScheduleFields,
+  doses: MedicationDose[],
+  now: Date = new Date()
+): ScheduledDose[] {
+  const timeZone = scheduleTimeZone(medication);
+  if (!timeZone) return [];
+
+  const today = localDateInZone(now, timeZone);
+  const startOfDay = zonedTimeToUtc(today, '00:00', timeZone);
+  const endOfDay = new Date(zonedTimeToUtc(addDays(today, 1), '00:00', timeZone).getTime() - 1);
+  return buildDoseTimeline(medication, doses, startOfDay, endOfDay, now);
+}
+
+/** Number of doses in the last `days` days that were never logged. */
+export function countMissedDoses(
+  medication: ScheduleFields,
+  doses: MedicationDose[],
+  days = 7,
+  now: Date = new Date()
+): number {
+  const from = new Date(now.getTime() - days * DAY_MS);
+  return buildDoseTimeline(medication, doses, from, now, now).filter(d => d.state === 'missed').length;
+}
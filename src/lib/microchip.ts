@@ -0,0 +1,64 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase, Pet } from './supabase';
+import { MIN_LOOKUP_CODE_LENGTH, normalizeLookupCode } from '../../supabase/functions/_shared/microchip.ts';
+
+export { MIN_LOOKUP_CODE_LENGTH, normalizeLookupCode };
+
+/**
+ * What a finder learns from a microchip or tag lookup: enough to confirm it is
+ * the animal in front of them, and a token for messaging the owner.
+ */
+export interface MicrochipMatch extends Pick<Pet, 'species' | 'breed' | 'color' | 'distinctive_markings' | 'is_lost'> {
+  relay_token: string;
+}
+
+export interface RelayMessage {
+  relayToken: string;
+  message: string;
+  contactName?: string;
+  contactPhone?: string;
+  contactEmail?: string;
+  /** Honeypot; the form keeps it hidden and empty. */
+  website?: string;
+  formStartedAt: number;
+}
+
+async function functionError(error: unknown, fallback: string): Promise<Error> {
+  const body = error instanceof FunctionsHttpError
+    ? await error.context.json().catch(() => null)
+    : null;
+  return new Error(body?.error || fallback);
+}
+
+/**
+ * Matches microchip numbers and tag IDs however they were typed. Goes through
+ * `microchip-relay`, which rate limits lookups so IDs can't be enumerated.
+ */
+export async function lookupMicrochip(code: string): Promise<MicrochipMatch[]> {
+  const { data, error } = await supabase.functions.invoke('microchip-relay', {
+    body: { action: 'lookup', code }
+  });
+
+  if (error) throw await functionError(error, 'Lookup failed. Please try again.');
+  return (data?.matches || []) as MicrochipMatch[];
+}
+
+/**
+ * Passes a finder's message to the owner through `microchip-relay`. Rejects
+ * with the function's message, e.g. when the finder is rate limited.
+ */
+export async function sendRelayMessage(relayMessage: RelayMessage): Promise<void> {
+  const { error } = await supabase.functions.invoke('microchip-relay', {
+    body: {
+      relay_token: relayMessage.relayToken,
+      message: relayMessage.message,
+      contact_name: relayMessage.contactName,
+      contact_phone: relayMessage.contactPhone,
+      contact_email: relayMessage.contactEmail,
+      website: relayMessage.website,
+      form_started_at: relayMessage.formStartedAt
+    }
+  });
+
+  if (error) throw await functionError(error, 'Failed to send message');
+}
@@ -0,0 +1,40 @@
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+/**
+ * Extracts the text of a text-based PDF as lines, in reading order. Scanned
+ * invoices have no text layer and come back empty.
+ */
+export async function extractPdfLines(file: File): Promise<string[]> {
+  // Loaded on demand so the PDF engine stays out of the main bundle
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const lines: string[] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+
+    // Group text runs that share a baseline, then read each row left to right
+    const rows = new Map<number, { x: number; text: string }[]>();
+    for (const item of content.items as TextItem[]) {
+      if (!item.str?.trim()) continue;
+      const y = Math.round(item.transform[5]);
+      const key = [...rows.keys()].find(existing => Math.abs(existing - y) <= 2) ?? y;
+      rows.set(key, [...(rows.get(key) || []), { x: item.transform[4], text: item.str }]);
+    }
+
+    [...rows.entries()]
+      .sort(([a], [b]) => b - a)
+      .forEach(([, runs]) => {
+        lines.push(runs.sort((a, b) => a.x - b.x).map(run => run.text.trim()).join(' '));
+      });
+  }
+
+  await pdf.destroy();
+  return lines;
+}
@@ -0,0 +1,125 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/** A row of `post_revisions`; version 1 is the post as first published. */
+export interface PostRevision {
+  id: string;
+  /** Null once the post is deleted; `source_post_id` still names it. */
+  post_id: string | null;
+  source_post_id: string;
+  version: number;
+  content: string;
+  media_urls: string[];
+  visibility: 'public' | 'friends' | 'private';
+  editor_id: string | null;
+  created_at: string;
+  editor?: {
+    display_name: string;
+  } | null;
+}
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Words and the whitespace between them, so the diff keeps line breaks
+function tokenize(text: string): string[] {
+  return text.match(/\s+|\S+/g) || [];
+}
+
+function pushPart(parts: DiffPart[], type: DiffPart['type'], text: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+/**
+ * Word-level diff of two versions of a post, as runs of unchanged, added and
+ * removed text. Removals come before additions where a word was replaced.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // lcs[i][j]: longest common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, 'same', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushPart(parts, 'removed', a[i++]);
+    } else {
+      pushPart(parts, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) pushPart(parts, 'removed', a[i++]);
+  while (j < b.length) pushPart(parts, 'added', b[j++]);
+
+  return parts;
+}
+
+/**
+ * The version that was live at `at`, e.g. when a report was filed. Expects
+ * revisions oldest first; null if the post didn't exist yet.
+ */
+export function revisionAt(revisions: PostRevision[], at: string): PostRevision | null {
+  const time = new Date(at).getTime();
+  let live: PostRevision | null = null;
+  for (const revision of revisions) {
+    if (new Date(revision.created_at).getTime() > time) break;
+    live = revision;
+  }
+  return live;
+}
+
+const REVISION_COLUMNS = 'id, post_id, source_post_id, version, content, media_urls, visibility, editor_id, created_at, editor:profiles!post_revisions_editor_id_fkey(display_name)';
+
+/**
+ * Every version of one post, oldest first. Throws the Supabase error so
+ * callers can show their own message.
+ */
+export async function loadPostRevisions(sb: SupabaseClient, postId: string): Promise<PostRevision[]> {
+  const { data, error } = await sb
+    .from('post_revisions')
+    .select<typeof REVISION_COLUMNS, PostRevision>(REVISION_COLUMNS)
+    .eq('post_id', postId)
+    .order('version', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Revisions of several posts at once, oldest first per post. Matches on
+ * `source_post_id` so admins still get the history of deleted posts.
+ */
+export async function loadRevisionsForPosts(sb: SupabaseClient, postIds: string[]): Promise<Map<string, PostRevision[]>> {
+  const byPost = new Map<string, PostRevision[]>();
+  if (postIds.length === 0) return byPost;
+
+  const { data, error } = await sb
+    .from('post_revisions')
+    .select<typeof REVISION_COLUMNS, PostRevision>(REVISION_COLUMNS)
+    .in('source_post_id', postIds)
+    .order('version', { ascending: true });
+
+  if (error) throw error;
+  for (const revision of data || []) {
+    byPost.set(revision.source_post_id, [...(byPost.get(revision.source_post_id) || []), revision]);
+  }
+  return byPost;
+}
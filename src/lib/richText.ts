@@ -0,0 +1,52 @@
+// Finds #tags and @mentions in posts, comments and reel captions. The pattern
+// matches the ones the `sync_content_tags` trigger stores, so whatever renders
+// as a link is also on the tag page or in the mentioned user's notifications.
+//
+// A tag starts with a letter and runs to 50 letters, digits or underscores; a
+// mention is a 3-30 character handle. Either must start the text or follow a
+// character that can't be part of a word, email address or URL fragment, so
+// "a@b.com" and "page#top" stay plain text.
+
+export type RichTextSegment =
+  | { type: 'text'; text: string }
+  | { type: 'tag'; text: string; tag: string }
+  | { type: 'mention'; text: string; handle: string };
+
+export const HANDLE_PATTERN = /^[a-z0-9_]{3,30}$/;
+const TAG_PATTERN = /^[a-z][a-z0-9_]{0,49}$/;
+
+const TOKEN = /(^|[^A-Za-z0-9_#@&.])(?:#([A-Za-z][A-Za-z0-9_]{0,49})|@([A-Za-z0-9_]{3,30}))(?![A-Za-z0-9_])/g;
+
+/** Lowercase tag without the "#", or null if it can't be a tag. */
+export function normalizeTag(tag: string): string | null {
+  const normalized = tag.trim().replace(/^#/, '').toLowerCase().replace(/[^a-z0-9_]/g, '');
+  return TAG_PATTERN.test(normalized) ? normalized : null;
+}
+
+export function parseRichText(text: string): RichTextSegment[] {
+  const segments: RichTextSegment[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(TOKEN)) {
+    const [whole, prefix, tag, handle] = match;
+    const start = match.index! + prefix.length;
+    if (start > last) segments.push({ type: 'text', text: text.slice(last, start) });
+
+    const token = whole.slice(prefix.length);
+    segments.push(tag
+      ? { type: 'tag', text: token, tag: tag.toLowerCase() }
+      : { type: 'mention', text: token, handle: handle.toLowerCase() });
+    last = start + token.length;
+  }
+
+  if (last < text.length) segments.push({ type: 'text', text: text.slice(last) });
+  return segments;
+}
+
+export function extractTags(text: string): string[] {
+  return [...new Set(parseRichText(text).flatMap(s => s.type === 'tag' ? [s.tag] : []))];
+}
+
+export function extractMentions(text: string): string[] {
+  return [...new Set(parseRichText(text).flatMap(s => s.type === 'mention' ? [s.handle] : []))];
+}
@@ -0,0 +1,88 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type ScheduledPostStatus = 'draft' | 'scheduled' | 'published' | 'failed';
+
+export interface ScheduledPost {
+  id: string;
+  author_id: string;
+  content: string;
+  media_urls?: string[];
+  visibility: 'public' | 'friends' | 'private';
+  pet_id?: string | null;
+  scheduled_for?: string | null;
+  is_draft: boolean;
+  status: ScheduledPostStatus;
+  published_at?: string | null;
+  /** The post it became, once published. */
+  post_id?: string | null;
+  failure_reason?: string | null;
+  created_at: string;
+  pets?: {
+    name: string;
+    species: string;
+  } | null;
+}
+
+/** What the scheduler form collects before media is uploaded. */
+export interface ScheduledPostDraft {
+  content: string;
+  visibility: ScheduledPost['visibility'];
+  pet_id: string;
+  /** `datetime-local` value; ignored for drafts. */
+  scheduled_for: string;
+  is_draft: boolean;
+}
+
+/**
+ * A `datetime-local` value is wall-clock time with no zone; stores it as the
+ * instant the author meant, not the same digits in UTC.
+ */
+export function scheduledInstant(localValue: string): string {
+  return new Date(localValue).toISOString();
+}
+
+/**
+ * The `scheduled_posts` row for a scheduler form. `publish_scheduled_post`
+ * copies content, media, visibility and pet from it onto the new post.
+ */
+export function buildScheduledPost(authorId: string, draft: ScheduledPostDraft, mediaUrls: string[]) {
+  return {
+    author_id: authorId,
+    content: draft.content.trim(),
+    media_urls: mediaUrls,
+    visibility: draft.visibility,
+    pet_id: draft.pet_id || null,
+    scheduled_for: draft.is_draft ? null : scheduledInstant(draft.scheduled_for),
+    is_draft: draft.is_draft,
+    status: (draft.is_draft ? 'draft' : 'scheduled') as ScheduledPostStatus
+  };
+}
+
+/** "in 3 hours", "in 2 days"; due posts are waiting for the publisher. */
+export function formatScheduledTime(dateString: string, now: Date = new Date()): string {
+  const diffInMinutes = Math.floor((new Date(dateString).getTime() - now.getTime()) / (1000 * 60));
+
+  if (diffInMinutes <= 0) return 'publishing shortly';
+  if (diffInMinutes < 60) return `in ${diffInMinutes} minute${diffInMinutes !== 1 ? 's' : ''}`;
+
+  const diffInHours = Math.floor(diffInMinutes / 60);
+  if (diffInHours < 24) return `in ${diffInHours} hour${diffInHours !== 1 ? 's' : ''}`;
+
+  const diffInDays = Math.floor(diffInHours / 24);
+  return `in ${diffInDays} day${diffInDays !== 1 ? 's' : ''}`;
+}
+
+/**
+ * Publishes a scheduled or failed post now through `publish_scheduled_post`,
+ * the same path the scheduled publisher takes. Returns the updated row (which
+ * may have failed again), or null if it had already been published.
+ * Throws the Supabase error so callers can show their own message.
+ */
+export async function publishScheduledPost(sb: SupabaseClient, id: string): Promise<ScheduledPost | null> {
+  const { data, error } = await sb.rpc('publish_scheduled_post', { p_id: id });
+
+  if (error) throw error;
+
+  const [row] = (data || []) as ScheduledPost[];
+  return row ?? null;
+}
@@ -0,0 +1,112 @@
+import type { LostFound, LostPetSighting } from './supabase';
+
+export interface TimelinePoint {
+  id: string;
+  latitude: number;
+  longitude: number;
+  seen_at: string;
+  /** The report's own last-seen location, which starts the timeline. */
+  isOrigin: boolean;
+}
+
+export interface HeatmapCell {
+  latitude: number;
+  longitude: number;
+  count: number;
+  /** 0-1, relative to the busiest cell. */
+  intensity: number;
+}
+
+export interface TravelSummary {
+  /** Compass direction from the first to the latest point, e.g. "NE". */
+  direction: string;
+  miles: number;
+  hours: number;
+}
+
+/** ~0.15 miles; fine enough to tell streets apart on a neighborhood map. */
+export const HEATMAP_CELL_DEGREES = 0.002;
+
+const COMPASS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+function toRad(deg: number): number {
+  return deg * Math.PI / 180;
+}
+
+function distanceMiles(a: TimelinePoint, b: TimelinePoint): number {
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLng = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 3959 * Math.asin(Math.sqrt(h));
+}
+
+function bearing(a: TimelinePoint, b: TimelinePoint): number {
+  const dLng = toRad(b.longitude - a.longitude);
+  const y = Math.sin(dLng) * Math.cos(toRad(b.latitude));
+  const x = Math.cos(toRad(a.latitude)) * Math.sin(toRad(b.latitude)) -
+    Math.sin(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.cos(dLng);
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+}
+
+/**
+ * The report's last-seen location followed by every sighting with
+ * coordinates, oldest first. Sightings marked only by description are left out.
+ */
+export function sightingTimeline(
+  report: Pick<LostFound, 'id' | 'latitude' | 'longitude' | 'created_at'>,
+  sightings: Pick<LostPetSighting, 'id' | 'latitude' | 'longitude' | 'seen_at'>[]
+): TimelinePoint[] {
+  const located = sightings
+    .filter(s => s.latitude != null && s.longitude != null)
+    .map(s => ({
+      id: s.id,
+      latitude: Number(s.latitude),
+      longitude: Number(s.longitude),
+      seen_at: s.seen_at,
+      isOrigin: false
+    }))
+    .sort((a, b) => new Date(a.seen_at).getTime() - new Date(b.seen_at).getTime());
+
+  return [
+    { id: report.id, latitude: report.latitude, longitude: report.longitude, seen_at: report.created_at, isOrigin: true },
+    ...located
+  ];
+}
+
+/** Counts points per grid cell; each cell is placed at its center. */
+export function heatmapCells(points: TimelinePoint[], cellDegrees: number = HEATMAP_CELL_DEGREES): HeatmapCell[] {
+  const cells = new Map<string, { row: number; col: number; count: number }>();
+  for (const point of points) {
+    const row = Math.floor(point.latitude / cellDegrees);
+    const col = Math.floor(point.longitude / cellDegrees);
+    const key = `${row}:${col}`;
+    const cell = cells.get(key) ?? { row, col, count: 0 };
+    cell.count++;
+    cells.set(key, cell);
+  }
+
+  const max = Math.max(0, ...[...cells.values()].map(c => c.count));
+  return [...cells.values()].map(c => ({
+    latitude: (c.row + 0.5) * cellDegrees,
+    longitude: (c.col + 0.5) * cellDegrees,
+    count: c.count,
+    intensity: c.count / max
+  }));
+}
+
+/** Overall direction of travel, or null until there are two distinct points. */
+export function travelSummary(timeline: TimelinePoint[]): TravelSummary | null {
+  if (timeline.length < 2) return null;
+
+  const first = timeline[0];
+  const last = timeline[timeline.length - 1];
+  const miles = distanceMiles(first, last);
+  if (miles < 0.05) return null;
+
+  return {
+    direction: COMPASS[Math.round(bearing(first, last) / 45) % 8],
+    miles,
+    hours: Math.max(0, (new Date(last.seen_at).getTime() - new Date(first.seen_at).getTime()) / (60 * 60 * 1000))
+  };
+}
@@ -51,6 +51,8 @@ export interface Profile {
   id: string;
   email: string;
   display_name: string;
+  /** Unique lowercase name used for @mentions. */
+  handle: string;
   bio?: string;
   avatar_url?: string;
   role: 'user' | 'admin' | 'super_admin';
@@ -70,11 +72,22 @@ export interface Pet {
   gender?: string;
   weight?: number;
   color?: string;
+  distinctive_markings?: string;
   photo_url?: string;
   bio?: string;
   visibility: 'public' | 'friends' | 'private';
   is_lost: boolean;
   created_at: string;
+  identifiers?: PetIdentifiers | null;
+}
+
+export interface PetIdentifiers {
+  pet_id: string;
+  microchip_number?: string;
+  tag_id?: string;
+  relay_token: string;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface Post {
@@ -89,6 +102,8 @@ export interface Post {
   comments_count: number;
   shares_count: number;
   created_at: string;
+  /** Set once the content, media or visibility has been edited. */
+  edited_at?: string | null;
   profiles?: Profile;
   pets?: Pet;
 }
@@ -104,29 +119,125 @@ export interface HealthRecord {
   cost?: number;
   attachment_url?: string;
   symptom_analysis?: any;
+  symptom_outcome?: 'monitoring' | 'vet_confirmed' | 'resolved' | 'worsened';
+  outcome_notes?: string;
+  outcome_recorded_at?: string;
+  follow_up_record_id?: string;
+  created_at: string;
+}
+
+export interface Medication {
+  id: string;
+  pet_id: string;
+  name: string;
+  dosage: string;
+  frequency: 'daily' | 'twice_daily' | 'three_times_daily' | 'weekly' | 'as_needed';
+  dose_times: string[];
+  /** Null on rows backfilled from legacy records until the owner confirms a zone. */
+  timezone: string | null;
+  start_date: string;
+  end_date?: string;
+  instructions?: string;
+  is_active: boolean;
+  created_at: string;
+  pets?: Pet;
+}
+
+export interface MedicationDose {
+  id: string;
+  medication_id: string;
+  scheduled_for: string;
+  status: 'given' | 'skipped' | 'late';
+  logged_at: string;
+  logged_by?: string;
+  notes?: string;
+  created_at: string;
+}
+
+export interface PetVital {
+  id: string;
+  pet_id: string;
+  recorded_at: string;
+  weight?: number;
+  body_condition_score?: number;
+  temperature?: number;
+  heart_rate?: number;
+  notes?: string;
+  recorded_by?: string;
+  created_at: string;
+}
+
+export interface VetClinic {
+  id: string;
+  owner_id: string;
+  name: string;
+  phone: string;
+  address?: string;
+  is_emergency: boolean;
+  notes?: string;
   created_at: string;
 }
 
 export interface LostFound {
   id: string;
   reporter_id: string;
+  pet_id?: string;
   status: 'lost' | 'found' | 'resolved';
   pet_name: string;
   species: string;
   breed?: string;
+  color?: string;
   description: string;
   photo_url?: string;
   last_seen_location: string;
   latitude: number;
   longitude: number;
-  contact_phone?: string;
-  contact_email?: string;
+  /** Local part of the report's masked email address, see `relayEmailAddress`. */
+  relay_alias: string;
   reward_offered: boolean;
   reward_amount?: number;
   is_resolved: boolean;
   created_at: string;
 }
 
+/** Only readable by the reporter; others reach them through the relay. */
+export interface LostFoundContact {
+  report_id: string;
+  contact_phone?: string;
+  contact_email?: string;
+}
+
+export interface LostFoundMatch {
+  id: string;
+  lost_report_id: string;
+  found_report_id: string;
+  score: number;
+  factors: Array<{ id: string; points: number; maxPoints: number; detail: string }>;
+  distance_miles?: number;
+  status: 'pending' | 'confirmed' | 'dismissed';
+  resolved_by?: string;
+  created_at: string;
+  updated_at: string;
+  lost_report?: LostFound;
+  found_report?: LostFound;
+}
+
+export interface LostPetSighting {
+  id: string;
+  report_id: string;
+  user_id?: string;
+  location_description: string;
+  latitude?: number;
+  longitude?: number;
+  seen_at: string;
+  notes?: string;
+  photo_url?: string;
+  contact_name?: string;
+  contact_phone?: string;
+  contact_email?: string;
+  created_at: string;
+}
+
 export interface PushSubscription {
   id: string;
   user_id: string;
@@ -0,0 +1,103 @@
+import type { HealthRecord } from './supabase';
+
+export type SymptomUrgency = 'low' | 'medium' | 'high';
+export type SymptomOutcome = NonNullable<HealthRecord['symptom_outcome']>;
+
+/** The owner's answers, stored with the analysis so episodes can be compared later. */
+export interface SymptomInputs {
+  symptoms: string[];
+  duration: string;
+  severity: 'mild' | 'moderate' | 'severe';
+  appetite: string;
+  energy: string;
+  behavior_changes?: string;
+  additional_notes?: string;
+}
+
+/** Shape of `health_records.symptom_analysis` as written by `analyze-symptoms`. */
+export interface SymptomAnalysis {
+  /** `mock` only appears on analyses saved before rule-based triage existed. */
+  analysis_type: 'ai_generated' | 'rule_based' | 'mock';
+  /** Provider and model that produced the analysis, e.g. `openai` / `gpt-4o-mini`. */
+  provider?: string;
+  model?: string;
+  urgency_level: SymptomUrgency;
+  possible_causes?: string[];
+  recommendations: string[];
+  when_to_see_vet: string;
+  warning_signs?: string[];
+  analysis_text?: string;
+  disclaimer: string;
+  generated_at: string;
+  inputs?: SymptomInputs;
+}
+
+export interface SymptomEpisode {
+  record: HealthRecord;
+  analysis: SymptomAnalysis | null;
+  symptoms: string[];
+  /** Symptoms also seen in an earlier episode within `REPEAT_WINDOW_DAYS`. */
+  repeats: string[];
+}
+
+export const SYMPTOM_OUTCOMES: Record<SymptomOutcome, string> = {
+  monitoring: 'Still monitoring',
+  vet_confirmed: 'Vet confirmed',
+  resolved: 'Resolved on its own',
+  worsened: 'Got worse'
+};
+
+export const URGENCY_LABELS: Record<SymptomUrgency, string> = {
+  low: 'Low urgency',
+  medium: 'Medium urgency',
+  high: 'High urgency'
+};
+
+/** A symptom seen again within this many days counts as a repeat episode. */
+export const REPEAT_WINDOW_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getSymptomAnalysis(record: Pick<HealthRecord, 'symptom_analysis'>): SymptomAnalysis | null {
+  const analysis = record.symptom_analysis;
+  return analysis && typeof analysis === 'object' && analysis.urgency_level ? analysis as SymptomAnalysis : null;
+}
+
+/**
+ * Symptoms recorded in an episode. Records saved before the inputs were
+ * stored only have them in the description ("Symptoms: a, b").
+ */
+export function getEpisodeSymptoms(record: Pick<HealthRecord, 'symptom_analysis' | 'description'>): string[] {
+  const inputs = getSymptomAnalysis(record)?.inputs;
+  if (inputs?.symptoms?.length) return inputs.symptoms;
+
+  const match = record.description?.match(/^Symptoms:\s*(.+)$/m);
+  return match ? match[1].split(',').map(s => s.trim()).filter(Boolean) : [];
+}
+
+/** Symptom records for one pet, oldest first, with repeat symptoms flagged. */
+export function buildSymptomTimeline(records: HealthRecord[]): SymptomEpisode[] {
+  const symptomRecords = records
+    .filter(r => r.type === 'symptom')
+    .sort((a, b) => a.date.localeCompare(b.date) || a.created_at.localeCompare(b.created_at));
+
+  const lastSeen = new Map<string, string>();
+  return symptomRecords.map(record => {
+    const symptoms = getEpisodeSymptoms(record);
+    const repeats = symptoms.filter(symptom => {
+      const previous = lastSeen.get(symptom.toLowerCase());
+      return !!previous &&
+        (new Date(record.date).getTime() - new Date(previous).getTime()) / DAY_MS <= REPEAT_WINDOW_DAYS;
+    });
+    symptoms.forEach(symptom => lastSeen.set(symptom.toLowerCase(), record.date));
+
+    return { record, analysis: getSymptomAnalysis(record), symptoms, repeats };
+  });
+}
+
+/** One-line outcome for lists and exports, e.g. "Vet confirmed: ear infection". */
+export function describeOutcome(record: Pick<HealthRecord, 'symptom_outcome' | 'outcome_notes'>): string | null {
+  if (!record.symptom_outcome) return null;
+  const label = SYMPTOM_OUTCOMES[record.symptom_outcome];
+  return record.outcome_notes ? `${label}: ${record.outcome_notes}` : label;
+}
@@ -0,0 +1,79 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { FeedPost } from './feed';
+import { normalizeTag } from './richText';
+
+export interface TaggedReel {
+  id: string;
+  author_id: string;
+  video_url: string;
+  thumbnail_url?: string | null;
+  caption?: string | null;
+  created_at: string;
+}
+
+export const TAG_PAGE_SIZE = 30;
+
+async function taggedIds(sb: SupabaseClient, tag: string, subjectType: 'post' | 'reel', limit: number): Promise<string[]> {
+  const { data, error } = await sb
+    .from('content_tags')
+    .select('subject_id')
+    .eq('tag', tag)
+    .eq('subject_type', subjectType)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []).map(row => row.subject_id as string);
+}
+
+/**
+ * Newest posts with a tag, read through `feed_posts` so only posts the caller
+ * may see come back. Throws the Supabase error so callers can show their own
+ * message.
+ */
+export async function loadTaggedPosts(sb: SupabaseClient, tag: string, limit: number = TAG_PAGE_SIZE): Promise<FeedPost[]> {
+  const ids = await taggedIds(sb, tag, 'post', limit);
+  if (ids.length === 0) return [];
+
+  const { data, error } = await sb
+    .from('feed_posts')
+    .select('*')
+    .in('id', ids)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as FeedPost[];
+}
+
+export async function loadTaggedReels(sb: SupabaseClient, tag: string, limit: number = TAG_PAGE_SIZE): Promise<TaggedReel[]> {
+  const ids = await taggedIds(sb, tag, 'reel', limit);
+  if (ids.length === 0) return [];
+
+  const { data, error } = await sb
+    .from('reels')
+    .select('id, author_id, video_url, thumbnail_url, caption, created_at')
+    .in('id', ids)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as TaggedReel[];
+}
+
+/**
+ * Files photo-label suggestions from `autoTagPost` under their tags, so the
+ * post shows up on those tag pages without the author typing them.
+ */
+export async function addSuggestedTags(sb: SupabaseClient, postId: string, authorId: string, labels: string[]): Promise<string[]> {
+  const tags = [...new Set(labels.map(normalizeTag).filter((tag): tag is string => !!tag))];
+  if (tags.length === 0) return [];
+
+  const { error } = await sb
+    .from('content_tags')
+    .upsert(
+      tags.map(tag => ({ subject_type: 'post', subject_id: postId, tag, author_id: authorId, source: 'suggested' })),
+      { onConflict: 'subject_type,subject_id,tag', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+  return tags;
+}
@@ -75,6 +75,11 @@ export const telemetry = {
   health: {
     record: (meta?: Record<string, any>) => logEvent({ event: 'health_record', meta }),
     update: (meta?: Record<string, any>) => logEvent({ event: 'health_update', meta }),
+    dose: (meta?: Record<string, any>) => logEvent({ event: 'medication_dose', meta }),
+    export: (meta?: Record<string, any>) => logEvent({ event: 'health_export', meta }),
+    import: (meta?: Record<string, any>) => logEvent({ event: 'health_import', meta }),
+    vitals: (meta?: Record<string, any>) => logEvent({ event: 'health_vitals', meta }),
+    emergency: (meta?: Record<string, any>) => logEvent({ event: 'health_emergency_triage', meta }),
   },
   
   groups: {
@@ -0,0 +1,325 @@
+import type { Pet, HealthRecord } from './supabase';
+
+export interface VaccineProtocol {
+  id: string;
+  name: string;
+  species: Pet['species'];
+  core: boolean;
+  /** Matched against vaccination record titles to find past doses. */
+  aliases: RegExp[];
+  /** Age in weeks the first dose can be given. */
+  startWeeks: number;
+  /** Weeks between doses of the initial series. */
+  intervalWeeks: number;
+  /** Juvenile series is complete once a dose is given at or after this age. */
+  seriesUntilWeeks: number;
+  /** Doses needed when the series is started after `seriesUntilWeeks` or age is unknown. */
+  adultDoses: number;
+  /** Months from the end of the initial series to the first booster. */
+  firstBoosterMonths: number;
+  /** Months between boosters after the first one. */
+  boosterMonths: number;
+}
+
+export type VaccineStatusLevel = 'overdue' | 'upcoming' | 'complete' | 'optional';
+
+export interface VaccineStatus {
+  protocol: VaccineProtocol;
+  status: VaccineStatusLevel;
+  dueDate: string;
+  scheduledDate?: string;
+  dosesGiven: number;
+  lastGiven?: string;
+  seriesComplete: boolean;
+  message: string;
+}
+
+/** Vaccines due within this many days are reported as upcoming. */
+export const UPCOMING_WINDOW_DAYS = 30;
+
+const ONE_YEAR_RABIES = /\b(1|one)[\s-]*(year|yr)\b/i;
+
+// Schedules follow the AAHA canine and AAHA/AAFP feline guidelines, simplified
+// to one interval per vaccine. Local law and the pet's vet always win.
+export const VACCINE_PROTOCOLS: VaccineProtocol[] = [
+  {
+    id: 'dog_dhpp',
+    name: 'DHPP (Distemper, Hepatitis, Parvovirus, Parainfluenza)',
+    species: 'dog',
+    core: true,
+    aliases: [/dhpp/i, /da2pp/i, /dapp/i, /distemper/i, /parvo/i],
+    startWeeks: 6,
+    intervalWeeks: 3,
+    seriesUntilWeeks: 16,
+    adultDoses: 2,
+    firstBoosterMonths: 12,
+    boosterMonths: 36
+  },
+  {
+    id: 'dog_rabies',
+    name: 'Rabies',
+    species: 'dog',
+    core: true,
+    aliases: [/rabies/i],
+    startWeeks: 12,
+    intervalWeeks: 0,
+    seriesUntilWeeks: 12,
+    adultDoses: 1,
+    firstBoosterMonths: 12,
+    boosterMonths: 36
+  },
+  {
+    id: 'dog_bordetella',
+    name: 'Bordetella (Kennel Cough)',
+    species: 'dog',
+    core: false,
+    aliases: [/bordetella/i, /kennel cough/i],
+    startWeeks: 8,
+    intervalWeeks: 0,
+    seriesUntilWeeks: 8,
+    adultDoses: 1,
+    firstBoosterMonths: 12,
+    boosterMonths: 12
+  },
+  {
+    id: 'dog_leptospirosis',
+    name: 'Leptospirosis',
+    species: 'dog',
+    core: false,
+    aliases: [/lepto/i],
+    startWeeks: 12,
+    intervalWeeks: 3,
+    seriesUntilWeeks: 15,
+    adultDoses: 2,
+    firstBoosterMonths: 12,
+    boosterMonths: 12
+  },
+  {
+    id: 'dog_lyme',
+    name: 'Lyme Disease',
+    species: 'dog',
+    core: false,
+    aliases: [/lyme/i, /borrelia/i],
+    startWeeks: 12,
+    intervalWeeks: 3,
+    seriesUntilWeeks: 15,
+    adultDoses: 2,
+    firstBoosterMonths: 12,
+    boosterMonths: 12
+  },
+  {
+    id: 'dog_influenza',
+    name: 'Canine Influenza',
+    species: 'dog',
+    core: false,
+    aliases: [/influenza/i, /\bciv\b/i, /h3n2/i, /h3n8/i],
+    startWeeks: 8,
+    intervalWeeks: 3,
+    seriesUntilWeeks: 11,
+    adultDoses: 2,
+    firstBoosterMonths: 12,
+    boosterMonths: 12
+  },
+  {
+    id: 'cat_fvrcp',
+    name: 'FVRCP (Feline Viral Rhinotracheitis, Calicivirus, Panleukopenia)',
+    species: 'cat',
+    core: true,
+    aliases: [/fvrcp/i, /panleuk/i, /calici/i, /rhinotracheitis/i],
+    startWeeks: 6,
+    intervalWeeks: 3,
+    seriesUntilWeeks: 16,
+    adultDoses: 2,
+    firstBoosterMonths: 12,
+    boosterMonths: 36
+  },
+  {
+    id: 'cat_rabies',
+    name: 'Rabies',
+    species: 'cat',
+    core: true,
+    aliases: [/rabies/i],
+    startWeeks: 12,
+    intervalWeeks: 0,
+    seriesUntilWeeks: 12,
+    adultDoses: 1,
+    firstBoosterMonths: 12,
+    boosterMonths: 36
+  },
+  {
+    id: 'cat_felv',
+    name: 'FeLV (Feline Leukemia)',
+    species: 'cat',
+    core: false,
+    aliases: [/felv/i, /leuk(a)?emia/i],
+    startWeeks: 8,
+    intervalWeeks: 3,
+    seriesUntilWeeks: 11,
+    adultDoses: 2,
+    firstBoosterMonths: 12,
+    boosterMonths: 24
+  },
+  {
+    id: 'rabbit_rhdv',
+    name: 'RHDV (Rabbit Hemorrhagic Disease)',
+    species: 'rabbit',
+    core: true,
+    aliases: [/rhdv/i, /rhd/i, /hemorrhagic/i, /haemorrhagic/i],
+    startWeeks: 4,
+    intervalWeeks: 3,
+    seriesUntilWeeks: 7,
+    adultDoses: 2,
+    firstBoosterMonths: 12,
+    boosterMonths: 12
+  },
+  {
+    id: 'rabbit_myxomatosis',
+    name: 'Myxomatosis',
+    species: 'rabbit',
+    core: false,
+    aliases: [/myxo/i],
+    startWeeks: 5,
+    intervalWeeks: 0,
+    seriesUntilWeeks: 5,
+    adultDoses: 1,
+    firstBoosterMonths: 12,
+    boosterMonths: 12
+  }
+];
+
+export function getProtocolsForSpecies(species: Pet['species']): VaccineProtocol[] {
+  return VACCINE_PROTOCOLS.filter(p => p.species === species);
+}
+
+/** The protocol a vaccination record belongs to, matched on its title. */
+export function matchProtocol(species: Pet['species'], title: string): VaccineProtocol | null {
+  return getProtocolsForSpecies(species).find(p => p.aliases.some(alias => alias.test(title))) || null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDay(date: string | Date): string {
+  return (typeof date === 'string' ? new Date(date) : date).toISOString().split('T')[0];
+}
+
+function addDays(date: string, days: number): string {
+  return toDay(new Date(new Date(date).getTime() + days * DAY_MS));
+}
+
+function addMonths(date: string, months: number): string {
+  const d = new Date(date);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return toDay(d);
+}
+
+function ageInWeeks(dateOfBirth: string, on: string): number {
+  return (new Date(on).getTime() - new Date(dateOfBirth).getTime()) / (7 * DAY_MS);
+}
+
+export function daysUntil(date: string, today: string = toDay(new Date())): number {
+  return Math.round((new Date(date).getTime() - new Date(today).getTime()) / DAY_MS);
+}
+
+/**
+ * Works out where a pet is in one vaccine's schedule from the doses it has
+ * already had. Future-dated records are treated as booked appointments.
+ */
+export function evaluateVaccine(
+  protocol: VaccineProtocol,
+  pet: Pick<Pet, 'date_of_birth'>,
+  records: Pick<HealthRecord, 'title' | 'description' | 'date'>[],
+  today: string = toDay(new Date())
+): VaccineStatus {
+  const matching = records
+    .filter(r => protocol.aliases.some(alias => alias.test(r.title)))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const given = matching.filter(r => r.date <= today);
+  const scheduledDate = matching.find(r => r.date > today)?.date;
+  const dob = pet.date_of_birth || null;
+
+  // Find the dose that completed the initial series, if any
+  let completedAt = -1;
+  const startedAsJuvenile = !!dob && given.length > 0 &&
+    ageInWeeks(dob, given[0].date) < protocol.seriesUntilWeeks;
+  if (startedAsJuvenile) {
+    completedAt = given.findIndex(r => ageInWeeks(dob!, r.date) >= protocol.seriesUntilWeeks);
+  } else if (given.length >= protocol.adultDoses) {
+    completedAt = protocol.adultDoses - 1;
+  }
+  const seriesComplete = completedAt >= 0;
+  const last = given[given.length - 1];
+
+  let dueDate: string;
+  let message: string;
+  let missingHistory = false;
+  if (!seriesComplete) {
+    if (last) {
+      dueDate = addDays(last.date, protocol.intervalWeeks * 7);
+      message = `Next dose of the initial series (${given.length} given)`;
+    } else if (dob && ageInWeeks(dob, today) < protocol.seriesUntilWeeks) {
+      dueDate = addDays(dob, protocol.startWeeks * 7);
+      message = `First dose due at ${protocol.startWeeks} weeks of age`;
+    } else {
+      // Adult (or unknown age) with nothing on record: due now, not "overdue since birth"
+      dueDate = today;
+      missingHistory = true;
+      message = 'No doses on record';
+    }
+  } else if (given.length - 1 === completedAt) {
+    dueDate = addMonths(given[completedAt].date, protocol.firstBoosterMonths);
+    message = 'First booster after the initial series';
+  } else {
+    const interval = protocol.id.endsWith('_rabies') &&
+      ONE_YEAR_RABIES.test(`${last.title} ${last.description || ''}`)
+      ? 12
+      : protocol.boosterMonths;
+    dueDate = addMonths(last.date, interval);
+    message = interval === 12 ? 'Annual booster' : `Booster every ${interval / 12} years`;
+  }
+
+  const days = daysUntil(dueDate, today);
+  let status: VaccineStatusLevel;
+  if (!protocol.core && given.length === 0 && !scheduledDate) {
+    status = 'optional';
+    message = 'Lifestyle vaccine — ask your vet if it is recommended';
+  } else if (scheduledDate) {
+    status = 'upcoming';
+  } else if (days < 0 || missingHistory) {
+    status = 'overdue';
+  } else if (days <= UPCOMING_WINDOW_DAYS || !seriesComplete) {
+    status = 'upcoming';
+  } else {
+    status = 'complete';
+  }
+
+  return {
+    protocol,
+    status,
+    dueDate,
+    scheduledDate,
+    dosesGiven: given.length,
+    lastGiven: last?.date,
+    seriesComplete,
+    message
+  };
+}
+
+/** Status for every protocol that applies to the pet's species. */
+export function evaluateVaccinations(
+  pet: Pick<Pet, 'species' | 'date_of_birth'>,
+  records: Pick<HealthRecord, 'type' | 'title' | 'description' | 'date'>[],
+  today: string = toDay(new Date())
+): VaccineStatus[] {
+  const vaccinations = records.filter(r => r.type === 'vaccination');
+  return getProtocolsForSpecies(pet.species).map(protocol =>
+    evaluateVaccine(protocol, pet, vaccinations, today)
+  );
+}
+
+/** Vaccination records that don't belong to any known protocol. */
+export function getCustomVaccinations<T extends Pick<HealthRecord, 'type' | 'title'>>(
+  species: Pet['species'],
+  records: T[]
+): T[] {
+  return records.filter(r => r.type === 'vaccination' && !matchProtocol(species, r.title));
+}
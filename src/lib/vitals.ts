@@ -0,0 +1,161 @@
+import type { Pet, PetVital } from './supabase';
+
+export type VitalMetric = 'weight' | 'body_condition_score' | 'temperature' | 'heart_rate';
+
+export interface VitalMetricInfo {
+  label: string;
+  shortLabel: string;
+  unit: string;
+  step: number;
+}
+
+export interface VitalPoint {
+  date: string;
+  value: number;
+}
+
+export interface VitalAlert {
+  metric: VitalMetric;
+  severity: 'warning' | 'critical';
+  message: string;
+  date: string;
+}
+
+export const VITAL_METRICS: Record<VitalMetric, VitalMetricInfo> = {
+  weight: { label: 'Weight', shortLabel: 'Weight', unit: 'lbs', step: 0.1 },
+  body_condition_score: { label: 'Body Condition Score', shortLabel: 'BCS', unit: '/9', step: 1 },
+  temperature: { label: 'Temperature', shortLabel: 'Temp', unit: '°F', step: 0.1 },
+  heart_rate: { label: 'Heart Rate', shortLabel: 'Heart', unit: 'bpm', step: 1 }
+};
+
+/** Weight lost within `WEIGHT_CHANGE_WINDOW_DAYS` that triggers a critical alert. */
+export const WEIGHT_LOSS_ALERT_PERCENT = 10;
+export const WEIGHT_GAIN_ALERT_PERCENT = 10;
+export const WEIGHT_CHANGE_WINDOW_DAYS = 30;
+
+/** Readings older than this no longer raise alerts. */
+export const ALERT_MAX_AGE_DAYS = 60;
+
+// Resting reference ranges for healthy adults. Other species vary too much to
+// alert on, so only weight changes are checked for them.
+const NORMAL_RANGES: Partial<Record<Pet['species'], Partial<Record<'temperature' | 'heart_rate', [number, number]>>>> = {
+  dog: { temperature: [100.5, 102.5], heart_rate: [60, 140] },
+  cat: { temperature: [100.5, 102.5], heart_rate: [140, 220] },
+  rabbit: { temperature: [101, 103], heart_rate: [130, 325] }
+};
+
+// Beyond these the temperature is an emergency rather than something to watch
+const CRITICAL_TEMPERATURE: [number, number] = [99, 104];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+}
+
+/** Readings of one metric in date order, skipping entries that didn't record it. */
+export function getSeries(vitals: PetVital[], metric: VitalMetric): VitalPoint[] {
+  return vitals
+    .filter(v => v[metric] != null)
+    .map(v => ({ date: v.recorded_at, value: Number(v[metric]) }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function getLatest(vitals: PetVital[], metric: VitalMetric): VitalPoint | null {
+  const series = getSeries(vitals, metric);
+  return series[series.length - 1] || null;
+}
+
+/**
+ * Percent change between the latest reading and the earliest one within
+ * `days` before it. Null when there is nothing to compare against.
+ */
+export function getPercentChange(series: VitalPoint[], days: number): number | null {
+  const latest = series[series.length - 1];
+  if (!latest) return null;
+  const baseline = series.find(p => p !== latest && daysBetween(p.date, latest.date) <= days);
+  if (!baseline || baseline.value === 0) return null;
+  return ((latest.value - baseline.value) / baseline.value) * 100;
+}
+
+/** Alerts for sudden weight changes and out-of-range readings, most severe first. */
+export function detectVitalAlerts(
+  vitals: PetVital[],
+  species: Pet['species'],
+  today: string = new Date().toISOString().split('T')[0]
+): VitalAlert[] {
+  const alerts: VitalAlert[] = [];
+  const isRecent = (point: VitalPoint | null | undefined): point is VitalPoint =>
+    !!point && daysBetween(point.date, today) <= ALERT_MAX_AGE_DAYS;
+
+  // Compare the latest weight with the heaviest and lightest readings in the
+  // window, so a steady decline is caught even if the first reading was low
+  const weights = getSeries(vitals, 'weight');
+  const latestWeight = weights[weights.length - 1];
+  if (isRecent(latestWeight)) {
+    const window = weights.filter(p => p !== latestWeight && daysBetween(p.date, latestWeight.date) <= WEIGHT_CHANGE_WINDOW_DAYS);
+    if (window.length > 0) {
+      const highest = Math.max(...window.map(p => p.value));
+      const lowest = Math.min(...window.map(p => p.value));
+      const loss = ((highest - latestWeight.value) / highest) * 100;
+      const gain = ((latestWeight.value - lowest) / lowest) * 100;
+
+      if (loss > WEIGHT_LOSS_ALERT_PERCENT) {
+        alerts.push({
+          metric: 'weight',
+          severity: 'critical',
+          message: `Lost ${loss.toFixed(1)}% of body weight in ${WEIGHT_CHANGE_WINDOW_DAYS} days`,
+          date: latestWeight.date
+        });
+      } else if (gain > WEIGHT_GAIN_ALERT_PERCENT) {
+        alerts.push({
+          metric: 'weight',
+          severity: 'warning',
+          message: `Gained ${gain.toFixed(1)}% of body weight in ${WEIGHT_CHANGE_WINDOW_DAYS} days`,
+          date: latestWeight.date
+        });
+      }
+    }
+  }
+
+  const bcs = getLatest(vitals, 'body_condition_score');
+  if (isRecent(bcs) && (bcs.value <= 3 || bcs.value >= 7)) {
+    alerts.push({
+      metric: 'body_condition_score',
+      severity: bcs.value <= 2 || bcs.value >= 8 ? 'critical' : 'warning',
+      message: `Body condition score ${bcs.value}/9 is ${bcs.value <= 3 ? 'underweight' : 'overweight'}`,
+      date: bcs.date
+    });
+  }
+
+  const ranges = NORMAL_RANGES[species];
+
+  const temperature = getLatest(vitals, 'temperature');
+  if (isRecent(temperature) && ranges?.temperature) {
+    const [low, high] = ranges.temperature;
+    if (temperature.value < low || temperature.value > high) {
+      const critical = temperature.value < CRITICAL_TEMPERATURE[0] || temperature.value > CRITICAL_TEMPERATURE[1];
+      alerts.push({
+        metric: 'temperature',
+        severity: critical ? 'critical' : 'warning',
+        message: `Temperature ${temperature.value}°F is ${temperature.value > high ? 'above' : 'below'} the normal ${low}–${high}°F`,
+        date: temperature.date
+      });
+    }
+  }
+
+  const heartRate = getLatest(vitals, 'heart_rate');
+  if (isRecent(heartRate) && ranges?.heart_rate) {
+    const [low, high] = ranges.heart_rate;
+    if (heartRate.value < low || heartRate.value > high) {
+      alerts.push({
+        metric: 'heart_rate',
+        severity: 'warning',
+        message: `Resting heart rate ${heartRate.value} bpm is outside the normal ${low}–${high} bpm`,
+        date: heartRate.date
+      });
+    }
+  }
+
+  return alerts.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'critical' ? -1 : 1));
+}
@@ -12,6 +12,8 @@ import toast from 'react-hot-toast';
 import ConfirmDialog from '../components/UI/ConfirmDialog';
 import MetricsCard from '../features/admin/MetricsCard';
 import AdvancedAnalytics from '../features/analytics/AdvancedAnalytics';
+import PostDiff from '../components/Feed/PostDiff';
+import { PostRevision, loadRevisionsForPosts, revisionAt } from '../lib/postRevisions';
 
 interface AdminStats {
   totalUsers: number;
@@ -80,6 +82,8 @@ const Admin: React.FC = () => {
   const [selectedReport, setSelectedReport] = useState<Report | null>(null);
   const [showReportModal, setShowReportModal] = useState(false);
   const [resolvingReport, setResolvingReport] = useState<Report | null>(null);
+  // Revisions of reported posts, so edits after a report don't hide what was reported
+  const [reportedPostRevisions, setReportedPostRevisions] = useState<Map<string, PostRevision[]>>(new Map());
 
   // Users management
   const [users, setUsers] = useState<User[]>([]);
@@ -185,6 +189,13 @@ const Admin: React.FC = () => {
         toast.error('Failed to load reports');
       } else {
         setReports(data || []);
+
+        const postIds = [...new Set((data || []).filter(r => r.content_type === 'post').map(r => r.content_id))];
+        try {
+          setReportedPostRevisions(await loadRevisionsForPosts(supabase, postIds));
+        } catch (revisionsError) {
+          console.error('Error loading reported post history:', revisionsError);
+        }
       }
     } catch (error) {
       console.error('Error loading reports:', error);
@@ -280,6 +291,31 @@ const Admin: React.FC = () => {
     return date.toLocaleDateString();
   };
 
+  // The text the reporter saw, and how it has changed since
+  const renderReportedPost = (report: Report) => {
+    const revisions = reportedPostRevisions.get(report.content_id) || [];
+    const reported = revisionAt(revisions, report.created_at) || revisions[0];
+    if (!reported) return null;
+
+    const latest = revisions[revisions.length - 1];
+    const editsSince = latest.version - reported.version;
+
+    return (
+      <div className="mb-4 p-3 bg-gray-50 rounded-lg text-sm">
+        <p className="font-medium text-gray-900 mb-1">Post as reported</p>
+        <p className="text-gray-700 whitespace-pre-wrap">{reported.content}</p>
+        {editsSince > 0 && (
+          <>
+            <p className="font-medium text-gray-900 mt-3 mb-1">
+              Edited {editsSince} time{editsSince !== 1 ? 's' : ''} since, last {formatTimeAgo(latest.created_at).toLowerCase()}
+            </p>
+            <PostDiff before={reported.content} after={latest.content} className="text-gray-700" />
+          </>
+        )}
+      </div>
+    );
+  };
+
   const getReportStatusColor = (status: string) => {
     switch (status) {
       case 'pending': return 'bg-yellow-100 text-yellow-800';
@@ -538,6 +574,8 @@ const Admin: React.FC = () => {
                     <p className="text-gray-700 mb-4">{report.description}</p>
                   )}
 
+                  {report.content_type === 'post' && renderReportedPost(report)}
+
                   {report.status === 'pending' && (
                     <div className="flex space-x-2">
                       <button
@@ -10,9 +10,12 @@ import RecentActivity from '../components/Dashboard/RecentActivity';
 import LostPetAlert from '../components/LostFound/LostPetAlert';
 import PetCard from '../components/Pets/PetCard';
 import PetHealthSummary from '../components/Pets/PetHealthSummary';
+import { useAlertLocation } from '../hooks/useAlertLocation';
 
 const Dashboard: React.FC = () => {
   const { profile } = useAuth();
+  // Keeps an opted-in user's lost pet alert location fresh
+  useAlertLocation();
   const [pets, setPets] = useState<Pet[]>([]);
   const [loading, setLoading] = useState(true);
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
@@ -237,6 +240,7 @@ const Dashboard: React.FC = () => {
                       onEdit={() => {}}
                       onDelete={() => {}}
                       showActions={false}
+                      canReportLost
                     />
                     <PetHealthSummary pet={pet} />
                   </div>
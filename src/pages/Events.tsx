@@ -4,6 +4,7 @@ import { useAuth } from '../lib/auth';
 import { supabase } from '../lib/supabase';
 import { getMyEventRSVP } from '../lib/membership';
 import { firstRow } from '../lib/firstRow';
+import { geocoder } from '../lib/geocoding';
 import { 
   Calendar, Plus, MapPin, Clock, Users, Star, 
   Filter, Search, X, Check, Edit, Trash2,
@@ -218,10 +219,21 @@ const Events: React.FC = () => {
     setSubmitting(true);
 
     try {
+      // Events whose location can be found show up on the map
+      const location = eventData.location.trim();
+      const place = location
+        ? await geocoder.geocode(location).catch(error => {
+          console.error('Error geocoding event location:', error);
+          return null;
+        })
+        : null;
+
       const newEvent = {
         title: eventData.title.trim(),
         description: eventData.description.trim() || null,
-        location: eventData.location.trim() || null,
+        location: location || null,
+        latitude: place?.latitude ?? null,
+        longitude: place?.longitude ?? null,
         start_datetime: eventData.start_datetime,
         end_datetime: eventData.end_datetime || null,
         created_by: profile.id,
@@ -811,6 +823,9 @@ const Events: React.FC = () => {
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                       placeholder="Where will this event take place?"
                     />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Include a street address or town to show the event on the map
+                    </p>
                   </div>
 
                   {/* Max Attendees and Group */}
@@ -1,14 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '../lib/auth';
-import { supabase, Pet, Post } from '../lib/supabase';
-import { hasLikedPost, hasSavedPost } from '../lib/membership';
+import { supabase, Pet } from '../lib/supabase';
+import { hasSavedPost } from '../lib/membership';
+import { appendFeedPage, loadFeedPage, loadForYouPage, FeedCursor, FeedPost, FeedSort } from '../lib/feed';
+import { addSuggestedTags } from '../lib/tags';
+import { autoTagPost } from '../features/ai/autoTag';
 import { BUCKETS } from '../lib/buckets';
 import { uploadFileSecure } from '../lib/storage';
 import { 
   Heart, MessageCircle, Share, Plus, Camera, X, Send, 
   MoreHorizontal, Edit, Trash2, Flag, Globe, Users, UserX, Bookmark,
-  Lock, Image, Video, Smile, MapPin, Tag
+  Lock, Image, Video, Smile, MapPin, Tag, Sparkles
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
@@ -22,18 +25,7 @@ import SocialShare from '../components/Sharing/SocialShare';
 import MediaUploader from '../components/Feed/MediaUploader';
 import FeedFilters from '../components/Feed/FeedFilters';
 
-interface PostWithDetails extends Post {
-  profiles: {
-    id: string;
-    display_name: string;
-    avatar_url?: string;
-  };
-  pets?: {
-    id: string;
-    name: string;
-    species: string;
-  };
-  user_liked?: boolean;
+interface PostWithDetails extends FeedPost {
   comments?: Array<{
     id: string;
     content: string;
@@ -52,6 +44,15 @@ const Feed: React.FC = () => {
   const [posts, setPosts] = useState<PostWithDetails[]>([]);
   const [pets, setPets] = useState<Pet[]>([]);
   const [loading, setLoading] = useState(true);
+  const [nextCursor, setNextCursor] = useState<FeedCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  // Ignores pages that arrive after the sort order changed
+  const feedRequestRef = useRef(0);
+  // For You pages skip posts already shown; read through a ref so loading a
+  // page doesn't recreate the loader
+  const postsRef = useRef(posts);
+  postsRef.current = posts;
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [deletingPost, setDeletingPost] = useState<PostWithDetails | null>(null);
   const [reportingPost, setReportingPost] = useState<PostWithDetails | null>(null);
@@ -60,7 +61,7 @@ const Feed: React.FC = () => {
   const [showPostMenu, setShowPostMenu] = useState<string | null>(null);
   const [showScheduler, setShowScheduler] = useState(false);
   const [sharingPost, setSharingPost] = useState<PostWithDetails | null>(null);
-  const [sortBy, setSortBy] = useState<'recent' | 'popular' | 'following'>('recent');
+  const [sortBy, setSortBy] = useState<FeedSort>('recent');
   const [showFollowingOnly, setShowFollowingOnly] = useState(false);
 
   // Create post form
@@ -80,10 +81,56 @@ const Feed: React.FC = () => {
 
   useEffect(() => {
     if (profile) {
-      loadData();
+      loadPets();
     }
   }, [profile]);
 
+  // Without a cursor, starts the feed over from the top
+  const loadPosts = useCallback(async (cursor: FeedCursor | null = null) => {
+    if (!profile) return;
+
+    const request = ++feedRequestRef.current;
+    try {
+      const page = sortBy === 'for_you'
+        ? await loadForYouPage(supabase, cursor ? postsRef.current.map(post => post.id) : [])
+        : await loadFeedPage(supabase, sortBy, cursor);
+      if (request !== feedRequestRef.current) return;
+
+      setPosts(prev => cursor ? appendFeedPage(prev, page.posts) : page.posts);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading posts:', error);
+      toast.error('Failed to load posts');
+    } finally {
+      if (request === feedRequestRef.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  }, [profile, sortBy]);
+
+  useEffect(() => {
+    if (profile) {
+      loadPosts();
+    }
+  }, [profile, loadPosts]);
+
+  // Load the next page as the end of the feed scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor || loadingMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        setLoadingMore(true);
+        loadPosts(nextCursor);
+      }
+    }, { rootMargin: '400px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadingMore, loadPosts]);
+
   useEffect(() => {
     const action = searchParams.get('action');
     if (action === 'post') {
@@ -92,76 +139,23 @@ const Feed: React.FC = () => {
     }
   }, [searchParams, setSearchParams]);
 
-  const loadData = async () => {
+  const loadPets = async () => {
     if (!profile) return;
 
-    try {
-      // Load user's pets for post creation
-      const { data: petsData, error: petsError } = await supabase
-        .from('pets')
-        .select('*')
-        .eq('owner_id', profile.id)
-        .order('name');
-
-      if (petsError) {
-        console.error('Error loading pets:', petsError);
-      } else {
-        setPets(petsData || []);
-      }
-
-      // Load posts from feed
-      const { data: postsData, error: postsError } = await supabase
-        .from('posts')
-        .select(`
-          *,
-          profiles!posts_author_id_fkey(id, display_name, avatar_url),
-          pets(id, name, species)
-        `)
-        .or(`visibility.eq.public,and(visibility.eq.friends,author_id.in.(${await getFriendIds()}))`)
-        .order(sortBy === 'popular' ? 'likes_count' : 'created_at', { ascending: false })
-        .limit(20);
-
-      if (postsError) {
-        console.error('Error loading posts:', postsError);
-        toast.error('Failed to load posts');
-      } else {
-        // Check which posts the user has liked
-        const postsWithLikes = await Promise.all(
-          (postsData || []).map(async (post) => {
-            const { liked, error: likeError } = await hasLikedPost(supabase, post.id, profile.id);
-            
-            if (likeError) {
-              console.error('Error checking like status:', likeError);
-            }
-
-            return {
-              ...post,
-              user_liked: liked
-            };
-          })
-        );
-
-        setPosts(postsWithLikes);
-      }
-    } catch (error) {
-      console.error('Error loading data:', error);
-      toast.error('Failed to load feed');
-    } finally {
-      setLoading(false);
+    // Load user's pets for post creation
+    const { data: petsData, error: petsError } = await supabase
+      .from('pets')
+      .select('*')
+      .eq('owner_id', profile.id)
+      .order('name');
+
+    if (petsError) {
+      console.error('Error loading pets:', petsError);
+    } else {
+      setPets(petsData || []);
     }
   };
 
-  const getFriendIds = async () => {
-    if (!profile) return '';
-    
-    const { data } = await supabase
-      .from('user_follows')
-      .select('following_id')
-      .eq('follower_id', profile.id);
-    
-    return data?.map(f => f.following_id).join(',') || '';
-  };
-
   const handleMediaUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
     
@@ -228,18 +222,26 @@ const Feed: React.FC = () => {
         shares_count: 0
       };
 
-      const { error } = await supabase
+      const { data: created, error } = await supabase
         .from('posts')
-        .insert(newPost);
+        .insert(newPost)
+        .select('id')
+        .single();
 
       if (error) {
         toast.error('Failed to create post');
         console.error('Error creating post:', error);
       } else {
+        // Photo labels become tags in the background; the post is already up
+        if (mediaUrls.length > 0) {
+          autoTagPost(created.id, mediaUrls)
+            .then(labels => addSuggestedTags(supabase, created.id, profile.id, labels))
+            .catch(error => console.error('Error adding suggested tags:', error));
+        }
         toast.success('Post created successfully!');
         setShowCreateModal(false);
         resetCreateForm();
-        loadData();
+        loadPosts();
       }
     } catch (error) {
       console.error('Error creating post:', error);
@@ -398,7 +400,7 @@ const Feed: React.FC = () => {
         console.error('Error deleting post:', error);
       } else {
         toast.success('Post deleted successfully');
-        loadData();
+        loadPosts();
       }
     } catch (error) {
       console.error('Error deleting post:', error);
@@ -582,6 +584,14 @@ const Feed: React.FC = () => {
               })}
             />
           ))
+        ) : sortBy === 'for_you' ? (
+          <div className="text-center py-12">
+            <Sparkles className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-xl font-medium text-gray-900 mb-2">You're all caught up</h3>
+            <p className="text-gray-600">
+              You've seen the recent posts picked for you. Check Recent for everything else.
+            </p>
+          </div>
         ) : (
           <div className="text-center py-12">
             <Camera className="h-16 w-16 text-gray-300 mx-auto mb-4" />
@@ -598,6 +608,15 @@ const Feed: React.FC = () => {
             </button>
           </div>
         )}
+
+        {/* Infinite scroll sentinel */}
+        {nextCursor && (
+          <div ref={loadMoreRef} className="flex justify-center py-6">
+            {loadingMore && (
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Create Post Modal */}
@@ -761,7 +780,7 @@ const Feed: React.FC = () => {
           onClose={() => setEditingPost(null)}
           post={editingPost}
           pets={pets}
-          onUpdate={loadData}
+          onUpdate={() => loadPosts()}
         />
       )}
 
@@ -770,7 +789,7 @@ const Feed: React.FC = () => {
         isOpen={showScheduler}
         onClose={() => setShowScheduler(false)}
         pets={pets}
-        onScheduled={loadData}
+        onScheduled={() => loadPosts()}
       />
 
       {/* Social Share Modal */}
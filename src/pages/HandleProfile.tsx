@@ -0,0 +1,56 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Navigate } from 'react-router-dom';
+import { User } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+
+// Where @mention links land: finds the profile behind a handle and opens it
+const HandleProfile: React.FC = () => {
+  const { handle } = useParams<{ handle: string }>();
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!handle) return;
+
+    const lookupHandle = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('profiles')
+          .select('id')
+          .eq('handle', handle.toLowerCase())
+          .maybeSingle();
+
+        if (error) {
+          console.error('Error looking up handle:', error);
+        }
+        setProfileId(data?.id ?? null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    lookupHandle();
+  }, [handle]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (profileId) {
+    return <Navigate to={`/profile/${profileId}`} replace />;
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8 text-center">
+      <User className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+      <h1 className="text-2xl font-bold text-gray-900 mb-2">No one goes by @{handle}</h1>
+      <p className="text-gray-600">They may have changed their handle.</p>
+    </div>
+  );
+};
+
+export default HandleProfile;
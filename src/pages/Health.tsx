@@ -11,10 +11,15 @@ import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
 import ConfirmDialog from '../components/UI/ConfirmDialog';
 import SymptomAnalyzer from '../components/Health/SymptomAnalyzer';
+import VetClinicList from '../components/Health/VetClinicList';
+import SymptomTimeline from '../components/Health/SymptomTimeline';
 import VaccinationReminders from '../components/Health/VaccinationReminders';
 import HealthInsights from '../components/Health/HealthInsights';
 import AppointmentReminders from '../components/Health/AppointmentReminders';
 import MedicationTracker from '../components/Health/MedicationTracker';
+import HealthExport from '../components/Health/HealthExport';
+import HealthImport from '../components/Health/HealthImport';
+import { describeOutcome } from '../lib/symptoms';
 
 const Health: React.FC = () => {
   const { profile } = useAuth();
@@ -23,12 +28,15 @@ const Health: React.FC = () => {
   const [healthRecords, setHealthRecords] = useState<HealthRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [editingRecord, setEditingRecord] = useState<HealthRecord | null>(null);
   const [deletingRecord, setDeletingRecord] = useState<HealthRecord | null>(null);
   const [selectedPet, setSelectedPet] = useState<string>('');
   const [filterType, setFilterType] = useState<string>('');
   const [searchTerm, setSearchTerm] = useState('');
-  const [activeHealthTab, setActiveHealthTab] = useState<'records' | 'reminders' | 'analyzer'>('records');
+  const [timelinePetId, setTimelinePetId] = useState<string>('');
+  const [activeHealthTab, setActiveHealthTab] = useState<'records' | 'reminders' | 'insights' | 'analyzer' | 'medications'>('records');
 
   // Form state
   const [formData, setFormData] = useState({
@@ -269,6 +277,8 @@ const Health: React.FC = () => {
     return matchesPet && matchesType && matchesSearch;
   });
 
+  const timelinePet = pets.find(p => p.id === (timelinePetId || selectedPet)) || pets[0];
+
   if (loading) {
     return (
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -322,13 +332,33 @@ const Health: React.FC = () => {
           <h1 className="text-3xl font-bold text-gray-900">Health Tracking</h1>
           <p className="text-gray-600 mt-2">Monitor your pets' health records and appointments</p>
         </div>
-        <button
-          onClick={() => setShowAddModal(true)}
-          className="mt-4 sm:mt-0 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
-        >
-          <Plus className="h-4 w-4" />
-          <span>Add Record</span>
-        </button>
+        <div className="mt-4 sm:mt-0 flex items-center space-x-3">
+          {pets.length > 0 && (
+            <>
+              <button
+                onClick={() => setShowImportModal(true)}
+                className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+              >
+                <Upload className="h-4 w-4" />
+                <span>Import</span>
+              </button>
+              <button
+                onClick={() => setShowExportModal(true)}
+                className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+              >
+                <Download className="h-4 w-4" />
+                <span>Export</span>
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => setShowAddModal(true)}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Record</span>
+          </button>
+        </div>
       </div>
 
       {pets.length === 0 ? (
@@ -370,6 +400,16 @@ const Health: React.FC = () => {
             >
               Vaccination Reminders
             </button>
+            <button
+              onClick={() => setActiveHealthTab('insights')}
+              className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                activeHealthTab === 'insights'
+                  ? 'bg-white text-blue-600 shadow-sm'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              Health Insights
+            </button>
             <button
               onClick={() => setActiveHealthTab('analyzer')}
               className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
@@ -380,10 +420,24 @@ const Health: React.FC = () => {
             >
               Symptom Analyzer
             </button>
+            <button
+              onClick={() => setActiveHealthTab('medications')}
+              className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                activeHealthTab === 'medications'
+                  ? 'bg-white text-blue-600 shadow-sm'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              Medications
+            </button>
           </div>
 
           {/* Tab Content */}
           {activeHealthTab === 'reminders' && <VaccinationReminders />}
+
+          {activeHealthTab === 'insights' && <HealthInsights selectedPetId={selectedPet || undefined} />}
+
+          {activeHealthTab === 'medications' && <MedicationTracker />}
           
           {activeHealthTab === 'analyzer' && (
             <div className="space-y-6">
@@ -416,9 +470,7 @@ const Health: React.FC = () => {
                           </div>
                         </div>
                         <SymptomAnalyzer
-                          petId={pet.id}
-                          petName={pet.name}
-                          petSpecies={pet.species}
+                          pet={pet}
                           onAnalysisComplete={loadData}
                         />
                       </div>
@@ -431,6 +483,41 @@ const Health: React.FC = () => {
                   </div>
                 )}
               </div>
+
+              {timelinePet && (
+                <div className="bg-white rounded-lg shadow-md p-6">
+                  <div className="flex items-center justify-between mb-6">
+                    <div>
+                      <h2 className="text-xl font-semibold text-gray-900">Symptom Timeline</h2>
+                      <p className="text-sm text-gray-600">Record what happened after each episode so repeats are easy to spot</p>
+                    </div>
+                    {pets.length > 1 && (
+                      <select
+                        value={timelinePet.id}
+                        onChange={(e) => setTimelinePetId(e.target.value)}
+                        className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {pets.map(pet => (
+                          <option key={pet.id} value={pet.id}>{pet.name}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                  <SymptomTimeline
+                    pet={timelinePet}
+                    records={healthRecords.filter(r => r.pet_id === timelinePet.id)}
+                    onUpdated={loadData}
+                  />
+                </div>
+              )}
+
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <div className="mb-4">
+                  <h2 className="text-xl font-semibold text-gray-900">Vet Clinics</h2>
+                  <p className="text-sm text-gray-600">Shown with a call button whenever the analyzer spots an emergency</p>
+                </div>
+                <VetClinicList />
+              </div>
             </div>
           )}
 
@@ -561,6 +648,13 @@ const Health: React.FC = () => {
                               </p>
                             )}
 
+                            {record.type === 'symptom' && describeOutcome(record) && (
+                              <div className="flex items-center text-sm text-gray-600">
+                                <Check className="h-4 w-4 mr-2" />
+                                <span>{describeOutcome(record)}</span>
+                              </div>
+                            )}
+
                             {record.attachment_url && (
                               <a
                                 href={record.attachment_url}
@@ -606,6 +700,21 @@ const Health: React.FC = () => {
         </>
       )}
 
+      <HealthExport
+        isOpen={showExportModal}
+        onClose={() => setShowExportModal(false)}
+        pets={pets}
+        initialPetId={selectedPet || undefined}
+      />
+
+      <HealthImport
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        onImported={loadData}
+        pets={pets}
+        initialPetId={selectedPet || undefined}
+      />
+
       {/* Add/Edit Health Record Modal */}
       <AnimatePresence>
         {showAddModal && (
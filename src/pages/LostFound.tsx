@@ -1,22 +1,43 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../lib/auth';
-import { supabase, LostFound, uploadFile } from '../lib/supabase';
+import { supabase, LostFound, LostFoundContact, Pet, uploadFile } from '../lib/supabase';
 import { 
-  MapPin, Plus, Search, Filter, Phone, Mail, 
+  MapPin, Plus, Search, Filter, Mail, 
   AlertTriangle, CheckCircle, Clock, Camera,
   X, Check, Edit, Trash2, Heart, Share,
-  Navigation, Eye, EyeOff, DollarSign
+  Navigation, Eye, EyeOff, DollarSign, Printer, Cpu
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
 import ConfirmDialog from '../components/UI/ConfirmDialog';
 import InteractiveMap from '../components/Maps/InteractiveMap';
+import LocationSearch from '../components/Maps/LocationSearch';
+import ReportMatches from '../components/LostFound/ReportMatches';
+import ReportSightings from '../components/LostFound/ReportSightings';
+import SightingForm from '../components/LostFound/SightingForm';
+import SocialShare from '../components/Sharing/SocialShare';
+import MessageReporterButton from '../components/LostFound/MessageReporterButton';
+import { searchLostFound, formatDistance, relayEmailAddress, SEARCH_RADIUS_OPTIONS } from '../lib/lostFound';
+import { BUCKETS } from '../lib/buckets';
+import { geocoder } from '../lib/geocoding';
+import { autoClassify } from '../features/ai/autoTag';
+import {
+  createPosterQrSvg, publicReportUrl, renderLostPetPosterHtml,
+  POSTER_PAGE_SIZES, PosterPageSize
+} from '../lib/lostPetPoster';
 
 
 const LostFoundPage: React.FC = () => {
   const { profile } = useAuth();
-  const [reports, setReports] = useState<LostFound[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [reports, setReports] = useState<Array<LostFound & { distance_miles?: number }>>([]);
   const [loading, setLoading] = useState(true);
+  const [radius, setRadius] = useState(10);
+  const [reportsPage, setReportsPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [matchesVersion, setMatchesVersion] = useState(0);
   const [activeTab, setActiveTab] = useState<'map' | 'list' | 'my-reports'>('map');
   const [statusFilter, setStatusFilter] = useState<'all' | 'lost' | 'found' | 'resolved'>('all');
   const [searchTerm, setSearchTerm] = useState('');
@@ -24,8 +45,14 @@ const LostFoundPage: React.FC = () => {
   const [selectedReport, setSelectedReport] = useState<LostFound | null>(null);
   const [showReportModal, setShowReportModal] = useState(false);
   const [deletingReport, setDeletingReport] = useState<LostFound | null>(null);
+  const [posterSize, setPosterSize] = useState<PosterPageSize>('letter');
+  const [sharingReport, setSharingReport] = useState<LostFound | null>(null);
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
+  // Place name of the area searched for when there is no GPS
+  const [searchArea, setSearchArea] = useState<string | null>(null);
+  const [locationUnavailable, setLocationUnavailable] = useState(false);
   const [selectedLocation, setSelectedLocation] = useState<{ lat: number; lng: number } | null>(null);
+  const [selectedPlace, setSelectedPlace] = useState<string | null>(null);
 
   // Create report form
   const [reportData, setReportData] = useState({
@@ -33,6 +60,7 @@ const LostFoundPage: React.FC = () => {
     pet_name: '',
     species: 'dog' as 'dog' | 'cat' | 'bird' | 'rabbit' | 'hamster' | 'fish' | 'reptile' | 'other',
     breed: '',
+    color: '',
     description: '',
     last_seen_location: '',
     latitude: 0,
@@ -44,14 +72,68 @@ const LostFoundPage: React.FC = () => {
   });
   const [photoFile, setPhotoFile] = useState<File | null>(null);
   const [photoPreview, setPhotoPreview] = useState<string>('');
+  // The registered pet a lost report was started from, via ?pet=
+  const [reportingPet, setReportingPet] = useState<Pet | null>(null);
+  // A report that was created but whose contact details failed to save;
+  // submitting again only retries the contact details
+  const [pendingContacts, setPendingContacts] = useState<{ reportId: string; photoFilename: string | null } | null>(null);
   const [submitting, setSubmitting] = useState(false);
 
   useEffect(() => {
     if (profile) {
-      loadReports();
       getUserLocation();
     }
-  }, [profile, statusFilter]);
+  }, [profile]);
+
+  useEffect(() => {
+    if (profile) {
+      loadReports();
+    }
+  }, [profile, statusFilter, activeTab, radius, userLocation]);
+
+  // Pre-fills a lost report from one of the user's registered pets
+  const startPetReport = useCallback(async (petId: string) => {
+    if (!profile) return;
+
+    const { data: pet, error } = await supabase
+      .from('pets')
+      .select('*')
+      .eq('id', petId)
+      .eq('owner_id', profile.id)
+      .maybeSingle();
+
+    if (error || !pet) {
+      console.error('Error loading pet to report lost:', error);
+      toast.error('Could not find that pet');
+      return;
+    }
+    if (pet.is_lost) {
+      toast('This pet is already reported lost');
+      setActiveTab('my-reports');
+      return;
+    }
+
+    setReportingPet(pet);
+    setReportData(prev => ({
+      ...prev,
+      status: 'lost',
+      pet_name: pet.name,
+      species: pet.species,
+      breed: pet.breed || '',
+      color: pet.color || '',
+      description: pet.distinctive_markings || ''
+    }));
+    setPhotoPreview(pet.photo_url || '');
+    setShowCreateModal(true);
+  }, [profile]);
+
+  useEffect(() => {
+    const petId = searchParams.get('pet');
+    if (profile && petId) {
+      startPetReport(petId);
+      setSearchParams({});
+    }
+  }, [profile, searchParams, setSearchParams, startPetReport]);
 
   const getUserLocation = () => {
     if (navigator.geolocation) {
@@ -64,59 +146,92 @@ const LostFoundPage: React.FC = () => {
         },
         (error) => {
           console.log('Location access denied:', error);
-          // Default to a central location (e.g., San Francisco)
-          setUserLocation({ lat: 37.7749, lng: -122.4194 });
+          // Ask for a town or ZIP instead
+          setLocationUnavailable(true);
         }
       );
     } else {
-      // Default location if geolocation not supported
-      setUserLocation({ lat: 37.7749, lng: -122.4194 });
+      setLocationUnavailable(true);
     }
   };
 
-  const loadReports = async () => {
+  const selectReportLocation = (lat: number, lng: number) => {
+    setSelectedLocation({ lat, lng });
+    setSelectedPlace(null);
+    setReportData(prev => ({ ...prev, latitude: lat, longitude: lng }));
+
+    geocoder.reverseGeocode(lat, lng)
+      .then(place => {
+        setSelectedPlace(place);
+        if (place) {
+          setReportData(prev => prev.last_seen_location.trim() ? prev : { ...prev, last_seen_location: place });
+        }
+      })
+      .catch(error => console.error('Error reverse geocoding location:', error));
+  };
+
+  const loadReports = async (page = 0) => {
     if (!profile) return;
 
     try {
-      let query = supabase
-        .from('lost_found')
-        .select(`
-          *,
-          profiles!lost_found_reporter_id_fkey(display_name, avatar_url)
-        `);
-
-      // Filter by status if not 'all'
-      if (statusFilter !== 'all') {
-        if (statusFilter === 'resolved') {
-          query = query.eq('is_resolved', true);
+      // Own reports are listed wherever they are; everything else is searched by distance
+      if (activeTab === 'my-reports') {
+        let query = supabase
+          .from('lost_found')
+          .select(`
+            *,
+            profiles!lost_found_reporter_id_fkey(display_name, avatar_url)
+          `)
+          .eq('reporter_id', profile.id);
+
+        if (statusFilter !== 'all') {
+          if (statusFilter === 'resolved') {
+            query = query.eq('is_resolved', true);
+          } else {
+            query = query.eq('status', statusFilter).eq('is_resolved', false);
+          }
+        }
+
+        const { data, error } = await query
+          .order('created_at', { ascending: false })
+          .limit(50);
+
+        if (error) {
+          console.error('Error loading reports:', error);
+          toast.error('Failed to load reports');
         } else {
-          query = query.eq('status', statusFilter).eq('is_resolved', false);
+          setReports(data || []);
+          setHasMore(false);
         }
+        return;
       }
 
-      // For 'my-reports' tab, filter by user
-      if (activeTab === 'my-reports') {
-        query = query.eq('reporter_id', profile.id);
-      }
+      if (!userLocation) return;
 
-      const { data, error } = await query
-        .order('created_at', { ascending: false })
-        .limit(50);
+      const result = await searchLostFound({
+        center: userLocation,
+        radiusMiles: radius,
+        status: statusFilter,
+        page
+      });
 
-      if (error) {
-        console.error('Error loading reports:', error);
-        toast.error('Failed to load reports');
-      } else {
-        setReports(data || []);
-      }
+      setReports(prev => page === 0 ? result.reports : [...prev, ...result.reports]);
+      setReportsPage(page);
+      setHasMore(result.hasMore);
     } catch (error) {
       console.error('Error loading reports:', error);
       toast.error('Failed to load reports');
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
   };
 
+  const loadMoreReports = () => {
+    setLoadingMore(true);
+    loadReports(reportsPage + 1);
+  };
+
   const handlePhotoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -149,12 +264,40 @@ const LostFoundPage: React.FC = () => {
     setSubmitting(true);
 
     try {
-      let photoUrl = null;
+      if (pendingContacts) {
+        if (await saveReportContacts(pendingContacts.reportId)) {
+          finishCreateReport(pendingContacts.reportId, pendingContacts.photoFilename);
+        }
+        return;
+      }
+
+      // Without a pin on the map, place the report at the typed location. The
+      // reporter's own position could be miles away, so never fall back to it
+      let lat = selectedLocation?.lat ?? null;
+      let lng = selectedLocation?.lng ?? null;
+      if (lat === null || lng === null) {
+        const place = await geocoder.geocode(reportData.last_seen_location).catch(error => {
+          console.error('Error geocoding last seen location:', error);
+          return null;
+        });
+        lat = place?.latitude ?? null;
+        lng = place?.longitude ?? null;
+      }
+
+      if (lat === null || lng === null) {
+        // The pin map only shows when the reporter's position is known
+        const hint = userLocation ? 'Drop a pin on the map, or add a town or ZIP code.' : 'Add a town or ZIP code.';
+        toast.error(`Couldn't find "${reportData.last_seen_location.trim()}". ${hint}`);
+        return;
+      }
+
+      let photoUrl = reportingPet?.photo_url || null;
+      let photoFilename: string | null = null;
 
       // Upload photo if provided
       if (photoFile) {
-        const filename = `lostfound_${Date.now()}.${photoFile.name.split('.').pop()}`;
-        photoUrl = await uploadFile('lostFoundPhotos', filename, photoFile);
+        photoFilename = `lostfound_${Date.now()}.${photoFile.name.split('.').pop()}`;
+        photoUrl = await uploadFile('lostFoundPhotos', photoFilename, photoFile);
         
         if (!photoUrl) {
           toast.error('Failed to upload photo');
@@ -163,41 +306,39 @@ const LostFoundPage: React.FC = () => {
         }
       }
 
-      // Use user's current location if coordinates not set
-      const lat = reportData.latitude || userLocation?.lat || 37.7749;
-      const lng = reportData.longitude || userLocation?.lng || -122.4194;
-
       const newReport = {
         reporter_id: profile.id,
+        // Linking the pet flags it as lost until the report is resolved
+        pet_id: reportData.status === 'lost' ? reportingPet?.id ?? null : null,
         status: reportData.status,
         pet_name: reportData.pet_name.trim(),
         species: reportData.species,
         breed: reportData.breed.trim() || null,
+        color: reportData.color.trim() || null,
         description: reportData.description.trim(),
         photo_url: photoUrl,
         last_seen_location: reportData.last_seen_location.trim(),
         latitude: lat,
         longitude: lng,
-        contact_phone: reportData.contact_phone.trim() || null,
-        contact_email: reportData.contact_email.trim() || null,
         reward_offered: reportData.reward_offered,
         reward_amount: reportData.reward_offered && reportData.reward_amount ? 
           parseFloat(reportData.reward_amount) : null,
         is_resolved: false
       };
 
-      const { error } = await supabase
+      const { data: created, error } = await supabase
         .from('lost_found')
-        .insert(newReport);
+        .insert(newReport)
+        .select('id')
+        .single();
 
       if (error) {
         toast.error('Failed to create report');
         console.error('Error creating report:', error);
+      } else if (await saveReportContacts(created.id)) {
+        finishCreateReport(created.id, photoFilename);
       } else {
-        toast.success(`${reportData.status === 'lost' ? 'Lost' : 'Found'} pet report created successfully!`);
-        setShowCreateModal(false);
-        resetCreateForm();
-        loadReports();
+        setPendingContacts({ reportId: created.id, photoFilename });
       }
     } catch (error) {
       console.error('Error creating report:', error);
@@ -207,12 +348,75 @@ const LostFoundPage: React.FC = () => {
     }
   };
 
+  // Kept apart from the report so only the reporter can read them
+  const saveReportContacts = async (reportId: string): Promise<boolean> => {
+    const { error } = await supabase
+      .from('lost_found_contacts')
+      .upsert({
+        report_id: reportId,
+        contact_phone: reportData.contact_phone.trim() || null,
+        contact_email: reportData.contact_email.trim() || null
+      });
+
+    if (error) {
+      console.error('Error saving report contact details:', error);
+      toast.error('Your report was posted, but your contact details were not saved. Please try again.');
+      return false;
+    }
+    return true;
+  };
+
+  const finishCreateReport = (reportId: string, photoFilename: string | null) => {
+    toast.success(`${reportData.status === 'lost' ? 'Lost' : 'Found'} pet report created successfully!`);
+    if (reportData.status === 'lost') {
+      broadcastLostReport(reportId);
+    }
+    findMatches(reportId, photoFilename);
+    setShowCreateModal(false);
+    resetCreateForm();
+    loadReports();
+  };
+
+  // Alert neighbors in the background; the report is saved either way
+  const broadcastLostReport = async (reportId: string) => {
+    const { data, error } = await supabase.functions.invoke('lost-pet-broadcast', {
+      body: { report_id: reportId }
+    });
+
+    if (error) {
+      console.error('Error broadcasting lost pet alert:', error);
+    } else if (data?.alerted > 0) {
+      toast.success(`Alert sent to ${data.alerted} ${data.alerted === 1 ? 'neighbor' : 'neighbors'} nearby`);
+    }
+  };
+
+  // Photo labels feed the match score, so classify before matching
+  const findMatches = async (reportId: string, photoFilename: string | null) => {
+    if (!profile) return;
+
+    if (photoFilename) {
+      await autoClassify(profile.id, BUCKETS.lostFoundPhotos, `${profile.id}/${photoFilename}`);
+    }
+
+    const { data, error } = await supabase.functions.invoke('lost-found-match', {
+      body: { report_id: reportId }
+    });
+
+    if (error) {
+      console.error('Error matching report:', error);
+    } else if (data?.matches?.length > 0) {
+      toast.success('We found a possible match! Check My Reports.');
+      setMatchesVersion(v => v + 1);
+    }
+  };
+
   const resetCreateForm = () => {
     setReportData({
       status: 'lost',
       pet_name: '',
       species: 'dog',
       breed: '',
+      color: '',
       description: '',
       last_seen_location: '',
       latitude: 0,
@@ -224,6 +428,10 @@ const LostFoundPage: React.FC = () => {
     });
     setPhotoFile(null);
     setPhotoPreview('');
+    setReportingPet(null);
+    setPendingContacts(null);
+    setSelectedLocation(null);
+    setSelectedPlace(null);
   };
 
   const handleMarkResolved = async (report: LostFound) => {
@@ -249,6 +457,43 @@ const LostFoundPage: React.FC = () => {
     }
   };
 
+  const handlePrintPoster = async (report: LostFound) => {
+    // Open the window before any await so popup blockers treat it as user initiated
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      toast.error('Allow pop-ups to print the poster');
+      return;
+    }
+
+    try {
+      const reportUrl = publicReportUrl(report.id);
+      const [qrSvg, { data: contact }] = await Promise.all([
+        createPosterQrSvg(reportUrl),
+        supabase
+          .from('lost_found_contacts')
+          .select('*')
+          .eq('report_id', report.id)
+          .maybeSingle<LostFoundContact>()
+      ]);
+
+      // Posters are public, so prefer the masked address to the real one
+      printWindow.document.write(renderLostPetPosterHtml(report, {
+        pageSize: posterSize,
+        reportUrl,
+        qrSvg,
+        contact: {
+          phone: contact?.contact_phone,
+          email: relayEmailAddress(report.relay_alias) ?? contact?.contact_email
+        }
+      }));
+      printWindow.document.close();
+    } catch (error) {
+      printWindow.close();
+      console.error('Error creating poster:', error);
+      toast.error('Failed to create poster');
+    }
+  };
+
   const handleDeleteReport = async () => {
     if (!deletingReport) return;
 
@@ -349,13 +594,22 @@ const LostFoundPage: React.FC = () => {
           <h1 className="text-3xl font-bold text-gray-900">Lost & Found</h1>
           <p className="text-gray-600 mt-2">Help reunite pets with their families</p>
         </div>
-        <button
-          onClick={() => setShowCreateModal(true)}
-          className="mt-4 sm:mt-0 bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors flex items-center space-x-2"
-        >
-          <Plus className="h-4 w-4" />
-          <span>Report Pet</span>
-        </button>
+        <div className="mt-4 sm:mt-0 flex items-center space-x-3">
+          <Link
+            to="/chip"
+            className="text-gray-700 bg-gray-100 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors flex items-center space-x-2"
+          >
+            <Cpu className="h-4 w-4" />
+            <span>Look Up Microchip</span>
+          </Link>
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors flex items-center space-x-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Report Pet</span>
+          </button>
+        </div>
       </div>
 
       {/* Tabs and Filters */}
@@ -406,6 +660,19 @@ const LostFoundPage: React.FC = () => {
             <option value="resolved">Resolved</option>
           </select>
 
+          {/* Radius */}
+          {activeTab !== 'my-reports' && (
+            <select
+              value={radius}
+              onChange={(e) => setRadius(Number(e.target.value))}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {SEARCH_RADIUS_OPTIONS.map(miles => (
+                <option key={miles} value={miles}>Within {miles} mi</option>
+              ))}
+            </select>
+          )}
+
           {/* Search */}
           <div className="relative">
             <Search className="h-4 w-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
@@ -420,6 +687,29 @@ const LostFoundPage: React.FC = () => {
         </div>
       </div>
 
+      {/* Area search when location access is off */}
+      {activeTab !== 'my-reports' && locationUnavailable && (
+        <div className="bg-white rounded-lg shadow-md p-4 mb-6">
+          <p className="text-sm text-gray-600 mb-3">
+            {searchArea
+              ? `Showing reports near ${searchArea}`
+              : 'Location access is off. Search for your area to see reports near you.'}
+          </p>
+          <LocationSearch
+            onSelect={(place) => {
+              setUserLocation({ lat: place.latitude, lng: place.longitude });
+              setSearchArea(place.label);
+            }}
+            className="max-w-md"
+          />
+        </div>
+      )}
+
+      {/* Possible matches for the user's open reports */}
+      {activeTab === 'my-reports' && (
+        <ReportMatches key={matchesVersion} onResolved={() => loadReports()} />
+      )}
+
       {/* Map View */}
       {activeTab === 'map' && userLocation && (
         <div className="mb-8">
@@ -438,136 +728,148 @@ const LostFoundPage: React.FC = () => {
             height="400px"
           />
           <p className="text-sm text-gray-600 mt-2 text-center">
-            Showing {filteredReports.length} report{filteredReports.length !== 1 ? 's' : ''} in your area
+            Showing {filteredReports.length} report{filteredReports.length !== 1 ? 's' : ''} within {radius} mi
           </p>
         </div>
       )}
 
       {/* Reports Grid/List */}
       {filteredReports.length > 0 ? (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredReports.map((report, index) => {
-            const StatusIcon = getStatusIcon(report.status, report.is_resolved);
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {filteredReports.map((report, index) => {
+              const StatusIcon = getStatusIcon(report.status, report.is_resolved);
             
-            return (
-              <motion.div
-                key={report.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.1 }}
-                className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow"
-              >
-                {/* Report Header */}
-                <div className="relative">
-                  {report.photo_url ? (
-                    <img
-                      src={report.photo_url}
-                      alt={report.pet_name}
-                      className="w-full h-48 object-cover"
-                    />
-                  ) : (
-                    <div className="w-full h-48 bg-gradient-to-br from-gray-100 to-gray-200 flex items-center justify-center">
-                      <Camera className="h-12 w-12 text-gray-400" />
-                    </div>
-                  )}
+              return (
+                <motion.div
+                  key={report.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.1 }}
+                  className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow"
+                >
+                  {/* Report Header */}
+                  <div className="relative">
+                    {report.photo_url ? (
+                      <img
+                        src={report.photo_url}
+                        alt={report.pet_name}
+                        className="w-full h-48 object-cover"
+                      />
+                    ) : (
+                      <div className="w-full h-48 bg-gradient-to-br from-gray-100 to-gray-200 flex items-center justify-center">
+                        <Camera className="h-12 w-12 text-gray-400" />
+                      </div>
+                    )}
                   
-                  {/* Status Badge */}
-                  <div className="absolute top-2 left-2">
-                    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                      getStatusColor(report.status, report.is_resolved)
-                    }`}>
-                      <StatusIcon className="h-3 w-3 mr-1" />
-                      {report.is_resolved ? 'Resolved' : report.status.toUpperCase()}
-                    </span>
-                  </div>
-
-                  {/* Reward Badge */}
-                  {report.reward_offered && !report.is_resolved && (
-                    <div className="absolute top-2 right-2">
-                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
-                        <DollarSign className="h-3 w-3 mr-1" />
-                        Reward
+                    {/* Status Badge */}
+                    <div className="absolute top-2 left-2">
+                      <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                        getStatusColor(report.status, report.is_resolved)
+                      }`}>
+                        <StatusIcon className="h-3 w-3 mr-1" />
+                        {report.is_resolved ? 'Resolved' : report.status.toUpperCase()}
                       </span>
                     </div>
-                  )}
 
-                  {/* Actions for own reports */}
-                  {report.reporter_id === profile?.id && (
-                    <div className="absolute bottom-2 right-2 flex space-x-1">
-                      {!report.is_resolved && (
+                    {/* Reward Badge */}
+                    {report.reward_offered && !report.is_resolved && (
+                      <div className="absolute top-2 right-2">
+                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                          <DollarSign className="h-3 w-3 mr-1" />
+                          Reward
+                        </span>
+                      </div>
+                    )}
+
+                    {/* Actions for own reports */}
+                    {report.reporter_id === profile?.id && (
+                      <div className="absolute bottom-2 right-2 flex space-x-1">
+                        {!report.is_resolved && (
+                          <button
+                            onClick={() => handleMarkResolved(report)}
+                            className="p-2 bg-green-600 text-white rounded-full hover:bg-green-700 transition-colors"
+                            title="Mark as resolved"
+                          >
+                            <CheckCircle className="h-3 w-3" />
+                          </button>
+                        )}
                         <button
-                          onClick={() => handleMarkResolved(report)}
-                          className="p-2 bg-green-600 text-white rounded-full hover:bg-green-700 transition-colors"
-                          title="Mark as resolved"
+                          onClick={() => setDeletingReport(report)}
+                          className="p-2 bg-red-600 text-white rounded-full hover:bg-red-700 transition-colors"
+                          title="Delete report"
                         >
-                          <CheckCircle className="h-3 w-3" />
+                          <Trash2 className="h-3 w-3" />
                         </button>
-                      )}
-                      <button
-                        onClick={() => setDeletingReport(report)}
-                        className="p-2 bg-red-600 text-white rounded-full hover:bg-red-700 transition-colors"
-                        title="Delete report"
-                      >
-                        <Trash2 className="h-3 w-3" />
-                      </button>
-                    </div>
-                  )}
-                </div>
-
-                {/* Report Content */}
-                <div className="p-4">
-                  <div className="flex items-center justify-between mb-2">
-                    <h3 className="text-lg font-semibold text-gray-900">{report.pet_name}</h3>
-                    <span className="text-sm text-gray-500">{formatTimeAgo(report.created_at)}</span>
-                  </div>
-
-                  <div className="flex items-center space-x-2 text-sm text-gray-600 mb-2">
-                    <span className="capitalize">{report.species}</span>
-                    {report.breed && (
-                      <>
-                        <span>•</span>
-                        <span>{report.breed}</span>
-                      </>
+                      </div>
                     )}
                   </div>
 
-                  <div className="flex items-center space-x-1 text-sm text-gray-600 mb-3">
-                    <MapPin className="h-4 w-4" />
-                    <span className="truncate">{report.last_seen_location}</span>
-                  </div>
+                  {/* Report Content */}
+                  <div className="p-4">
+                    <div className="flex items-center justify-between mb-2">
+                      <h3 className="text-lg font-semibold text-gray-900">{report.pet_name}</h3>
+                      <span className="text-sm text-gray-500">{formatTimeAgo(report.created_at)}</span>
+                    </div>
 
-                  <p className="text-gray-700 text-sm mb-4 line-clamp-2">{report.description}</p>
+                    <div className="flex items-center space-x-2 text-sm text-gray-600 mb-2">
+                      <span className="capitalize">{report.species}</span>
+                      {report.breed && (
+                        <>
+                          <span>•</span>
+                          <span>{report.breed}</span>
+                        </>
+                      )}
+                    </div>
 
-                  {report.reward_offered && report.reward_amount && (
-                    <div className="flex items-center space-x-1 text-sm text-yellow-700 mb-3">
-                      <DollarSign className="h-4 w-4" />
-                      <span className="font-medium">${report.reward_amount} reward offered</span>
+                    <div className="flex items-center space-x-1 text-sm text-gray-600 mb-3">
+                      <MapPin className="h-4 w-4" />
+                      <span className="truncate">{report.last_seen_location}</span>
+                      {report.distance_miles != null && (
+                        <span className="flex-shrink-0 text-gray-500">· {formatDistance(report.distance_miles)}</span>
+                      )}
                     </div>
-                  )}
 
-                  {/* Action Buttons */}
-                  <div className="flex space-x-2">
-                    <button
-                      onClick={() => openReportModal(report)}
-                      className="flex-1 bg-blue-600 text-white px-3 py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
-                    >
-                      View Details
-                    </button>
-                    
-                    {(report.contact_phone || report.contact_email) && report.reporter_id !== profile?.id && (
+                    <p className="text-gray-700 text-sm mb-4 line-clamp-2">{report.description}</p>
+
+                    {report.reward_offered && report.reward_amount && (
+                      <div className="flex items-center space-x-1 text-sm text-yellow-700 mb-3">
+                        <DollarSign className="h-4 w-4" />
+                        <span className="font-medium">${report.reward_amount} reward offered</span>
+                      </div>
+                    )}
+
+                    {/* Action Buttons */}
+                    <div className="flex space-x-2">
                       <button
                         onClick={() => openReportModal(report)}
-                        className="px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm font-medium"
+                        className="flex-1 bg-blue-600 text-white px-3 py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
                       >
-                        Contact
+                        View Details
                       </button>
-                    )}
+                    
+                      {report.reporter_id !== profile?.id && !report.is_resolved && (
+                        <MessageReporterButton reportId={report.id} />
+                      )}
+                    </div>
                   </div>
-                </div>
-              </motion.div>
-            );
-          })}
-        </div>
+                </motion.div>
+              );
+            })}
+          </div>
+
+          {hasMore && (
+            <div className="text-center mt-8">
+              <button
+                onClick={loadMoreReports}
+                disabled={loadingMore}
+                className="px-6 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+              >
+                {loadingMore ? 'Loading...' : 'Load More'}
+              </button>
+            </div>
+          )}
+        </>
       ) : (
         <div className="text-center py-12">
           <AlertTriangle className="h-16 w-16 text-gray-300 mx-auto mb-4" />
@@ -635,6 +937,12 @@ const LostFoundPage: React.FC = () => {
 
                 {/* Form */}
                 <form onSubmit={handleCreateReport} className="p-6 space-y-4">
+                  {reportingPet && reportData.status === 'lost' && (
+                    <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+                      {reportingPet.name} will be marked as lost on your profile until this report is resolved.
+                    </div>
+                  )}
+
                   {/* Status Selection */}
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -734,17 +1042,32 @@ const LostFoundPage: React.FC = () => {
                     </div>
                   </div>
 
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Breed
-                    </label>
-                    <input
-                      type="text"
-                      value={reportData.breed}
-                      onChange={(e) => setReportData(prev => ({ ...prev, breed: e.target.value }))}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                      placeholder="Enter breed (optional)"
-                    />
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Breed
+                      </label>
+                      <input
+                        type="text"
+                        value={reportData.breed}
+                        onChange={(e) => setReportData(prev => ({ ...prev, breed: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        placeholder="Enter breed (optional)"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Color
+                      </label>
+                      <input
+                        type="text"
+                        value={reportData.color}
+                        onChange={(e) => setReportData(prev => ({ ...prev, color: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        placeholder="e.g. black and white"
+                      />
+                    </div>
                   </div>
 
                   {/* Description */}
@@ -783,19 +1106,12 @@ const LostFoundPage: React.FC = () => {
                           <InteractiveMap
                             center={selectedLocation || userLocation}
                             zoom={15}
-                            onLocationSelect={(lat, lng) => {
-                              setSelectedLocation({ lat, lng });
-                              setReportData(prev => ({ 
-                                ...prev, 
-                                latitude: lat, 
-                                longitude: lng 
-                              }));
-                            }}
+                            onLocationSelect={selectReportLocation}
                             height="200px"
                           />
                           {selectedLocation && (
                             <p className="text-xs text-gray-500 mt-1">
-                              Selected: {selectedLocation.lat.toFixed(4)}, {selectedLocation.lng.toFixed(4)}
+                              Selected: {selectedPlace ?? `${selectedLocation.lat.toFixed(4)}, ${selectedLocation.lng.toFixed(4)}`}
                             </p>
                           )}
                         </div>
@@ -830,6 +1146,9 @@ const LostFoundPage: React.FC = () => {
                         />
                       </div>
                     </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Hidden from other users. People message you through PawPilot HQ, and you decide who sees these.
+                    </p>
                   </div>
 
                   {/* Reward Information */}
@@ -861,6 +1180,12 @@ const LostFoundPage: React.FC = () => {
                     </div>
                   )}
 
+                  {pendingContacts && (
+                    <p className="text-sm text-red-700 bg-red-50 rounded-lg p-3">
+                      Your report is posted, but nobody can reach you until your contact details are saved.
+                    </p>
+                  )}
+
                   {/* Actions */}
                   <div className="flex space-x-3 pt-4">
                     <button
@@ -886,7 +1211,7 @@ const LostFoundPage: React.FC = () => {
                       ) : (
                         <>
                           <Check className="h-4 w-4" />
-                          <span>Create Report</span>
+                          <span>{pendingContacts ? 'Save Contact Details' : 'Create Report'}</span>
                         </>
                       )}
                     </button>
@@ -940,6 +1265,14 @@ const LostFoundPage: React.FC = () => {
                     <X className="h-4 w-4" />
                   </button>
 
+                  <button
+                    onClick={() => setSharingReport(selectedReport)}
+                    className="absolute top-4 right-16 bg-black/50 text-white p-2 rounded-full hover:bg-black/70 transition-colors"
+                    title="Share public link"
+                  >
+                    <Share className="h-4 w-4" />
+                  </button>
+
                   {/* Status Badge */}
                   <div className="absolute top-4 left-4">
                     <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${
@@ -962,6 +1295,12 @@ const LostFoundPage: React.FC = () => {
                           <span>{selectedReport.breed}</span>
                         </>
                       )}
+                      {selectedReport.color && (
+                        <>
+                          <span>•</span>
+                          <span className="capitalize">{selectedReport.color}</span>
+                        </>
+                      )}
                       <span>•</span>
                       <span>Reported {formatTimeAgo(selectedReport.created_at)}</span>
                     </div>
@@ -999,27 +1338,27 @@ const LostFoundPage: React.FC = () => {
                   )}
 
                   {/* Contact Information */}
-                  {(selectedReport.contact_phone || selectedReport.contact_email) && 
-                   selectedReport.reporter_id !== profile?.id && (
+                  {selectedReport.reporter_id !== profile?.id && !selectedReport.is_resolved && (
                     <div className="mb-6">
-                      <h3 className="font-semibold text-gray-900 mb-3">Contact Information</h3>
-                      <div className="space-y-2">
-                        {selectedReport.contact_phone && (
-                          <a
-                            href={`tel:${selectedReport.contact_phone}`}
-                            className="flex items-center space-x-2 text-blue-600 hover:text-blue-700"
-                          >
-                            <Phone className="h-4 w-4" />
-                            <span>{selectedReport.contact_phone}</span>
-                          </a>
-                        )}
-                        {selectedReport.contact_email && (
+                      <h3 className="font-semibold text-gray-900 mb-2">
+                        Contact the {selectedReport.status === 'lost' ? 'Owner' : 'Finder'}
+                      </h3>
+                      <p className="text-sm text-gray-600 mb-3">
+                        Contact details stay private until the reporter chooses to share them.
+                      </p>
+                      <div className="flex flex-wrap items-center gap-3">
+                        <MessageReporterButton
+                          reportId={selectedReport.id}
+                          label="Send a Message"
+                          className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium"
+                        />
+                        {relayEmailAddress(selectedReport.relay_alias) && (
                           <a
-                            href={`mailto:${selectedReport.contact_email}`}
+                            href={`mailto:${relayEmailAddress(selectedReport.relay_alias)}`}
                             className="flex items-center space-x-2 text-blue-600 hover:text-blue-700"
                           >
                             <Mail className="h-4 w-4" />
-                            <span>{selectedReport.contact_email}</span>
+                            <span>{relayEmailAddress(selectedReport.relay_alias)}</span>
                           </a>
                         )}
                       </div>
@@ -1044,6 +1383,49 @@ const LostFoundPage: React.FC = () => {
                     />
                   </div>
 
+                  {/* Sightings */}
+                  {selectedReport.reporter_id === profile?.id && selectedReport.status === 'lost' && (
+                    <ReportSightings report={selectedReport} />
+                  )}
+                  {selectedReport.reporter_id !== profile?.id && selectedReport.status === 'lost' && !selectedReport.is_resolved && (
+                    <div className="mb-6">
+                      <h3 className="font-semibold text-gray-900 mb-3">Seen {selectedReport.pet_name}?</h3>
+                      <SightingForm
+                        key={selectedReport.id}
+                        report={selectedReport}
+                        center={{ lat: selectedReport.latitude, lng: selectedReport.longitude }}
+                      />
+                    </div>
+                  )}
+
+                  {/* Poster */}
+                  {selectedReport.reporter_id === profile?.id && !selectedReport.is_resolved && (
+                    <div className="bg-gray-50 rounded-lg p-4 mb-6">
+                      <h3 className="font-semibold text-gray-900 mb-1">Print a Poster</h3>
+                      <p className="text-sm text-gray-600 mb-3">
+                        A flyer with the photo, map and your contact details. Its QR code opens a public page for this report.
+                      </p>
+                      <div className="flex space-x-3">
+                        <select
+                          value={posterSize}
+                          onChange={(e) => setPosterSize(e.target.value as PosterPageSize)}
+                          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          {Object.entries(POSTER_PAGE_SIZES).map(([value, size]) => (
+                            <option key={value} value={value}>{size.label}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => handlePrintPoster(selectedReport)}
+                          className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium flex items-center justify-center space-x-2"
+                        >
+                          <Printer className="h-4 w-4" />
+                          <span>Print Poster</span>
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
                   {/* Actions */}
                   {selectedReport.reporter_id === profile?.id && !selectedReport.is_resolved && (
                     <div className="flex space-x-3">
@@ -1065,6 +1447,20 @@ const LostFoundPage: React.FC = () => {
         )}
       </AnimatePresence>
 
+      {/* Share Public Link */}
+      {sharingReport && (
+        <SocialShare
+          isOpen={!!sharingReport}
+          onClose={() => setSharingReport(null)}
+          content={{
+            title: `${sharingReport.status === 'found' ? 'Found' : 'Lost'} ${sharingReport.species}: ${sharingReport.pet_name}`,
+            description: `Last seen near ${sharingReport.last_seen_location}. ${sharingReport.description}`,
+            url: publicReportUrl(sharingReport.id),
+            imageUrl: sharingReport.photo_url
+          }}
+        />
+      )}
+
       {/* Delete Report Confirmation */}
       <ConfirmDialog
         isOpen={!!deletingReport}
@@ -1,16 +1,18 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '../lib/auth';
-import { supabase } from '../lib/supabase';
+import { supabase, LostFound } from '../lib/supabase';
+import { relayRoleLabels, revealRelayContact } from '../lib/lostFound';
 import {
   MessageCircle, Plus, Search, Phone, Video, MoreHorizontal,
-  Send, Paperclip, Smile, User, Users, Image
+  Send, Paperclip, Smile, User, Users, Image, PawPrint, Flag, Share2
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
 import TypingIndicator from '../components/UI/TypingIndicator';
 import MessageReactions from '../components/Messages/MessageReactions';
 import MessageAttachments from '../components/Messages/MessageAttachments';
+import ReportModal from '../components/Moderation/ReportModal';
 import { useTypingIndicator } from '../hooks/useTypingIndicator';
 
 type Thread = {
@@ -21,8 +23,14 @@ type Thread = {
   created_by: string;
   created_at: string | null;
   updated_at: string | null;
+  /** `lost_found_relay` threads are about a report; both sides stay anonymous. */
+  kind: 'chat' | 'lost_found_relay';
+  lost_found_id: string | null;
+  contact_revealed_at: string | null;
 };
 
+const THREAD_COLUMNS = 'id,is_group,group_id,created_by,created_at,updated_at,name,kind,lost_found_id,contact_revealed_at';
+
 type Message = {
   id: string;
   thread_id: string;
@@ -61,6 +69,9 @@ const Messages: React.FC = () => {
   const [messageText, setMessageText] = useState('');
   const [sendingMessage, setSendingMessage] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
+  const [relayReport, setRelayReport] = useState<Pick<LostFound, 'id' | 'status' | 'pet_name' | 'reporter_id'> | null>(null);
+  const [revealingContact, setRevealingContact] = useState(false);
+  const [showReportModal, setShowReportModal] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Typing indicator scoped to the current thread
@@ -88,7 +99,7 @@ const Messages: React.FC = () => {
       await requireSession();
       const { data, error } = await supabase
         .from('threads')
-        .select('id,is_group,group_id,created_by,created_at,updated_at,name')
+        .select(THREAD_COLUMNS)
         .order('updated_at', { ascending: false, nullsFirst: false })
         .limit(200);
 
@@ -144,6 +155,12 @@ const Messages: React.FC = () => {
 
       const rows = (data || []) as Message[];
 
+      // Relay threads are anonymous, so never look up who the sender is
+      if (selectedThread?.kind === 'lost_found_relay') {
+        setMessages(rows);
+        return;
+      }
+
       // Fetch sender profiles (minimal) — safe N+1
       const withProfiles = await Promise.all(rows.map(async (m) => {
         const { data: p } = await supabase
@@ -223,11 +240,12 @@ const Messages: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [profile]);
 
-  // Ensure + select a thread from URL (?group / ?partner) immediately
+  // Ensure + select a thread from URL (?group / ?partner / ?thread) immediately
   useEffect(() => {
     if (!profile) return;
     const groupId = searchParams.get('group');
     const partnerId = searchParams.get('partner');
+    const threadId = searchParams.get('thread');
 
     let cancelled = false;
 
@@ -239,13 +257,16 @@ const Messages: React.FC = () => {
           tId = await ensureGroupThread(groupId);
         } else if (partnerId) {
           tId = await ensureDirectThread(partnerId);
+        } else if (threadId) {
+          // Already created elsewhere, e.g. a lost & found relay
+          tId = threadId;
         }
 
         if (tId) {
           // fetch the exact thread and select it (no race with list refresh)
           const { data: t, error } = await supabase
             .from('threads')
-            .select('id,is_group,group_id,created_by,created_at,updated_at,name')
+            .select(THREAD_COLUMNS)
             .eq('id', tId)
             .single();
           if (error) throw error;
@@ -283,18 +304,62 @@ const Messages: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedThread?.id]);
 
+  // Relay threads need the report to label each side
+  useEffect(() => {
+    setRelayReport(null);
+    if (selectedThread?.kind !== 'lost_found_relay' || !selectedThread.lost_found_id) return;
+
+    supabase
+      .from('lost_found')
+      .select('id,status,pet_name,reporter_id')
+      .eq('id', selectedThread.lost_found_id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) console.error('Error loading relay report:', error);
+        setRelayReport(data);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedThread?.id]);
+
+  const handleRevealContact = async () => {
+    if (!selectedThread) return;
+
+    setRevealingContact(true);
+    try {
+      await revealRelayContact(selectedThread.id);
+      setSelectedThread({ ...selectedThread, contact_revealed_at: new Date().toISOString() });
+      await loadMessages(selectedThread.id);
+    } catch (err) {
+      console.error('Error sharing contact details:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to share contact details');
+    } finally {
+      setRevealingContact(false);
+    }
+  };
+
   // Scroll on new messages
   useEffect(() => {
     scrollToBottom();
   }, [messages]);
 
   // Thread list helpers
-  const getThreadName = (thread: Thread) => thread.is_group ? (thread.name || 'Group Chat') : 'Direct Chat';
+  const getThreadName = (thread: Thread) =>
+    thread.kind === 'lost_found_relay' ? (thread.name || 'Lost & Found')
+      : thread.is_group ? (thread.name || 'Group Chat') : 'Direct Chat';
   const getThreadAvatar = (thread: Thread) => (thread.is_group ? null : null);
   const filteredThreads = threads.filter(t =>
     getThreadName(t).toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  // Relay threads show roles instead of profiles
+  const isRelayThread = selectedThread?.kind === 'lost_found_relay';
+  const relayLabels = relayReport ? relayRoleLabels(relayReport.status) : null;
+  const isRelayReporter = !!relayReport && relayReport.reporter_id === profile?.id;
+  const getSenderName = (message: Message) => {
+    if (!isRelayThread) return message.sender_profile?.display_name;
+    return message.sender_id === selectedThread?.created_by ? relayLabels?.contact : relayLabels?.reporter;
+  };
+
   if (loading) {
     return (
       <div className="h-screen flex">
@@ -371,7 +436,9 @@ const Messages: React.FC = () => {
                         />
                       ) : (
                         <div className="w-10 h-10 bg-gray-300 rounded-full flex items-center justify-center">
-                          {thread.is_group ? (
+                          {thread.kind === 'lost_found_relay' ? (
+                            <PawPrint className="h-5 w-5 text-gray-600" />
+                          ) : thread.is_group ? (
                             <Users className="h-5 w-5 text-gray-600" />
                           ) : (
                             <User className="h-5 w-5 text-gray-600" />
@@ -414,7 +481,9 @@ const Messages: React.FC = () => {
               <div className="flex items-center space-x-3">
                 <div className="relative">
                   <div className="w-10 h-10 bg-gray-300 rounded-full flex items-center justify-center">
-                    {selectedThread.is_group ? (
+                    {isRelayThread ? (
+                      <PawPrint className="h-5 w-5 text-gray-600" />
+                    ) : selectedThread.is_group ? (
                       <Users className="h-5 w-5 text-gray-600" />
                     ) : (
                       <User className="h-5 w-5 text-gray-600" />
@@ -425,10 +494,34 @@ const Messages: React.FC = () => {
                   <h2 className="font-semibold text-gray-900">
                     {getThreadName(selectedThread)}
                   </h2>
+                  {isRelayThread && relayLabels && (
+                    <p className="text-xs text-gray-500">
+                      Chatting anonymously with the {(isRelayReporter ? relayLabels.contact : relayLabels.reporter).toLowerCase()}
+                    </p>
+                  )}
                 </div>
               </div>
 
               <div className="flex items-center space-x-2">
+                {isRelayThread && isRelayReporter && !selectedThread.contact_revealed_at && (
+                  <button
+                    onClick={handleRevealContact}
+                    disabled={revealingContact}
+                    className="px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors flex items-center space-x-1"
+                  >
+                    <Share2 className="h-4 w-4" />
+                    <span>Share My Contact Details</span>
+                  </button>
+                )}
+                {isRelayThread && relayReport && (
+                  <button
+                    onClick={() => setShowReportModal(true)}
+                    className="p-2 text-gray-600 hover:bg-gray-100 hover:text-red-600 rounded-full transition-colors"
+                    title="Report this conversation"
+                  >
+                    <Flag className="h-5 w-5" />
+                  </button>
+                )}
                 <button className="p-2 text-gray-600 hover:bg-gray-100 rounded-full transition-colors">
                   <Phone className="h-5 w-5" />
                 </button>
@@ -441,6 +534,12 @@ const Messages: React.FC = () => {
               </div>
             </div>
 
+            {isRelayThread && (
+              <div className="px-4 py-2 bg-yellow-50 border-b border-yellow-200 text-xs text-yellow-800">
+                Never send money, gift cards or verification codes. Ask for a photo or video before meeting, and meet somewhere public.
+              </div>
+            )}
+
             {/* Messages Area */}
             <div className="flex-1 overflow-y-auto p-4 space-y-4">
               {loadingMessages ? (
@@ -480,7 +579,7 @@ const Messages: React.FC = () => {
                           <div className={`flex flex-col ${isOwnMessage ? 'items-end' : 'items-start'}`}>
                             {showAvatar && !isOwnMessage && (
                               <span className="text-xs text-gray-500 mb-1">
-                                {message.sender_profile?.display_name}
+                                {getSenderName(message)}
                               </span>
                             )}
 
@@ -584,6 +683,17 @@ const Messages: React.FC = () => {
           </div>
         )}
       </main>
+
+      {selectedThread && isRelayThread && relayReport && (
+        <ReportModal
+          isOpen={showReportModal}
+          onClose={() => setShowReportModal(false)}
+          contentType="lost_found_relay"
+          contentId={selectedThread.id}
+          reportedUserId={isRelayReporter ? selectedThread.created_by : relayReport.reporter_id}
+          contentTitle={getThreadName(selectedThread)}
+        />
+      )}
     </div>
   );
 };
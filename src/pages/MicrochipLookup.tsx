@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../lib/auth';
+import { lookupMicrochip, MicrochipMatch, MIN_LOOKUP_CODE_LENGTH, normalizeLookupCode } from '../lib/microchip';
+import { AlertTriangle, Cpu, Loader, Search } from 'lucide-react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import RelayMessageForm from '../components/LostFound/RelayMessageForm';
+
+// For anyone who has found a pet with a microchip or collar tag. A match only
+// shows a description to confirm it is the right animal; the owner's name and
+// contact details stay hidden and the finder messages them through a relay.
+const MicrochipLookup: React.FC = () => {
+  const { user } = useAuth();
+  const [code, setCode] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [matches, setMatches] = useState<MicrochipMatch[] | null>(null);
+  const [selected, setSelected] = useState<MicrochipMatch | null>(null);
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (normalizeLookupCode(code).length < MIN_LOOKUP_CODE_LENGTH) {
+      toast.error('Enter the full microchip number or tag ID');
+      return;
+    }
+
+    setSearching(true);
+    setSelected(null);
+    try {
+      const results = await lookupMicrochip(code);
+      setMatches(results);
+      if (results.length === 1) setSelected(results[0]);
+    } catch (error) {
+      console.error('Error looking up microchip:', error);
+      toast.error(error instanceof Error ? error.message : 'Lookup failed. Please try again.');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const describe = (match: MicrochipMatch) =>
+    [match.color, match.breed, match.species].filter(Boolean).join(' ');
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="text-center mb-8">
+        <Cpu className="h-12 w-12 text-blue-600 mx-auto mb-3" />
+        <h1 className="text-3xl font-bold text-gray-900">Found a Pet?</h1>
+        <p className="text-gray-600 mt-2">
+          Enter the microchip number from a vet or shelter scan, or the ID on its collar tag.
+        </p>
+      </div>
+
+      <form onSubmit={handleLookup} className="bg-white rounded-lg shadow-md p-6 flex space-x-3">
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder="e.g. 985 112 003 456 789"
+          autoComplete="off"
+        />
+        <button
+          type="submit"
+          disabled={searching}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center space-x-2"
+        >
+          {searching ? <Loader className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+          <span>Look Up</span>
+        </button>
+      </form>
+
+      {matches && matches.length === 0 && (
+        <div className="bg-white rounded-lg shadow-md p-6 mt-6 text-center">
+          <h2 className="font-semibold text-gray-900 mb-1">No registered pet has that number</h2>
+          <p className="text-sm text-gray-600">
+            Check the number and try again, or{' '}
+            <Link to={user ? '/lostfound' : '/auth/signup'} className="text-blue-600 hover:text-blue-700 font-medium">
+              post a found pet report
+            </Link>
+            {' '}so its owner can find it.
+          </p>
+        </div>
+      )}
+
+      {matches && matches.length > 1 && (
+        <div className="bg-white rounded-lg shadow-md p-6 mt-6">
+          <h2 className="font-semibold text-gray-900 mb-3">Which one is it?</h2>
+          <div className="space-y-2">
+            {matches.map(match => (
+              <button
+                key={match.relay_token}
+                onClick={() => setSelected(match)}
+                className={`w-full text-left px-4 py-3 rounded-lg border transition-colors ${
+                  selected?.relay_token === match.relay_token
+                    ? 'border-blue-500 bg-blue-50'
+                    : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <span className="capitalize font-medium text-gray-900">{describe(match)}</span>
+                {match.distinctive_markings && (
+                  <span className="block text-sm text-gray-600">{match.distinctive_markings}</span>
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {selected && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-white rounded-lg shadow-md p-6 mt-6"
+        >
+          {selected.is_lost && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4 flex items-center space-x-2 text-red-800">
+              <AlertTriangle className="h-5 w-5" />
+              <span className="text-sm font-medium">This pet has been reported lost. Its owner is looking for it!</span>
+            </div>
+          )}
+
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">
+            Registered <span className="capitalize">{describe(selected)}</span>
+          </h2>
+          {selected.distinctive_markings && (
+            <p className="text-gray-700 mb-2">Markings: {selected.distinctive_markings}</p>
+          )}
+          <p className="text-sm text-gray-600 mb-4">
+            Does this match the pet you found? Send the owner a message and they'll get in touch.
+          </p>
+
+          <RelayMessageForm key={selected.relay_token} relayToken={selected.relay_token} />
+        </motion.div>
+      )}
+    </div>
+  );
+};
+
+export default MicrochipLookup;
@@ -4,7 +4,7 @@ import { supabase } from '../lib/supabase';
 import { 
   Bell, Heart, MessageCircle, Users, Calendar, MapPin, 
   UserPlus, Check, CheckCheck, Trash2, Settings,
-  Filter, Search, X, AlertTriangle, Info, Gift
+  Filter, Search, X, AlertTriangle, Info, Gift, Clock, AtSign
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
@@ -13,7 +13,7 @@ import { Link } from 'react-router-dom';
 interface Notification {
   id: string;
   user_id: string;
-  type: 'like' | 'comment' | 'message' | 'follow' | 'event' | 'lost_found' | 'group_invite';
+  type: 'like' | 'comment' | 'message' | 'follow' | 'event' | 'lost_found' | 'group_invite' | 'reminder' | 'scheduled_post' | 'mention';
   title: string;
   message: string;
   related_id?: string;
@@ -44,7 +44,10 @@ const Notifications: React.FC = () => {
     { value: 'message', label: 'Messages', icon: MessageCircle },
     { value: 'event', label: 'Events', icon: Calendar },
     { value: 'lost_found', label: 'Lost & Found', icon: MapPin },
-    { value: 'group_invite', label: 'Group Invites', icon: Users }
+    { value: 'group_invite', label: 'Group Invites', icon: Users },
+    { value: 'reminder', label: 'Health Reminders', icon: Clock },
+    { value: 'scheduled_post', label: 'Scheduled Posts', icon: Calendar },
+    { value: 'mention', label: 'Mentions', icon: AtSign }
   ];
 
   useEffect(() => {
@@ -227,6 +230,16 @@ const Notifications: React.FC = () => {
           window.location.href = `/groups#group-${notification.related_id}`;
         }
         break;
+      case 'reminder':
+        window.location.href = '/health';
+        break;
+      case 'scheduled_post':
+        window.location.href = '/settings?tab=drafts';
+        break;
+      case 'mention':
+        // Reel mentions carry no post id
+        window.location.href = notification.related_id ? `/feed#post-${notification.related_id}` : '/reels';
+        break;
     }
   };
 
@@ -244,6 +257,9 @@ const Notifications: React.FC = () => {
       case 'event': return 'text-orange-500';
       case 'lost_found': return 'text-red-600';
       case 'group_invite': return 'text-indigo-500';
+      case 'reminder': return 'text-teal-500';
+      case 'scheduled_post': return 'text-blue-600';
+      case 'mention': return 'text-sky-500';
       default: return 'text-gray-500';
     }
   };
@@ -4,11 +4,12 @@ import { useAuth } from '../lib/auth';
 import { supabase, Pet, uploadFile } from '../lib/supabase';
 import { 
   Heart, Plus, Edit, Trash2, Upload, X, Check, 
-  Camera, User, Calendar, Weight, Palette
+  Camera, User, Calendar, Weight, Palette, AlertTriangle
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
 import ConfirmDialog from '../components/UI/ConfirmDialog';
+import { MIN_LOOKUP_CODE_LENGTH, normalizeLookupCode } from '../lib/microchip';
 
 const Pets: React.FC = () => {
   const { profile } = useAuth();
@@ -28,6 +29,9 @@ const Pets: React.FC = () => {
     gender: '',
     weight: '',
     color: '',
+    distinctive_markings: '',
+    microchip_number: '',
+    tag_id: '',
     bio: '',
     visibility: 'public' as Pet['visibility']
   });
@@ -55,7 +59,7 @@ const Pets: React.FC = () => {
     try {
       const { data, error } = await supabase
         .from('pets')
-        .select('*')
+        .select('*, identifiers:pet_identifiers(*)')
         .eq('owner_id', profile.id)
         .order('created_at', { ascending: false });
 
@@ -82,6 +86,9 @@ const Pets: React.FC = () => {
       gender: '',
       weight: '',
       color: '',
+      distinctive_markings: '',
+      microchip_number: '',
+      tag_id: '',
       bio: '',
       visibility: 'public'
     });
@@ -140,14 +147,14 @@ const Pets: React.FC = () => {
         gender: formData.gender || null,
         weight: formData.weight ? parseFloat(formData.weight) : null,
         color: formData.color.trim() || null,
+        distinctive_markings: formData.distinctive_markings.trim() || null,
         photo_url: photoUrl,
         bio: formData.bio.trim() || null,
-        visibility: formData.visibility,
-        is_lost: false
+        visibility: formData.visibility
       };
 
       if (editingPet) {
-        // Update existing pet
+        // Update existing pet; is_lost follows its lost report, so leave it alone
         const { error } = await supabase
           .from('pets')
           .update(petData)
@@ -157,6 +164,8 @@ const Pets: React.FC = () => {
           toast.error('Failed to update pet');
           console.error('Error updating pet:', error);
         } else {
+          await saveIdentifiers(editingPet.id);
+
           toast.success('Pet updated successfully!');
           setShowAddModal(false);
           resetForm();
@@ -164,14 +173,18 @@ const Pets: React.FC = () => {
         }
       } else {
         // Create new pet
-        const { error } = await supabase
+        const { data: newPet, error } = await supabase
           .from('pets')
-          .insert(petData);
+          .insert({ ...petData, is_lost: false })
+          .select('id')
+          .single();
 
         if (error) {
           toast.error('Failed to add pet');
           console.error('Error adding pet:', error);
         } else {
+          await saveIdentifiers(newPet.id);
+
           toast.success('Pet added successfully!');
           setShowAddModal(false);
           resetForm();
@@ -186,6 +199,30 @@ const Pets: React.FC = () => {
     }
   };
 
+  // Identifiers live in their own owner-only table so public pet profiles
+  // never expose a chip number
+  const saveIdentifiers = async (petId: string) => {
+    const microchipNumber = formData.microchip_number.trim();
+    const tagId = formData.tag_id.trim();
+    const existing = editingPet?.identifiers;
+    if (!microchipNumber && !tagId && !existing) return;
+
+    const { error } = await supabase
+      .from('pet_identifiers')
+      .upsert({
+        pet_id: petId,
+        microchip_number: microchipNumber || null,
+        tag_id: tagId || null
+      });
+
+    if (error) {
+      console.error('Error saving pet identifiers:', error);
+      toast.error('Saved the pet, but not its microchip or tag ID');
+    } else if ([microchipNumber, tagId].some(code => code && normalizeLookupCode(code).length < MIN_LOOKUP_CODE_LENGTH)) {
+      toast(`Finders can only look up IDs of ${MIN_LOOKUP_CODE_LENGTH} or more letters and digits`);
+    }
+  };
+
   const handleEdit = (pet: Pet) => {
     setEditingPet(pet);
     setFormData({
@@ -196,6 +233,9 @@ const Pets: React.FC = () => {
       gender: pet.gender || '',
       weight: pet.weight?.toString() || '',
       color: pet.color || '',
+      distinctive_markings: pet.distinctive_markings || '',
+      microchip_number: pet.identifiers?.microchip_number || '',
+      tag_id: pet.identifiers?.tag_id || '',
       bio: pet.bio || '',
       visibility: pet.visibility
     });
@@ -355,6 +395,22 @@ const Pets: React.FC = () => {
                   }`}>
                     {pet.visibility}
                   </span>
+                  {pet.is_lost ? (
+                    <Link
+                      to="/lostfound"
+                      className="text-sm text-red-600 hover:text-red-700 font-medium"
+                    >
+                      View lost report
+                    </Link>
+                  ) : (
+                    <Link
+                      to={`/lostfound?pet=${pet.id}`}
+                      className="flex items-center space-x-1 text-sm text-gray-600 hover:text-red-600 transition-colors"
+                    >
+                      <AlertTriangle className="h-4 w-4" />
+                      <span>Report Lost</span>
+                    </Link>
+                  )}
                 </div>
               </div>
             </motion.div>
@@ -560,6 +616,50 @@ const Pets: React.FC = () => {
                     </div>
                   </div>
 
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Distinctive Markings
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.distinctive_markings}
+                      onChange={(e) => setFormData(prev => ({ ...prev, distinctive_markings: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="e.g. White patch on chest, notch in left ear"
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Microchip Number
+                      </label>
+                      <input
+                        type="text"
+                        value={formData.microchip_number}
+                        onChange={(e) => setFormData(prev => ({ ...prev, microchip_number: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        placeholder="15-digit chip number"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Tag ID
+                      </label>
+                      <input
+                        type="text"
+                        value={formData.tag_id}
+                        onChange={(e) => setFormData(prev => ({ ...prev, tag_id: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        placeholder="ID printed on the collar tag"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500 -mt-4">
+                    Never shown on your pet's profile. A finder who enters either number can message you without seeing who you are.
+                  </p>
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
                       Bio
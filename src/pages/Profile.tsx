@@ -355,6 +355,9 @@ const UserProfile: React.FC = () => {
             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
               <div>
                 <h1 className="text-2xl font-bold text-gray-900">{profileData.display_name}</h1>
+                {profileData.handle && (
+                  <p className="text-gray-500">@{profileData.handle}</p>
+                )}
                 {profileData.bio && (
                   <p className="text-gray-600 mt-1">{profileData.bio}</p>
                 )}
@@ -0,0 +1,192 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { useAuth } from '../lib/auth';
+import { getPublicLostReport, PublicLostFoundReport } from '../lib/lostFound';
+import { MapPin, Clock, DollarSign, Search, CheckCircle, Camera, Eye } from 'lucide-react';
+import { motion } from 'framer-motion';
+import InteractiveMap from '../components/Maps/InteractiveMap';
+import SightingForm from '../components/LostFound/SightingForm';
+
+// Shareable view of one lost & found report, e.g. from social media or the QR
+// code on a printed poster. Works without signing in, so it only shows the
+// sanitized report: no contact details and an approximate location. Visitors
+// reach the owner by sending a sighting instead.
+const PublicLostReport: React.FC = () => {
+  const { reportId } = useParams<{ reportId: string }>();
+  const { user } = useAuth();
+  const [report, setReport] = useState<PublicLostFoundReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    if (!reportId) return;
+
+    setError(null);
+    try {
+      setReport(await getPublicLostReport(reportId));
+    } catch (error) {
+      console.error('Error loading report:', error);
+      setError('Failed to load report');
+    } finally {
+      setLoading(false);
+    }
+  }, [reportId]);
+
+  useEffect(() => {
+    if (reportId) {
+      loadReport();
+    }
+  }, [reportId, loadReport]);
+
+  if (loading) {
+    return (
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="animate-pulse space-y-4">
+          <div className="h-72 bg-gray-200 rounded-lg"></div>
+          <div className="h-8 bg-gray-200 rounded w-1/2"></div>
+          <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !report) {
+    return (
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="text-center">
+          <Search className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            {error || 'Report not found'}
+          </h1>
+          <p className="text-gray-600">
+            {error ? 'Please try refreshing the page.' : 'This report may have been removed by its owner.'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const isFound = report.status === 'found';
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white rounded-lg shadow-md overflow-hidden"
+      >
+        {report.is_resolved && (
+          <div className="bg-green-50 border-b border-green-200 px-6 py-3 flex items-center space-x-2 text-green-800">
+            <CheckCircle className="h-5 w-5" />
+            <span className="font-medium">
+              {isFound ? 'This pet is back with its owner.' : `${report.pet_name} has been found. Thank you for looking!`}
+            </span>
+          </div>
+        )}
+
+        {report.photo_url ? (
+          <img src={report.photo_url} alt={report.pet_name} className="w-full h-72 object-cover" />
+        ) : (
+          <div className="w-full h-48 bg-gray-100 flex items-center justify-center">
+            <Camera className="h-12 w-12 text-gray-400" />
+          </div>
+        )}
+
+        <div className="p-6">
+          <span className={`inline-block px-3 py-1 rounded-full text-sm font-medium mb-3 ${
+            isFound ? 'bg-blue-100 text-blue-800' : 'bg-red-100 text-red-800'
+          }`}>
+            {isFound ? 'FOUND' : 'LOST'} {report.species.toUpperCase()}
+          </span>
+
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">{report.pet_name}</h1>
+          <div className="flex flex-wrap items-center gap-x-2 text-gray-600 mb-4">
+            {report.breed && <span>{report.breed}</span>}
+            {report.breed && report.color && <span>•</span>}
+            {report.color && <span className="capitalize">{report.color}</span>}
+          </div>
+
+          <p className="text-gray-700 mb-6">{report.description}</p>
+
+          <div className="space-y-3 mb-6">
+            <div className="flex items-start space-x-2 text-gray-700">
+              <MapPin className="h-5 w-5 text-gray-400 mt-0.5" />
+              <span>
+                <span className="font-medium">{isFound ? 'Found near' : 'Last seen'}:</span> {report.last_seen_location}
+              </span>
+            </div>
+            <div className="flex items-center space-x-2 text-gray-700">
+              <Clock className="h-5 w-5 text-gray-400" />
+              <span>Reported {new Date(report.created_at).toLocaleDateString()}</span>
+            </div>
+            {report.reward_offered && report.reward_amount && (
+              <div className="flex items-center space-x-2 text-green-700 font-semibold">
+                <DollarSign className="h-5 w-5" />
+                <span>${report.reward_amount} Reward Offered</span>
+              </div>
+            )}
+          </div>
+
+          <h2 className="font-semibold text-gray-900 mb-1">Approximate Area</h2>
+          <p className="text-sm text-gray-600 mb-3">
+            The exact spot is only shared with PawPilot HQ members.
+          </p>
+          <InteractiveMap
+            center={{ lat: report.approx_latitude, lng: report.approx_longitude }}
+            zoom={14}
+            markers={[{
+              id: report.id,
+              latitude: report.approx_latitude,
+              longitude: report.approx_longitude,
+              title: report.pet_name,
+              type: report.is_resolved ? 'resolved' : report.status
+            }]}
+            height="260px"
+          />
+        </div>
+      </motion.div>
+
+      {!report.is_resolved && !isFound && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="bg-white rounded-lg shadow-md p-6 mt-6"
+        >
+          <div className="flex items-center space-x-2 mb-4">
+            <Eye className="h-5 w-5 text-blue-600" />
+            <h2 className="text-lg font-semibold text-gray-900">Seen {report.pet_name}?</h2>
+          </div>
+          <SightingForm report={report} center={{ lat: report.approx_latitude, lng: report.approx_longitude }} />
+        </motion.div>
+      )}
+
+      {!report.is_resolved && isFound && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mt-6 text-center">
+          <h2 className="font-semibold text-gray-900 mb-1">Is this your pet?</h2>
+          <p className="text-sm text-gray-700">
+            <Link to={user ? '/lostfound' : '/auth/login'} className="text-blue-600 hover:text-blue-700 font-medium">
+              {user ? 'Open Lost & Found' : 'Sign in'}
+            </Link>
+            {' '}to see the finder's contact details.
+          </p>
+        </div>
+      )}
+
+      <div className="text-center mt-6 text-sm text-gray-600">
+        {user ? (
+          <Link to="/lostfound" className="text-blue-600 hover:text-blue-700 font-medium">
+            See all lost & found reports nearby
+          </Link>
+        ) : (
+          <span>
+            <Link to="/auth/signup" className="text-blue-600 hover:text-blue-700 font-medium">Join PawPilot HQ</Link>
+            {' '}to get alerts about lost pets near you.
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PublicLostReport;
@@ -9,6 +9,7 @@ import {
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
 import ConfirmDialog from '../components/UI/ConfirmDialog';
+import RichText from '../components/UI/RichText';
 
 interface Reel {
   id: string;
@@ -581,7 +582,7 @@ const Reels: React.FC = () => {
                   </div>
                   
                   {reel.caption && (
-                    <p className="text-sm max-w-xs">{reel.caption}</p>
+                    <p className="text-sm max-w-xs"><RichText text={reel.caption} linkClassName="font-semibold hover:underline" /></p>
                   )}
                 </div>
 
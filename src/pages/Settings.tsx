@@ -1,11 +1,13 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '../lib/auth';
+import { HANDLE_PATTERN } from '../lib/richText';
 import { supabase, uploadFile } from '../lib/supabase';
 import { 
   User, Lock, Bell, Eye, Shield, Trash2, Upload, 
   Check, X, Camera, Mail, Phone, Globe, Users, 
   UserX, MessageCircle, Heart, Calendar, MapPin, Bookmark,
-  AlertTriangle, Save, BarChart, Edit, Crown
+  AlertTriangle, Save, BarChart, Edit, Crown, Navigation
 } from 'lucide-react';
 import { motion } from 'framer-motion';
 import toast from 'react-hot-toast';
@@ -15,6 +17,7 @@ import SavedPosts from '../components/Feed/SavedPosts';
 import DraftPosts from '../components/Feed/DraftPosts';
 import { usePushNotifications } from '../hooks/usePushNotifications';
 import { useEmailNotifications } from '../hooks/useEmailNotifications';
+import { useAlertLocation } from '../hooks/useAlertLocation';
 import UserAnalytics from '../components/Analytics/UserAnalytics';
 import AdvancedPrivacyControls from '../components/Privacy/AdvancedPrivacyControls';
 
@@ -23,13 +26,16 @@ const Settings: React.FC = () => {
   const { profile, updateProfile, signOut } = useAuth();
   const { isSupported: pushSupported, isSubscribed: pushSubscribed, loading: pushLoading, subscribeToPush, unsubscribeFromPush } = usePushNotifications();
   const { preferences: emailPreferences, loading: emailLoading, updateEmailPreferences, sendTestEmail } = useEmailNotifications();
-  const [activeTab, setActiveTab] = useState('profile');
+  const { isSharing: sharingAlertLocation, loading: alertLocationLoading, startSharing, stopSharing } = useAlertLocation();
+  const [searchParams] = useSearchParams();
+  const [activeTab, setActiveTab] = useState(searchParams.get('tab') || 'profile');
   const [loading, setLoading] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
 
   // Profile settings
   const [profileData, setProfileData] = useState({
     display_name: '',
+    handle: '',
     bio: '',
     phone_number: ''
   });
@@ -75,6 +81,7 @@ const Settings: React.FC = () => {
     if (profile) {
       setProfileData({
         display_name: profile.display_name || '',
+        handle: profile.handle || '',
         bio: profile.bio || '',
         phone_number: profile.phone_number || ''
       });
@@ -123,6 +130,12 @@ const Settings: React.FC = () => {
       return;
     }
 
+    const handle = profileData.handle.trim().replace(/^@/, '').toLowerCase();
+    if (!HANDLE_PATTERN.test(handle)) {
+      toast.error('Handles are 3-30 letters, numbers or underscores');
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -142,6 +155,7 @@ const Settings: React.FC = () => {
 
       const updates = {
         display_name: profileData.display_name.trim(),
+        handle,
         bio: profileData.bio.trim() || null,
         phone_number: profileData.phone_number.trim() || null,
         avatar_url: avatarUrl
@@ -150,7 +164,7 @@ const Settings: React.FC = () => {
       const { error } = await updateProfile(updates);
 
       if (error) {
-        toast.error('Failed to update profile');
+        toast.error(typeof error !== 'string' && error.code === '23505' ? `@${handle} is already taken` : 'Failed to update profile');
         console.error('Error updating profile:', error);
       } else {
         toast.success('Profile updated successfully!');
@@ -279,6 +293,23 @@ const Settings: React.FC = () => {
             />
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Handle *
+            </label>
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400">@</span>
+              <input
+                type="text"
+                value={profileData.handle}
+                onChange={(e) => setProfileData(prev => ({ ...prev, handle: e.target.value }))}
+                className="w-full pl-7 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="yourname"
+              />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Others can mention you in posts and comments as @{profileData.handle || 'yourname'}</p>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Email
@@ -625,6 +656,29 @@ const Settings: React.FC = () => {
                   />
                 </button>
               </div>
+
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <Navigation className="h-5 w-5 text-red-500" />
+                  <div>
+                    <h5 className="font-medium text-gray-900">Nearby Lost Pet Alerts</h5>
+                    <p className="text-sm text-gray-600">Share your location so you're alerted when a pet goes missing near you</p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => sharingAlertLocation ? stopSharing() : startSharing()}
+                  disabled={alertLocationLoading}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors disabled:opacity-50 ${
+                    sharingAlertLocation ? 'bg-blue-600' : 'bg-gray-200'
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      sharingAlertLocation ? 'translate-x-6' : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </div>
             </div>
           </div>
 
@@ -739,6 +793,26 @@ const Settings: React.FC = () => {
                   />
                 </button>
               </div>
+
+              <div className="flex items-center justify-between">
+                <div>
+                  <h5 className="font-medium text-gray-900">Health Reminders</h5>
+                  <p className="text-sm text-gray-600">Appointments, vaccinations and medication doses</p>
+                </div>
+                <button
+                  onClick={() => updateEmailPreferences({ health_reminders: !emailPreferences.health_reminders })}
+                  disabled={emailLoading}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors disabled:opacity-50 ${
+                    emailPreferences.health_reminders ? 'bg-blue-600' : 'bg-gray-200'
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      emailPreferences.health_reminders ? 'translate-x-6' : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </div>
             </div>
 
             <div className="mt-4 pt-4 border-t border-gray-200">
@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { Hash, Film } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../lib/auth';
+import { supabase } from '../lib/supabase';
+import { FeedPost } from '../lib/feed';
+import { normalizeTag } from '../lib/richText';
+import { loadTaggedPosts, loadTaggedReels, TaggedReel } from '../lib/tags';
+import PostCard from '../components/Feed/PostCard';
+
+// Everything tagged #tag that the viewer is allowed to see, newest first
+const TagBrowse: React.FC = () => {
+  const { tag: tagParam } = useParams<{ tag: string }>();
+  const { profile } = useAuth();
+  const tag = normalizeTag(tagParam || '');
+  const [posts, setPosts] = useState<FeedPost[]>([]);
+  const [reels, setReels] = useState<TaggedReel[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadTagged = async (tagName: string) => {
+      setLoading(true);
+      try {
+        const [taggedPosts, taggedReels] = await Promise.all([
+          loadTaggedPosts(supabase, tagName),
+          loadTaggedReels(supabase, tagName)
+        ]);
+        setPosts(taggedPosts);
+        setReels(taggedReels);
+      } catch (error) {
+        console.error('Error loading tagged content:', error);
+        toast.error('Failed to load posts');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (profile && tag) {
+      loadTagged(tag);
+    } else {
+      setLoading(false);
+    }
+  }, [profile, tag]);
+
+  const handleLike = async (post: FeedPost) => {
+    if (!profile) return;
+
+    const { error } = post.user_liked
+      ? await supabase.from('post_likes').delete().eq('post_id', post.id).eq('user_id', profile.id)
+      : await supabase.from('post_likes').insert({ post_id: post.id, user_id: profile.id });
+
+    if (error) {
+      console.error('Error updating like:', error);
+      toast.error('Failed to update like');
+      return;
+    }
+
+    setPosts(prev => prev.map(p =>
+      p.id === post.id
+        ? { ...p, user_liked: !post.user_liked, likes_count: p.likes_count + (post.user_liked ? -1 : 1) }
+        : p
+    ));
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="animate-pulse space-y-6">
+          <div className="h-8 bg-gray-200 rounded w-1/3"></div>
+          {[...Array(2)].map((_, i) => (
+            <div key={i} className="h-48 bg-gray-200 rounded-lg"></div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex items-center space-x-3 mb-8">
+        <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center">
+          <Hash className="h-6 w-6 text-blue-600" />
+        </div>
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">#{tag || tagParam}</h1>
+          {tag && (
+            <p className="text-gray-600">
+              {posts.length} post{posts.length !== 1 ? 's' : ''}
+              {reels.length > 0 && ` · ${reels.length} reel${reels.length !== 1 ? 's' : ''}`}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {reels.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-lg font-semibold text-gray-900 mb-3">Reels</h2>
+          <div className="grid grid-cols-3 gap-2">
+            {reels.map(reel => (
+              <Link
+                key={reel.id}
+                to="/reels"
+                className="relative aspect-[9/16] bg-gray-900 rounded-lg overflow-hidden"
+              >
+                {reel.thumbnail_url ? (
+                  <img src={reel.thumbnail_url} alt={reel.caption || 'Reel'} className="w-full h-full object-cover" />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center">
+                    <Film className="h-8 w-8 text-gray-500" />
+                  </div>
+                )}
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-6">
+        {posts.length > 0 ? (
+          posts.map((post, index) => (
+            <PostCard
+              key={post.id}
+              post={post}
+              index={index}
+              onLike={() => handleLike(post)}
+            />
+          ))
+        ) : (
+          <div className="text-center py-12">
+            <Hash className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-xl font-medium text-gray-900 mb-2">
+              {tag ? 'No posts with this tag yet' : 'That isn\'t a valid tag'}
+            </h3>
+            <p className="text-gray-600">
+              Add <span className="font-medium">#{tag || 'tag'}</span> to a post to start the conversation
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TagBrowse;
@@ -0,0 +1,63 @@
+import type { AIProvider, TriageInput, TriageResult } from "./schema.ts";
+import { createOpenAIProvider, DEFAULT_OPENAI_MODEL } from "./openai.ts";
+import { createLocalTriageProvider } from "./localTriage.ts";
+
+export * from "./schema.ts";
+export { createOpenAIProvider, DEFAULT_OPENAI_MODEL } from "./openai.ts";
+export { createLocalTriageProvider, triageSymptoms } from "./localTriage.ts";
+
+/** Reads configuration; `Deno.env.get` and `process.env` lookups both fit. */
+export type EnvReader = (name: string) => string | undefined;
+
+/**
+ * Providers to try, in order, from the environment:
+ *   AI_PROVIDER  "openai" or "local" (default: openai when a key is set)
+ *   AI_MODEL     model name for LLM providers
+ *   OPENAI_API_KEY
+ * The local rule-based provider is always last, so a result is guaranteed.
+ */
+export function getAIProviders(env: EnvReader): AIProvider[] {
+  const requested = env("AI_PROVIDER")?.toLowerCase();
+  const openaiApiKey = env("OPENAI_API_KEY");
+  const providers: AIProvider[] = [];
+
+  if (requested !== "local" && openaiApiKey) {
+    providers.push(createOpenAIProvider(openaiApiKey, env("AI_MODEL") || DEFAULT_OPENAI_MODEL));
+  }
+  providers.push(createLocalTriageProvider());
+  return providers;
+}
+
+async function firstSuccessful<T>(
+  providers: AIProvider[],
+  call: (provider: AIProvider) => Promise<T>
+): Promise<{ value: T; provider: AIProvider }> {
+  let lastError: unknown = new Error("No AI providers configured");
+  for (const provider of providers) {
+    try {
+      return { value: await call(provider), provider };
+    } catch (error) {
+      // Includes responses that failed schema validation
+      console.error(`AI provider "${provider.name}" failed:`, error);
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+/** Triage with the first provider that answers, noting which one did. */
+export async function triageWith(
+  providers: AIProvider[],
+  input: TriageInput
+): Promise<{ result: TriageResult; provider: AIProvider }> {
+  const { value, provider } = await firstSuccessful(providers, p => p.triage(input));
+  return { result: value, provider };
+}
+
+export async function healthTipWith(
+  providers: AIProvider[],
+  symptoms: string
+): Promise<{ tip: string; provider: AIProvider }> {
+  const { value, provider } = await firstSuccessful(providers, p => p.healthTip(symptoms));
+  return { tip: value, provider };
+}
@@ -0,0 +1,334 @@
+import type { AIProvider, Severity, TriageInput, TriageResult, Urgency } from "./schema.ts";
+
+// Rule-based triage used when no LLM is configured or the LLM call fails.
+// Each symptom, the owner's severity and duration answers, appetite, energy
+// and species add points; some combinations are emergencies outright. The
+// tables lean cautious: when in doubt they send the owner to the vet sooner.
+
+interface SymptomRule {
+  /** The analyzer's symptom label; free text is matched with `pattern`. */
+  label: string;
+  pattern: RegExp;
+  points: number;
+  /** Always high urgency, whatever else was answered. */
+  emergency?: boolean;
+  causes: string[];
+  advice: string;
+  warning: string;
+}
+
+export const SYMPTOM_RULES: SymptomRule[] = [
+  {
+    label: "Difficulty breathing",
+    pattern: /difficult(y)? breathing|trouble breathing|labou?red breathing|gasping|can'?t breathe|open[- ]mouth breathing/i,
+    points: 6,
+    emergency: true,
+    causes: ["Airway obstruction", "Heart failure", "Pneumonia", "Fluid around the lungs"],
+    advice: "Keep your pet calm and cool and travel to a vet straight away",
+    warning: "Blue or pale gums"
+  },
+  {
+    label: "Seizure",
+    pattern: /seiz|convuls|fitting/i,
+    points: 6,
+    emergency: true,
+    causes: ["Epilepsy", "Toxin exposure", "Low blood sugar"],
+    advice: "Move objects away from your pet, don't touch the mouth, and time the seizure",
+    warning: "A seizure lasting more than 5 minutes or several in a row"
+  },
+  {
+    label: "Collapse",
+    pattern: /collaps|unresponsive|faint/i,
+    points: 6,
+    emergency: true,
+    causes: ["Heart problems", "Internal bleeding", "Severe infection"],
+    advice: "Keep your pet warm and still and go to a vet immediately",
+    warning: "Pale gums or a racing heart"
+  },
+  {
+    label: "Possible poisoning",
+    pattern: /poison|toxin|ate (chocolate|grapes|raisins|xylitol|lilies|medication|rat bait)|antifreeze/i,
+    points: 6,
+    emergency: true,
+    causes: ["Toxin ingestion"],
+    advice: "Call your vet or a pet poison hotline now and bring the packaging if you have it",
+    warning: "Drooling, tremors or vomiting after eating something toxic"
+  },
+  {
+    label: "Straining to urinate",
+    pattern: /strain(ing)? to (urinate|pee)|can'?t (urinate|pee)|no urine/i,
+    points: 6,
+    emergency: true,
+    causes: ["Urinary blockage", "Bladder stones", "Cystitis"],
+    advice: "Go to a vet today — a blocked bladder can be fatal within a day",
+    warning: "Crying in the litter box or producing no urine"
+  },
+  {
+    label: "Vomiting",
+    pattern: /vomit|throwing up|threw up/i,
+    points: 2,
+    causes: ["Dietary indiscretion", "Gastroenteritis", "Foreign body"],
+    advice: "Withhold food for a few hours, then offer small bland meals with fresh water available",
+    warning: "Blood in vomit or vomiting several times in a few hours"
+  },
+  {
+    label: "Diarrhea",
+    pattern: /diarrh|loose stool|runny stool/i,
+    points: 1,
+    causes: ["Dietary change", "Intestinal parasites", "Stress colitis"],
+    advice: "Offer a bland diet and make sure fresh water is always available",
+    warning: "Blood in the stool or black, tarry stool"
+  },
+  {
+    label: "Loss of appetite",
+    pattern: /loss of appetite|not eating|won'?t eat|off (his|her|their)? ?food/i,
+    points: 1,
+    causes: ["Nausea", "Dental pain", "Underlying illness"],
+    advice: "Offer a favourite food and note how much is eaten",
+    warning: "Not eating for more than 24 hours"
+  },
+  {
+    label: "Lethargy",
+    pattern: /letharg|tired|sluggish|low energy|weak/i,
+    points: 2,
+    causes: ["Infection or fever", "Pain", "Metabolic disease"],
+    advice: "Let your pet rest somewhere quiet and check their gums are pink",
+    warning: "Unable to stand or unresponsive"
+  },
+  {
+    label: "Coughing",
+    pattern: /cough/i,
+    points: 1,
+    causes: ["Kennel cough", "Airway irritation", "Heart disease"],
+    advice: "Avoid collars that press on the throat and limit exercise",
+    warning: "Coughing with laboured breathing"
+  },
+  {
+    label: "Sneezing",
+    pattern: /sneez/i,
+    points: 0,
+    causes: ["Upper respiratory infection", "Allergies", "Nasal irritant"],
+    advice: "Keep the air free of smoke and strong scents",
+    warning: "Nose bleeds or thick nasal discharge"
+  },
+  {
+    label: "Limping",
+    pattern: /limp|lame|favou?ring (a|one|his|her) (leg|paw)/i,
+    points: 1,
+    causes: ["Sprain or strain", "Paw or nail injury", "Arthritis"],
+    advice: "Restrict activity and check the paw for cuts or foreign objects",
+    warning: "Not bearing any weight on the leg"
+  },
+  {
+    label: "Excessive drinking",
+    pattern: /excessive drinking|drinking (a lot|more)|very thirsty/i,
+    points: 2,
+    causes: ["Diabetes", "Kidney disease", "Hormonal disorder"],
+    advice: "Measure how much water is drunk over a day to share with your vet",
+    warning: "Vomiting or weight loss alongside the thirst"
+  },
+  {
+    label: "Excessive urination",
+    pattern: /excessive urination|urinating (a lot|more)|peeing (a lot|more)|accidents in the house/i,
+    points: 2,
+    causes: ["Urinary tract infection", "Diabetes", "Kidney disease"],
+    advice: "Note how often your pet urinates and whether there is blood",
+    warning: "Straining with little or no urine"
+  },
+  {
+    label: "Skin irritation",
+    pattern: /skin irritation|rash|red skin|hot spot/i,
+    points: 0,
+    causes: ["Allergies", "Fleas", "Bacterial dermatitis"],
+    advice: "Stop your pet licking the area and check for fleas",
+    warning: "Open wounds or spreading redness"
+  },
+  {
+    label: "Hair loss",
+    pattern: /hair loss|fur loss|bald/i,
+    points: 0,
+    causes: ["Parasites", "Allergies", "Hormonal imbalance"],
+    advice: "Check for fleas and mites and note whether the skin is itchy",
+    warning: "Sores or scabs in the bald areas"
+  },
+  {
+    label: "Bad breath",
+    pattern: /bad breath|halitosis/i,
+    points: 0,
+    causes: ["Dental disease", "Gum infection"],
+    advice: "Book a dental check at your next visit",
+    warning: "Drooling or pawing at the mouth"
+  },
+  {
+    label: "Excessive scratching",
+    pattern: /scratch|itch/i,
+    points: 0,
+    causes: ["Fleas", "Allergies", "Mites"],
+    advice: "Check for fleas and keep parasite prevention up to date",
+    warning: "Broken skin or infection from scratching"
+  },
+  {
+    label: "Hiding behavior",
+    pattern: /hiding/i,
+    points: 1,
+    causes: ["Pain", "Stress", "Illness"],
+    advice: "Give your pet a quiet space and watch whether they eat and use the toilet",
+    warning: "Hiding for more than a day"
+  },
+  {
+    label: "Aggression",
+    pattern: /aggress|biting|snapping/i,
+    points: 1,
+    causes: ["Pain", "Fear", "Stress"],
+    advice: "Avoid handling painful areas and keep interactions calm",
+    warning: "Sudden aggression in a previously calm pet"
+  },
+  {
+    label: "Restlessness",
+    pattern: /restless|pacing|can'?t settle/i,
+    points: 1,
+    causes: ["Pain", "Anxiety", "Nausea"],
+    advice: "Keep the environment calm and watch for other signs of discomfort",
+    warning: "Restlessness with a swollen belly or retching"
+  }
+];
+
+export const SEVERITY_POINTS: Record<Severity, number> = {
+  mild: 0,
+  moderate: 1,
+  severe: 3
+};
+
+/** Points by how long symptoms have lasted; unknown durations add nothing. */
+export const DURATION_POINTS: Record<string, number> = {
+  less_than_hour: 0,
+  few_hours: 0,
+  today: 0,
+  yesterday: 1,
+  few_days: 1,
+  week: 2,
+  weeks: 2,
+  month_plus: 2
+};
+
+const ACUTE_DURATIONS = ["less_than_hour", "few_hours", "today"];
+
+interface SpeciesRule {
+  /** Added to every triage: prey species hide illness until it is advanced. */
+  points: number;
+  /** Returns a reason when the combination is an emergency for this species. */
+  emergency?: (labels: string[], input: TriageInput) => string | null;
+  note?: string;
+}
+
+export const SPECIES_RULES: Record<string, SpeciesRule> = {
+  dog: {
+    points: 0,
+    emergency: labels => labels.includes("Vomiting") && labels.includes("Restlessness")
+      ? "Bloat (gastric dilatation-volvulus)"
+      : null
+  },
+  cat: {
+    points: 0,
+    emergency: (labels, input) => (labels.includes("Loss of appetite") || input.appetite === "none") &&
+      !ACUTE_DURATIONS.includes(input.duration)
+      ? "Hepatic lipidosis from not eating"
+      : null,
+    note: "Cats hide illness well, so changes in routine are worth taking seriously"
+  },
+  rabbit: {
+    points: 1,
+    emergency: (labels, input) => labels.includes("Loss of appetite") || labels.includes("Diarrhea") ||
+      input.appetite === "none"
+      ? "Gastrointestinal stasis"
+      : null,
+    note: "Rabbits that stop eating or passing droppings need a vet the same day"
+  },
+  bird: { points: 1, note: "Birds hide illness until it is advanced; keep them warm and quiet" },
+  hamster: { points: 1, note: "Small pets decline quickly, so don't wait long before seeing a vet" },
+  reptile: { points: 1, note: "Check the enclosure temperature and humidity, which cause many reptile illnesses" },
+  fish: { points: 1, note: "Test the water quality first; it is behind most fish illness" }
+};
+
+const WHEN_TO_SEE_VET: Record<Urgency, string> = {
+  high: "Seek veterinary care now — contact your vet or an emergency clinic immediately",
+  medium: "Book a vet appointment within 24-48 hours, sooner if symptoms worsen",
+  low: "Monitor at home for 24-48 hours and contact your vet if symptoms persist or worsen"
+};
+
+/** Score at or above which urgency is high, and medium. */
+export const HIGH_URGENCY_POINTS = 6;
+export const MEDIUM_URGENCY_POINTS = 3;
+
+/** Symptom rules named in the analyzer's list or matched in free text. */
+export function matchSymptomRules(symptoms: string[]): SymptomRule[] {
+  return SYMPTOM_RULES.filter(rule =>
+    symptoms.some(symptom => symptom === rule.label || rule.pattern.test(symptom))
+  );
+}
+
+function unique(items: string[]): string[] {
+  return [...new Set(items)];
+}
+
+/** Deterministic triage from the rule tables above. */
+export function triageSymptoms(input: TriageInput): TriageResult {
+  const rules = matchSymptomRules(input.symptoms);
+  const speciesRule = SPECIES_RULES[input.species.toLowerCase()];
+  const speciesEmergency = speciesRule?.emergency?.(rules.map(rule => rule.label), input) ?? null;
+
+  let points = rules.reduce((sum, rule) => sum + rule.points, 0);
+  points += SEVERITY_POINTS[input.severity] ?? 0;
+  points += DURATION_POINTS[input.duration] ?? 0;
+  if (input.appetite === "none") points += 2;
+  else if (input.appetite === "decreased") points += 1;
+  if (input.energy === "decreased") points += 1;
+  if (rules.length >= 3) points += 1;
+  points += speciesRule?.points ?? 0;
+
+  const urgency: Urgency = rules.some(rule => rule.emergency) || speciesEmergency || points >= HIGH_URGENCY_POINTS
+    ? "high"
+    : points >= MEDIUM_URGENCY_POINTS ? "medium" : "low";
+
+  const causes = unique([
+    ...(speciesEmergency ? [speciesEmergency] : []),
+    ...rules.flatMap(rule => rule.causes)
+  ]).slice(0, 5);
+
+  const recommendations = unique([
+    ...rules.map(rule => rule.advice),
+    ...(speciesRule?.note ? [speciesRule.note] : []),
+    ...(!ACUTE_DURATIONS.includes(input.duration) && urgency !== "high"
+      ? ["Symptoms lasting more than a day are worth discussing with your vet even if they seem mild"]
+      : []),
+    "Keep a log of symptoms and when they happen"
+  ]);
+
+  return {
+    urgency_level: urgency,
+    possible_causes: causes.length > 0 ? causes : ["Not enough information to suggest likely causes"],
+    recommendations,
+    when_to_see_vet: WHEN_TO_SEE_VET[urgency],
+    warning_signs: unique(rules.map(rule => rule.warning))
+  };
+}
+
+export function createLocalTriageProvider(): AIProvider {
+  return {
+    name: "local",
+    model: "rule-based-triage",
+    async triage(input) {
+      return triageSymptoms(input);
+    },
+    async healthTip(symptoms) {
+      const result = triageSymptoms({
+        species: "pet",
+        symptoms: [symptoms],
+        severity: "mild",
+        duration: "today"
+      });
+      const advice = matchSymptomRules([symptoms])[0]?.advice || "Watch your pet closely and note any changes";
+      return `${advice}. ${result.when_to_see_vet}.`;
+    }
+  };
+}
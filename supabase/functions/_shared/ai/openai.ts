@@ -0,0 +1,77 @@
+import { type AIProvider, type TriageInput, TRIAGE_RESPONSE_SCHEMA, validateTriageResult } from "./schema.ts";
+
+export const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
+
+const TRIAGE_SYSTEM_PROMPT =
+  "You are a helpful veterinary AI assistant. Provide preliminary symptom analysis while always emphasizing the need for professional veterinary care.";
+
+interface ChatMessage {
+  role: "system" | "user";
+  content: string;
+}
+
+function buildTriagePrompt(input: TriageInput): string {
+  return `Analyze the following symptoms for a ${input.species}${input.petName ? ` named ${input.petName}` : ""}:
+
+Symptoms: ${input.symptoms.join(", ")}
+Duration: ${input.duration}
+Severity: ${input.severity}
+${input.appetite ? `Appetite: ${input.appetite}\n` : ""}${input.energy ? `Energy Level: ${input.energy}\n` : ""}${input.behaviorChanges ? `Behavior Changes: ${input.behaviorChanges}\n` : ""}${input.additionalNotes ? `Additional Notes: ${input.additionalNotes}\n` : ""}
+Provide the urgency level (low/medium/high), the 3-5 most likely causes, immediate care recommendations, when to see a veterinarian and warning signs to watch for.
+
+Remember: This is preliminary guidance only. Always recommend professional veterinary consultation for proper diagnosis.`;
+}
+
+export function createOpenAIProvider(apiKey: string, model: string = DEFAULT_OPENAI_MODEL): AIProvider {
+  const complete = async (messages: ChatMessage[], responseFormat?: unknown): Promise<string> => {
+    const response = await fetch("https://api.openai.com/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        max_tokens: 1000,
+        temperature: 0.3,
+        ...(responseFormat ? { response_format: responseFormat } : {})
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI API error: ${response.status}`);
+    }
+
+    const data = await response.json() as { choices?: { message?: { content?: string } }[] };
+    const content = data.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error("No response received from OpenAI");
+    }
+    return content;
+  };
+
+  return {
+    name: "openai",
+    model,
+    async triage(input) {
+      const content = await complete(
+        [
+          { role: "system", content: TRIAGE_SYSTEM_PROMPT },
+          { role: "user", content: buildTriagePrompt(input) }
+        ],
+        {
+          type: "json_schema",
+          json_schema: { name: "symptom_triage", strict: true, schema: TRIAGE_RESPONSE_SCHEMA }
+        }
+      );
+      return validateTriageResult(content);
+    },
+    async healthTip(symptoms) {
+      const content = await complete([
+        { role: "user", content: `Pet symptoms: ${symptoms}. Give a short, non-clinical tip.` }
+      ]);
+      return content.trim();
+    }
+  };
+}
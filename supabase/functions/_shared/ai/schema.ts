@@ -0,0 +1,105 @@
+// Shared by the `analyze-symptoms` edge function (Deno) and `api/ai-health-tip`
+// (Node). Keep this folder free of runtime-specific imports: relative `.ts`
+// imports and the global `fetch` only.
+
+export type Urgency = "low" | "medium" | "high";
+export type Severity = "mild" | "moderate" | "severe";
+
+export interface TriageInput {
+  species: string;
+  petName?: string;
+  symptoms: string[];
+  severity: Severity;
+  /** One of the analyzer's duration options, e.g. "few_days". */
+  duration: string;
+  appetite?: string;
+  energy?: string;
+  behaviorChanges?: string;
+  additionalNotes?: string;
+}
+
+export interface TriageResult {
+  urgency_level: Urgency;
+  possible_causes: string[];
+  recommendations: string[];
+  when_to_see_vet: string;
+  warning_signs: string[];
+}
+
+export interface AIProvider {
+  /** Stored with each analysis so results can be traced to their source. */
+  name: string;
+  model: string;
+  triage(input: TriageInput): Promise<TriageResult>;
+  /** A short, non-clinical tip for free-text symptoms. */
+  healthTip(symptoms: string): Promise<string>;
+}
+
+/** Thrown when a provider's response does not match `TRIAGE_RESPONSE_SCHEMA`. */
+export class AIResponseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AIResponseError";
+  }
+}
+
+const URGENCIES: Urgency[] = ["low", "medium", "high"];
+
+/** JSON Schema sent to providers that support structured output. */
+export const TRIAGE_RESPONSE_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  required: ["urgency_level", "possible_causes", "recommendations", "when_to_see_vet", "warning_signs"],
+  properties: {
+    urgency_level: { type: "string", enum: URGENCIES },
+    possible_causes: { type: "array", items: { type: "string" } },
+    recommendations: { type: "array", items: { type: "string" } },
+    when_to_see_vet: { type: "string" },
+    warning_signs: { type: "array", items: { type: "string" } }
+  }
+} as const;
+
+function stringList(value: unknown, field: string, minItems: number): string[] {
+  if (!Array.isArray(value) || value.some(item => typeof item !== "string")) {
+    throw new AIResponseError(`"${field}" must be an array of strings`);
+  }
+  const items = value.map(item => item.trim()).filter(Boolean);
+  if (items.length < minItems) {
+    throw new AIResponseError(`"${field}" needs at least ${minItems} item${minItems === 1 ? "" : "s"}`);
+  }
+  return items;
+}
+
+/**
+ * Checks a provider response against the triage schema and returns only the
+ * known fields. Accepts the raw JSON text or an already parsed value.
+ */
+export function validateTriageResult(raw: unknown): TriageResult {
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      throw new AIResponseError("Response is not valid JSON");
+    }
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new AIResponseError("Response must be a JSON object");
+  }
+
+  const result = value as Record<string, unknown>;
+  if (!URGENCIES.includes(result.urgency_level as Urgency)) {
+    throw new AIResponseError(`"urgency_level" must be one of ${URGENCIES.join(", ")}`);
+  }
+  if (typeof result.when_to_see_vet !== "string" || !result.when_to_see_vet.trim()) {
+    throw new AIResponseError(`"when_to_see_vet" must be a non-empty string`);
+  }
+
+  return {
+    urgency_level: result.urgency_level as Urgency,
+    possible_causes: stringList(result.possible_causes, "possible_causes", 0),
+    recommendations: stringList(result.recommendations, "recommendations", 1),
+    when_to_see_vet: result.when_to_see_vet.trim(),
+    warning_signs: stringList(result.warning_signs, "warning_signs", 0)
+  };
+}
@@ -0,0 +1,17 @@
+// Identifies anonymous senders for rate limiting without storing their IP.
+
+// Callers can send their own `X-Forwarded-For`, and the platform's proxy
+// appends the address it saw to the end, so only the rightmost entry can be
+// trusted. Requests that didn't come through the proxy share one bucket
+export function clientIp(req: Request): string {
+  const hops = (req.headers.get("x-forwarded-for") ?? "").split(",");
+  return hops[hops.length - 1].trim() || "unknown";
+}
+
+// Hashes an IP or email address for rate limiting. Callers salt with the
+// service role key so stored hashes cannot be matched against a list of
+// addresses by anyone without it
+export async function hashIdentifier(value: string, salt: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${salt}:${value}`));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
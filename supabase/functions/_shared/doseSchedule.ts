@@ -0,0 +1,142 @@
+// Expands medication schedules into dose instants. Used by the app's
+// medication tracker and the `reminder-dispatch` function; kept free of Deno
+// and browser APIs so both, and the tests, can import it.
+
+export type DoseFrequency = "daily" | "twice_daily" | "three_times_daily" | "weekly" | "as_needed";
+
+export interface DoseSchedule {
+  frequency: DoseFrequency;
+  /** Local wall-clock times, 'HH:MM'; empty means the frequency defaults. */
+  dose_times: string[] | null;
+  /** IANA zone; null on backfilled rows until the owner confirms one. */
+  timezone: string | null;
+  start_date: string;
+  end_date?: string | null;
+}
+
+/** Minutes after the scheduled time a dose still counts as on time. */
+export const LATE_GRACE_MINUTES = 60;
+
+export const DEFAULT_DOSE_TIMES: Record<DoseFrequency, string[]> = {
+  daily: ["08:00"],
+  twice_daily: ["08:00", "20:00"],
+  three_times_daily: ["08:00", "14:00", "20:00"],
+  weekly: ["08:00"],
+  as_needed: [],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Dose times for a medication, falling back to the frequency defaults when
+ * none were saved (e.g. rows backfilled from legacy health records).
+ */
+export function getDoseTimes(schedule: Pick<DoseSchedule, "frequency" | "dose_times">): string[] {
+  if (schedule.frequency === "as_needed") return [];
+  const times = schedule.dose_times?.length ? schedule.dose_times : DEFAULT_DOSE_TIMES[schedule.frequency] || [];
+  return [...times].sort();
+}
+
+/**
+ * The zone a schedule runs in, or null while it has none; backfilled rows
+ * wait for the owner rather than guessing.
+ */
+export function scheduleTimeZone(schedule: Pick<DoseSchedule, "timezone">): string | null {
+  if (!schedule.timezone) return null;
+  return isValidTimeZone(schedule.timezone) ? schedule.timezone : "UTC";
+}
+
+function zoneParts(instant: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+function zoneOffsetMs(instant: Date, timeZone: string): number {
+  const p = zoneParts(instant, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/** Converts a wall-clock date and time in `timeZone` to the matching instant. */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Two passes so times next to a DST transition pick up the right offset
+  const firstOffset = zoneOffsetMs(new Date(guess), timeZone);
+  const secondOffset = zoneOffsetMs(new Date(guess - firstOffset), timeZone);
+  return new Date(guess - secondOffset);
+}
+
+/** The calendar date ('YYYY-MM-DD') of an instant as seen in `timeZone`. */
+export function localDateInZone(instant: Date, timeZone: string): string {
+  const p = zoneParts(instant, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+}
+
+/** Shifts a 'YYYY-MM-DD' date by whole days. */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().split("T")[0];
+}
+
+function daysBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.split("-").map(Number);
+  const [ty, tm, td] = to.split("-").map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / DAY_MS);
+}
+
+/**
+ * Expands a medication schedule into concrete dose instants within [from, to].
+ * Weekly medications repeat on the weekday of their start date; as-needed
+ * medications and ones without a time zone have no schedule.
+ */
+export function expandDoses(schedule: DoseSchedule, from: Date, to: Date): Date[] {
+  const times = getDoseTimes(schedule);
+  const timeZone = scheduleTimeZone(schedule);
+  if (times.length === 0 || !timeZone || to < from) return [];
+
+  let day = addDays(localDateInZone(from, timeZone), -1);
+  if (day < schedule.start_date) day = schedule.start_date;
+  let lastDay = addDays(localDateInZone(to, timeZone), 1);
+  if (schedule.end_date && lastDay > schedule.end_date) lastDay = schedule.end_date;
+
+  const doses: Date[] = [];
+  for (; day <= lastDay; day = addDays(day, 1)) {
+    if (schedule.frequency === "weekly" && daysBetween(schedule.start_date, day) % 7 !== 0) continue;
+
+    for (const time of times) {
+      const instant = zonedTimeToUtc(day, time, timeZone);
+      if (instant >= from && instant <= to) doses.push(instant);
+    }
+  }
+
+  return doses;
+}
@@ -0,0 +1,90 @@
+// Masked email addresses for lost & found reports. Finders write to
+// `lost-<relay_alias>@<RELAY_EMAIL_DOMAIN>` and `lost-found-email-relay`
+// forwards the email to the reporter, with a Reply-To of
+// `lost-<relay_alias>.<reply_token>@<RELAY_EMAIL_DOMAIN>` so the reporter's
+// answer is relayed back without either side seeing the other's address.
+// Kept free of Deno and browser APIs so tests can import it too.
+
+export const RELAY_ALIAS_PREFIX = "lost-";
+/** Per sender address across all reports. */
+export const RELAY_EMAILS_PER_HOUR = 5;
+export const MAX_RELAY_EMAIL_LENGTH = 5000;
+
+const ALIAS_PATTERN = /^([a-z0-9]{12})(?:\.([a-f0-9]{16}))?$/;
+
+export interface RelayRecipient {
+  alias: string;
+  /** Set when the reporter is answering one finder's email. */
+  replyToken: string | null;
+}
+
+export function relayAliasAddress(alias: string, domain: string): string {
+  return `${RELAY_ALIAS_PREFIX}${alias}@${domain}`;
+}
+
+/** Where the reporter's reply to one forwarded email goes. */
+export function relayReplyAddress(alias: string, replyToken: string, domain: string): string {
+  return `${RELAY_ALIAS_PREFIX}${alias}.${replyToken}@${domain}`;
+}
+
+/** Pulls the bare address out of a header value like `Sam <sam@example.com>`. */
+export function extractAddress(header: string): string | null {
+  const bracketed = header.match(/<([^<>\s]+@[^<>\s]+)>/);
+  const address = (bracketed ? bracketed[1] : header).trim().toLowerCase();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address) ? address : null;
+}
+
+/** Finds the report alias, and reply token if any, among the recipients of an inbound email. */
+export function findRelayRecipient(recipients: string[], domain: string): RelayRecipient | null {
+  const suffix = `@${domain.toLowerCase()}`;
+  for (const recipient of recipients) {
+    const address = extractAddress(recipient);
+    if (!address?.startsWith(RELAY_ALIAS_PREFIX) || !address.endsWith(suffix)) continue;
+
+    const match = address.slice(RELAY_ALIAS_PREFIX.length, -suffix.length).match(ALIAS_PATTERN);
+    if (match) return { alias: match[1], replyToken: match[2] ?? null };
+  }
+  return null;
+}
+
+/**
+ * The email the reporter receives. Its Reply-To is a one-off relay address, so
+ * replying answers the sender without revealing the reporter's own address.
+ */
+export function forwardedRelayEmail(
+  { petName, sender, subject, text }: { petName: string; sender: string; subject: string; text: string },
+): { subject: string; text: string } {
+  const body = text.trim().slice(0, MAX_RELAY_EMAIL_LENGTH);
+
+  return {
+    subject: `About ${petName}: ${subject.trim() || "(no subject)"}`,
+    text: [
+      `${sender} wrote to the masked address on your lost & found report for ${petName}.`,
+      "Reply to this email to answer them; your own address stays hidden unless you share it.",
+      "Never send money or codes to someone you have not met.",
+      "",
+      "-----",
+      "",
+      body || "(empty message)",
+    ].join("\n"),
+  };
+}
+
+/** The reporter's answer as the original sender receives it; names no address. */
+export function relayReplyEmail(
+  { petName, subject, text }: { petName: string; subject: string; text: string },
+): { subject: string; text: string } {
+  const body = text.trim().slice(0, MAX_RELAY_EMAIL_LENGTH);
+
+  return {
+    subject: subject.trim() || `About ${petName}`,
+    text: [
+      `The reporter of the lost & found report for ${petName} replied through PawPilot HQ.`,
+      "Reply to this email to answer them.",
+      "",
+      "-----",
+      "",
+      body || "(empty message)",
+    ].join("\n"),
+  };
+}
@@ -0,0 +1,160 @@
+// Scores posts for the ranked "For You" feed. Used by the `feed-for-you`
+// function; kept free of Deno and browser APIs so the app and tests can
+// import it too.
+//
+// Each post earns up to 100 points, then decays with age:
+//
+//   Follow (20)       The viewer follows the author.
+//   Messages (15)     Messages from the author in the viewer's threads over
+//                     the last AFFINITY_DAYS, full at 10.
+//   Past likes (15)   The viewer's likes on the author's posts over the last
+//                     AFFINITY_DAYS, full at 5.
+//   Species (15)      The tagged pet is a species the viewer also keeps.
+//   Engagement (35)   Likes + 2 x comments + 3 x shares per hour since
+//                     posting, full at 5 an hour.
+//
+// The total is halved every RECENCY_HALF_LIFE_HOURS, so a fresh post from a
+// stranger can still outrank a stale one from a friend.
+
+export interface RankablePost {
+  id: string;
+  author_id: string;
+  created_at: string;
+  likes_count: number;
+  comments_count: number;
+  shares_count: number;
+  pets?: { species: string } | null;
+}
+
+/** What the viewer's own activity says about their interests. */
+export interface ViewerSignals {
+  followedAuthorIds: string[];
+  /** Author id -> messages they sent in the viewer's threads. */
+  messageCounts: Record<string, number>;
+  /** Author id -> the viewer's likes on their posts. */
+  likeCounts: Record<string, number>;
+  /** Species of the viewer's own pets. */
+  species: string[];
+}
+
+export type RankingReasonId = "follow" | "messages" | "likes" | "species" | "engagement";
+
+export interface RankingReason {
+  id: RankingReasonId;
+  points: number;
+  maxPoints: number;
+  detail: string;
+}
+
+export interface PostRanking {
+  score: number;
+  /** 0-1, applied to the summed points. */
+  recency: number;
+  /** Only factors that earned points, best first. */
+  reasons: RankingReason[];
+}
+
+export const AFFINITY_DAYS = 90;
+/** Only posts this recent are ranked. */
+export const CANDIDATE_DAYS = 14;
+export const RECENCY_HALF_LIFE_HOURS = 24;
+/** Engagement per hour earning full points. */
+const FULL_ENGAGEMENT_PER_HOUR = 5;
+/** Keeps a post a few minutes old from looking viral after one like. */
+const ENGAGEMENT_WARMUP_HOURS = 2;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+function normalizeSpecies(species: string): string {
+  return species.trim().toLowerCase();
+}
+
+function ageHours(post: RankablePost, now: Date): number {
+  return Math.max(0, (now.getTime() - new Date(post.created_at).getTime()) / HOUR_MS);
+}
+
+function scoreFollow(post: RankablePost, viewer: ViewerSignals): RankingReason {
+  const follows = viewer.followedAuthorIds.includes(post.author_id);
+  return { id: "follow", points: follows ? 20 : 0, maxPoints: 20, detail: "You follow this person" };
+}
+
+function scoreMessages(post: RankablePost, viewer: ViewerSignals): RankingReason {
+  const count = viewer.messageCounts[post.author_id] ?? 0;
+  return {
+    id: "messages",
+    points: Math.round(15 * Math.min(count, 10) / 10),
+    maxPoints: 15,
+    detail: `They sent you ${plural(count, "message")} recently`
+  };
+}
+
+function scoreLikes(post: RankablePost, viewer: ViewerSignals): RankingReason {
+  const count = viewer.likeCounts[post.author_id] ?? 0;
+  return {
+    id: "likes",
+    points: Math.round(15 * Math.min(count, 5) / 5),
+    maxPoints: 15,
+    detail: `You liked ${count} of their posts`
+  };
+}
+
+function scoreSpecies(post: RankablePost, viewer: ViewerSignals): RankingReason {
+  const species = post.pets?.species ? normalizeSpecies(post.pets.species) : null;
+  const shared = species !== null && viewer.species.some((s) => normalizeSpecies(s) === species);
+  return {
+    id: "species",
+    points: shared ? 15 : 0,
+    maxPoints: 15,
+    detail: shared ? `Features a ${species}, like your pets` : "No pet you share a species with"
+  };
+}
+
+function scoreEngagement(post: RankablePost, hours: number): RankingReason {
+  const interactions = post.likes_count + 2 * post.comments_count + 3 * post.shares_count;
+  const perHour = interactions / (hours + ENGAGEMENT_WARMUP_HOURS);
+  return {
+    id: "engagement",
+    points: Math.round(35 * Math.min(perHour / FULL_ENGAGEMENT_PER_HOUR, 1)),
+    maxPoints: 35,
+    detail: `${plural(post.likes_count, "like")}, ${plural(post.comments_count, "comment")} and ${plural(post.shares_count, "share")} since it was posted`
+  };
+}
+
+/** Ranking score and the reasons behind it, for the "why am I seeing this" view. */
+export function scoreFeedPost(post: RankablePost, viewer: ViewerSignals, now: Date = new Date()): PostRanking {
+  const hours = ageHours(post, now);
+  const factors = [
+    scoreFollow(post, viewer),
+    scoreMessages(post, viewer),
+    scoreLikes(post, viewer),
+    scoreSpecies(post, viewer),
+    scoreEngagement(post, hours)
+  ];
+
+  const points = factors.reduce((sum, f) => sum + f.points, 0);
+  const recency = Math.pow(0.5, hours / RECENCY_HALF_LIFE_HOURS);
+  return {
+    score: Math.round(points * recency * 10) / 10,
+    recency: Math.round(recency * 100) / 100,
+    reasons: factors.filter((f) => f.points > 0).sort((a, b) => b.points - a.points)
+  };
+}
+
+/** Highest score first; ties go to the newer post. */
+export function rankFeed<T extends RankablePost>(
+  posts: T[],
+  viewer: ViewerSignals,
+  now: Date = new Date()
+): Array<T & { ranking: PostRanking }> {
+  return posts
+    .map((post) => ({ ...post, ranking: scoreFeedPost(post, viewer, now) }))
+    .sort((a, b) =>
+      b.ranking.score - a.ranking.score ||
+      new Date(b.created_at).getTime() - new Date(a.created_at).getTime() ||
+      (a.id < b.id ? 1 : -1)
+    );
+}
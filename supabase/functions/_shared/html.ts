@@ -0,0 +1,12 @@
+// Escaping for user text placed in HTML: reminder emails, health summaries
+// and lost pet posters. Kept free of Deno and browser APIs so the functions,
+// the app and the tests can all import it.
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
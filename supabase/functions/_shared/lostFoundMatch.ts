@@ -0,0 +1,209 @@
+// Scores how likely a found report is the same pet as a lost report. Used by
+// the `lost-found-match` function; kept free of Deno and browser APIs so the
+// app and tests can import it too.
+//
+// Species must match. The other factors add up to 100 points, or 110 when
+// both reports have photo labels, and the score is the percentage earned:
+//
+//   Breed (20)        Same breed, or one name contains the other. Unknown on
+//                     either side keeps 8.
+//   Color (15)        Any shared color word. Unknown keeps 6.
+//   Description (15)  Share of distinctive words in common.
+//   Distance (25)     Full within 1 mile, nothing beyond MAX_MATCH_DISTANCE_MILES.
+//   Time gap (25)     Full when found within 3 days of going missing, nothing
+//                     after MAX_MATCH_DAYS. Found well before it was reported
+//                     lost means a different pet.
+//   Photo labels (10) Share of specific labels (breed, coat) in common.
+
+export interface MatchableReport {
+  id: string;
+  status: "lost" | "found" | "resolved";
+  species: string;
+  breed?: string | null;
+  color?: string | null;
+  description: string;
+  latitude: number;
+  longitude: number;
+  created_at: string;
+  /** Labels from `classify-media` for the report photo, if any. */
+  photo_labels?: Array<{ label: string; score: number }> | null;
+}
+
+export type MatchFactorId = "breed" | "color" | "description" | "distance" | "time_gap" | "photo";
+
+export interface MatchFactor {
+  id: MatchFactorId;
+  points: number;
+  maxPoints: number;
+  detail: string;
+}
+
+export interface MatchResult {
+  /** 0-100 */
+  score: number;
+  factors: MatchFactor[];
+  distanceMiles: number;
+}
+
+/** Pairs scoring at least this are shown to both reporters. */
+export const LIKELY_MATCH_SCORE = 60;
+export const MAX_MATCH_DISTANCE_MILES = 25;
+export const MAX_MATCH_DAYS = 60;
+/** A pet can be found a little before its owner gets round to reporting it. */
+const FOUND_BEFORE_LOST_GRACE_DAYS = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const COLORS = [
+  "black", "white", "brown", "tan", "grey", "gray", "golden", "gold", "yellow", "cream", "red",
+  "orange", "ginger", "brindle", "tabby", "calico", "tortoiseshell", "tortie", "merle", "spotted",
+  "tricolor", "chocolate", "blue", "silver", "fawn", "sable"
+];
+const COLOR_ALIASES: Record<string, string> = { gray: "grey", gold: "golden", ginger: "orange", tortie: "tortoiseshell" };
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "the", "with", "has", "have", "is", "was", "very", "on", "in", "of", "to", "at",
+  "he", "she", "it", "his", "her", "its", "my", "our", "we", "i", "found", "lost", "last", "seen",
+  "near", "wearing", "looks", "looking", "dog", "cat", "pet", "please", "call", "if", "no", "not",
+  "but", "or", "for", "this", "that", "be", "been", "around", "about", "who", "friendly"
+]);
+
+// classify-media labels that say nothing about which pet it is
+const GENERIC_LABELS = new Set([
+  "pet", "animal", "cute", "dog", "cat", "outdoor", "indoor", "happy", "sleeping"
+]);
+
+function normalize(text: string | null | undefined): string {
+  return (text || "").toLowerCase().replace(/[^a-z0-9\s-]/g, " ").replace(/\s+/g, " ").trim();
+}
+
+export function extractColors(text: string | null | undefined): string[] {
+  const words = normalize(text).split(/[\s-]+/);
+  return [...new Set(words.filter((w) => COLORS.includes(w)).map((w) => COLOR_ALIASES[w] || w))];
+}
+
+export function extractKeywords(text: string | null | undefined): string[] {
+  return [...new Set(
+    normalize(text).split(/[\s-]+/).filter((w) => w.length > 2 && !STOP_WORDS.has(w) && !COLORS.includes(w))
+  )];
+}
+
+function overlap(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const shared = a.filter((x) => b.includes(x)).length;
+  return shared / Math.min(a.length, b.length);
+}
+
+export function distanceMiles(a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }): number {
+  const R = 3959;
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLng = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * R * Math.asin(Math.sqrt(h));
+}
+
+function scoreBreed(lost: MatchableReport, found: MatchableReport): MatchFactor {
+  const a = normalize(lost.breed);
+  const b = normalize(found.breed);
+  if (!a || !b || a === "unknown" || b === "unknown") {
+    return { id: "breed", points: 8, maxPoints: 20, detail: "Breed unknown on one report" };
+  }
+  const same = a === b || a.includes(b) || b.includes(a) || overlap(a.split(" "), b.split(" ")) >= 1;
+  return same
+    ? { id: "breed", points: 20, maxPoints: 20, detail: `Both ${found.breed}` }
+    : { id: "breed", points: 0, maxPoints: 20, detail: `${lost.breed} vs ${found.breed}` };
+}
+
+function scoreColor(lost: MatchableReport, found: MatchableReport): MatchFactor {
+  const a = extractColors(`${lost.color || ""} ${lost.description}`);
+  const b = extractColors(`${found.color || ""} ${found.description}`);
+  if (a.length === 0 || b.length === 0) {
+    return { id: "color", points: 6, maxPoints: 15, detail: "Color unknown on one report" };
+  }
+  const shared = a.filter((c) => b.includes(c));
+  return shared.length > 0
+    ? { id: "color", points: 15, maxPoints: 15, detail: `Both ${shared.join("/")}` }
+    : { id: "color", points: 0, maxPoints: 15, detail: `${a.join("/")} vs ${b.join("/")}` };
+}
+
+function scoreDescription(lost: MatchableReport, found: MatchableReport): MatchFactor {
+  const a = extractKeywords(lost.description);
+  const b = extractKeywords(found.description);
+  const shared = a.filter((w) => b.includes(w));
+  return {
+    id: "description",
+    points: Math.round(15 * overlap(a, b)),
+    maxPoints: 15,
+    detail: shared.length > 0 ? `Both mention ${shared.slice(0, 4).join(", ")}` : "No details in common"
+  };
+}
+
+function scoreDistance(miles: number): MatchFactor {
+  const points = miles <= 1
+    ? 25
+    : Math.max(0, Math.round(25 * (1 - (miles - 1) / (MAX_MATCH_DISTANCE_MILES - 1))));
+  return { id: "distance", points, maxPoints: 25, detail: `${miles < 10 ? miles.toFixed(1) : Math.round(miles)} miles apart` };
+}
+
+function scoreTimeGap(lost: MatchableReport, found: MatchableReport): MatchFactor {
+  const days = (new Date(found.created_at).getTime() - new Date(lost.created_at).getTime()) / DAY_MS;
+  let points: number;
+  if (days < -FOUND_BEFORE_LOST_GRACE_DAYS) points = 0;
+  else if (days <= 3) points = 25;
+  else points = Math.max(0, Math.round(25 * (1 - (days - 3) / (MAX_MATCH_DAYS - 3))));
+
+  const whole = Math.round(Math.abs(days));
+  const detail = days < 0
+    ? `Found ${whole} day${whole === 1 ? "" : "s"} before the lost report`
+    : `Found ${whole} day${whole === 1 ? "" : "s"} after going missing`;
+  return { id: "time_gap", points, maxPoints: 25, detail };
+}
+
+function specificLabels(report: MatchableReport): string[] {
+  return (report.photo_labels || [])
+    .filter((l) => l.score >= 0.6)
+    .map((l) => normalize(l.label).replace(/[\s-]+/g, "_"))
+    .filter((l) => !GENERIC_LABELS.has(l));
+}
+
+function scorePhoto(lost: MatchableReport, found: MatchableReport): MatchFactor | null {
+  const a = specificLabels(lost);
+  const b = specificLabels(found);
+  if (a.length === 0 || b.length === 0) return null;
+  const shared = a.filter((l) => b.includes(l));
+  return {
+    id: "photo",
+    points: Math.round(10 * overlap(a, b)),
+    maxPoints: 10,
+    detail: shared.length > 0 ? `Photos both show ${shared.join(", ").replace(/_/g, " ")}` : "Photos look different"
+  };
+}
+
+/**
+ * Match score for a lost/found pair, or null when they cannot be the same pet
+ * (different species, too far apart, or too far apart in time).
+ */
+export function scoreMatch(lost: MatchableReport, found: MatchableReport): MatchResult | null {
+  if (normalize(lost.species) !== normalize(found.species)) return null;
+
+  const miles = distanceMiles(lost, found);
+  if (miles > MAX_MATCH_DISTANCE_MILES) return null;
+
+  const factors = [
+    scoreBreed(lost, found),
+    scoreColor(lost, found),
+    scoreDescription(lost, found),
+    scoreDistance(miles),
+    scoreTimeGap(lost, found)
+  ];
+  if (factors.find((f) => f.id === "time_gap")!.points === 0) return null;
+
+  const photo = scorePhoto(lost, found);
+  if (photo) factors.push(photo);
+
+  const points = factors.reduce((sum, f) => sum + f.points, 0);
+  const maxPoints = factors.reduce((sum, f) => sum + f.maxPoints, 0);
+  return { score: Math.round(100 * points / maxPoints), factors, distanceMiles: miles };
+}
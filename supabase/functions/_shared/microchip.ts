@@ -0,0 +1,121 @@
+// Checks microchip and tag lookups, and the messages a finder sends to a pet's
+// owner after one. Used by the `microchip-relay` function and the lookup page;
+// kept free of Deno and browser APIs so tests can import it too.
+
+import { EMAIL_PATTERN, MIN_FORM_SECONDS, PHONE_PATTERN } from "./sighting.ts";
+
+export interface RelayMessageInput {
+  /** From `lookup_microchip`; stands in for the pet and owner IDs. */
+  relay_token?: string;
+  message?: string;
+  contact_name?: string;
+  contact_phone?: string;
+  contact_email?: string;
+  /** Hidden field; people leave it empty, form-filling bots do not. */
+  website?: string;
+  /** When the form was opened (ms since epoch), to catch instant submits. */
+  form_started_at?: number;
+}
+
+export interface ValidRelayMessage {
+  relay_token: string;
+  message: string;
+  contact_name: string | null;
+  contact_phone: string | null;
+  contact_email: string | null;
+}
+
+export type RelayMessageCheck =
+  | { ok: true; relayMessage: ValidRelayMessage }
+  /** `spam` submissions get a fake success so bots learn nothing. */
+  | { ok: false; spam: boolean; error: string };
+
+export interface MicrochipLookupInput {
+  action: "lookup";
+  code?: string;
+}
+
+export const MAX_RELAY_MESSAGE_LENGTH = 500;
+/** Per finder (hashed IP) across all pets. */
+export const RELAY_MESSAGES_PER_HOUR = 5;
+/** Per pet from all finders, so owners can't be flooded from many addresses. */
+export const RELAY_MESSAGES_PER_PET_PER_DAY = 5;
+/** Per finder (hashed IP); enough to retry typos, too few to walk tag IDs. */
+export const LOOKUPS_PER_HOUR = 20;
+/** Per code prefix from all finders, so a scan spread over many IPs stalls. */
+export const LOOKUPS_PER_PREFIX_PER_HOUR = 10;
+/** Trailing characters left off the prefix; a scan walks these. */
+const PREFIX_VARYING_CHARS = 3;
+/** Shorter codes are refused; the shortest microchip numbers have 9 digits. */
+export const MIN_LOOKUP_CODE_LENGTH = 8;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Chips and tags are printed with spaces and dashes; match without them. */
+export function normalizeLookupCode(code: string): string {
+  return code.replace(/[^A-Za-z0-9]/g, "").toUpperCase();
+}
+
+/**
+ * The part of a normalized code that stays put while someone walks through
+ * neighbouring numbers.
+ */
+export function lookupCodePrefix(code: string): string {
+  return code.slice(0, Math.max(code.length - PREFIX_VARYING_CHARS, 0));
+}
+
+function clean(value: string | undefined, maxLength: number): string | null {
+  const text = (value ?? "").trim().slice(0, maxLength);
+  return text || null;
+}
+
+/**
+ * Validates a finder's message. The owner answers through the contact details
+ * given here, so at least one way to reach the finder is required.
+ */
+export function checkRelayMessage(input: RelayMessageInput, now: number = Date.now()): RelayMessageCheck {
+  if (input.website) {
+    return { ok: false, spam: true, error: "Honeypot field filled" };
+  }
+  if (!input.form_started_at || now - input.form_started_at < MIN_FORM_SECONDS * 1000) {
+    return { ok: false, spam: true, error: "Form submitted too quickly" };
+  }
+
+  if (!input.relay_token || !UUID_PATTERN.test(input.relay_token)) {
+    return { ok: false, spam: false, error: "Missing required fields" };
+  }
+
+  const message = clean(input.message, MAX_RELAY_MESSAGE_LENGTH + 1);
+  if (!message) {
+    return { ok: false, spam: false, error: "Tell the owner where the pet is" };
+  }
+  if (message.length > MAX_RELAY_MESSAGE_LENGTH) {
+    return { ok: false, spam: false, error: `Messages must be under ${MAX_RELAY_MESSAGE_LENGTH} characters` };
+  }
+  if (/https?:\/\/|www\./i.test(message)) {
+    return { ok: false, spam: true, error: "Links are not allowed" };
+  }
+
+  const email = clean(input.contact_email, 254);
+  const phone = clean(input.contact_phone, 30);
+  if (!email && !phone) {
+    return { ok: false, spam: false, error: "Leave a phone number or email so the owner can reach you" };
+  }
+  if (email && !EMAIL_PATTERN.test(email)) {
+    return { ok: false, spam: false, error: "Enter a valid email address" };
+  }
+  if (phone && !PHONE_PATTERN.test(phone)) {
+    return { ok: false, spam: false, error: "Enter a valid phone number" };
+  }
+
+  return {
+    ok: true,
+    relayMessage: {
+      relay_token: input.relay_token,
+      message,
+      contact_name: clean(input.contact_name, 100),
+      contact_phone: phone,
+      contact_email: email,
+    },
+  };
+}
@@ -0,0 +1,139 @@
+// Checks sightings sent from the public lost pet page, where visitors do not
+// need an account. Used by the `lost-pet-sighting` function; kept free of Deno
+// and browser APIs so tests can import it too.
+
+export interface SightingInput {
+  report_id?: string;
+  location_description?: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  /** ISO timestamp of when the pet was seen. */
+  seen_at?: string;
+  notes?: string;
+  contact_name?: string;
+  contact_phone?: string;
+  contact_email?: string;
+  /** Base64 data URL, e.g. `data:image/jpeg;base64,...` */
+  photo?: string | null;
+  /** Hidden field; people leave it empty, form-filling bots do not. */
+  website?: string;
+  /** When the form was opened (ms since epoch), to catch instant submits. */
+  form_started_at?: number;
+}
+
+export interface ValidSighting {
+  report_id: string;
+  location_description: string;
+  latitude: number | null;
+  longitude: number | null;
+  seen_at: string;
+  notes: string | null;
+  contact_name: string | null;
+  contact_phone: string | null;
+  contact_email: string | null;
+}
+
+export type SightingCheck =
+  | { ok: true; sighting: ValidSighting }
+  /** `spam` submissions get a fake success so bots learn nothing. */
+  | { ok: false; spam: boolean; error: string };
+
+export const MIN_FORM_SECONDS = 3;
+export const MAX_NOTES_LENGTH = 1000;
+export const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+export const PHOTO_TYPES = ["image/jpeg", "image/png", "image/webp"];
+/** Per visitor (hashed IP) across all reports. */
+export const SIGHTINGS_PER_HOUR = 5;
+/** Per visitor for a single report. */
+export const SIGHTINGS_PER_REPORT_PER_DAY = 3;
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+export const PHONE_PATTERN = /^[+\d][\d\s().-]{5,24}$/;
+
+const MAX_LINKS = 1;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function clean(value: string | undefined, maxLength: number): string | null {
+  const text = (value ?? "").trim().slice(0, maxLength);
+  return text || null;
+}
+
+function countLinks(text: string): number {
+  return (text.match(/https?:\/\/|www\./gi) || []).length;
+}
+
+/**
+ * Validates a public sighting. `reportCreatedAt` stops sightings dated before
+ * the pet went missing; a day of slack covers late reports.
+ */
+export function checkSighting(input: SightingInput, reportCreatedAt: string, now: number = Date.now()): SightingCheck {
+  if (input.website) {
+    return { ok: false, spam: true, error: "Honeypot field filled" };
+  }
+  if (!input.form_started_at || now - input.form_started_at < MIN_FORM_SECONDS * 1000) {
+    return { ok: false, spam: true, error: "Form submitted too quickly" };
+  }
+
+  if (!input.report_id || !UUID_PATTERN.test(input.report_id)) {
+    return { ok: false, spam: false, error: "Missing required fields" };
+  }
+
+  const location = clean(input.location_description, 200);
+  const hasCoordinates = typeof input.latitude === "number" && typeof input.longitude === "number" &&
+    Math.abs(input.latitude) <= 90 && Math.abs(input.longitude) <= 180;
+  if (!location) {
+    return { ok: false, spam: false, error: "Tell us where you saw the pet" };
+  }
+
+  const seenAt = input.seen_at ? new Date(input.seen_at).getTime() : NaN;
+  if (Number.isNaN(seenAt)) {
+    return { ok: false, spam: false, error: "Tell us when you saw the pet" };
+  }
+  if (seenAt > now + 5 * 60 * 1000) {
+    return { ok: false, spam: false, error: "The sighting time is in the future" };
+  }
+  if (seenAt < new Date(reportCreatedAt).getTime() - 24 * 60 * 60 * 1000) {
+    return { ok: false, spam: false, error: "The sighting is from before the pet went missing" };
+  }
+
+  if ((input.notes ?? "").trim().length > MAX_NOTES_LENGTH) {
+    return { ok: false, spam: false, error: `Notes must be under ${MAX_NOTES_LENGTH} characters` };
+  }
+  const notes = clean(input.notes, MAX_NOTES_LENGTH);
+  if (countLinks(`${notes ?? ""} ${location}`) > MAX_LINKS) {
+    return { ok: false, spam: true, error: "Too many links" };
+  }
+
+  const email = clean(input.contact_email, 254);
+  if (email && !EMAIL_PATTERN.test(email)) {
+    return { ok: false, spam: false, error: "Enter a valid email address" };
+  }
+  const phone = clean(input.contact_phone, 30);
+  if (phone && !PHONE_PATTERN.test(phone)) {
+    return { ok: false, spam: false, error: "Enter a valid phone number" };
+  }
+
+  return {
+    ok: true,
+    sighting: {
+      report_id: input.report_id,
+      location_description: location,
+      latitude: hasCoordinates ? input.latitude! : null,
+      longitude: hasCoordinates ? input.longitude! : null,
+      seen_at: new Date(seenAt).toISOString(),
+      notes,
+      contact_name: clean(input.contact_name, 100),
+      contact_phone: phone,
+      contact_email: email,
+    },
+  };
+}
+
+/** Splits a photo data URL, or returns null when it is not an allowed image. */
+export function parsePhotoDataUrl(dataUrl: string): { contentType: string; base64: string } | null {
+  const match = dataUrl.match(/^data:([a-z/]+);base64,([A-Za-z0-9+/=]+)$/);
+  if (!match || !PHOTO_TYPES.includes(match[1])) return null;
+  // Every 4 base64 characters hold 3 bytes
+  if (match[2].length * 3 / 4 > MAX_PHOTO_BYTES) return null;
+  return { contentType: match[1], base64: match[2] };
+}
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getAIProviders, triageWith } from "../_shared/ai/index.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -18,6 +19,8 @@ interface SymptomAnalysisPayload {
   energy: string;
   behavior_changes?: string;
   additional_notes?: string;
+  /** Owner's local date for the record; defaults to today in UTC. */
+  recorded_on?: string;
 }
 
 serve(async (req) => {
@@ -66,124 +69,83 @@ serve(async (req) => {
       );
     }
 
-    // Check if OpenAI API key is available
-    const openaiApiKey = Deno.env.get("OPENAI_API_KEY");
-    if (!openaiApiKey) {
-      // Return a mock analysis if no API key
-      const mockAnalysis = {
-        analysis_type: "mock",
-        urgency_level: payload.severity === "severe" ? "high" : payload.severity === "moderate" ? "medium" : "low",
-        recommendations: [
-          "Monitor your pet closely for any changes",
-          "Ensure your pet stays hydrated",
-          "Contact your veterinarian if symptoms worsen",
-          "Keep a log of symptoms and their frequency"
-        ],
-        when_to_see_vet: payload.severity === "severe" 
-          ? "Seek immediate veterinary attention"
-          : payload.severity === "moderate"
-          ? "Schedule a veterinary appointment within 24-48 hours"
-          : "Monitor for 24-48 hours, contact vet if symptoms persist or worsen",
-        disclaimer: "This is a mock analysis for demonstration purposes. Always consult with a qualified veterinarian for proper diagnosis and treatment.",
-        generated_at: new Date().toISOString()
-      };
-
-      return new Response(
-        JSON.stringify(mockAnalysis),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    // Prepare prompt for OpenAI
-    const prompt = `As a veterinary AI assistant, analyze the following symptoms for a ${payload.pet_species} named ${payload.pet_name}:
-
-Symptoms: ${payload.symptoms.join(", ")}
-Duration: ${payload.duration}
-Severity: ${payload.severity}
-Appetite: ${payload.appetite}
-Energy Level: ${payload.energy}
-${payload.behavior_changes ? `Behavior Changes: ${payload.behavior_changes}` : ''}
-${payload.additional_notes ? `Additional Notes: ${payload.additional_notes}` : ''}
-
-Please provide:
-1. Urgency level (low/medium/high)
-2. Possible causes (list 3-5 most likely)
-3. Immediate care recommendations
-4. When to see a veterinarian
-5. Warning signs to watch for
-
-Format as JSON with keys: urgency_level, possible_causes, recommendations, when_to_see_vet, warning_signs.
-
-Remember: This is preliminary guidance only. Always recommend professional veterinary consultation for proper diagnosis.`;
-
-    // Call OpenAI API
-    const openaiResponse = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${openaiApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-3.5-turbo",
-        messages: [
-          {
-            role: "system",
-            content: "You are a helpful veterinary AI assistant. Provide preliminary symptom analysis while always emphasizing the need for professional veterinary care."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        max_tokens: 1000,
-        temperature: 0.3
-      }),
+    // The first configured provider that answers wins; the rule-based
+    // provider is always last, so this works without network access
+    const { result, provider } = await triageWith(getAIProviders(name => Deno.env.get(name)), {
+      species: payload.pet_species,
+      petName: payload.pet_name,
+      symptoms: payload.symptoms,
+      severity: payload.severity,
+      duration: payload.duration,
+      appetite: payload.appetite,
+      energy: payload.energy,
+      behaviorChanges: payload.behavior_changes,
+      additionalNotes: payload.additional_notes
     });
 
-    if (!openaiResponse.ok) {
-      throw new Error(`OpenAI API error: ${openaiResponse.status}`);
-    }
-
-    const openaiData = await openaiResponse.json();
-    const analysisText = openaiData.choices[0]?.message?.content;
-
-    if (!analysisText) {
-      throw new Error("No analysis received from OpenAI");
-    }
+    const analysis: Record<string, unknown> = {
+      ...result,
+      analysis_type: provider.name === "local" ? "rule_based" : "ai_generated",
+      provider: provider.name,
+      model: provider.model,
+      disclaimer: provider.name === "local"
+        ? "This triage is based on general rules, not a diagnosis. Always consult with a qualified veterinarian for proper diagnosis and treatment."
+        : "This AI analysis is for informational purposes only. Always consult with a qualified veterinarian for proper diagnosis and treatment.",
+      generated_at: new Date().toISOString()
+    };
+
+    // Keep the owner's answers with the analysis so episodes can be compared
+    analysis.inputs = {
+      symptoms: payload.symptoms,
+      duration: payload.duration,
+      severity: payload.severity,
+      appetite: payload.appetite,
+      energy: payload.energy,
+      behavior_changes: payload.behavior_changes || undefined,
+      additional_notes: payload.additional_notes || undefined
+    };
+
+    // Save the analysis as a symptom health record
+    const { data: record, error: recordError } = await supabaseClient
+      .from("health_records")
+      .insert({
+        pet_id: payload.pet_id,
+        type: "symptom",
+        title: payload.symptoms.length > 3
+          ? `${payload.symptoms.slice(0, 3).join(", ")} +${payload.symptoms.length - 3} more`
+          : payload.symptoms.join(", "),
+        description: [
+          `Symptoms: ${payload.symptoms.join(", ")}`,
+          `Severity: ${payload.severity}`,
+          payload.additional_notes
+        ].filter(Boolean).join("\n"),
+        date: payload.recorded_on || new Date().toISOString().split("T")[0],
+        symptom_analysis: analysis,
+        symptom_outcome: "monitoring"
+      })
+      .select("id")
+      .single();
 
-    // Parse JSON response
-    let analysis;
-    try {
-      analysis = JSON.parse(analysisText);
-    } catch (error) {
-      // If JSON parsing fails, create structured response
-      analysis = {
-        urgency_level: payload.severity === "severe" ? "high" : payload.severity === "moderate" ? "medium" : "low",
-        analysis_text: analysisText,
-        recommendations: ["Consult with your veterinarian for proper diagnosis"],
-        when_to_see_vet: "Schedule a veterinary appointment to discuss these symptoms"
-      };
+    if (recordError) {
+      throw recordError;
     }
 
-    // Add metadata
-    analysis.analysis_type = "ai_generated";
-    analysis.generated_at = new Date().toISOString();
-    analysis.disclaimer = "This AI analysis is for informational purposes only. Always consult with a qualified veterinarian for proper diagnosis and treatment.";
-
     // Log the analysis
     await supabaseClient.from("app_events").insert({
       user_id: user.id,
       event: "symptom_analysis_completed",
       meta: {
         pet_id: payload.pet_id,
+        health_record_id: record.id,
         symptoms_count: payload.symptoms.length,
         severity: payload.severity,
-        urgency_level: analysis.urgency_level
+        urgency_level: analysis.urgency_level,
+        provider: provider.name
       },
     });
 
     return new Response(
-      JSON.stringify(analysis),
+      JSON.stringify({ ...analysis, health_record_id: record.id }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
@@ -194,4 +156,5 @@ Remember: This is preliminary guidance only. Always recommend professional veter
       { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   }
-});
\ No newline at end of file
+});
+
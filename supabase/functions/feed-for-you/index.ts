@@ -0,0 +1,177 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  rankFeed,
+  AFFINITY_DAYS,
+  CANDIDATE_DAYS,
+  type RankablePost,
+  type ViewerSignals,
+} from "../_shared/feedRanking.ts";
+
+// One page of the ranked "For You" feed. Recent posts the caller can see are
+// scored against their follows, messages, likes and pets, and each returned
+// post carries the reasons behind its score. Posts first shown in an earlier
+// visit are left out; within a visit the app passes the ids it already has.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Most recent visible posts considered for ranking. */
+const MAX_CANDIDATES = 300;
+/** Posts shown this recently may come back, e.g. after pulling to refresh. */
+const SEEN_GRACE_MINUTES = 30;
+const DEFAULT_PAGE_SIZE = 20;
+
+function countBy(ids: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const id of ids) counts[id] = (counts[id] ?? 0) + 1;
+  return counts;
+}
+
+async function loadViewerSignals(supabaseClient: SupabaseClient, userId: string): Promise<ViewerSignals> {
+  const since = new Date(Date.now() - AFFINITY_DAYS * DAY_MS).toISOString();
+
+  const [follows, likes, threads, pets] = await Promise.all([
+    supabaseClient.from("user_follows").select("following_id").eq("follower_id", userId),
+    supabaseClient
+      .from("post_likes")
+      .select("posts(author_id)")
+      .eq("user_id", userId)
+      .gte("created_at", since)
+      .limit(500),
+    supabaseClient.from("thread_participants").select("thread_id").eq("user_id", userId),
+    supabaseClient.from("pets").select("species").eq("owner_id", userId),
+  ]);
+
+  for (const result of [follows, likes, threads, pets]) {
+    if (result.error) throw result.error;
+  }
+
+  const threadIds = (threads.data || []).map((t) => t.thread_id);
+  let senderIds: string[] = [];
+  if (threadIds.length > 0) {
+    const { data: messages, error } = await supabaseClient
+      .from("messages")
+      .select("sender_id")
+      .in("thread_id", threadIds)
+      .neq("sender_id", userId)
+      .gte("created_at", since)
+      .limit(1000);
+    if (error) throw error;
+    senderIds = (messages || []).map((m) => m.sender_id);
+  }
+
+  return {
+    followedAuthorIds: (follows.data || []).map((f) => f.following_id),
+    messageCounts: countBy(senderIds),
+    likeCounts: countBy(
+      (likes.data || [])
+        .map((l) => (l.posts as unknown as { author_id: string } | null)?.author_id)
+        .filter((id): id is string => !!id)
+    ),
+    species: [...new Set((pets.data || []).map((p) => p.species as string))],
+  };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const authHeader = req.headers.get("Authorization")!;
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(
+      authHeader.replace("Bearer ", "")
+    );
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { page_size, exclude_ids }: { page_size?: number; exclude_ids?: string[] } =
+      await req.json().catch(() => ({}));
+    const pageSize = Math.min(Math.max(Math.floor(page_size ?? DEFAULT_PAGE_SIZE), 1), 50);
+
+    // Candidates come from `feed_posts` as the caller, so the feed's visibility
+    // rules and the caller's liked/saved flags apply unchanged
+    const callerClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const now = new Date();
+    const candidateSince = new Date(now.getTime() - CANDIDATE_DAYS * DAY_MS).toISOString();
+    const seenBefore = new Date(now.getTime() - SEEN_GRACE_MINUTES * 60 * 1000).toISOString();
+
+    const [signals, candidates, seen] = await Promise.all([
+      loadViewerSignals(supabaseClient, user.id),
+      callerClient
+        .from("feed_posts")
+        .select("*")
+        .neq("author_id", user.id)
+        .gte("created_at", candidateSince)
+        .order("created_at", { ascending: false })
+        .limit(MAX_CANDIDATES),
+      supabaseClient
+        .from("feed_impressions")
+        .select("post_id")
+        .eq("user_id", user.id)
+        .gte("first_seen_at", candidateSince)
+        .lt("first_seen_at", seenBefore),
+    ]);
+
+    if (candidates.error || seen.error) {
+      console.error("Error loading feed candidates:", candidates.error || seen.error);
+      return new Response(
+        JSON.stringify({ error: "Failed to load feed" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const skip = new Set([...(seen.data || []).map((s) => s.post_id), ...(exclude_ids || [])]);
+    const ranked = rankFeed(
+      ((candidates.data || []) as RankablePost[]).filter((post) => !skip.has(post.id)),
+      signals,
+      now
+    );
+    const posts = ranked.slice(0, pageSize);
+
+    if (posts.length > 0) {
+      // Keep the first time each post was shown so the grace period runs from it
+      const { error: impressionError } = await supabaseClient
+        .from("feed_impressions")
+        .upsert(
+          posts.map((post) => ({ user_id: user.id, post_id: post.id })),
+          { onConflict: "user_id,post_id", ignoreDuplicates: true }
+        );
+      if (impressionError) {
+        console.error("Error recording feed impressions:", impressionError);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ posts, has_more: ranked.length > pageSize }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Ranked feed error:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
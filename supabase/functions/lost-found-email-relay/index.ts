@@ -0,0 +1,218 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  extractAddress,
+  findRelayRecipient,
+  forwardedRelayEmail,
+  relayAliasAddress,
+  relayReplyAddress,
+  relayReplyEmail,
+  RELAY_EMAILS_PER_HOUR,
+} from "../_shared/emailRelay.ts";
+import { hashIdentifier } from "../_shared/clientIp.ts";
+
+// Receives emails sent to a report's masked address from SendGrid Inbound
+// Parse and forwards them to the reporter, and relays the reporter's replies
+// back to the sender, always from the masked address. The webhook URL carries
+// `?key=RELAY_INBOUND_SECRET`, since Inbound Parse cannot sign requests.
+// Dropped emails still get a 200 so SendGrid does not retry them.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function ok(body: Record<string, unknown>) {
+  return new Response(JSON.stringify(body), { headers: { "Content-Type": "application/json" } });
+}
+
+function sendEmail(
+  apiKey: string,
+  { to, from, replyTo, subject, text }: { to: string; from: string; replyTo?: string; subject: string; text: string },
+) {
+  return fetch("https://api.sendgrid.com/v3/mail/send", {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      personalizations: [{ to: [{ email: to }], subject }],
+      from: { email: from, name: "PawPilot HQ Lost & Found" },
+      ...(replyTo ? { reply_to: { email: replyTo } } : {}),
+      content: [{ type: "text/plain", value: text }],
+    }),
+  });
+}
+
+serve(async (req) => {
+  try {
+    const secret = Deno.env.get("RELAY_INBOUND_SECRET");
+    if (!secret || new URL(req.url).searchParams.get("key") !== secret) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const domain = Deno.env.get("RELAY_EMAIL_DOMAIN");
+    const sendGridApiKey = Deno.env.get("SENDGRID_API_KEY");
+    if (!domain || !sendGridApiKey) {
+      return new Response(
+        JSON.stringify({ error: "Email relay is not configured" }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabaseClient = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceRoleKey);
+
+    const form = await req.formData();
+    const field = (name: string) => String(form.get(name) ?? "");
+
+    // The envelope lists the real recipients, including Bcc
+    let recipients = field("to").split(",");
+    try {
+      const envelope = JSON.parse(field("envelope") || "{}");
+      if (Array.isArray(envelope.to)) recipients = envelope.to;
+    } catch {
+      // Fall back to the To header
+    }
+
+    const recipient = findRelayRecipient(recipients, domain);
+    const sender = extractAddress(field("from"));
+    if (!recipient || !sender) {
+      return ok({ forwarded: false });
+    }
+    const alias = recipient.alias;
+
+    const { data: report } = await supabaseClient
+      .from("lost_found")
+      .select("id, reporter_id, pet_name, is_resolved, lost_found_contacts(contact_email)")
+      .eq("relay_alias", alias)
+      .maybeSingle();
+
+    if (!report || report.is_resolved) {
+      return ok({ forwarded: false });
+    }
+
+    const senderHash = await hashIdentifier(sender, serviceRoleKey);
+    const { count } = await supabaseClient
+      .from("lost_found_email_relays")
+      .select("id", { count: "exact", head: true })
+      .eq("sender_hash", senderHash)
+      .gte("created_at", new Date(Date.now() - HOUR_MS).toISOString());
+
+    if ((count ?? 0) >= RELAY_EMAILS_PER_HOUR) {
+      console.warn("Dropped relay email over the hourly limit for report", report.id);
+      return ok({ forwarded: false });
+    }
+
+    // Fall back to the account email when the report has no contact email
+    const contacts = report.lost_found_contacts as { contact_email: string | null } | null;
+    const { data: { user: reporter } } = await supabaseClient.auth.admin.getUserById(report.reporter_id);
+    const reporterEmail = contacts?.contact_email ?? reporter?.email ?? null;
+    if (!reporterEmail) {
+      return ok({ forwarded: false });
+    }
+
+    if (recipient.replyToken) {
+      // Only the reporter holds a reply address, but anyone could guess at one
+      const reporterAddresses = [contacts?.contact_email, reporter?.email].map(e => e?.toLowerCase());
+      if (!reporterAddresses.includes(sender)) {
+        return ok({ forwarded: false });
+      }
+
+      const { data: original } = await supabaseClient
+        .from("lost_found_email_relays")
+        .select("sender_email")
+        .eq("report_id", report.id)
+        .eq("reply_token", recipient.replyToken)
+        .maybeSingle();
+      if (!original?.sender_email) {
+        return ok({ forwarded: false });
+      }
+
+      const reply = relayReplyEmail({
+        petName: report.pet_name,
+        subject: field("subject"),
+        text: field("text"),
+      });
+      const response = await sendEmail(sendGridApiKey, {
+        to: original.sender_email,
+        from: relayAliasAddress(alias, domain),
+        subject: reply.subject,
+        text: reply.text,
+      });
+
+      if (!response.ok) {
+        console.error("SendGrid API error relaying reply:", response.status);
+        return new Response(
+          JSON.stringify({ error: "Failed to forward email" }),
+          { status: 502, headers: { "Content-Type": "application/json" } }
+        );
+      }
+
+      await supabaseClient.from("lost_found_email_relays").insert({
+        report_id: report.id,
+        sender_hash: senderHash,
+      });
+
+      return ok({ forwarded: true });
+    }
+
+    const replyToken = crypto.randomUUID().replace(/-/g, "").slice(0, 16);
+    const email = forwardedRelayEmail({
+      petName: report.pet_name,
+      sender,
+      subject: field("subject"),
+      text: field("text"),
+    });
+
+    const response = await sendEmail(sendGridApiKey, {
+      to: reporterEmail,
+      from: relayAliasAddress(alias, domain),
+      replyTo: relayReplyAddress(alias, replyToken, domain),
+      subject: email.subject,
+      text: email.text,
+    });
+
+    if (!response.ok) {
+      console.error("SendGrid API error forwarding relay email:", response.status);
+      return new Response(
+        JSON.stringify({ error: "Failed to forward email" }),
+        { status: 502, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    await supabaseClient.from("lost_found_email_relays").insert({
+      report_id: report.id,
+      sender_hash: senderHash,
+      sender_email: sender,
+      reply_token: replyToken,
+    });
+
+    const { error: notificationError } = await supabaseClient.from("notifications").insert({
+      user_id: report.reporter_id,
+      type: "lost_found",
+      title: `New email about ${report.pet_name}`,
+      message: "Someone wrote to your report's masked email address. Check your inbox; replying keeps your address hidden.",
+      related_id: report.id,
+    });
+    if (notificationError) {
+      console.error("Error creating relay email notification:", notificationError);
+    }
+
+    await supabaseClient.from("app_events").insert({
+      user_id: null,
+      event: "lost_found_email_relay",
+      meta: { report_id: report.id },
+    });
+
+    return ok({ forwarded: true });
+  } catch (error) {
+    console.error("Lost & found email relay error:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,236 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  scoreMatch,
+  LIKELY_MATCH_SCORE,
+  MAX_MATCH_DISTANCE_MILES,
+  MAX_MATCH_DAYS,
+  type MatchableReport,
+} from "../_shared/lostFoundMatch.ts";
+
+// Compares a new lost or found report with open reports of the other kind
+// nearby and stores likely matches. Both reporters get a "this might be your
+// pet" notification for each new match. Called by the reporter's app after
+// creating a report, once its photo (if any) has been classified.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Report extends MatchableReport {
+  reporter_id: string;
+  pet_name: string;
+  is_resolved: boolean;
+  photo_url: string | null;
+}
+
+// Public storage URL: .../storage/v1/object/public/<bucket>/<path>
+function storagePath(url: string | null): string | null {
+  const match = url?.match(/\/storage\/v1\/object\/public\/[^/]+\/(.+)$/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+async function attachPhotoLabels(supabaseClient: SupabaseClient, reports: Report[]): Promise<void> {
+  const paths = reports.map((r) => storagePath(r.photo_url)).filter((p): p is string => !!p);
+  if (paths.length === 0) return;
+
+  const { data, error } = await supabaseClient
+    .from("ai_predictions")
+    .select("subject_path, labels, created_at")
+    .in("subject_path", paths)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("Error loading photo labels:", error);
+    return;
+  }
+
+  // Newest prediction per photo wins
+  const labelsByPath = new Map<string, MatchableReport["photo_labels"]>();
+  for (const row of data || []) {
+    if (!labelsByPath.has(row.subject_path)) labelsByPath.set(row.subject_path, row.labels);
+  }
+  for (const report of reports) {
+    const path = storagePath(report.photo_url);
+    if (path) report.photo_labels = labelsByPath.get(path) ?? null;
+  }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const authHeader = req.headers.get("Authorization")!;
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(
+      authHeader.replace("Bearer ", "")
+    );
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { report_id }: { report_id?: string } = await req.json();
+
+    if (!report_id) {
+      return new Response(
+        JSON.stringify({ error: "Missing required fields" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: report, error: reportError } = await supabaseClient
+      .from("lost_found")
+      .select("*")
+      .eq("id", report_id)
+      .single();
+
+    if (reportError || !report || report.reporter_id !== user.id) {
+      return new Response(
+        JSON.stringify({ error: "Report not found or unauthorized" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (report.is_resolved || (report.status !== "lost" && report.status !== "found")) {
+      return new Response(
+        JSON.stringify({ success: true, matches: [] }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: nearby, error: nearbyError } = await supabaseClient.rpc("search_lost_found", {
+      p_lat: report.latitude,
+      p_lng: report.longitude,
+      p_radius_miles: MAX_MATCH_DISTANCE_MILES,
+      p_status: report.status === "lost" ? "found" : "lost",
+      p_limit: 100,
+    });
+
+    if (nearbyError) {
+      console.error("Error finding candidate reports:", nearbyError);
+      return new Response(
+        JSON.stringify({ error: "Failed to find candidates" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const reportTime = new Date(report.created_at).getTime();
+    const candidates = ((nearby || []) as Report[]).filter((c) =>
+      c.species === report.species &&
+      c.reporter_id !== report.reporter_id &&
+      Math.abs(new Date(c.created_at).getTime() - reportTime) <= MAX_MATCH_DAYS * DAY_MS
+    );
+
+    if (candidates.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, matches: [] }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    await attachPhotoLabels(supabaseClient, [report as Report, ...candidates]);
+
+    const scored = candidates
+      .map((candidate) => {
+        const [lost, found] = report.status === "lost" ? [report, candidate] : [candidate, report];
+        return { lost, found, result: scoreMatch(lost, found) };
+      })
+      .filter((m) => m.result && m.result.score >= LIKELY_MATCH_SCORE);
+
+    if (scored.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, matches: [] }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Pairs already stored (from an earlier call) are not returned, so their
+    // reporters are not notified twice
+    const { data: created, error: matchError } = await supabaseClient
+      .from("lost_found_matches")
+      .upsert(
+        scored.map(({ lost, found, result }) => ({
+          lost_report_id: lost.id,
+          found_report_id: found.id,
+          score: result!.score,
+          factors: result!.factors,
+          distance_miles: Math.round(result!.distanceMiles * 10) / 10,
+        })),
+        { onConflict: "lost_report_id,found_report_id", ignoreDuplicates: true }
+      )
+      .select("id, lost_report_id, found_report_id, score");
+
+    if (matchError) {
+      console.error("Error saving matches:", matchError);
+      return new Response(
+        JSON.stringify({ error: "Failed to save matches" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const reportsById = new Map<string, Report>(
+      [report as Report, ...candidates].map((r) => [r.id, r])
+    );
+    const notifications = (created || []).flatMap((match) => {
+      const lost = reportsById.get(match.lost_report_id)!;
+      const found = reportsById.get(match.found_report_id)!;
+      return [
+        {
+          user_id: lost.reporter_id,
+          type: "lost_found",
+          title: `This might be ${lost.pet_name}`,
+          message: `A found ${found.species} nearby is a ${match.score}% match. Take a look and confirm if it's your pet.`,
+          related_id: found.id,
+          from_user_id: found.reporter_id,
+        },
+        {
+          user_id: found.reporter_id,
+          type: "lost_found",
+          title: `The pet you found might be ${lost.pet_name}`,
+          message: `A lost ${lost.species} report nearby is a ${match.score}% match. The owner has been notified.`,
+          related_id: lost.id,
+          from_user_id: lost.reporter_id,
+        },
+      ];
+    });
+
+    if (notifications.length > 0) {
+      const { error: notificationError } = await supabaseClient.from("notifications").insert(notifications);
+      if (notificationError) {
+        console.error("Error creating match notifications:", notificationError);
+      }
+    }
+
+    await supabaseClient.from("app_events").insert({
+      user_id: user.id,
+      event: "lost_found_matched",
+      meta: { report_id: report.id, candidates: candidates.length, matches: created?.length ?? 0 },
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, matches: created || [] }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Lost & found matching error:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
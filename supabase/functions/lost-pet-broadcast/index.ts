@@ -0,0 +1,199 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Alerts users near the last-seen location of a new lost report. Called by
+// the reporter's app right after the insert, or by a Database Webhook on
+// `lost_found` inserts using the service role key. Safe to call twice: users
+// already alerted about a report are skipped.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const DEFAULT_RADIUS_MILES = 5;
+const DEFAULT_DAILY_LIMIT = 3;
+
+interface BroadcastPayload {
+  report_id?: string;
+  /** Database Webhook payload */
+  type?: string;
+  record?: { id: string };
+}
+
+interface Recipient {
+  user_id: string;
+  distance_miles: number;
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabaseClient = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceRoleKey);
+
+    const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+    const isServiceCall = !!serviceRoleKey && token === serviceRoleKey;
+    const { data: { user }, error: authError } = isServiceCall
+      ? { data: { user: null }, error: null }
+      : await supabaseClient.auth.getUser(token);
+
+    if (!isServiceCall && (authError || !user)) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const payload: BroadcastPayload = await req.json();
+    const reportId = payload.report_id ?? payload.record?.id;
+
+    if (!reportId) {
+      return new Response(
+        JSON.stringify({ error: "Missing required fields" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: report, error: reportError } = await supabaseClient
+      .from("lost_found")
+      .select("id, reporter_id, status, is_resolved, pet_name, species, last_seen_location")
+      .eq("id", reportId)
+      .single();
+
+    if (reportError || !report || (!isServiceCall && report.reporter_id !== user?.id)) {
+      return new Response(
+        JSON.stringify({ error: "Report not found or unauthorized" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (report.status !== "lost" || report.is_resolved) {
+      return new Response(
+        JSON.stringify({ success: true, alerted: 0 }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const radiusMiles = numberFromEnv("LOST_PET_ALERT_RADIUS_MILES", DEFAULT_RADIUS_MILES);
+    const dailyLimit = numberFromEnv("LOST_PET_ALERT_DAILY_LIMIT", DEFAULT_DAILY_LIMIT);
+
+    const { data: recipients, error: recipientsError } = await supabaseClient.rpc("lost_pet_alert_recipients", {
+      p_report_id: report.id,
+      p_radius_miles: radiusMiles,
+      p_daily_limit: dailyLimit,
+    });
+
+    if (recipientsError) {
+      console.error("Error finding alert recipients:", recipientsError);
+      return new Response(
+        JSON.stringify({ error: "Failed to find recipients" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!recipients?.length) {
+      return new Response(
+        JSON.stringify({ success: true, alerted: 0 }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Claim recipients before sending, as reminder-dispatch does, so a
+    // concurrent call cannot alert the same user twice
+    const { data: claimed, error: claimError } = await supabaseClient
+      .from("lost_pet_alert_deliveries")
+      .upsert(
+        (recipients as Recipient[]).map((r) => ({
+          report_id: report.id,
+          user_id: r.user_id,
+          distance_miles: r.distance_miles,
+        })),
+        { onConflict: "report_id,user_id", ignoreDuplicates: true }
+      )
+      .select("id, user_id");
+
+    if (claimError) {
+      console.error("Error claiming alert recipients:", claimError);
+      return new Response(
+        JSON.stringify({ error: "Failed to claim recipients" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const userIds = (claimed || []).map((row) => row.user_id);
+    if (userIds.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, alerted: 0 }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const title = `Lost ${report.species} nearby: ${report.pet_name}`;
+    const message = `Last seen near ${report.last_seen_location}. Keep an eye out!`;
+
+    const { error: notificationError } = await supabaseClient.from("notifications").insert(
+      userIds.map((userId) => ({
+        user_id: userId,
+        type: "lost_found",
+        title,
+        message,
+        related_id: report.id,
+        from_user_id: report.reporter_id,
+      }))
+    );
+    if (notificationError) {
+      console.error("Error creating lost pet notifications:", notificationError);
+    }
+
+    const { data: pushResult, error: pushError } = await supabaseClient.functions.invoke("push-send", {
+      body: { user_ids: userIds, title, body: message, url: `/lostfound#report-${report.id}` },
+    });
+    if (pushError) {
+      console.error("Error sending lost pet push:", pushError);
+    }
+
+    const pushed = new Set(
+      ((pushResult?.results || []) as Array<{ user_id?: string; status: string }>)
+        .filter((r) => r.status === "sent" && r.user_id)
+        .map((r) => r.user_id)
+    );
+
+    await Promise.allSettled(
+      (claimed || []).map((row) => {
+        const channels = [
+          ...(notificationError ? [] : ["in_app"]),
+          ...(pushed.has(row.user_id) ? ["push"] : []),
+        ];
+        return supabaseClient.from("lost_pet_alert_deliveries").update({ channels }).eq("id", row.id);
+      })
+    );
+
+    await supabaseClient.from("app_events").insert({
+      user_id: report.reporter_id,
+      event: "lost_pet_broadcast",
+      meta: { report_id: report.id, radius_miles: radiusMiles, alerted: userIds.length, pushed: pushed.size },
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, alerted: userIds.length }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Lost pet broadcast error:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
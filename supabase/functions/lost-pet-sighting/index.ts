@@ -0,0 +1,184 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  checkSighting,
+  parsePhotoDataUrl,
+  SIGHTINGS_PER_HOUR,
+  SIGHTINGS_PER_REPORT_PER_DAY,
+  type SightingInput,
+} from "../_shared/sighting.ts";
+import { clientIp, hashIdentifier } from "../_shared/clientIp.ts";
+
+// Takes a sighting from the public lost pet page and tells the owner. Visitors
+// do not need an account, so every sender is rate limited by a hash of their
+// IP, and obvious bots get a success response without anything being stored.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const PHOTO_BUCKET = "lost_found_photos";
+const PHOTO_EXTENSIONS: Record<string, string> = { "image/jpeg": "jpg", "image/png": "png", "image/webp": "webp" };
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabaseClient = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceRoleKey);
+
+    // Signed-in members are recorded; anyone else sends with the anon key
+    const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+    const { data: { user } } = await supabaseClient.auth.getUser(token);
+
+    const input: SightingInput = await req.json();
+
+    const { data: report, error: reportError } = input.report_id
+      ? await supabaseClient
+        .from("lost_found")
+        .select("id, reporter_id, status, is_resolved, pet_name, created_at")
+        .eq("id", input.report_id)
+        .maybeSingle()
+      : { data: null, error: null };
+
+    if (reportError || !report) {
+      return new Response(
+        JSON.stringify({ error: "Report not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (report.is_resolved) {
+      return new Response(
+        JSON.stringify({ error: "This pet has already been found" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const check = checkSighting(input, report.created_at);
+    if (!check.ok) {
+      if (check.spam) {
+        console.warn("Dropped spam sighting:", check.error);
+        return new Response(
+          JSON.stringify({ success: true }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      return new Response(
+        JSON.stringify({ error: check.error }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const photo = input.photo ? parsePhotoDataUrl(input.photo) : null;
+    if (input.photo && !photo) {
+      return new Response(
+        JSON.stringify({ error: "Photos must be JPEG, PNG or WebP and under 5MB" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const ipHash = await hashIdentifier(clientIp(req), serviceRoleKey);
+    const now = Date.now();
+
+    const [{ count: hourCount }, { count: reportCount }] = await Promise.all([
+      supabaseClient
+        .from("lost_pet_sightings")
+        .select("id", { count: "exact", head: true })
+        .eq("ip_hash", ipHash)
+        .gte("created_at", new Date(now - HOUR_MS).toISOString()),
+      supabaseClient
+        .from("lost_pet_sightings")
+        .select("id", { count: "exact", head: true })
+        .eq("ip_hash", ipHash)
+        .eq("report_id", report.id)
+        .gte("created_at", new Date(now - 24 * HOUR_MS).toISOString()),
+    ]);
+
+    if ((hourCount ?? 0) >= SIGHTINGS_PER_HOUR || (reportCount ?? 0) >= SIGHTINGS_PER_REPORT_PER_DAY) {
+      return new Response(
+        JSON.stringify({ error: "Too many sightings sent. Please try again later." }),
+        { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    let photoUrl: string | null = null;
+    if (photo) {
+      const path = `sightings/${report.id}/${crypto.randomUUID()}.${PHOTO_EXTENSIONS[photo.contentType]}`;
+      const bytes = Uint8Array.from(atob(photo.base64), (c) => c.charCodeAt(0));
+      const { error: uploadError } = await supabaseClient.storage
+        .from(PHOTO_BUCKET)
+        .upload(path, bytes, { contentType: photo.contentType });
+
+      if (uploadError) {
+        console.error("Error uploading sighting photo:", uploadError);
+      } else {
+        photoUrl = supabaseClient.storage.from(PHOTO_BUCKET).getPublicUrl(path).data.publicUrl;
+      }
+    }
+
+    const { data: sighting, error: insertError } = await supabaseClient
+      .from("lost_pet_sightings")
+      .insert({
+        ...check.sighting,
+        user_id: user?.id ?? null,
+        photo_url: photoUrl,
+        ip_hash: ipHash,
+      })
+      .select("id")
+      .single();
+
+    if (insertError) {
+      console.error("Error saving sighting:", insertError);
+      return new Response(
+        JSON.stringify({ error: "Failed to save sighting" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const title = `New sighting of ${report.pet_name}`;
+    const message = `Someone saw ${report.pet_name} near ${check.sighting.location_description}.`;
+
+    const { error: notificationError } = await supabaseClient.from("notifications").insert({
+      user_id: report.reporter_id,
+      type: "lost_found",
+      title,
+      message,
+      related_id: report.id,
+      from_user_id: user?.id ?? null,
+    });
+    if (notificationError) {
+      console.error("Error creating sighting notification:", notificationError);
+    }
+
+    const { error: pushError } = await supabaseClient.functions.invoke("push-send", {
+      body: { user_ids: [report.reporter_id], title, body: message, url: `/lostfound#report-${report.id}` },
+    });
+    if (pushError) {
+      console.error("Error sending sighting push:", pushError);
+    }
+
+    await supabaseClient.from("app_events").insert({
+      user_id: user?.id ?? null,
+      event: "lost_pet_sighting",
+      meta: { report_id: report.id, sighting_id: sighting.id, has_photo: !!photoUrl, anonymous: !user },
+    });
+
+    return new Response(
+      JSON.stringify({ success: true }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Lost pet sighting error:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,226 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  checkRelayMessage,
+  LOOKUPS_PER_HOUR,
+  LOOKUPS_PER_PREFIX_PER_HOUR,
+  lookupCodePrefix,
+  MIN_LOOKUP_CODE_LENGTH,
+  normalizeLookupCode,
+  RELAY_MESSAGES_PER_HOUR,
+  RELAY_MESSAGES_PER_PET_PER_DAY,
+  type MicrochipLookupInput,
+  type RelayMessageInput,
+} from "../_shared/microchip.ts";
+import { clientIp, hashIdentifier } from "../_shared/clientIp.ts";
+
+// Looks up microchip numbers and tag IDs for finders, and passes a finder's
+// message to the owner of a microchipped pet. Both are rate limited per IP,
+// lookups also per code prefix and messages per pet, so IDs can't be
+// enumerated and owners can't be flooded from many addresses. The finder only ever holds the relay token from
+// `lookup_microchip`; the owner sees the finder's contact details and decides
+// whether to get in touch.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabaseClient = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceRoleKey);
+
+    // Signed-in members are recorded; anyone else sends with the anon key
+    const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+    const { data: { user } } = await supabaseClient.auth.getUser(token);
+
+    const input: RelayMessageInput | MicrochipLookupInput = await req.json();
+
+    if ("action" in input && input.action === "lookup") {
+      const code = normalizeLookupCode(input.code ?? "");
+      if (code.length < MIN_LOOKUP_CODE_LENGTH) {
+        return new Response(
+          JSON.stringify({ error: "Enter the full microchip number or tag ID" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const ipHash = await hashIdentifier(clientIp(req), serviceRoleKey);
+      const codePrefix = await hashIdentifier(lookupCodePrefix(code), serviceRoleKey);
+      const since = new Date(Date.now() - HOUR_MS).toISOString();
+
+      const [{ count: lookupCount }, { count: prefixCount }] = await Promise.all([
+        supabaseClient
+          .from("microchip_lookups")
+          .select("id", { count: "exact", head: true })
+          .eq("ip_hash", ipHash)
+          .gte("created_at", since),
+        supabaseClient
+          .from("microchip_lookups")
+          .select("id", { count: "exact", head: true })
+          .eq("code_prefix", codePrefix)
+          .gte("created_at", since),
+      ]);
+
+      if ((lookupCount ?? 0) >= LOOKUPS_PER_HOUR || (prefixCount ?? 0) >= LOOKUPS_PER_PREFIX_PER_HOUR) {
+        return new Response(
+          JSON.stringify({ error: "Too many lookups. Please try again later." }),
+          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      await supabaseClient.from("microchip_lookups").insert({ ip_hash: ipHash, code_prefix: codePrefix });
+
+      const { data: matches, error: lookupError } = await supabaseClient.rpc("lookup_microchip", { p_code: code });
+      if (lookupError) {
+        console.error("Error looking up microchip:", lookupError);
+        return new Response(
+          JSON.stringify({ error: "Lookup failed. Please try again." }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ matches: matches ?? [] }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const check = checkRelayMessage(input);
+    if (!check.ok) {
+      if (check.spam) {
+        console.warn("Dropped spam relay message:", check.error);
+        return new Response(
+          JSON.stringify({ success: true }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      return new Response(
+        JSON.stringify({ error: check.error }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: identifier, error: identifierError } = await supabaseClient
+      .from("pet_identifiers")
+      .select("pet_id, pets(id, name, owner_id)")
+      .eq("relay_token", check.relayMessage.relay_token)
+      .maybeSingle();
+
+    const pet = identifier?.pets as { id: string; name: string; owner_id: string } | null | undefined;
+    if (identifierError || !pet) {
+      return new Response(
+        JSON.stringify({ error: "Pet not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const ipHash = await hashIdentifier(clientIp(req), serviceRoleKey);
+
+    const now = Date.now();
+
+    const [{ count: hourCount }, { count: petCount }] = await Promise.all([
+      supabaseClient
+        .from("microchip_relay_messages")
+        .select("id", { count: "exact", head: true })
+        .eq("ip_hash", ipHash)
+        .gte("created_at", new Date(now - HOUR_MS).toISOString()),
+      supabaseClient
+        .from("microchip_relay_messages")
+        .select("id", { count: "exact", head: true })
+        .eq("pet_id", pet.id)
+        .gte("created_at", new Date(now - 24 * HOUR_MS).toISOString()),
+    ]);
+
+    if ((hourCount ?? 0) >= RELAY_MESSAGES_PER_HOUR || (petCount ?? 0) >= RELAY_MESSAGES_PER_PET_PER_DAY) {
+      return new Response(
+        JSON.stringify({ error: "Too many messages sent. Please try again later." }),
+        { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { message, contact_name, contact_phone, contact_email } = check.relayMessage;
+
+    const { error: insertError } = await supabaseClient.from("microchip_relay_messages").insert({
+      pet_id: pet.id,
+      message,
+      contact_name,
+      contact_phone,
+      contact_email,
+      ip_hash: ipHash,
+    });
+
+    if (insertError) {
+      console.error("Error saving relay message:", insertError);
+      return new Response(
+        JSON.stringify({ error: "Failed to send message" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Point the owner at the pet's open lost report, if there is one
+    const { data: openReport } = await supabaseClient
+      .from("lost_found")
+      .select("id")
+      .eq("pet_id", pet.id)
+      .eq("status", "lost")
+      .eq("is_resolved", false)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const contact = [contact_name, contact_phone, contact_email].filter(Boolean).join(", ");
+    const title = `Someone may have found ${pet.name}`;
+    const body = `A finder looked up ${pet.name}'s microchip or tag: "${message}" Reach them at ${contact}.`;
+
+    const { error: notificationError } = await supabaseClient.from("notifications").insert({
+      user_id: pet.owner_id,
+      type: "lost_found",
+      title,
+      message: body,
+      related_id: openReport?.id ?? null,
+      from_user_id: user?.id ?? null,
+    });
+    if (notificationError) {
+      console.error("Error creating relay notification:", notificationError);
+    }
+
+    const { error: pushError } = await supabaseClient.functions.invoke("push-send", {
+      body: {
+        user_ids: [pet.owner_id],
+        title,
+        body,
+        url: openReport ? `/lostfound#report-${openReport.id}` : "/notifications",
+      },
+    });
+    if (pushError) {
+      console.error("Error sending relay push:", pushError);
+    }
+
+    await supabaseClient.from("app_events").insert({
+      user_id: user?.id ?? null,
+      event: "microchip_relay_message",
+      meta: { pet_id: pet.id, anonymous: !user },
+    });
+
+    return new Response(
+      JSON.stringify({ success: true }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Microchip relay error:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,119 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Scheduled function: run every 5 minutes from pg_cron (or any scheduler)
+// with the service role key as the bearer token, e.g.
+//   select net.http_post(
+//     url := '<project-url>/functions/v1/publish-scheduled-posts',
+//     headers := '{"Authorization": "Bearer <service-role-key>"}'::jsonb
+//   );
+//
+// Each due post goes through `publish_scheduled_post`, which publishes it at
+// most once even if runs overlap. Authors hear about every post that went
+// live or failed in this run.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+/** Due posts handled per run; the rest wait for the next one. */
+const BATCH_SIZE = 50;
+
+interface ScheduledPost {
+  id: string;
+  author_id: string;
+  content: string;
+  status: "draft" | "scheduled" | "published" | "failed";
+  failure_reason: string | null;
+}
+
+function preview(content: string): string {
+  return content.length > 60 ? `${content.slice(0, 57)}...` : content;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabaseClient = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceRoleKey);
+
+    // Only the scheduler may trigger a run
+    const authHeader = req.headers.get("Authorization") ?? "";
+    if (!serviceRoleKey || authHeader.replace("Bearer ", "") !== serviceRoleKey) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: due, error: dueError } = await supabaseClient
+      .from("scheduled_posts")
+      .select("id")
+      .eq("status", "scheduled")
+      .lte("scheduled_for", new Date().toISOString())
+      .order("scheduled_for", { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (dueError) {
+      console.error("Error loading due posts:", dueError);
+      return new Response(
+        JSON.stringify({ error: "Failed to load due posts" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const handled: ScheduledPost[] = [];
+    for (const { id } of due || []) {
+      const { data, error } = await supabaseClient.rpc("publish_scheduled_post", { p_id: id });
+      if (error) {
+        console.error(`Error publishing scheduled post ${id}:`, error);
+        continue;
+      }
+      // Empty when an overlapping run got there first
+      handled.push(...((data || []) as ScheduledPost[]));
+    }
+
+    if (handled.length > 0) {
+      const { error: notificationError } = await supabaseClient.from("notifications").insert(
+        handled.map((post) => ({
+          user_id: post.author_id,
+          type: "scheduled_post",
+          title: post.status === "published"
+            ? "Your scheduled post is live"
+            : "Your scheduled post couldn't be published",
+          message: post.status === "published"
+            ? preview(post.content)
+            : post.failure_reason || "Something went wrong. You can retry it from your drafts.",
+          related_id: post.id,
+        }))
+      );
+      if (notificationError) {
+        console.error("Error creating scheduled post notifications:", notificationError);
+      }
+    }
+
+    const published = handled.filter((p) => p.status === "published").length;
+
+    await supabaseClient.from("app_events").insert({
+      event: "scheduled_posts_published",
+      meta: { due: due?.length ?? 0, published, failed: handled.length - published },
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, published, failed: handled.length - published }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Scheduled post publishing error:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
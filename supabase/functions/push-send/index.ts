@@ -22,17 +22,17 @@ serve(async (req) => {
   }
 
   try {
-    const supabaseClient = createClient(
-      Deno.env.get("SUPABASE_URL") ?? "",
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
-    );
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabaseClient = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceRoleKey);
 
-    const authHeader = req.headers.get("Authorization")!;
-    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(
-      authHeader.replace("Bearer ", "")
-    );
+    // Signed-in users, or other functions calling with the service role key
+    const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+    const isServiceCall = !!serviceRoleKey && token === serviceRoleKey;
+    const { data: { user }, error: authError } = isServiceCall
+      ? { data: { user: null }, error: null }
+      : await supabaseClient.auth.getUser(token);
 
-    if (authError || !user) {
+    if (!isServiceCall && (authError || !user)) {
       return new Response(
         JSON.stringify({ error: "Unauthorized" }),
         { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -0,0 +1,350 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import webpush from "npm:web-push@3.6.6";
+import { addDays, expandDoses, LATE_GRACE_MINUTES, type DoseSchedule } from "../_shared/doseSchedule.ts";
+import { escapeHtml } from "../_shared/html.ts";
+
+// Scheduled function: run every 15 minutes from pg_cron (or any scheduler)
+// with the service role key as the bearer token, e.g.
+//   select net.http_post(
+//     url := '<project-url>/functions/v1/reminder-dispatch',
+//     headers := '{"Authorization": "Bearer <service-role-key>"}'::jsonb
+//   );
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const APPOINTMENT_LEAD_DAYS = 1;
+const VACCINATION_LEAD_DAYS = 3;
+const DOSE_LEAD_MINUTES = 30;
+
+type ReminderKind = "appointment" | "vaccination" | "medication_dose";
+
+interface Reminder {
+  user_id: string;
+  reminder_key: string;
+  kind: ReminderKind;
+  related_id: string;
+  due_at: string;
+  title: string;
+  body: string;
+  url: string;
+}
+
+interface ReminderRecord {
+  id: string;
+  title: string;
+  description: string | null;
+  date: string;
+  veterinarian: string | null;
+  pets: { name: string; owner_id: string };
+}
+
+interface ScheduledMedication extends DoseSchedule {
+  id: string;
+  name: string;
+  dosage: string;
+  pets: { name: string; owner_id: string };
+}
+
+function toDay(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+async function collectAppointments(supabaseClient: SupabaseClient, now: Date): Promise<Reminder[]> {
+  const today = toDay(now);
+  const { data, error } = await supabaseClient
+    .from("health_records")
+    .select("id, title, description, date, veterinarian, pets!inner(name, owner_id)")
+    .eq("type", "checkup")
+    .gte("date", today)
+    .lte("date", addDays(today, APPOINTMENT_LEAD_DAYS));
+
+  if (error) throw error;
+
+  return ((data || []) as ReminderRecord[])
+    .filter((record) => !record.description?.includes("Completed on"))
+    .map((record) => ({
+      user_id: record.pets.owner_id,
+      reminder_key: `appointment:${record.id}:${record.date}`,
+      kind: "appointment" as const,
+      related_id: record.id,
+      due_at: `${record.date}T00:00:00Z`,
+      title: `${record.pets.name}: ${record.title}`,
+      body: `${record.date === today ? "Today" : "Tomorrow"}${record.veterinarian ? ` with Dr. ${record.veterinarian}` : ""}`,
+      url: "/health",
+    }));
+}
+
+async function collectVaccinations(supabaseClient: SupabaseClient, now: Date): Promise<Reminder[]> {
+  const today = toDay(now);
+  const { data, error } = await supabaseClient
+    .from("health_records")
+    .select("id, title, date, pets!inner(name, owner_id)")
+    .eq("type", "vaccination")
+    .gte("date", today)
+    .lte("date", addDays(today, VACCINATION_LEAD_DAYS));
+
+  if (error) throw error;
+
+  return ((data || []) as ReminderRecord[]).map((record) => ({
+    user_id: record.pets.owner_id,
+    reminder_key: `vaccination:${record.id}:${record.date}`,
+    kind: "vaccination" as const,
+    related_id: record.id,
+    due_at: `${record.date}T00:00:00Z`,
+    title: `${record.pets.name} is due for ${record.title}`,
+    body: record.date === today ? "Scheduled for today" : `Scheduled for ${record.date}`,
+    url: "/health",
+  }));
+}
+
+async function collectMedicationDoses(supabaseClient: SupabaseClient, now: Date): Promise<Reminder[]> {
+  const from = new Date(now.getTime() - LATE_GRACE_MINUTES * 60 * 1000);
+  const to = new Date(now.getTime() + DOSE_LEAD_MINUTES * 60 * 1000);
+
+  const { data: medications, error } = await supabaseClient
+    .from("medications")
+    .select("id, name, dosage, frequency, dose_times, timezone, start_date, end_date, pets!inner(name, owner_id)")
+    .eq("is_active", true)
+    .neq("frequency", "as_needed")
+    // Backfilled rows wait for their owner to confirm a time zone
+    .not("timezone", "is", null)
+    .lte("start_date", addDays(toDay(now), 1));
+
+  if (error) throw error;
+  if (!medications?.length) return [];
+
+  const { data: logged, error: dosesError } = await supabaseClient
+    .from("medication_doses")
+    .select("medication_id, scheduled_for")
+    .in("medication_id", medications.map((m: ScheduledMedication) => m.id))
+    .gte("scheduled_for", from.toISOString())
+    .lte("scheduled_for", to.toISOString());
+
+  if (dosesError) throw dosesError;
+
+  const loggedKeys = new Set(
+    (logged || []).map((d) => `${d.medication_id}:${new Date(d.scheduled_for).getTime()}`)
+  );
+
+  const reminders: Reminder[] = [];
+  for (const med of medications as ScheduledMedication[]) {
+    for (const scheduledFor of expandDoses(med, from, to)) {
+      if (loggedKeys.has(`${med.id}:${scheduledFor.getTime()}`)) continue;
+
+      reminders.push({
+        user_id: med.pets.owner_id,
+        reminder_key: `medication_dose:${med.id}:${scheduledFor.toISOString()}`,
+        kind: "medication_dose",
+        related_id: med.id,
+        due_at: scheduledFor.toISOString(),
+        title: `Time for ${med.pets.name}'s ${med.name}`,
+        body: `${med.dosage} is due now`,
+        url: "/health",
+      });
+    }
+  }
+
+  return reminders;
+}
+
+async function sendEmail(to: string, subject: string, html: string): Promise<boolean> {
+  const sendGridApiKey = Deno.env.get("SENDGRID_API_KEY");
+
+  if (!sendGridApiKey) {
+    console.log(`Mock email to ${to}: ${subject}`);
+    return true;
+  }
+
+  const response = await fetch("https://api.sendgrid.com/v3/mail/send", {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${sendGridApiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      personalizations: [{ to: [{ email: to }], subject }],
+      from: { email: "noreply@pawpilothq.com", name: "PawPilot HQ" },
+      content: [{ type: "text/html", value: html }],
+    }),
+  });
+
+  return response.ok;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabaseClient = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceRoleKey);
+
+    // Only the scheduler may trigger a dispatch
+    const authHeader = req.headers.get("Authorization") ?? "";
+    if (!serviceRoleKey || authHeader.replace("Bearer ", "") !== serviceRoleKey) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const now = new Date();
+    const candidates = [
+      ...(await collectAppointments(supabaseClient, now)),
+      ...(await collectVaccinations(supabaseClient, now)),
+      ...(await collectMedicationDoses(supabaseClient, now)),
+    ];
+
+    if (candidates.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, dispatched: 0 }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Claim reminders before sending anything. Keys that already exist were
+    // handled by an earlier (or concurrent) run and are not returned here.
+    const { data: claimed, error: claimError } = await supabaseClient
+      .from("reminder_deliveries")
+      .upsert(
+        candidates.map(({ user_id, reminder_key, kind, related_id, due_at }) => ({
+          user_id,
+          reminder_key,
+          kind,
+          related_id,
+          due_at,
+        })),
+        { onConflict: "user_id,reminder_key", ignoreDuplicates: true }
+      )
+      .select("id, user_id, reminder_key");
+
+    if (claimError) {
+      console.error("Error claiming reminders:", claimError);
+      return new Response(
+        JSON.stringify({ error: "Failed to claim reminders" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const claimedKeys = new Map<string, string>(
+      (claimed || []).map((row) => [`${row.user_id}:${row.reminder_key}`, row.id])
+    );
+    const reminders = candidates.filter((r) => claimedKeys.has(`${r.user_id}:${r.reminder_key}`));
+
+    if (reminders.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, dispatched: 0 }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const userIds = [...new Set(reminders.map((r) => r.user_id))];
+    const [{ data: profiles }, { data: preferences }, { data: subscriptions }] = await Promise.all([
+      supabaseClient.from("profiles").select("id, email, display_name").in("id", userIds),
+      supabaseClient.from("email_preferences").select("user_id, health_reminders").in("user_id", userIds),
+      supabaseClient.from("push_subscriptions").select("*").in("user_id", userIds),
+    ]);
+
+    // Users without a preferences row get the column default (on)
+    const optedOut = new Set(
+      (preferences || []).filter((p) => p.health_reminders === false).map((p) => p.user_id)
+    );
+    const profilesById = new Map((profiles || []).map((p) => [p.id, p]));
+
+    webpush.setVapidDetails(
+      "mailto:support@pawpilothq.com",
+      Deno.env.get("VAPID_PUBLIC_KEY") ?? "",
+      Deno.env.get("VAPID_PRIVATE_KEY") ?? ""
+    );
+
+    const results = await Promise.allSettled(
+      reminders.map(async (reminder) => {
+        const channels: string[] = [];
+
+        const { error: notificationError } = await supabaseClient.from("notifications").insert({
+          user_id: reminder.user_id,
+          type: "reminder",
+          title: reminder.title,
+          message: reminder.body,
+          related_id: reminder.related_id,
+        });
+        if (!notificationError) channels.push("in_app");
+
+        if (!optedOut.has(reminder.user_id)) {
+          const profile = profilesById.get(reminder.user_id);
+          if (profile?.email) {
+            const html = `
+              <h2>Hi ${escapeHtml(profile.display_name || "there")},</h2>
+              <p><strong>${escapeHtml(reminder.title)}</strong></p>
+              <p>${escapeHtml(reminder.body)}</p>
+              <p><a href="${Deno.env.get("SITE_URL") ?? ""}${reminder.url}">Open PawPilot HQ</a></p>
+            `;
+            try {
+              if (await sendEmail(profile.email, reminder.title, html)) channels.push("email");
+            } catch (error) {
+              console.error(`Reminder email error for user ${reminder.user_id}:`, error);
+            }
+          }
+
+          const payload = JSON.stringify({
+            title: reminder.title,
+            body: reminder.body,
+            icon: "/vite.svg",
+            data: { url: reminder.url },
+          });
+          const userSubscriptions = (subscriptions || []).filter((s) => s.user_id === reminder.user_id);
+          const pushResults = await Promise.allSettled(
+            userSubscriptions.map((sub) =>
+              webpush.sendNotification(
+                { endpoint: sub.endpoint, keys: { p256dh: sub.p256dh, auth: sub.auth } },
+                payload
+              )
+            )
+          );
+          if (pushResults.some((r) => r.status === "fulfilled")) channels.push("push");
+        }
+
+        await supabaseClient
+          .from("reminder_deliveries")
+          .update({ channels })
+          .eq("id", claimedKeys.get(`${reminder.user_id}:${reminder.reminder_key}`));
+
+        return { reminder_key: reminder.reminder_key, channels };
+      })
+    );
+
+    await supabaseClient.from("app_events").insert({
+      event: "reminders_dispatched",
+      meta: {
+        candidates: candidates.length,
+        dispatched: reminders.length,
+        by_kind: reminders.reduce((acc: Record<string, number>, r) => {
+          acc[r.kind] = (acc[r.kind] || 0) + 1;
+          return acc;
+        }, {}),
+      },
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        dispatched: reminders.length,
+        results: results.map((r) => r.status === "fulfilled" ? r.value : { status: "failed" }),
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Reminder dispatch error:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,129 @@
+/*
+  # Medication Schedules and Dose Log
+
+  1. New Tables
+    - `medications` - Structured medication schedules per pet
+    - `medication_doses` - Given / skipped / late log for each scheduled dose
+
+  2. Data
+    - Backfill `medications` from legacy `health_records` rows with type 'medication'.
+      The old records never said which time zone they were in, so backfilled
+      rows have no `timezone` and aren't scheduled until the owner picks one
+
+  3. Security
+    - Enable RLS on both tables
+    - Only the pet owner can read or write schedules and dose logs
+*/
+
+-- Create medications table
+CREATE TABLE IF NOT EXISTS medications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  pet_id uuid NOT NULL REFERENCES pets(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  dosage text NOT NULL DEFAULT '',
+  frequency text NOT NULL DEFAULT 'daily'
+    CHECK (frequency IN ('daily', 'twice_daily', 'three_times_daily', 'weekly', 'as_needed')),
+  dose_times text[] NOT NULL DEFAULT '{}', -- local wall-clock times, 'HH:MM'
+  timezone text, -- IANA zone the dose times are expressed in; NULL until the owner confirms one
+  start_date date NOT NULL,
+  end_date date,
+  instructions text,
+  is_active boolean DEFAULT true,
+  source_record_id uuid REFERENCES health_records(id) ON DELETE SET NULL, -- legacy health record this was migrated from
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+-- Create medication_doses table
+CREATE TABLE IF NOT EXISTS medication_doses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  medication_id uuid NOT NULL REFERENCES medications(id) ON DELETE CASCADE,
+  scheduled_for timestamptz NOT NULL,
+  status text NOT NULL CHECK (status IN ('given', 'skipped', 'late')),
+  logged_at timestamptz NOT NULL DEFAULT now(),
+  logged_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(medication_id, scheduled_for)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_medications_pet ON medications(pet_id);
+CREATE INDEX IF NOT EXISTS idx_medications_active ON medications(is_active);
+CREATE INDEX IF NOT EXISTS idx_medication_doses_medication ON medication_doses(medication_id, scheduled_for DESC);
+
+-- Backfill from legacy health records (description lines written by the old tracker)
+INSERT INTO medications (pet_id, name, dosage, frequency, dose_times, start_date, end_date, instructions, source_record_id, created_at)
+SELECT
+  hr.pet_id,
+  hr.title,
+  COALESCE(substring(hr.description from 'Dosage: ([^\n]*)'), ''),
+  CASE
+    WHEN substring(hr.description from 'Frequency: ([a-z_]+)') IN ('daily', 'twice_daily', 'three_times_daily', 'weekly', 'as_needed')
+      THEN substring(hr.description from 'Frequency: ([a-z_]+)')
+    ELSE 'daily'
+  END,
+  '{}',
+  hr.date,
+  substring(hr.description from 'End date: ([0-9]{4}-[0-9]{2}-[0-9]{2})')::date,
+  substring(hr.description from 'Instructions: ([^\n]*)'),
+  hr.id,
+  hr.created_at
+FROM health_records hr
+WHERE hr.type = 'medication'
+  AND NOT EXISTS (SELECT 1 FROM medications m WHERE m.source_record_id = hr.id);
+
+-- Enable RLS
+ALTER TABLE medications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE medication_doses ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies to avoid conflicts
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Pet owners can manage medications" ON medications;
+  DROP POLICY IF EXISTS "Pet owners can manage medication doses" ON medication_doses;
+END $$;
+
+-- RLS Policies for medications
+CREATE POLICY "Pet owners can manage medications"
+  ON medications
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM pets WHERE pets.id = medications.pet_id AND pets.owner_id = auth.uid())
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM pets WHERE pets.id = medications.pet_id AND pets.owner_id = auth.uid())
+  );
+
+-- RLS Policies for medication_doses
+CREATE POLICY "Pet owners can manage medication doses"
+  ON medication_doses
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM medications
+      JOIN pets ON pets.id = medications.pet_id
+      WHERE medications.id = medication_doses.medication_id AND pets.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM medications
+      JOIN pets ON pets.id = medications.pet_id
+      WHERE medications.id = medication_doses.medication_id AND pets.owner_id = auth.uid()
+    )
+  );
+
+-- Create updated_at trigger
+DO $$
+BEGIN
+  DROP TRIGGER IF EXISTS handle_medications_updated_at ON medications;
+END $$;
+
+CREATE TRIGGER handle_medications_updated_at
+  BEFORE UPDATE ON medications
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_updated_at();
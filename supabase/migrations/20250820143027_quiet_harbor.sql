@@ -0,0 +1,54 @@
+/*
+  # Health Reminder Deliveries
+
+  1. New Tables
+    - `reminder_deliveries` - One row per reminder sent by the `reminder-dispatch`
+      function. The unique `reminder_key` makes dispatching idempotent: a run
+      only sends reminders whose key it managed to insert.
+
+  2. Changes
+    - Add `reminder` to the `notification_type` enum
+    - Add `health_reminders` to `email_preferences`
+
+  3. Security
+    - Enable RLS on reminder_deliveries
+    - Users can read their own deliveries; only the service role writes them
+*/
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'reminder';
+
+ALTER TABLE email_preferences
+  ADD COLUMN IF NOT EXISTS health_reminders boolean DEFAULT true;
+
+-- Create reminder_deliveries table
+CREATE TABLE IF NOT EXISTS reminder_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reminder_key text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('appointment', 'vaccination', 'medication_dose')),
+  related_id uuid NOT NULL,
+  due_at timestamptz NOT NULL,
+  channels text[] DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, reminder_key)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_reminder_deliveries_user ON reminder_deliveries(user_id);
+CREATE INDEX IF NOT EXISTS idx_reminder_deliveries_related ON reminder_deliveries(related_id);
+
+-- Enable RLS
+ALTER TABLE reminder_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies to avoid conflicts
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Users can view their reminder deliveries" ON reminder_deliveries;
+END $$;
+
+-- RLS Policies for reminder_deliveries
+CREATE POLICY "Users can view their reminder deliveries"
+  ON reminder_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
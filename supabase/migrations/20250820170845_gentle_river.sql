@@ -0,0 +1,124 @@
+/*
+  # Pet Vitals Log
+
+  1. New Tables
+    - `pet_vitals` - Dated readings of weight (lbs), body condition score (1-9),
+      temperature (°F) and heart rate (bpm). Any reading may be left empty.
+
+  2. Changes
+    - Backfill one weight reading per pet from `pets.weight`
+    - `pets.weight` follows the most recent weight reading
+    - Editing `pets.weight` directly records a new reading, so history is kept
+
+  3. Security
+    - Enable RLS on pet_vitals
+    - Pet owners can manage their pets' vitals
+*/
+
+-- Create pet_vitals table
+CREATE TABLE IF NOT EXISTS pet_vitals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  pet_id uuid NOT NULL REFERENCES pets(id) ON DELETE CASCADE,
+  recorded_at date NOT NULL DEFAULT CURRENT_DATE,
+  weight numeric CHECK (weight > 0),
+  body_condition_score smallint CHECK (body_condition_score BETWEEN 1 AND 9),
+  temperature numeric CHECK (temperature BETWEEN 80 AND 115),
+  heart_rate integer CHECK (heart_rate BETWEEN 10 AND 400),
+  notes text,
+  recorded_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK (weight IS NOT NULL OR body_condition_score IS NOT NULL OR temperature IS NOT NULL OR heart_rate IS NOT NULL)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_pet_vitals_pet_recorded ON pet_vitals(pet_id, recorded_at DESC);
+
+-- Backfill the current weight as the first reading
+INSERT INTO pet_vitals (pet_id, recorded_at, weight, recorded_by, created_at)
+SELECT p.id, COALESCE(p.updated_at, p.created_at)::date, p.weight, p.owner_id, COALESCE(p.updated_at, p.created_at)
+FROM pets p
+WHERE p.weight IS NOT NULL
+  AND p.weight > 0
+  AND NOT EXISTS (SELECT 1 FROM pet_vitals v WHERE v.pet_id = p.id);
+
+-- Keep pets.weight on the latest weight reading
+CREATE OR REPLACE FUNCTION sync_pet_weight_from_vitals()
+RETURNS TRIGGER AS $$
+DECLARE
+  latest_weight numeric;
+BEGIN
+  SELECT weight INTO latest_weight
+  FROM pet_vitals
+  WHERE pet_id = COALESCE(NEW.pet_id, OLD.pet_id) AND weight IS NOT NULL
+  ORDER BY recorded_at DESC, created_at DESC
+  LIMIT 1;
+
+  UPDATE pets
+  SET weight = latest_weight
+  WHERE id = COALESCE(NEW.pet_id, OLD.pet_id)
+    AND weight IS DISTINCT FROM latest_weight;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record a reading when the weight is edited on the pet itself
+CREATE OR REPLACE FUNCTION record_pet_weight_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.weight IS NOT NULL AND NEW.weight > 0 AND NEW.weight IS DISTINCT FROM (
+    SELECT weight FROM pet_vitals
+    WHERE pet_id = NEW.id AND weight IS NOT NULL
+    ORDER BY recorded_at DESC, created_at DESC
+    LIMIT 1
+  ) THEN
+    INSERT INTO pet_vitals (pet_id, weight, recorded_by)
+    VALUES (NEW.id, NEW.weight, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  DROP TRIGGER IF EXISTS sync_pet_weight_on_vitals ON pet_vitals;
+  DROP TRIGGER IF EXISTS record_pet_weight_on_update ON pets;
+  DROP TRIGGER IF EXISTS record_pet_weight_on_insert ON pets;
+END $$;
+
+CREATE TRIGGER sync_pet_weight_on_vitals
+  AFTER INSERT OR UPDATE OF weight, recorded_at OR DELETE ON pet_vitals
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_pet_weight_from_vitals();
+
+CREATE TRIGGER record_pet_weight_on_update
+  AFTER UPDATE OF weight ON pets
+  FOR EACH ROW
+  EXECUTE FUNCTION record_pet_weight_change();
+
+CREATE TRIGGER record_pet_weight_on_insert
+  AFTER INSERT ON pets
+  FOR EACH ROW
+  EXECUTE FUNCTION record_pet_weight_change();
+
+-- Enable RLS
+ALTER TABLE pet_vitals ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies to avoid conflicts
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Pet owners can manage vitals" ON pet_vitals;
+END $$;
+
+-- RLS Policies for pet_vitals
+CREATE POLICY "Pet owners can manage vitals"
+  ON pet_vitals
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM pets WHERE pets.id = pet_vitals.pet_id AND pets.owner_id = auth.uid())
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM pets WHERE pets.id = pet_vitals.pet_id AND pets.owner_id = auth.uid())
+  );
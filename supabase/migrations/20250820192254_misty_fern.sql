@@ -0,0 +1,33 @@
+/*
+  # Symptom Outcomes and Follow-ups
+
+  1. Changes
+    - `health_records.symptom_outcome` - What became of a symptom episode:
+      still monitoring, confirmed by a vet, resolved on its own, or got worse
+    - `health_records.outcome_notes` - Free text, e.g. the vet's diagnosis
+    - `health_records.outcome_recorded_at` - When the outcome was last set
+    - `health_records.follow_up_record_id` - The visit or treatment record that
+      followed up on the episode
+
+  2. Notes
+    - Symptom analyses are stored by the `analyze-symptoms` function as
+      `symptom` records, with the owner's answers under
+      `symptom_analysis -> inputs`
+    - Existing RLS policies on health_records already cover the new columns
+*/
+
+ALTER TABLE health_records
+  ADD COLUMN IF NOT EXISTS symptom_outcome text
+    CHECK (symptom_outcome IN ('monitoring', 'vet_confirmed', 'resolved', 'worsened')),
+  ADD COLUMN IF NOT EXISTS outcome_notes text,
+  ADD COLUMN IF NOT EXISTS outcome_recorded_at timestamptz,
+  ADD COLUMN IF NOT EXISTS follow_up_record_id uuid REFERENCES health_records(id) ON DELETE SET NULL;
+
+-- Existing symptom records have no outcome yet
+UPDATE health_records
+SET symptom_outcome = 'monitoring'
+WHERE type = 'symptom' AND symptom_outcome IS NULL;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_health_records_pet_type_date ON health_records(pet_id, type, date DESC);
+CREATE INDEX IF NOT EXISTS idx_health_records_follow_up ON health_records(follow_up_record_id);
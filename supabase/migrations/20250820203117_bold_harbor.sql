@@ -0,0 +1,43 @@
+/*
+  # Saved Vet Clinics
+
+  1. New Tables
+    - `vet_clinics` - Clinics an owner has saved for quick access, e.g. from the
+      emergency triage screen. `is_emergency` marks clinics open around the clock.
+
+  2. Security
+    - Enable RLS on vet_clinics
+    - Users can manage their own clinics
+*/
+
+-- Create vet_clinics table
+CREATE TABLE IF NOT EXISTS vet_clinics (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  phone text NOT NULL CHECK (length(trim(phone)) > 0),
+  address text,
+  is_emergency boolean DEFAULT false,
+  notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_vet_clinics_owner ON vet_clinics(owner_id);
+
+-- Enable RLS
+ALTER TABLE vet_clinics ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies to avoid conflicts
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Users can manage their vet clinics" ON vet_clinics;
+END $$;
+
+-- RLS Policies for vet_clinics
+CREATE POLICY "Users can manage their vet clinics"
+  ON vet_clinics
+  FOR ALL
+  TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
@@ -0,0 +1,78 @@
+/*
+  # Lost & Found Radius Search
+
+  1. New Functions
+    - `search_lost_found` - Reports within a radius (miles) of a point, nearest
+      first, with the distance included. Narrows by bounding box on the
+      existing location index before the exact great-circle check.
+      Supports a status filter, excluding one reporter, and limit/offset paging.
+
+  2. Security
+    - Runs as the caller, so the existing lost_found policies apply
+*/
+
+CREATE OR REPLACE FUNCTION search_lost_found(
+  p_lat double precision,
+  p_lng double precision,
+  p_radius_miles double precision DEFAULT 10,
+  p_status text DEFAULT NULL,
+  p_exclude_reporter uuid DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  reporter_id uuid,
+  status lost_found_status,
+  pet_name text,
+  species pet_species,
+  breed text,
+  description text,
+  photo_url text,
+  last_seen_location text,
+  latitude numeric,
+  longitude numeric,
+  contact_phone text,
+  contact_email text,
+  reward_offered boolean,
+  reward_amount numeric,
+  is_resolved boolean,
+  resolved_at timestamptz,
+  created_at timestamptz,
+  updated_at timestamptz,
+  distance_miles double precision
+) AS $$
+  WITH bounds AS (
+    -- One degree of latitude is ~69 miles; longitude degrees shrink towards the poles
+    SELECT
+      p_radius_miles / 69.0 AS lat_delta,
+      p_radius_miles / (69.0 * GREATEST(cos(radians(p_lat)), 0.01)) AS lng_delta
+  )
+  SELECT
+    lf.id, lf.reporter_id, lf.status, lf.pet_name, lf.species, lf.breed,
+    lf.description, lf.photo_url, lf.last_seen_location, lf.latitude, lf.longitude,
+    lf.contact_phone, lf.contact_email, lf.reward_offered, lf.reward_amount,
+    lf.is_resolved, lf.resolved_at, lf.created_at, lf.updated_at,
+    d.miles AS distance_miles
+  FROM lost_found lf
+  CROSS JOIN bounds b
+  CROSS JOIN LATERAL (
+    SELECT 3959 * 2 * asin(sqrt(
+      power(sin(radians(lf.latitude::double precision - p_lat) / 2), 2) +
+      cos(radians(p_lat)) * cos(radians(lf.latitude::double precision)) *
+      power(sin(radians(lf.longitude::double precision - p_lng) / 2), 2)
+    )) AS miles
+  ) d
+  WHERE lf.latitude BETWEEN p_lat - b.lat_delta AND p_lat + b.lat_delta
+    AND lf.longitude BETWEEN p_lng - b.lng_delta AND p_lng + b.lng_delta
+    AND d.miles <= p_radius_miles
+    AND (
+      p_status IS NULL
+      OR (p_status = 'resolved' AND lf.is_resolved)
+      OR (lf.status::text = p_status AND NOT lf.is_resolved)
+    )
+    AND (p_exclude_reporter IS NULL OR lf.reporter_id <> p_exclude_reporter)
+  ORDER BY d.miles, lf.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$ LANGUAGE sql STABLE;
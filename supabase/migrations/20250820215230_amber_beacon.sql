@@ -0,0 +1,128 @@
+/*
+  # Lost Pet Alert Broadcasts
+
+  1. New Tables
+    - `user_locations` - Last known location of users who opted in to nearby
+      lost pet alerts. Having a row is the opt-in; deleting it opts out.
+    - `lost_pet_alert_deliveries` - One row per user alerted about a report by
+      the `lost-pet-broadcast` function. Makes broadcasting idempotent and
+      backs the per-user daily limit.
+
+  2. New Functions
+    - `lost_pet_alert_recipients` - Users to alert about a lost report: within
+      the radius of the last-seen location, location updated in the last 30
+      days, not opted out of lost & found alerts, under the daily limit and
+      not already alerted. Only callable by the service role.
+
+  3. Security
+    - Enable RLS on both tables
+    - Users can manage their own location and read their own deliveries;
+      only the service role writes deliveries
+*/
+
+-- Create user_locations table
+CREATE TABLE IF NOT EXISTS user_locations (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  latitude numeric NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude numeric NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  accuracy numeric,
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create lost_pet_alert_deliveries table
+CREATE TABLE IF NOT EXISTS lost_pet_alert_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id uuid NOT NULL REFERENCES lost_found(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  distance_miles numeric,
+  channels text[] DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(report_id, user_id)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_user_locations_location ON user_locations(latitude, longitude);
+CREATE INDEX IF NOT EXISTS idx_lost_pet_alert_deliveries_user_created ON lost_pet_alert_deliveries(user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE user_locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lost_pet_alert_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies to avoid conflicts
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Users can manage their location" ON user_locations;
+  DROP POLICY IF EXISTS "Users can view their lost pet alert deliveries" ON lost_pet_alert_deliveries;
+END $$;
+
+-- RLS Policies for user_locations
+CREATE POLICY "Users can manage their location"
+  ON user_locations
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- RLS Policies for lost_pet_alert_deliveries
+CREATE POLICY "Users can view their lost pet alert deliveries"
+  ON lost_pet_alert_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION lost_pet_alert_recipients(
+  p_report_id uuid,
+  p_radius_miles double precision DEFAULT 5,
+  p_daily_limit integer DEFAULT 3
+)
+RETURNS TABLE (
+  user_id uuid,
+  distance_miles double precision
+) AS $$
+  WITH report AS (
+    SELECT id, reporter_id, latitude::double precision AS lat, longitude::double precision AS lng
+    FROM lost_found
+    WHERE id = p_report_id AND status = 'lost' AND NOT is_resolved
+  ),
+  bounds AS (
+    -- Same bounding box as search_lost_found
+    SELECT
+      p_radius_miles / 69.0 AS lat_delta,
+      p_radius_miles / (69.0 * GREATEST(cos(radians(r.lat)), 0.01)) AS lng_delta
+    FROM report r
+  )
+  SELECT ul.user_id, d.miles AS distance_miles
+  FROM user_locations ul
+  CROSS JOIN report r
+  CROSS JOIN bounds b
+  CROSS JOIN LATERAL (
+    SELECT 3959 * 2 * asin(sqrt(
+      power(sin(radians(ul.latitude::double precision - r.lat) / 2), 2) +
+      cos(radians(r.lat)) * cos(radians(ul.latitude::double precision)) *
+      power(sin(radians(ul.longitude::double precision - r.lng) / 2), 2)
+    )) AS miles
+  ) d
+  JOIN profiles p ON p.id = ul.user_id
+  LEFT JOIN email_preferences ep ON ep.user_id = ul.user_id
+  WHERE ul.latitude BETWEEN r.lat - b.lat_delta AND r.lat + b.lat_delta
+    AND ul.longitude BETWEEN r.lng - b.lng_delta AND r.lng + b.lng_delta
+    AND d.miles <= p_radius_miles
+    AND ul.user_id <> r.reporter_id
+    AND ul.updated_at > now() - interval '30 days'
+    -- Users without a preferences row get the column defaults (on)
+    AND COALESCE(ep.lost_found_alerts, true)
+    AND COALESCE(p.notify_lost_found, true)
+    AND NOT EXISTS (
+      SELECT 1 FROM lost_pet_alert_deliveries x
+      WHERE x.report_id = r.id AND x.user_id = ul.user_id
+    )
+    AND (
+      SELECT count(*) FROM lost_pet_alert_deliveries x
+      WHERE x.user_id = ul.user_id AND x.created_at > now() - interval '24 hours'
+    ) < p_daily_limit
+  ORDER BY d.miles;
+$$ LANGUAGE sql STABLE;
+
+-- Recipients' locations are private: keep this away from client roles
+REVOKE EXECUTE ON FUNCTION lost_pet_alert_recipients(uuid, double precision, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION lost_pet_alert_recipients(uuid, double precision, integer) TO service_role;
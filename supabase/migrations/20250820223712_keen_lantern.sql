@@ -0,0 +1,218 @@
+/*
+  # Lost & Found Matching
+
+  1. Changes
+    - Add `color` to `lost_found`
+    - `search_lost_found` also returns `color`
+
+  2. New Tables
+    - `lost_found_matches` - Likely lost/found pairs found by the
+      `lost-found-match` function, with the score and the factors behind it.
+      A pair is stored once; `status` moves from pending to confirmed or
+      dismissed.
+
+  3. New Functions
+    - `confirm_lost_found_match` - The lost pet's owner confirms a match:
+      both reports are resolved together and the finder is notified.
+    - `dismiss_lost_found_match` - Either reporter dismisses a match.
+
+  4. Security
+    - Enable RLS on lost_found_matches
+    - Either reporter can view a match; only the service role creates
+      matches, and reporters change them only through the functions above
+*/
+
+ALTER TABLE lost_found
+  ADD COLUMN IF NOT EXISTS color text;
+
+-- Create lost_found_matches table
+CREATE TABLE IF NOT EXISTS lost_found_matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lost_report_id uuid NOT NULL REFERENCES lost_found(id) ON DELETE CASCADE,
+  found_report_id uuid NOT NULL REFERENCES lost_found(id) ON DELETE CASCADE,
+  score smallint NOT NULL CHECK (score BETWEEN 0 AND 100),
+  factors jsonb NOT NULL DEFAULT '[]',
+  distance_miles numeric,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'dismissed')),
+  resolved_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(lost_report_id, found_report_id)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_lost_found_matches_lost ON lost_found_matches(lost_report_id);
+CREATE INDEX IF NOT EXISTS idx_lost_found_matches_found ON lost_found_matches(found_report_id);
+
+-- Enable RLS
+ALTER TABLE lost_found_matches ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies to avoid conflicts
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Reporters can view their matches" ON lost_found_matches;
+  DROP POLICY IF EXISTS "Reporters can dismiss their matches" ON lost_found_matches;
+END $$;
+
+-- RLS Policies for lost_found_matches
+CREATE POLICY "Reporters can view their matches"
+  ON lost_found_matches
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM lost_found lf
+      WHERE lf.id IN (lost_report_id, found_report_id)
+      AND lf.reporter_id = auth.uid()
+    )
+  );
+
+-- Create updated_at trigger
+DO $$
+BEGIN
+  DROP TRIGGER IF EXISTS handle_lost_found_matches_updated_at ON lost_found_matches;
+END $$;
+
+CREATE TRIGGER handle_lost_found_matches_updated_at
+  BEFORE UPDATE ON lost_found_matches
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_updated_at();
+
+-- Resolving the finder's report needs more than the owner's own rights, so
+-- this runs as definer and checks the caller itself
+CREATE OR REPLACE FUNCTION confirm_lost_found_match(p_match_id uuid)
+RETURNS void AS $$
+DECLARE
+  m lost_found_matches%ROWTYPE;
+  lost_report lost_found%ROWTYPE;
+  found_report lost_found%ROWTYPE;
+BEGIN
+  SELECT * INTO m FROM lost_found_matches WHERE id = p_match_id AND status = 'pending';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Match not found or already handled';
+  END IF;
+
+  SELECT * INTO lost_report FROM lost_found WHERE id = m.lost_report_id;
+  SELECT * INTO found_report FROM lost_found WHERE id = m.found_report_id;
+
+  IF lost_report.reporter_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the owner of the lost pet can confirm a match';
+  END IF;
+
+  UPDATE lost_found
+  SET is_resolved = true, resolved_at = now()
+  WHERE id IN (m.lost_report_id, m.found_report_id) AND NOT is_resolved;
+
+  UPDATE lost_found_matches
+  SET status = 'confirmed', resolved_by = auth.uid()
+  WHERE id = p_match_id;
+
+  -- Other candidates for either report are no longer relevant
+  UPDATE lost_found_matches
+  SET status = 'dismissed', resolved_by = auth.uid()
+  WHERE id <> p_match_id
+    AND status = 'pending'
+    AND (lost_report_id = m.lost_report_id OR found_report_id = m.found_report_id);
+
+  INSERT INTO notifications (user_id, type, title, message, related_id, from_user_id)
+  VALUES (
+    found_report.reporter_id,
+    'lost_found',
+    'Reunited: ' || lost_report.pet_name,
+    'The owner confirmed the pet you found is ' || lost_report.pet_name || '. Both reports are now resolved. Thank you!',
+    found_report.id,
+    lost_report.reporter_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Dismissing only flips the status; going through a function keeps the score
+-- and the paired reports out of the reporter's hands
+CREATE OR REPLACE FUNCTION dismiss_lost_found_match(p_match_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE lost_found_matches m
+  SET status = 'dismissed', resolved_by = auth.uid()
+  WHERE m.id = p_match_id
+    AND m.status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM lost_found lf
+      WHERE lf.id IN (m.lost_report_id, m.found_report_id)
+      AND lf.reporter_id = auth.uid()
+    );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Match not found or already handled';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- search_lost_found returns a fixed column list, so it is recreated with color
+DROP FUNCTION IF EXISTS search_lost_found(double precision, double precision, double precision, text, uuid, integer, integer);
+
+CREATE OR REPLACE FUNCTION search_lost_found(
+  p_lat double precision,
+  p_lng double precision,
+  p_radius_miles double precision DEFAULT 10,
+  p_status text DEFAULT NULL,
+  p_exclude_reporter uuid DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  reporter_id uuid,
+  status lost_found_status,
+  pet_name text,
+  species pet_species,
+  breed text,
+  color text,
+  description text,
+  photo_url text,
+  last_seen_location text,
+  latitude numeric,
+  longitude numeric,
+  contact_phone text,
+  contact_email text,
+  reward_offered boolean,
+  reward_amount numeric,
+  is_resolved boolean,
+  resolved_at timestamptz,
+  created_at timestamptz,
+  updated_at timestamptz,
+  distance_miles double precision
+) AS $$
+  WITH bounds AS (
+    -- One degree of latitude is ~69 miles; longitude degrees shrink towards the poles
+    SELECT
+      p_radius_miles / 69.0 AS lat_delta,
+      p_radius_miles / (69.0 * GREATEST(cos(radians(p_lat)), 0.01)) AS lng_delta
+  )
+  SELECT
+    lf.id, lf.reporter_id, lf.status, lf.pet_name, lf.species, lf.breed, lf.color,
+    lf.description, lf.photo_url, lf.last_seen_location, lf.latitude, lf.longitude,
+    lf.contact_phone, lf.contact_email, lf.reward_offered, lf.reward_amount,
+    lf.is_resolved, lf.resolved_at, lf.created_at, lf.updated_at,
+    d.miles AS distance_miles
+  FROM lost_found lf
+  CROSS JOIN bounds b
+  CROSS JOIN LATERAL (
+    SELECT 3959 * 2 * asin(sqrt(
+      power(sin(radians(lf.latitude::double precision - p_lat) / 2), 2) +
+      cos(radians(p_lat)) * cos(radians(lf.latitude::double precision)) *
+      power(sin(radians(lf.longitude::double precision - p_lng) / 2), 2)
+    )) AS miles
+  ) d
+  WHERE lf.latitude BETWEEN p_lat - b.lat_delta AND p_lat + b.lat_delta
+    AND lf.longitude BETWEEN p_lng - b.lng_delta AND p_lng + b.lng_delta
+    AND d.miles <= p_radius_miles
+    AND (
+      p_status IS NULL
+      OR (p_status = 'resolved' AND lf.is_resolved)
+      OR (lf.status::text = p_status AND NOT lf.is_resolved)
+    )
+    AND (p_exclude_reporter IS NULL OR lf.reporter_id <> p_exclude_reporter)
+  ORDER BY d.miles, lf.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$ LANGUAGE sql STABLE;
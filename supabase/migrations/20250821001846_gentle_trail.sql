@@ -0,0 +1,123 @@
+/*
+  # Public Lost Pet Pages and Sightings
+
+  1. New Tables
+    - `lost_pet_sightings` - Sightings sent from the public `/lost/:id` page
+      through the `lost-pet-sighting` function, with or without an account.
+      `ip_hash` is a salted hash of the sender's IP, used for rate limiting.
+
+  2. New Functions
+    - `get_public_lost_report` - Sanitized view of one report for visitors:
+      no reporter or contact details, and the location rounded to about half
+      a mile.
+
+  3. Security
+    - Full `lost_found` rows (exact coordinates, contact details) are now only
+      visible to signed-in members; anonymous visitors use
+      `get_public_lost_report`
+    - Enable RLS on lost_pet_sightings
+    - Report owners can view and delete sightings of their pet; only the
+      service role creates them
+*/
+
+-- Replace the public policy so anonymous visitors only see sanitized reports
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Lost & found posts are public" ON lost_found;
+  DROP POLICY IF EXISTS "Lost & found posts are visible to members" ON lost_found;
+END $$;
+
+CREATE POLICY "Lost & found posts are visible to members"
+  ON lost_found
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Create lost_pet_sightings table
+CREATE TABLE IF NOT EXISTS lost_pet_sightings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id uuid NOT NULL REFERENCES lost_found(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  location_description text NOT NULL,
+  latitude numeric CHECK (latitude BETWEEN -90 AND 90),
+  longitude numeric CHECK (longitude BETWEEN -180 AND 180),
+  seen_at timestamptz NOT NULL,
+  notes text,
+  photo_url text,
+  contact_name text,
+  contact_phone text,
+  contact_email text,
+  ip_hash text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_lost_pet_sightings_report ON lost_pet_sightings(report_id, seen_at DESC);
+CREATE INDEX IF NOT EXISTS idx_lost_pet_sightings_ip_created ON lost_pet_sightings(ip_hash, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE lost_pet_sightings ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies to avoid conflicts
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Report owners can view sightings" ON lost_pet_sightings;
+  DROP POLICY IF EXISTS "Report owners can delete sightings" ON lost_pet_sightings;
+END $$;
+
+-- RLS Policies for lost_pet_sightings
+CREATE POLICY "Report owners can view sightings"
+  ON lost_pet_sightings
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM lost_found lf
+      WHERE lf.id = report_id
+      AND lf.reporter_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Report owners can delete sightings"
+  ON lost_pet_sightings
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM lost_found lf
+      WHERE lf.id = report_id
+      AND lf.reporter_id = auth.uid()
+    )
+  );
+
+-- Rounding to 0.01 degrees is at most ~0.35 miles off, and always snaps to
+-- the same point, so repeated requests cannot be averaged back to the exact spot
+CREATE OR REPLACE FUNCTION get_public_lost_report(p_report_id uuid)
+RETURNS TABLE (
+  id uuid,
+  status lost_found_status,
+  pet_name text,
+  species pet_species,
+  breed text,
+  color text,
+  description text,
+  photo_url text,
+  last_seen_location text,
+  approx_latitude numeric,
+  approx_longitude numeric,
+  reward_offered boolean,
+  reward_amount numeric,
+  is_resolved boolean,
+  created_at timestamptz
+) AS $$
+  SELECT
+    lf.id, lf.status, lf.pet_name, lf.species, lf.breed, lf.color, lf.description,
+    lf.photo_url, lf.last_seen_location,
+    round(lf.latitude, 2) AS approx_latitude,
+    round(lf.longitude, 2) AS approx_longitude,
+    lf.reward_offered, lf.reward_amount, lf.is_resolved, lf.created_at
+  FROM lost_found lf
+  WHERE lf.id = p_report_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_public_lost_report(uuid) TO anon, authenticated;
@@ -0,0 +1,207 @@
+/*
+  # Pet Identifiers and Lost Report Links
+
+  1. Changes
+    - Add `distinctive_markings` to `pets`
+    - Add `pet_id` to `lost_found`, linking a lost report to a registered pet
+
+  2. New Tables
+    - `pet_identifiers` - Microchip number and tag ID for a pet. Kept out of
+      `pets` because public pets are readable by anyone, which would let a
+      chip number be traced back to `owner_id`. `relay_token` is what a
+      finder gets from a lookup instead of any pet or owner ID.
+    - `microchip_relay_messages` - Messages from finders to owners, sent
+      through the `microchip-relay` function. `ip_hash` backs rate limiting.
+    - `microchip_lookups` - One row per lookup made through `microchip-relay`,
+      keyed by `ip_hash` and a hashed `code_prefix` so lookups are rate
+      limited per finder and per run of neighbouring codes.
+
+  3. New Functions
+    - `lookup_microchip` - Finds a pet by microchip number or tag ID and
+      returns only a description to confirm the match and the relay token
+    - `sync_pet_lost_status` trigger - Reporting a registered pet lost, or
+      linking an open lost report to it, sets `pets.is_lost`; resolving,
+      unlinking or deleting the report clears it
+
+  4. Security
+    - Enable RLS on all three tables
+    - Owners manage their pets' identifiers and read messages about their
+      pets; only the service role writes messages and lookups
+    - `lookup_microchip` is only callable by the service role, so every
+      lookup goes through the rate limit in `microchip-relay`
+    - A report can only be linked, on insert or update, to a pet its
+      reporter owns
+*/
+
+ALTER TABLE pets
+  ADD COLUMN IF NOT EXISTS distinctive_markings text;
+
+ALTER TABLE lost_found
+  ADD COLUMN IF NOT EXISTS pet_id uuid REFERENCES pets(id) ON DELETE SET NULL;
+
+-- Create pet_identifiers table
+CREATE TABLE IF NOT EXISTS pet_identifiers (
+  pet_id uuid PRIMARY KEY REFERENCES pets(id) ON DELETE CASCADE,
+  microchip_number text,
+  tag_id text,
+  -- Chips and tags are printed with spaces and dashes; match without them
+  microchip_normalized text GENERATED ALWAYS AS (upper(regexp_replace(microchip_number, '[^A-Za-z0-9]', '', 'g'))) STORED,
+  tag_normalized text GENERATED ALWAYS AS (upper(regexp_replace(tag_id, '[^A-Za-z0-9]', '', 'g'))) STORED,
+  relay_token uuid NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create microchip_relay_messages table
+CREATE TABLE IF NOT EXISTS microchip_relay_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  pet_id uuid NOT NULL REFERENCES pets(id) ON DELETE CASCADE,
+  message text NOT NULL,
+  contact_name text,
+  contact_phone text,
+  contact_email text,
+  ip_hash text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create microchip_lookups table
+CREATE TABLE IF NOT EXISTS microchip_lookups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ip_hash text NOT NULL,
+  code_prefix text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_pet_identifiers_microchip ON pet_identifiers(microchip_normalized);
+CREATE INDEX IF NOT EXISTS idx_pet_identifiers_tag ON pet_identifiers(tag_normalized);
+CREATE INDEX IF NOT EXISTS idx_microchip_relay_messages_pet ON microchip_relay_messages(pet_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_microchip_relay_messages_ip_created ON microchip_relay_messages(ip_hash, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_microchip_lookups_ip_created ON microchip_lookups(ip_hash, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_microchip_lookups_prefix_created ON microchip_lookups(code_prefix, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_lost_found_pet ON lost_found(pet_id);
+
+-- Enable RLS
+ALTER TABLE pet_identifiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE microchip_relay_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE microchip_lookups ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies to avoid conflicts
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Pet owners can manage identifiers" ON pet_identifiers;
+  DROP POLICY IF EXISTS "Pet owners can view relay messages" ON microchip_relay_messages;
+END $$;
+
+-- RLS Policies for pet_identifiers
+CREATE POLICY "Pet owners can manage identifiers"
+  ON pet_identifiers
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM pets WHERE pets.id = pet_identifiers.pet_id AND pets.owner_id = auth.uid())
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM pets WHERE pets.id = pet_identifiers.pet_id AND pets.owner_id = auth.uid())
+  );
+
+-- RLS Policies for microchip_relay_messages
+CREATE POLICY "Pet owners can view relay messages"
+  ON microchip_relay_messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM pets WHERE pets.id = microchip_relay_messages.pet_id AND pets.owner_id = auth.uid())
+  );
+
+-- Create updated_at trigger
+DO $$
+BEGIN
+  DROP TRIGGER IF EXISTS handle_pet_identifiers_updated_at ON pet_identifiers;
+END $$;
+
+CREATE TRIGGER handle_pet_identifiers_updated_at
+  BEFORE UPDATE ON pet_identifiers
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_updated_at();
+
+-- Runs as definer so finders without access to the pet can look it up; it
+-- never returns the pet or owner ID. Codes shorter than the shortest microchip
+-- number are refused so tag IDs can't be guessed a few characters at a time
+CREATE OR REPLACE FUNCTION lookup_microchip(p_code text)
+RETURNS TABLE (
+  relay_token uuid,
+  species pet_species,
+  breed text,
+  color text,
+  distinctive_markings text,
+  is_lost boolean
+) AS $$
+  SELECT pi.relay_token, p.species, p.breed, p.color, p.distinctive_markings, p.is_lost
+  FROM pet_identifiers pi
+  JOIN pets p ON p.id = pi.pet_id
+  WHERE length(upper(regexp_replace(p_code, '[^A-Za-z0-9]', '', 'g'))) >= 8
+    AND upper(regexp_replace(p_code, '[^A-Za-z0-9]', '', 'g')) IN (pi.microchip_normalized, pi.tag_normalized)
+  LIMIT 5;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Finders look up through `microchip-relay`, which rate limits by IP
+REVOKE EXECUTE ON FUNCTION lookup_microchip(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION lookup_microchip(text) TO service_role;
+
+-- Keep pets.is_lost in step with the pet's open lost report. Runs before
+-- inserts and before any update that changes the link, so a report can never
+-- be pointed at someone else's pet
+CREATE OR REPLACE FUNCTION sync_pet_lost_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  was_open boolean := false;
+  is_open boolean := false;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.pet_id IS NOT NULL AND OLD.status = 'lost' AND NOT OLD.is_resolved THEN
+      UPDATE pets SET is_lost = false WHERE id = OLD.pet_id;
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.pet_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.pet_id IS DISTINCT FROM OLD.pet_id)
+    AND NOT EXISTS (SELECT 1 FROM pets WHERE id = NEW.pet_id AND owner_id = NEW.reporter_id)
+  THEN
+    RAISE EXCEPTION 'You can only link reports to your own pets';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    was_open := OLD.pet_id IS NOT NULL AND OLD.status = 'lost' AND NOT OLD.is_resolved;
+  END IF;
+  is_open := NEW.pet_id IS NOT NULL AND NEW.status = 'lost' AND NOT NEW.is_resolved;
+
+  IF was_open AND (NOT is_open OR NEW.pet_id IS DISTINCT FROM OLD.pet_id) THEN
+    UPDATE pets SET is_lost = false WHERE id = OLD.pet_id;
+  END IF;
+  IF is_open AND (NOT was_open OR NEW.pet_id IS DISTINCT FROM OLD.pet_id) THEN
+    UPDATE pets SET is_lost = true WHERE id = NEW.pet_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  DROP TRIGGER IF EXISTS sync_pet_lost_status_on_insert ON lost_found;
+  DROP TRIGGER IF EXISTS sync_pet_lost_status_on_update ON lost_found;
+  DROP TRIGGER IF EXISTS sync_pet_lost_status_on_write ON lost_found;
+  DROP TRIGGER IF EXISTS sync_pet_lost_status_on_delete ON lost_found;
+END $$;
+
+CREATE TRIGGER sync_pet_lost_status_on_write
+  BEFORE INSERT OR UPDATE OF pet_id, status, is_resolved ON lost_found
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_pet_lost_status();
+
+CREATE TRIGGER sync_pet_lost_status_on_delete
+  AFTER DELETE ON lost_found
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_pet_lost_status();
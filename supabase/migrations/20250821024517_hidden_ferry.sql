@@ -0,0 +1,283 @@
+/*
+  # Lost & Found Contact Relay
+
+  1. Changes
+    - Move `contact_phone` and `contact_email` off `lost_found`, where every
+      signed-in user could read them, into `lost_found_contacts`
+    - Add `relay_alias` to `lost_found`, the local part of the masked email
+      address finders can write to
+    - Add `kind`, `lost_found_id` and `contact_revealed_at` to `threads` so a
+      conversation about a report shows up in Messages as a relay thread
+    - Recreate `search_lost_found` without the contact columns
+
+  2. New Tables
+    - `lost_found_contacts` - The reporter's phone and email for a report
+    - `lost_found_email_relays` - Log of emails forwarded through a report's
+      alias; backs rate limiting of each sender. Emails to the reporter get a
+      `reply_token`, and the sender's address is kept so the reporter's reply
+      can be relayed back from the alias
+
+  3. New Functions
+    - `start_lost_found_relay` - Opens (or reuses) the caller's relay thread
+      with a report's reporter without exposing either side's details
+    - `reveal_relay_contact` - Lets the reporter post their contact details
+      into a relay thread once they trust the other person
+
+  4. Security
+    - Enable RLS on both tables
+    - Only the reporter can read or change a report's contact details
+    - Email relay logs are only touched by the service role
+*/
+
+-- Create lost_found_contacts table
+CREATE TABLE IF NOT EXISTS lost_found_contacts (
+  report_id uuid PRIMARY KEY REFERENCES lost_found(id) ON DELETE CASCADE,
+  contact_phone text,
+  contact_email text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Copy existing contact details before the columns go
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'lost_found' AND column_name = 'contact_phone'
+  ) THEN
+    INSERT INTO lost_found_contacts (report_id, contact_phone, contact_email)
+    SELECT id, contact_phone, contact_email
+    FROM lost_found
+    WHERE contact_phone IS NOT NULL OR contact_email IS NOT NULL
+    ON CONFLICT (report_id) DO NOTHING;
+  END IF;
+END $$;
+
+-- search_lost_found returns a fixed column list that includes the contact columns
+DROP FUNCTION IF EXISTS search_lost_found(double precision, double precision, double precision, text, uuid, integer, integer);
+
+ALTER TABLE lost_found
+  DROP COLUMN IF EXISTS contact_phone,
+  DROP COLUMN IF EXISTS contact_email;
+
+-- Volatile default, so every existing report gets its own alias
+ALTER TABLE lost_found
+  ADD COLUMN IF NOT EXISTS relay_alias text NOT NULL UNIQUE
+    DEFAULT lower(substr(md5(gen_random_uuid()::text), 1, 12));
+
+ALTER TABLE threads
+  ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'chat' CHECK (kind IN ('chat', 'lost_found_relay')),
+  ADD COLUMN IF NOT EXISTS lost_found_id uuid REFERENCES lost_found(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS contact_revealed_at timestamptz;
+
+-- Create lost_found_email_relays table
+CREATE TABLE IF NOT EXISTS lost_found_email_relays (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id uuid NOT NULL REFERENCES lost_found(id) ON DELETE CASCADE,
+  sender_hash text NOT NULL,
+  sender_email text,
+  reply_token text UNIQUE,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for performance
+CREATE UNIQUE INDEX IF NOT EXISTS idx_threads_lost_found_relay
+  ON threads(lost_found_id, created_by) WHERE kind = 'lost_found_relay';
+CREATE INDEX IF NOT EXISTS idx_lost_found_email_relays_sender_created
+  ON lost_found_email_relays(sender_hash, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE lost_found_contacts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lost_found_email_relays ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies to avoid conflicts
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Reporters can manage their contact details" ON lost_found_contacts;
+END $$;
+
+-- RLS Policies for lost_found_contacts
+CREATE POLICY "Reporters can manage their contact details"
+  ON lost_found_contacts
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM lost_found WHERE lost_found.id = lost_found_contacts.report_id AND lost_found.reporter_id = auth.uid())
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM lost_found WHERE lost_found.id = lost_found_contacts.report_id AND lost_found.reporter_id = auth.uid())
+  );
+
+-- Create updated_at trigger
+DO $$
+BEGIN
+  DROP TRIGGER IF EXISTS handle_lost_found_contacts_updated_at ON lost_found_contacts;
+END $$;
+
+CREATE TRIGGER handle_lost_found_contacts_updated_at
+  BEFORE UPDATE ON lost_found_contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_updated_at();
+
+CREATE OR REPLACE FUNCTION search_lost_found(
+  p_lat double precision,
+  p_lng double precision,
+  p_radius_miles double precision DEFAULT 10,
+  p_status text DEFAULT NULL,
+  p_exclude_reporter uuid DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  reporter_id uuid,
+  status lost_found_status,
+  pet_name text,
+  species pet_species,
+  breed text,
+  color text,
+  description text,
+  photo_url text,
+  last_seen_location text,
+  latitude numeric,
+  longitude numeric,
+  relay_alias text,
+  reward_offered boolean,
+  reward_amount numeric,
+  is_resolved boolean,
+  resolved_at timestamptz,
+  created_at timestamptz,
+  updated_at timestamptz,
+  distance_miles double precision
+) AS $$
+  WITH bounds AS (
+    -- One degree of latitude is ~69 miles; longitude degrees shrink towards the poles
+    SELECT
+      p_radius_miles / 69.0 AS lat_delta,
+      p_radius_miles / (69.0 * GREATEST(cos(radians(p_lat)), 0.01)) AS lng_delta
+  )
+  SELECT
+    lf.id, lf.reporter_id, lf.status, lf.pet_name, lf.species, lf.breed, lf.color,
+    lf.description, lf.photo_url, lf.last_seen_location, lf.latitude, lf.longitude,
+    lf.relay_alias, lf.reward_offered, lf.reward_amount,
+    lf.is_resolved, lf.resolved_at, lf.created_at, lf.updated_at,
+    d.miles AS distance_miles
+  FROM lost_found lf
+  CROSS JOIN bounds b
+  CROSS JOIN LATERAL (
+    SELECT 3959 * 2 * asin(sqrt(
+      power(sin(radians(lf.latitude::double precision - p_lat) / 2), 2) +
+      cos(radians(p_lat)) * cos(radians(lf.latitude::double precision)) *
+      power(sin(radians(lf.longitude::double precision - p_lng) / 2), 2)
+    )) AS miles
+  ) d
+  WHERE lf.latitude BETWEEN p_lat - b.lat_delta AND p_lat + b.lat_delta
+    AND lf.longitude BETWEEN p_lng - b.lng_delta AND p_lng + b.lng_delta
+    AND d.miles <= p_radius_miles
+    AND (
+      p_status IS NULL
+      OR (p_status = 'resolved' AND lf.is_resolved)
+      OR (lf.status::text = p_status AND NOT lf.is_resolved)
+    )
+    AND (p_exclude_reporter IS NULL OR lf.reporter_id <> p_exclude_reporter)
+  ORDER BY d.miles, lf.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$ LANGUAGE sql STABLE;
+
+-- Runs as definer because threads have no insert policy; the caller only
+-- ever gets back a thread they take part in
+CREATE OR REPLACE FUNCTION start_lost_found_relay(p_report_id uuid)
+RETURNS uuid AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_report lost_found%ROWTYPE;
+  v_thread_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to contact a reporter';
+  END IF;
+
+  SELECT * INTO v_report FROM lost_found WHERE id = p_report_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+  IF v_report.reporter_id = v_user_id THEN
+    RAISE EXCEPTION 'This is your own report';
+  END IF;
+
+  SELECT id INTO v_thread_id
+  FROM threads
+  WHERE kind = 'lost_found_relay' AND lost_found_id = p_report_id AND created_by = v_user_id;
+  IF v_thread_id IS NOT NULL THEN
+    RETURN v_thread_id;
+  END IF;
+
+  IF v_report.is_resolved THEN
+    RAISE EXCEPTION 'This report has already been resolved';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM user_blocks
+    WHERE blocker_id = v_report.reporter_id AND blocked_user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'You cannot contact this reporter';
+  END IF;
+  -- Scammers work through many reports at once; genuine helpers rarely do
+  IF (
+    SELECT count(*) FROM threads
+    WHERE kind = 'lost_found_relay' AND created_by = v_user_id AND created_at > now() - interval '1 day'
+  ) >= 10 THEN
+    RAISE EXCEPTION 'You have contacted too many reporters today. Please try again tomorrow.';
+  END IF;
+
+  INSERT INTO threads (name, is_group, created_by, kind, lost_found_id)
+  VALUES (
+    initcap(v_report.status::text) || ' ' || v_report.species::text || ': ' || v_report.pet_name,
+    false, v_user_id, 'lost_found_relay', p_report_id
+  )
+  RETURNING id INTO v_thread_id;
+
+  INSERT INTO thread_participants (thread_id, user_id)
+  VALUES (v_thread_id, v_user_id), (v_thread_id, v_report.reporter_id);
+
+  RETURN v_thread_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION start_lost_found_relay(uuid) TO authenticated;
+
+-- Contact details are shared as a message in the thread, so only the person
+-- the reporter chose to trust ever sees them
+CREATE OR REPLACE FUNCTION reveal_relay_contact(p_thread_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_report_id uuid;
+  v_reporter_id uuid;
+  v_phone text;
+  v_email text;
+BEGIN
+  SELECT lf.id, lf.reporter_id INTO v_report_id, v_reporter_id
+  FROM threads t
+  JOIN lost_found lf ON lf.id = t.lost_found_id
+  WHERE t.id = p_thread_id AND t.kind = 'lost_found_relay';
+
+  IF v_reporter_id IS NULL OR v_reporter_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the reporter can share their contact details';
+  END IF;
+
+  SELECT contact_phone, contact_email INTO v_phone, v_email
+  FROM lost_found_contacts
+  WHERE report_id = v_report_id;
+
+  IF v_phone IS NULL AND v_email IS NULL THEN
+    RAISE EXCEPTION 'Add a phone number or email to your report first';
+  END IF;
+
+  INSERT INTO messages (thread_id, sender_id, content)
+  VALUES (p_thread_id, v_reporter_id, 'Here are my contact details: ' || concat_ws(' · ', v_phone, v_email));
+
+  UPDATE threads SET contact_revealed_at = now(), updated_at = now() WHERE id = p_thread_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION reveal_relay_contact(uuid) TO authenticated;
@@ -0,0 +1,98 @@
+/*
+  # Paginated Feed
+
+  1. Changes
+    - Make `posts.likes_count` and `posts.created_at` NOT NULL so they can be
+      used in keyset cursors
+    - Add indexes for paging the feed newest first and most liked first
+
+  2. New Views
+    - `feed_posts` - Posts the caller's feed can show, with author, tagged pet
+      and whether the caller liked or saved each one
+
+  3. New Functions
+    - `get_feed_page` - One page of the feed after a keyset cursor, sorted by
+      recent, popular or following
+
+  4. Security
+    - `feed_posts` runs with the caller's permissions, so posts, profiles and
+      pets RLS still apply
+*/
+
+UPDATE posts SET likes_count = 0 WHERE likes_count IS NULL;
+UPDATE posts SET created_at = now() WHERE created_at IS NULL;
+
+ALTER TABLE posts
+  ALTER COLUMN likes_count SET NOT NULL,
+  ALTER COLUMN created_at SET NOT NULL;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_posts_created_at_id ON posts(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_posts_likes_created_at_id ON posts(likes_count DESC, created_at DESC, id DESC);
+
+-- Public posts, the caller's own, and friends-only posts by people they follow
+CREATE OR REPLACE VIEW feed_posts WITH (security_invoker = true) AS
+SELECT
+  p.id,
+  p.author_id,
+  p.content,
+  p.media_urls,
+  p.visibility,
+  p.group_id,
+  p.pet_id,
+  p.likes_count,
+  p.comments_count,
+  p.shares_count,
+  p.created_at,
+  p.updated_at,
+  jsonb_build_object('id', a.id, 'display_name', a.display_name, 'avatar_url', a.avatar_url) AS profiles,
+  CASE WHEN pet.id IS NULL THEN NULL
+    ELSE jsonb_build_object('id', pet.id, 'name', pet.name, 'species', pet.species)
+  END AS pets,
+  EXISTS (
+    SELECT 1 FROM post_likes l WHERE l.post_id = p.id AND l.user_id = auth.uid()
+  ) AS user_liked,
+  EXISTS (
+    SELECT 1 FROM saved_posts s WHERE s.post_id = p.id AND s.user_id = auth.uid()
+  ) AS user_saved,
+  f.following_id IS NOT NULL AS author_followed
+FROM posts p
+JOIN profiles a ON a.id = p.author_id
+LEFT JOIN pets pet ON pet.id = p.pet_id
+LEFT JOIN user_follows f ON f.follower_id = auth.uid() AND f.following_id = p.author_id
+WHERE p.visibility = 'public'
+  OR p.author_id = auth.uid()
+  OR (p.visibility = 'friends' AND f.following_id IS NOT NULL);
+
+GRANT SELECT ON feed_posts TO authenticated;
+
+-- Keyset pagination: pass the last post of the previous page as the cursor.
+-- Popular pages also need its likes_count, since that sorts first
+CREATE OR REPLACE FUNCTION get_feed_page(
+  p_sort text DEFAULT 'recent',
+  p_cursor_created_at timestamptz DEFAULT NULL,
+  p_cursor_id uuid DEFAULT NULL,
+  p_cursor_likes integer DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS SETOF feed_posts AS $$
+BEGIN
+  IF p_sort = 'popular' THEN
+    RETURN QUERY
+    SELECT * FROM feed_posts fp
+    WHERE p_cursor_id IS NULL
+      OR (fp.likes_count, fp.created_at, fp.id) < (p_cursor_likes, p_cursor_created_at, p_cursor_id)
+    ORDER BY fp.likes_count DESC, fp.created_at DESC, fp.id DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 50);
+  ELSE
+    RETURN QUERY
+    SELECT * FROM feed_posts fp
+    WHERE (p_sort <> 'following' OR fp.author_followed)
+      AND (p_cursor_id IS NULL OR (fp.created_at, fp.id) < (p_cursor_created_at, p_cursor_id))
+    ORDER BY fp.created_at DESC, fp.id DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 50);
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_feed_page(text, timestamptz, uuid, integer, integer) TO authenticated;
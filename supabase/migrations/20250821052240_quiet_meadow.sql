@@ -0,0 +1,40 @@
+/*
+  # Ranked Feed Impressions
+
+  1. New Tables
+    - `feed_impressions` - Posts the ranked "For You" feed has shown each user,
+      and when it first showed them
+
+  2. Security
+    - Enable RLS on `feed_impressions`
+    - Users can only see and manage their own impressions
+*/
+
+-- Create feed_impressions table
+CREATE TABLE IF NOT EXISTS feed_impressions (
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  post_id uuid NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  first_seen_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, post_id)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_feed_impressions_user_seen ON feed_impressions(user_id, first_seen_at DESC);
+CREATE INDEX IF NOT EXISTS idx_post_likes_user_created ON post_likes(user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE feed_impressions ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies to avoid conflicts
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Users can manage their own feed impressions" ON feed_impressions;
+END $$;
+
+-- RLS Policies for feed_impressions
+CREATE POLICY "Users can manage their own feed impressions"
+  ON feed_impressions
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
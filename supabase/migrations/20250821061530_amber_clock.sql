@@ -0,0 +1,96 @@
+/*
+  # Scheduled Post Publishing
+
+  1. Changes
+    - Add `media_urls`, `post_id` and `failure_reason` to `scheduled_posts`
+    - Restrict `scheduled_posts.status` to draft, scheduled, published and failed
+    - Add `scheduled_post` to the `notification_type` enum
+
+  2. New Functions
+    - `publish_scheduled_post` - Turns a scheduled (or failed) post into a real
+      post exactly once, or marks it failed with the reason
+
+  3. Security
+    - Authors can publish their own scheduled posts; the service role can
+      publish anyone's from the `publish-scheduled-posts` function
+*/
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'scheduled_post';
+
+ALTER TABLE scheduled_posts
+  ADD COLUMN IF NOT EXISTS media_urls text[] DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS post_id uuid REFERENCES posts(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS failure_reason text;
+
+UPDATE scheduled_posts SET status = 'draft' WHERE status IS NULL;
+
+ALTER TABLE scheduled_posts
+  ALTER COLUMN status SET NOT NULL;
+
+DO $$
+BEGIN
+  ALTER TABLE scheduled_posts DROP CONSTRAINT IF EXISTS scheduled_posts_status_check;
+  ALTER TABLE scheduled_posts ADD CONSTRAINT scheduled_posts_status_check
+    CHECK (status IN ('draft', 'scheduled', 'published', 'failed'));
+END $$;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_scheduled_posts_due
+  ON scheduled_posts(scheduled_for) WHERE status = 'scheduled';
+
+-- The row lock makes concurrent calls for the same post wait, and the second
+-- one then finds it published and returns nothing
+CREATE OR REPLACE FUNCTION publish_scheduled_post(p_id uuid)
+RETURNS SETOF scheduled_posts AS $$
+DECLARE
+  v_scheduled scheduled_posts;
+  v_post_id uuid;
+BEGIN
+  SELECT * INTO v_scheduled FROM scheduled_posts WHERE id = p_id FOR UPDATE;
+
+  -- Only the service role may publish for someone else; an anonymous caller
+  -- has no auth.uid() and must not be mistaken for it
+  IF NOT FOUND OR (
+    auth.role() IS DISTINCT FROM 'service_role' AND v_scheduled.author_id IS DISTINCT FROM auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Scheduled post not found';
+  END IF;
+
+  IF v_scheduled.status NOT IN ('scheduled', 'failed') THEN
+    RETURN;
+  END IF;
+
+  BEGIN
+    IF v_scheduled.pet_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM pets WHERE id = v_scheduled.pet_id AND owner_id = v_scheduled.author_id
+    ) THEN
+      RAISE EXCEPTION 'The tagged pet is no longer on your profile';
+    END IF;
+
+    INSERT INTO posts (author_id, content, media_urls, visibility, pet_id)
+    VALUES (
+      v_scheduled.author_id,
+      v_scheduled.content,
+      COALESCE(v_scheduled.media_urls, '{}'),
+      COALESCE(v_scheduled.visibility, 'public'),
+      v_scheduled.pet_id
+    )
+    RETURNING id INTO v_post_id;
+
+    UPDATE scheduled_posts
+    SET status = 'published', published_at = now(), post_id = v_post_id, failure_reason = NULL
+    WHERE id = p_id
+    RETURNING * INTO v_scheduled;
+  EXCEPTION WHEN OTHERS THEN
+    UPDATE scheduled_posts
+    SET status = 'failed', failure_reason = SQLERRM
+    WHERE id = p_id
+    RETURNING * INTO v_scheduled;
+  END;
+
+  RETURN NEXT v_scheduled;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION publish_scheduled_post(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION publish_scheduled_post(uuid) TO authenticated, service_role;
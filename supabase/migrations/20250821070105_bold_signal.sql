@@ -0,0 +1,322 @@
+/*
+  # Hashtags and Mentions
+
+  1. Changes
+    - Add `handle` to `profiles`: a unique lowercase name people can @mention,
+      generated from the display name for existing and new profiles
+    - Add `mention` to the `notification_type` enum
+
+  2. New Tables
+    - `content_tags` - Normalized #tags used in posts, comments and reel
+      captions, plus tags suggested from a post's photos
+    - `content_mentions` - Users @mentioned in posts, comments and reel captions
+
+  3. New Functions
+    - `generate_profile_handle` - A free handle based on a display name
+    - `sync_content_tags` - Trigger keeping both tables in step with the text
+      and notifying newly mentioned users. Mentions notify only people who can
+      see the post, allow mentions, and haven't blocked (or been blocked by)
+      the author. Reel mentions have no `related_id` since they don't open in
+      the feed.
+    - `clear_content_tags` - Trigger removing both when the content is deleted
+
+  4. Security
+    - Enable RLS on both tables
+    - A tag is readable exactly when the post, comment or reel it belongs to
+      is
+    - Mentions are readable by the author and the mentioned user
+    - Authors can add suggested tags to their own posts
+*/
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'mention';
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS handle text;
+
+CREATE OR REPLACE FUNCTION generate_profile_handle(p_display_name text, p_id uuid)
+RETURNS text AS $$
+DECLARE
+  v_base text;
+  v_handle text;
+BEGIN
+  v_base := left(lower(regexp_replace(COALESCE(p_display_name, ''), '[^A-Za-z0-9_]', '', 'g')), 24);
+  IF length(v_base) < 3 THEN
+    v_base := 'user';
+  END IF;
+
+  v_handle := v_base;
+  WHILE EXISTS (SELECT 1 FROM profiles WHERE handle = v_handle AND id <> p_id) LOOP
+    v_handle := v_base || '_' || substr(md5(p_id::text || random()::text), 1, 5);
+  END LOOP;
+
+  RETURN v_handle;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- One row at a time, so each new handle is visible to the next check
+DO $$
+DECLARE
+  r record;
+BEGIN
+  FOR r IN SELECT id, display_name FROM profiles WHERE handle IS NULL ORDER BY created_at LOOP
+    UPDATE profiles SET handle = generate_profile_handle(r.display_name, r.id) WHERE id = r.id;
+  END LOOP;
+END $$;
+
+ALTER TABLE profiles ALTER COLUMN handle SET NOT NULL;
+
+DO $$
+BEGIN
+  ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_handle_format;
+  ALTER TABLE profiles ADD CONSTRAINT profiles_handle_format CHECK (handle ~ '^[a-z0-9_]{3,30}$');
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_profiles_handle ON profiles(handle);
+
+CREATE OR REPLACE FUNCTION set_profile_handle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.handle IS NULL THEN
+    NEW.handle := generate_profile_handle(NEW.display_name, NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DO $$
+BEGIN
+  DROP TRIGGER IF EXISTS set_profiles_handle ON profiles;
+END $$;
+
+CREATE TRIGGER set_profiles_handle
+  BEFORE INSERT ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION set_profile_handle();
+
+-- Create content_tags table
+CREATE TABLE IF NOT EXISTS content_tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subject_type text NOT NULL CHECK (subject_type IN ('post', 'comment', 'reel')),
+  subject_id uuid NOT NULL,
+  tag text NOT NULL CHECK (tag ~ '^[a-z][a-z0-9_]{0,49}$'),
+  author_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  -- 'text' tags follow the content; 'suggested' ones come from photo labels
+  source text NOT NULL DEFAULT 'text' CHECK (source IN ('text', 'suggested')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(subject_type, subject_id, tag)
+);
+
+-- Create content_mentions table
+CREATE TABLE IF NOT EXISTS content_mentions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subject_type text NOT NULL CHECK (subject_type IN ('post', 'comment', 'reel')),
+  subject_id uuid NOT NULL,
+  mentioned_user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  author_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(subject_type, subject_id, mentioned_user_id)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_content_tags_tag_created ON content_tags(tag, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_content_mentions_mentioned ON content_mentions(mentioned_user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE content_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE content_mentions ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies to avoid conflicts
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Users can read content tags" ON content_tags;
+  DROP POLICY IF EXISTS "Authors can add suggested tags to their posts" ON content_tags;
+  DROP POLICY IF EXISTS "Users can read their mentions" ON content_mentions;
+END $$;
+
+-- RLS Policies for content_tags. The subqueries run under the policies of
+-- the tagged content, so tags on posts someone can't see stay hidden too
+CREATE POLICY "Users can read content tags"
+  ON content_tags
+  FOR SELECT
+  TO authenticated
+  USING (
+    CASE subject_type
+      WHEN 'post' THEN EXISTS (SELECT 1 FROM posts p WHERE p.id = content_tags.subject_id)
+      WHEN 'comment' THEN EXISTS (SELECT 1 FROM post_comments c WHERE c.id = content_tags.subject_id)
+      ELSE EXISTS (SELECT 1 FROM reels r WHERE r.id = content_tags.subject_id)
+    END
+  );
+
+CREATE POLICY "Authors can add suggested tags to their posts"
+  ON content_tags
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    source = 'suggested'
+    AND subject_type = 'post'
+    AND author_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM posts WHERE posts.id = content_tags.subject_id AND posts.author_id = auth.uid())
+  );
+
+-- RLS Policies for content_mentions
+CREATE POLICY "Users can read their mentions"
+  ON content_mentions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = author_id OR auth.uid() = mentioned_user_id);
+
+-- Keep in step with TOKEN in src/lib/richText.ts
+CREATE OR REPLACE FUNCTION sync_content_tags()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_row jsonb := to_jsonb(NEW);
+  v_type text;
+  v_text text;
+  v_visibility text;
+  v_group_id uuid;
+  v_related_id uuid;
+  v_author_name text;
+  v_tags text[];
+  v_handles text[];
+BEGIN
+  v_type := CASE TG_TABLE_NAME WHEN 'posts' THEN 'post' WHEN 'post_comments' THEN 'comment' ELSE 'reel' END;
+  v_text := COALESCE(v_row->>'content', v_row->>'caption', '');
+
+  IF v_type = 'comment' THEN
+    v_related_id := (v_row->>'post_id')::uuid;
+    SELECT visibility::text, group_id INTO v_visibility, v_group_id FROM posts WHERE id = v_related_id;
+  ELSE
+    v_related_id := CASE WHEN v_type = 'post' THEN NEW.id END;
+    v_visibility := COALESCE(v_row->>'visibility', 'public');
+    v_group_id := (v_row->>'group_id')::uuid;
+  END IF;
+
+  v_tags := ARRAY(
+    SELECT DISTINCT lower(m[2])
+    FROM regexp_matches(v_text, '(^|[^A-Za-z0-9_#@&.])#([A-Za-z][A-Za-z0-9_]{0,49})(?![A-Za-z0-9_])', 'g') AS m
+  );
+  v_handles := ARRAY(
+    SELECT DISTINCT lower(m[2])
+    FROM regexp_matches(v_text, '(^|[^A-Za-z0-9_#@&.])@([A-Za-z0-9_]{3,30})(?![A-Za-z0-9_])', 'g') AS m
+  );
+
+  DELETE FROM content_tags
+  WHERE subject_type = v_type AND subject_id = NEW.id AND source = 'text' AND tag <> ALL (v_tags);
+
+  INSERT INTO content_tags (subject_type, subject_id, tag, author_id)
+  SELECT v_type, NEW.id, t, NEW.author_id FROM unnest(v_tags) AS t
+  ON CONFLICT (subject_type, subject_id, tag) DO UPDATE SET source = 'text';
+
+  DELETE FROM content_mentions cm
+  WHERE cm.subject_type = v_type AND cm.subject_id = NEW.id
+    AND NOT EXISTS (SELECT 1 FROM profiles p WHERE p.id = cm.mentioned_user_id AND p.handle = ANY (v_handles));
+
+  SELECT display_name INTO v_author_name FROM profiles WHERE id = NEW.author_id;
+
+  -- Only mentions new to this text notify, so editing doesn't repeat them
+  WITH added AS (
+    INSERT INTO content_mentions (subject_type, subject_id, mentioned_user_id, author_id)
+    SELECT v_type, NEW.id, p.id, NEW.author_id
+    FROM profiles p
+    WHERE p.handle = ANY (v_handles) AND p.id <> NEW.author_id
+    ON CONFLICT (subject_type, subject_id, mentioned_user_id) DO NOTHING
+    RETURNING mentioned_user_id
+  )
+  INSERT INTO notifications (user_id, type, title, message, related_id, from_user_id)
+  SELECT
+    a.mentioned_user_id,
+    'mention',
+    v_author_name || ' mentioned you in a ' || v_type,
+    left(v_text, 140),
+    v_related_id,
+    NEW.author_id
+  FROM added a
+  JOIN profiles p ON p.id = a.mentioned_user_id
+  WHERE COALESCE(p.allow_mentions, true)
+    -- Same rules as the posts (and reels) select policies
+    AND (
+      v_visibility = 'public'
+      OR (v_visibility = 'friends' AND EXISTS (
+        SELECT 1 FROM user_follows f
+        WHERE (f.follower_id = a.mentioned_user_id AND f.following_id = NEW.author_id)
+           OR (f.follower_id = NEW.author_id AND f.following_id = a.mentioned_user_id)
+      ))
+      OR (v_group_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM group_members gm WHERE gm.group_id = v_group_id AND gm.user_id = a.mentioned_user_id
+      ))
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM user_blocks b
+      WHERE (b.blocker_id = a.mentioned_user_id AND b.blocked_user_id = NEW.author_id)
+         OR (b.blocker_id = NEW.author_id AND b.blocked_user_id = a.mentioned_user_id)
+    );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION clear_content_tags()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_type text;
+BEGIN
+  v_type := CASE TG_TABLE_NAME WHEN 'posts' THEN 'post' WHEN 'post_comments' THEN 'comment' ELSE 'reel' END;
+  DELETE FROM content_tags WHERE subject_type = v_type AND subject_id = OLD.id;
+  DELETE FROM content_mentions WHERE subject_type = v_type AND subject_id = OLD.id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DO $$
+BEGIN
+  DROP TRIGGER IF EXISTS sync_posts_content_tags ON posts;
+  DROP TRIGGER IF EXISTS sync_post_comments_content_tags ON post_comments;
+  DROP TRIGGER IF EXISTS sync_reels_content_tags ON reels;
+  DROP TRIGGER IF EXISTS clear_posts_content_tags ON posts;
+  DROP TRIGGER IF EXISTS clear_post_comments_content_tags ON post_comments;
+  DROP TRIGGER IF EXISTS clear_reels_content_tags ON reels;
+END $$;
+
+CREATE TRIGGER sync_posts_content_tags
+  AFTER INSERT OR UPDATE OF content ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_content_tags();
+
+CREATE TRIGGER sync_post_comments_content_tags
+  AFTER INSERT OR UPDATE OF content ON post_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_content_tags();
+
+CREATE TRIGGER sync_reels_content_tags
+  AFTER INSERT OR UPDATE OF caption ON reels
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_content_tags();
+
+CREATE TRIGGER clear_posts_content_tags
+  AFTER DELETE ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_content_tags();
+
+CREATE TRIGGER clear_post_comments_content_tags
+  AFTER DELETE ON post_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_content_tags();
+
+CREATE TRIGGER clear_reels_content_tags
+  AFTER DELETE ON reels
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_content_tags();
+
+-- Tag what's already there. Handles are new, so older text can't mention
+-- anyone yet and nobody is notified
+INSERT INTO content_tags (subject_type, subject_id, tag, author_id, created_at)
+SELECT DISTINCT ON (s.subject_type, s.id, lower(m[2]))
+  s.subject_type, s.id, lower(m[2]), s.author_id, s.created_at
+FROM (
+  SELECT 'post' AS subject_type, id, author_id, content AS body, created_at FROM posts
+  UNION ALL
+  SELECT 'comment', id, author_id, content, created_at FROM post_comments
+  UNION ALL
+  SELECT 'reel', id, author_id, COALESCE(caption, ''), created_at FROM reels
+) s,
+LATERAL regexp_matches(s.body, '(^|[^A-Za-z0-9_#@&.])#([A-Za-z][A-Za-z0-9_]{0,49})(?![A-Za-z0-9_])', 'g') AS m
+ON CONFLICT (subject_type, subject_id, tag) DO NOTHING;
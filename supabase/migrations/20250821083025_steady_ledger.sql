@@ -0,0 +1,166 @@
+/*
+  # Post Edit History
+
+  1. Changes
+    - Add `edited_at` to `posts`, set when the content, media or visibility
+      changes (`updated_at` also moves on likes and comment counts)
+    - Add `edited_at` to the end of the `feed_posts` view
+
+  2. New Tables
+    - `post_revisions` - Every version of a post: its content, media list and
+      visibility, who saved it and when. Version 1 is the post as first
+      published; existing posts get theirs from their current text.
+      `source_post_id` keeps the post's id after it is deleted, when
+      `post_id` is cleared, so reported posts keep their history
+
+  3. New Functions
+    - `mark_post_edited` - Trigger stamping `edited_at` on real edits
+    - `record_post_revision` - Trigger adding a revision when a post is
+      created or edited
+
+  4. Security
+    - Enable RLS on `post_revisions`
+    - Revisions are readable by anyone who can see the post, and by admins so
+      reports keep the text the reporter saw, even once the post is deleted
+    - Only the triggers write revisions
+*/
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS edited_at timestamptz;
+
+-- Create post_revisions table
+CREATE TABLE IF NOT EXISTS post_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid REFERENCES posts(id) ON DELETE SET NULL,
+  source_post_id uuid NOT NULL,
+  version integer NOT NULL,
+  content text NOT NULL,
+  media_urls text[] NOT NULL DEFAULT '{}',
+  visibility visibility_level NOT NULL,
+  editor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE(source_post_id, version)
+);
+
+-- Enable RLS
+ALTER TABLE post_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies to avoid conflicts
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Users can read revisions of posts they can see" ON post_revisions;
+  DROP POLICY IF EXISTS "Admins can read all post revisions" ON post_revisions;
+END $$;
+
+-- RLS Policies for post_revisions. The subquery runs under the posts
+-- policies, so a revision is visible exactly when its post is; revisions of
+-- deleted posts have no post_id and are left to admins
+CREATE POLICY "Users can read revisions of posts they can see"
+  ON post_revisions
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM posts p WHERE p.id = post_revisions.post_id));
+
+CREATE POLICY "Admins can read all post revisions"
+  ON post_revisions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'super_admin'))
+  );
+
+CREATE OR REPLACE FUNCTION mark_post_edited()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.media_urls IS DISTINCT FROM OLD.media_urls
+    OR NEW.visibility IS DISTINCT FROM OLD.visibility THEN
+    NEW.edited_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Edits to one post are serialized by its row lock, so max + 1 can't collide
+CREATE OR REPLACE FUNCTION record_post_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.content IS NOT DISTINCT FROM OLD.content
+    AND NEW.media_urls IS NOT DISTINCT FROM OLD.media_urls
+    AND NEW.visibility IS NOT DISTINCT FROM OLD.visibility THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO post_revisions (post_id, source_post_id, version, content, media_urls, visibility, editor_id)
+  SELECT
+    NEW.id,
+    NEW.id,
+    COALESCE(MAX(r.version), 0) + 1,
+    NEW.content,
+    COALESCE(NEW.media_urls, '{}'),
+    COALESCE(NEW.visibility, 'public'),
+    COALESCE(auth.uid(), NEW.author_id)
+  FROM post_revisions r
+  WHERE r.source_post_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DO $$
+BEGIN
+  DROP TRIGGER IF EXISTS mark_posts_edited ON posts;
+  DROP TRIGGER IF EXISTS record_posts_revision ON posts;
+END $$;
+
+CREATE TRIGGER mark_posts_edited
+  BEFORE UPDATE OF content, media_urls, visibility ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION mark_post_edited();
+
+CREATE TRIGGER record_posts_revision
+  AFTER INSERT OR UPDATE OF content, media_urls, visibility ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION record_post_revision();
+
+-- Earlier edits weren't kept, so existing posts start from what they say now
+INSERT INTO post_revisions (post_id, source_post_id, version, content, media_urls, visibility, editor_id, created_at)
+SELECT p.id, p.id, 1, p.content, COALESCE(p.media_urls, '{}'), COALESCE(p.visibility, 'public'), p.author_id, p.created_at
+FROM posts p
+WHERE NOT EXISTS (SELECT 1 FROM post_revisions r WHERE r.source_post_id = p.id);
+
+-- Same view as before with edited_at added last, as CREATE OR REPLACE
+-- only allows new columns at the end
+CREATE OR REPLACE VIEW feed_posts WITH (security_invoker = true) AS
+SELECT
+  p.id,
+  p.author_id,
+  p.content,
+  p.media_urls,
+  p.visibility,
+  p.group_id,
+  p.pet_id,
+  p.likes_count,
+  p.comments_count,
+  p.shares_count,
+  p.created_at,
+  p.updated_at,
+  jsonb_build_object('id', a.id, 'display_name', a.display_name, 'avatar_url', a.avatar_url) AS profiles,
+  CASE WHEN pet.id IS NULL THEN NULL
+    ELSE jsonb_build_object('id', pet.id, 'name', pet.name, 'species', pet.species)
+  END AS pets,
+  EXISTS (
+    SELECT 1 FROM post_likes l WHERE l.post_id = p.id AND l.user_id = auth.uid()
+  ) AS user_liked,
+  EXISTS (
+    SELECT 1 FROM saved_posts s WHERE s.post_id = p.id AND s.user_id = auth.uid()
+  ) AS user_saved,
+  f.following_id IS NOT NULL AS author_followed,
+  p.edited_at
+FROM posts p
+JOIN profiles a ON a.id = p.author_id
+LEFT JOIN pets pet ON pet.id = p.pet_id
+LEFT JOIN user_follows f ON f.follower_id = auth.uid() AND f.following_id = p.author_id
+WHERE p.visibility = 'public'
+  OR p.author_id = auth.uid()
+  OR (p.visibility = 'friends' AND f.following_id IS NOT NULL);
@@ -0,0 +1,36 @@
+import { test, expect } from '@playwright/test';
+import { clientIp, hashIdentifier } from '../supabase/functions/_shared/clientIp.ts';
+import { SIGHTINGS_PER_HOUR } from '../supabase/functions/_shared/sighting.ts';
+
+const PROXY_SEEN_IP = '203.0.113.7';
+
+function request(headers: Record<string, string>): Request {
+  return new Request('https://example.supabase.co/functions/v1/lost-pet-sighting', { method: 'POST', headers });
+}
+
+// Runs without a browser: reading the header and hashing are pure
+test.describe('Client IP', () => {
+  test('should use the hop the proxy appended, not the ones the caller sent', () => {
+    expect(clientIp(request({ 'x-forwarded-for': PROXY_SEEN_IP }))).toBe(PROXY_SEEN_IP);
+    expect(clientIp(request({ 'x-forwarded-for': `198.51.100.1, 10.0.0.1, ${PROXY_SEEN_IP}` }))).toBe(PROXY_SEEN_IP);
+    expect(clientIp(request({ 'x-real-ip': '198.51.100.1' }))).toBe('unknown');
+    expect(clientIp(request({}))).toBe('unknown');
+  });
+
+  test('should still hit the sighting limit when every request spoofs a new address', async () => {
+    // The same count the function runs against `lost_pet_sightings.ip_hash`
+    const stored: string[] = [];
+    const isLimited = async (req: Request) => {
+      const ipHash = await hashIdentifier(clientIp(req), 'service-role-key');
+      if (stored.filter(hash => hash === ipHash).length >= SIGHTINGS_PER_HOUR) return true;
+      stored.push(ipHash);
+      return false;
+    };
+
+    for (let i = 0; i < SIGHTINGS_PER_HOUR; i++) {
+      expect(await isLimited(request({ 'x-forwarded-for': `198.51.100.${i}, ${PROXY_SEEN_IP}` }))).toBe(false);
+    }
+    expect(await isLimited(request({ 'x-forwarded-for': `192.0.2.99, ${PROXY_SEEN_IP}` }))).toBe(true);
+    expect(await isLimited(request({ 'x-forwarded-for': '192.0.2.1' }))).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { test, expect } from '@playwright/test';
+import {
+  extractAddress,
+  findRelayRecipient,
+  forwardedRelayEmail,
+  relayAliasAddress,
+  relayReplyAddress,
+  relayReplyEmail,
+  MAX_RELAY_EMAIL_LENGTH
+} from '../supabase/functions/_shared/emailRelay.ts';
+
+const domain = 'relay.example.com';
+
+// Runs without a browser: the helpers are pure
+test.describe('Lost & found email relay', () => {
+  test('builds and finds the masked address of a report', () => {
+    const address = relayAliasAddress('a1b2c3d4e5f6', domain);
+    expect(address).toBe('lost-a1b2c3d4e5f6@relay.example.com');
+    expect(findRelayRecipient(['someone@example.com', `Lost Pet <${address.toUpperCase()}>`], domain)).toEqual({
+      alias: 'a1b2c3d4e5f6',
+      replyToken: null
+    });
+  });
+
+  test('builds and finds the reply address of a forwarded email', () => {
+    const address = relayReplyAddress('a1b2c3d4e5f6', '0123456789abcdef', domain);
+    expect(address).toBe('lost-a1b2c3d4e5f6.0123456789abcdef@relay.example.com');
+    expect(findRelayRecipient([address], domain)).toEqual({ alias: 'a1b2c3d4e5f6', replyToken: '0123456789abcdef' });
+  });
+
+  test('ignores other domains and malformed aliases', () => {
+    expect(findRelayRecipient(['lost-a1b2c3d4e5f6@elsewhere.com'], domain)).toBeNull();
+    expect(findRelayRecipient(['lost-short@relay.example.com'], domain)).toBeNull();
+    expect(findRelayRecipient(['lost-a1b2c3d4e5f6.xyz@relay.example.com'], domain)).toBeNull();
+    expect(findRelayRecipient(['info@relay.example.com'], domain)).toBeNull();
+  });
+
+  test('extracts the bare sender address', () => {
+    expect(extractAddress('Sam Finder <Sam@Example.com>')).toBe('sam@example.com');
+    expect(extractAddress(' sam@example.com ')).toBe('sam@example.com');
+    expect(extractAddress('not an address')).toBeNull();
+  });
+
+  test('warns the reporter and trims long emails', () => {
+    const email = forwardedRelayEmail({
+      petName: 'Biscuit',
+      sender: 'sam@example.com',
+      subject: '  ',
+      text: 'x'.repeat(MAX_RELAY_EMAIL_LENGTH + 100)
+    });
+    expect(email.subject).toBe('About Biscuit: (no subject)');
+    expect(email.text).toContain('your own address stays hidden');
+    expect(email.text.endsWith('x'.repeat(MAX_RELAY_EMAIL_LENGTH))).toBe(true);
+    expect(email.text).not.toContain('x'.repeat(MAX_RELAY_EMAIL_LENGTH + 1));
+  });
+
+  test('relays the reporter\'s reply without naming an address', () => {
+    const reply = relayReplyEmail({
+      petName: 'Biscuit',
+      subject: 'Re: About Biscuit: Found him',
+      text: 'Thank you! Where can I pick him up?'
+    });
+    expect(reply.subject).toBe('Re: About Biscuit: Found him');
+    expect(reply.text).toContain('The reporter of the lost & found report for Biscuit replied');
+    expect(reply.text).not.toMatch(/@/);
+  });
+});
@@ -0,0 +1,42 @@
+import { test, expect } from '@playwright/test';
+import { detectRedFlags, getFirstAidSteps } from '../src/lib/emergencyTriage';
+
+const dog = { species: 'dog' as const, breed: 'Beagle', weight: 25, gender: 'female' };
+
+// Runs without a browser: red-flag detection is pure and on-device
+test.describe('Emergency red flags', () => {
+  test('should not flag routine symptoms', () => {
+    expect(detectRedFlags(dog, { symptoms: ['Vomiting', 'Lethargy'] })).toEqual([]);
+  });
+
+  test('should flag toxins from the checklist or free text', () => {
+    expect(detectRedFlags(dog, { symptoms: ['Ate something toxic'] }).map(f => f.id)).toEqual(['toxin']);
+    expect(detectRedFlags(dog, { symptoms: ['Vomiting'], additional_notes: 'He ate chocolate an hour ago' })
+      .map(f => f.id)).toEqual(['toxin']);
+  });
+
+  test('should flag bloat on one sign only for large dogs', () => {
+    const input = { symptoms: ['Retching without vomiting'] };
+    expect(detectRedFlags(dog, input)).toEqual([]);
+    expect(detectRedFlags({ ...dog, weight: 80 }, input).map(f => f.id)).toEqual(['bloat']);
+    expect(detectRedFlags({ ...dog, breed: 'Great Dane', weight: 0 }, input).map(f => f.id)).toEqual(['bloat']);
+    expect(detectRedFlags(dog, { symptoms: ['Retching without vomiting', 'Swollen belly'] }).map(f => f.id))
+      .toEqual(['bloat']);
+  });
+
+  test('should flag urinary blockage only in male cats', () => {
+    const input = { symptoms: ['Straining to urinate'] };
+    const cat = { species: 'cat' as const, weight: 10, gender: 'Male' };
+    expect(detectRedFlags(cat, input).map(f => f.id)).toEqual(['urinary_blockage']);
+    expect(detectRedFlags({ ...cat, gender: 'female' }, input)).toEqual([]);
+    expect(detectRedFlags({ ...dog, gender: 'male' }, input)).toEqual([]);
+  });
+
+  test('should use species-specific first aid', () => {
+    const [flag] = detectRedFlags({ species: 'cat', weight: 10, gender: 'female' }, {
+      symptoms: ['Difficulty breathing']
+    });
+    expect(flag.firstAid).toEqual(getFirstAidSteps('breathing', 'cat'));
+    expect(flag.firstAid).not.toEqual(getFirstAidSteps('breathing', 'dog'));
+  });
+});
@@ -0,0 +1,82 @@
+import { test, expect } from '@playwright/test';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { appendFeedPage, loadFeedPage, type FeedPost } from '../src/lib/feed.ts';
+
+function post(id: string, createdAt: string, likes = 0): FeedPost {
+  return {
+    id,
+    author_id: 'user-1',
+    content: `Post ${id}`,
+    media_urls: [],
+    visibility: 'public',
+    likes_count: likes,
+    comments_count: 0,
+    shares_count: 0,
+    created_at: createdAt,
+    profiles: { id: 'user-1', display_name: 'Sam' },
+    pets: null,
+    user_liked: false,
+    user_saved: false,
+    author_followed: false
+  };
+}
+
+// Stands in for the Supabase client, recording RPC calls
+function fakeClient(rows: FeedPost[]) {
+  const calls: Array<{ fn: string; params: Record<string, unknown> }> = [];
+  const client = {
+    rpc: async (fn: string, params: Record<string, unknown>) => {
+      calls.push({ fn, params });
+      return { data: rows.slice(0, params.p_limit as number), error: null };
+    }
+  } as unknown as SupabaseClient;
+  return { client, calls };
+}
+
+// Runs without a browser or database: the RPC is faked
+test.describe('Feed pagination', () => {
+  const rows = [
+    post('c', '2025-08-03T10:00:00Z', 4),
+    post('b', '2025-08-02T10:00:00Z', 9),
+    post('a', '2025-08-01T10:00:00Z', 1)
+  ];
+
+  test('returns a cursor at the last post when more pages exist', async () => {
+    const { client, calls } = fakeClient(rows);
+    const page = await loadFeedPage(client, 'recent', null, 2);
+
+    expect(page.posts.map(p => p.id)).toEqual(['c', 'b']);
+    expect(page.nextCursor).toEqual({ created_at: '2025-08-02T10:00:00Z', id: 'b', likes_count: 9 });
+    expect(calls).toEqual([{
+      fn: 'get_feed_page',
+      params: { p_sort: 'recent', p_cursor_created_at: null, p_cursor_id: null, p_cursor_likes: null, p_limit: 3 }
+    }]);
+  });
+
+  test('passes the cursor on and stops at the last page', async () => {
+    const { client, calls } = fakeClient(rows.slice(2));
+    const page = await loadFeedPage(client, 'popular', { created_at: '2025-08-02T10:00:00Z', id: 'b', likes_count: 9 }, 2);
+
+    expect(page.posts.map(p => p.id)).toEqual(['a']);
+    expect(page.nextCursor).toBeNull();
+    expect(calls[0].params).toMatchObject({
+      p_sort: 'popular',
+      p_cursor_created_at: '2025-08-02T10:00:00Z',
+      p_cursor_id: 'b',
+      p_cursor_likes: 9
+    });
+  });
+
+  test('throws RPC errors', async () => {
+    const client = {
+      rpc: async () => ({ data: null, error: new Error('permission denied') })
+    } as unknown as SupabaseClient;
+
+    await expect(loadFeedPage(client, 'following')).rejects.toThrow('permission denied');
+  });
+
+  test('skips posts already in the feed when appending a page', () => {
+    const merged = appendFeedPage([rows[0], rows[1]], [rows[1], rows[2]]);
+    expect(merged.map(p => p.id)).toEqual(['c', 'b', 'a']);
+  });
+});
@@ -0,0 +1,70 @@
+import { test, expect } from '@playwright/test';
+import { rankFeed, scoreFeedPost, RECENCY_HALF_LIFE_HOURS } from '../supabase/functions/_shared/feedRanking.ts';
+import type { RankablePost, ViewerSignals } from '../supabase/functions/_shared/feedRanking.ts';
+
+const now = new Date('2025-08-21T12:00:00Z');
+
+function hoursAgo(hours: number): string {
+  return new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString();
+}
+
+function post(id: string, overrides: Partial<RankablePost> = {}): RankablePost {
+  return {
+    id,
+    author_id: 'stranger',
+    created_at: hoursAgo(1),
+    likes_count: 0,
+    comments_count: 0,
+    shares_count: 0,
+    pets: null,
+    ...overrides
+  };
+}
+
+const viewer: ViewerSignals = {
+  followedAuthorIds: ['friend'],
+  messageCounts: { friend: 4 },
+  likeCounts: { friend: 5 },
+  species: ['dog']
+};
+
+// Runs without a browser: the scoring is pure
+test.describe('Ranked feed scoring', () => {
+  test('should explain each factor that earned points', () => {
+    const ranking = scoreFeedPost(post('p1', { author_id: 'friend', pets: { species: 'Dog' } }), viewer, now);
+    const ids = ranking.reasons.map(r => r.id);
+
+    expect(ids).toEqual(['follow', 'likes', 'species', 'messages']);
+    expect(ranking.reasons.find(r => r.id === 'messages')!.points).toBe(6);
+    expect(ranking.reasons.find(r => r.id === 'likes')!.detail).toBe('You liked 5 of their posts');
+  });
+
+  test('should halve the score every half-life', () => {
+    const fresh = scoreFeedPost(post('p1', { author_id: 'friend', created_at: hoursAgo(0) }), viewer, now);
+    const older = scoreFeedPost(post('p1', { author_id: 'friend', created_at: hoursAgo(RECENCY_HALF_LIFE_HOURS) }), viewer, now);
+
+    expect(fresh.recency).toBe(1);
+    expect(older.recency).toBe(0.5);
+    expect(older.score).toBeCloseTo(fresh.score / 2, 0);
+  });
+
+  test('should reward engagement per hour rather than totals', () => {
+    const viral = post('viral', { created_at: hoursAgo(1), likes_count: 10, comments_count: 2 });
+    const slow = post('slow', { created_at: hoursAgo(10), likes_count: 12, comments_count: 2 });
+    const points = (p: RankablePost) => scoreFeedPost(p, viewer, now).reasons.find(r => r.id === 'engagement')?.points ?? 0;
+
+    expect(points(viral)).toBeGreaterThan(points(slow));
+    expect(points(post('quiet'))).toBe(0);
+  });
+
+  test('should rank by score and break ties by recency', () => {
+    const ranked = rankFeed([
+      post('old-stranger', { created_at: hoursAgo(5) }),
+      post('friend', { author_id: 'friend', created_at: hoursAgo(5) }),
+      post('new-stranger', { created_at: hoursAgo(2) })
+    ], viewer, now);
+
+    expect(ranked.map(p => p.id)).toEqual(['friend', 'new-stranger', 'old-stranger']);
+    expect(ranked[0].ranking.reasons.length).toBeGreaterThan(0);
+  });
+});
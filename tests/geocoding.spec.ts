@@ -0,0 +1,91 @@
+import { test, expect } from '@playwright/test';
+import {
+  createGeocoder,
+  gazetteerProvider,
+  nominatimProvider,
+  placeLabel,
+  type GeocodingProvider
+} from '../src/lib/geocoding.ts';
+
+const places = [
+  { name: 'Mission District, San Francisco', latitude: 37.7599, longitude: -122.4148, aliases: ['94110'] },
+  { name: 'Oakland, CA', latitude: 37.8044, longitude: -122.2712 }
+];
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+}
+
+// Runs without a browser or network: the providers are plain functions
+test.describe('Geocoding', () => {
+  test('finds gazetteer places by name, alias or within an address', async () => {
+    const provider = gazetteerProvider(places);
+
+    expect(await provider.search('94110')).toEqual({
+      latitude: 37.7599,
+      longitude: -122.4148,
+      label: 'Mission District, San Francisco'
+    });
+    expect((await provider.search('Lake Merritt,  OAKLAND'))?.label).toBe('Oakland, CA');
+    expect(await provider.search('Atlantis')).toBeNull();
+  });
+
+  test('names the nearest gazetteer place, unless it is too far away', async () => {
+    const provider = gazetteerProvider(places);
+
+    expect(await provider.reverse(37.7612, -122.4201)).toBe('Mission District, San Francisco');
+    expect(await provider.reverse(47.6062, -122.3321)).toBeNull();
+  });
+
+  test('queries Nominatim and shortens its place names', async () => {
+    const urls: string[] = [];
+    const provider = nominatimProvider('https://geo.example.org/', async (input) => {
+      const url = String(input);
+      urls.push(url);
+      return url.includes('/search?')
+        ? jsonResponse([{ lat: '37.7596', lon: '-122.4269', display_name: 'Dolores Park, 19th Street, Mission District, San Francisco, California, United States', address: { park: 'Dolores Park', suburb: 'Mission District', city: 'San Francisco' } }])
+        : jsonResponse({ error: 'Unable to geocode' });
+    });
+
+    expect(await provider.search('dolores park')).toEqual({
+      latitude: 37.7596,
+      longitude: -122.4269,
+      label: 'Dolores Park, San Francisco'
+    });
+    expect(await provider.reverse(0, 0)).toBeNull();
+    expect(urls[0]).toBe('https://geo.example.org/search?format=jsonv2&addressdetails=1&q=dolores+park&limit=1');
+    expect(urls[1]).toContain('https://geo.example.org/reverse?');
+  });
+
+  test('falls back to the display name when there are no address details', () => {
+    expect(placeLabel({ display_name: 'Golden Gate Park, San Francisco, California' })).toBe('Golden Gate Park, San Francisco');
+  });
+
+  test('caches lookups but retries failures', async () => {
+    const calls: string[] = [];
+    let failNext = true;
+    const provider: GeocodingProvider = {
+      async search(query) {
+        calls.push(query);
+        if (failNext) {
+          failNext = false;
+          throw new Error('Service unavailable');
+        }
+        return { latitude: 1, longitude: 2, label: query };
+      },
+      async reverse(latitude, longitude) {
+        calls.push(`${latitude},${longitude}`);
+        return 'Somewhere';
+      }
+    };
+    const geocoder = createGeocoder(provider);
+
+    await expect(geocoder.geocode('Oakland')).rejects.toThrow('Service unavailable');
+    expect((await geocoder.geocode('Oakland'))?.label).toBe('oakland');
+    expect((await geocoder.geocode('  oakland '))?.latitude).toBe(1);
+
+    await geocoder.reverseGeocode(37.76001, -122.41001);
+    await geocoder.reverseGeocode(37.76002, -122.41002);
+    expect(calls).toEqual(['oakland', 'oakland', '37.76001,-122.41001']);
+  });
+});
@@ -0,0 +1,176 @@
+import { test, expect } from '@playwright/test';
+import {
+  buildHealthBundle,
+  bytesToBase64,
+  getAttachmentPath,
+  isInRange,
+  medicationOverlapsRange,
+  renderHealthSummaryHtml,
+  type HealthExportData
+} from '../src/lib/healthExport.ts';
+import type { HealthRecord, Medication } from '../src/lib/supabase.ts';
+
+function record(overrides: Partial<HealthRecord> & Pick<HealthRecord, 'id' | 'type' | 'title'>): HealthRecord {
+  return { pet_id: 'pet-1', date: '2025-03-01', created_at: '2025-03-01T00:00:00Z', ...overrides };
+}
+
+function medication(overrides: Partial<Medication> = {}): Medication {
+  return {
+    id: 'med-1',
+    pet_id: 'pet-1',
+    name: 'Rimadyl',
+    dosage: '25mg',
+    frequency: 'twice_daily',
+    dose_times: ['08:00', '20:00'],
+    timezone: 'America/New_York',
+    start_date: '2025-02-01',
+    end_date: '2025-02-14',
+    is_active: true,
+    created_at: '2025-02-01T00:00:00Z',
+    ...overrides
+  };
+}
+
+function exportData(overrides: Partial<HealthExportData> = {}): HealthExportData {
+  return {
+    pet: {
+      id: 'pet-1',
+      owner_id: 'owner-1',
+      name: 'Biscuit',
+      species: 'dog',
+      breed: 'Beagle',
+      gender: 'Female',
+      date_of_birth: '2020-05-01',
+      visibility: 'private',
+      is_lost: false,
+      created_at: '2020-06-01T00:00:00Z'
+    },
+    owner: { display_name: 'Sam', email: 'sam@example.com' },
+    records: [
+      record({ id: 'rec-vax', type: 'vaccination', title: 'Rabies', veterinarian: 'Lee' }),
+      record({ id: 'rec-surgery', type: 'surgery', title: 'Spay' }),
+      record({ id: 'rec-er', type: 'emergency', title: 'Ate chocolate', description: 'Induced vomiting' })
+    ],
+    medications: [medication()],
+    vitals: [{
+      id: 'vital-1',
+      pet_id: 'pet-1',
+      recorded_at: '2025-03-01T09:00:00Z',
+      weight: 24.5,
+      heart_rate: 90,
+      created_at: '2025-03-01T09:00:00Z'
+    }],
+    attachments: [{ recordId: 'rec-er', fileName: 'invoice.pdf', url: 'https://files.example/invoice.pdf' }],
+    range: { from: '2025-01-01', to: '2025-03-31' },
+    generatedAt: '2025-04-01T12:00:00Z',
+    ...overrides
+  };
+}
+
+// Runs without a browser: building the export is pure
+test.describe('Health export', () => {
+  test('should filter by date range and medication course overlap', () => {
+    const range = { from: '2025-02-10', to: '2025-02-20' };
+
+    expect(isInRange('2025-02-10T23:00:00Z', range)).toBe(true);
+    expect(isInRange('2025-02-21', range)).toBe(false);
+    expect(isInRange('1999-01-01', {})).toBe(true);
+
+    expect(medicationOverlapsRange(medication(), range)).toBe(true);
+    expect(medicationOverlapsRange(medication({ end_date: '2025-02-05' }), range)).toBe(false);
+    expect(medicationOverlapsRange(medication({ start_date: '2025-03-01', end_date: undefined }), range)).toBe(false);
+  });
+
+  test('should read attachment paths out of public storage URLs', () => {
+    const url = 'https://x.supabase.co/storage/v1/object/public/health-records/pet-1/My%20Invoice.pdf?t=1';
+
+    expect(getAttachmentPath(url, 'health-records')).toBe('pet-1/My Invoice.pdf');
+    expect(getAttachmentPath(url, 'avatars')).toBeNull();
+  });
+
+  test('should map the pet and its history onto FHIR resources', () => {
+    const bundle = buildHealthBundle(exportData());
+
+    expect(bundle).toMatchObject({ resourceType: 'Bundle', type: 'collection', timestamp: '2025-04-01T12:00:00Z' });
+    expect(bundle.entry.map(e => `${e.resource.resourceType}/${e.resource.id}`)).toEqual([
+      'Patient/pet-1',
+      'Immunization/rec-vax',
+      'Procedure/rec-surgery',
+      'Encounter/rec-er',
+      'MedicationStatement/med-1',
+      'Observation/vital-1-weight',
+      'Observation/vital-1-heart_rate',
+      'DocumentReference/rec-er-attachment'
+    ]);
+    expect(bundle.entry.every(e => e.fullUrl === `urn:uuid:${e.resource.id}`)).toBe(true);
+  });
+
+  test('should fill in the resource fields clinic systems map on', () => {
+    const resources = buildHealthBundle(exportData()).entry.map(e => e.resource);
+    const byId = (id: string) => resources.find(r => r.id === id)!;
+
+    expect(byId('pet-1')).toMatchObject({
+      gender: 'female',
+      birthDate: '2020-05-01',
+      extension: [{
+        url: 'http://hl7.org/fhir/StructureDefinition/patient-animal',
+        extension: [
+          { url: 'species', valueCodeableConcept: { text: 'dog' } },
+          { url: 'breed', valueCodeableConcept: { text: 'Beagle' } }
+        ]
+      }]
+    });
+    expect(byId('rec-vax')).toMatchObject({
+      status: 'completed',
+      vaccineCode: { text: 'Rabies' },
+      patient: { reference: 'Patient/pet-1' },
+      performer: [{ actor: { display: 'Lee' } }]
+    });
+    expect(byId('rec-er')).toMatchObject({ class: { code: 'EMER' }, note: [{ text: 'Induced vomiting' }] });
+    expect(byId('med-1')).toMatchObject({
+      status: 'completed',
+      dosage: [{ text: '25mg, twice daily', timing: { repeat: { timeOfDay: ['08:00', '20:00'] } } }]
+    });
+    expect(byId('vital-1-weight')).toMatchObject({
+      code: { coding: [{ system: 'http://loinc.org', code: '29463-7' }] },
+      valueQuantity: { value: 24.5, unit: 'lb' }
+    });
+    expect(byId('rec-er-attachment')).toMatchObject({
+      context: { related: [{ reference: 'urn:uuid:rec-er' }] },
+      content: [{ attachment: { title: 'invoice.pdf' } }]
+    });
+  });
+
+  test('should embed attachment files in the bundle so it keeps working', () => {
+    const data = bytesToBase64(new TextEncoder().encode('%PDF-1.4 invoice'));
+    const bundle = buildHealthBundle(exportData({
+      attachments: [{ recordId: 'rec-er', fileName: 'invoice.pdf', contentType: 'application/pdf', data }]
+    }));
+    const document = bundle.entry.find(e => e.resource.id === 'rec-er-attachment')!.resource;
+
+    expect(data).toBe('JVBERi0xLjQgaW52b2ljZQ==');
+    expect(document).toMatchObject({
+      content: [{ attachment: { contentType: 'application/pdf', title: 'invoice.pdf', data } }]
+    });
+    expect(JSON.stringify(document)).not.toContain('"url"');
+  });
+
+  test('should say when the summary attachment links stop working', () => {
+    const expiresAt = '2025-04-08T12:00:00Z';
+    const html = renderHealthSummaryHtml(exportData({
+      attachments: [{ recordId: 'rec-er', fileName: 'invoice.pdf', url: 'https://files.example/invoice.pdf', expiresAt }]
+    }));
+
+    expect(html).toContain(`Attachment links work until ${new Date(expiresAt).toLocaleDateString()}.`);
+    expect(renderHealthSummaryHtml(exportData())).not.toContain('Attachment links work until');
+  });
+
+  test('should escape user text in the printable summary', () => {
+    const data = exportData();
+    data.pet.name = '<script>alert(1)</script>';
+    const html = renderHealthSummaryHtml(data);
+
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('<script>alert(1)</script>');
+  });
+});
@@ -0,0 +1,116 @@
+import { test, expect } from '@playwright/test';
+import {
+  csvRowsToDrafts,
+  guessColumnMapping,
+  inferRecordType,
+  invoiceToDrafts,
+  markDuplicates,
+  normalizeDate,
+  parseCost,
+  parseCsv,
+  parseInvoiceText
+} from '../src/lib/healthImport.ts';
+
+const INVOICE = [
+  'Happy Paws Animal Hospital',
+  '123 Main St',
+  'Date: 03/04/2025',
+  'Attending: Dr. Jane Lee',
+  'Wellness exam    $65.00',
+  'Rabies vaccine 1 x 25.00',
+  'Subtotal 90.00',
+  'Tax 5.00',
+  'Total $95.00'
+];
+
+// Runs without a browser: parsing and matching are pure
+test.describe('Health record import', () => {
+  test('should parse quoted CSV with either separator', () => {
+    const csv = '\uFEFFDate,Item,Amount\r\n2025-01-05,"Exam, wellness",$65.00\r\n"3/4/2025","Rabies ""3 yr""",25\r\n\r\n';
+
+    expect(parseCsv(csv)).toEqual([
+      ['Date', 'Item', 'Amount'],
+      ['2025-01-05', 'Exam, wellness', '$65.00'],
+      ['3/4/2025', 'Rabies "3 yr"', '25']
+    ]);
+    expect(parseCsv('Datum;Omschrijving;Bedrag\n05.01.2025;Consult;45,50')).toEqual([
+      ['Datum', 'Omschrijving', 'Bedrag'],
+      ['05.01.2025', 'Consult', '45,50']
+    ]);
+  });
+
+  test('should guess column mappings from clinic headers', () => {
+    expect(guessColumnMapping(['Service Date', 'Description', 'Vet', 'Total', 'Invoice #'])).toEqual([
+      'date', 'title', 'veterinarian', 'cost', 'ignore'
+    ]);
+  });
+
+  test('should normalize clinic date and amount formats', () => {
+    expect(normalizeDate('2025-03-04')).toBe('2025-03-04');
+    expect(normalizeDate('3/4/2025')).toBe('2025-03-04');
+    expect(normalizeDate('25/12/24')).toBe('2024-12-25');
+    expect(normalizeDate('Mar 4, 2025')).toBe('2025-03-04');
+    expect(normalizeDate('4 March 2025')).toBe('2025-03-04');
+    expect(normalizeDate('2/30/2025')).toBeNull();
+    expect(normalizeDate('next week')).toBeNull();
+
+    expect(parseCost('$1,234.50')).toBe(1234.5);
+    expect(parseCost('45,50')).toBe(45.5);
+    expect(parseCost('1.234,56')).toBe(1234.56);
+    expect(parseCost('n/a')).toBeNull();
+  });
+
+  test('should turn mapped rows into drafts and flag the unusable ones', () => {
+    const drafts = csvRowsToDrafts(
+      [['2025-01-05', 'Rabies vaccine', '25'], ['', 'Nail trim', '15']],
+      ['date', 'title', 'cost']
+    );
+
+    expect(drafts[0]).toMatchObject({ type: 'vaccination', date: '2025-01-05', cost: 25, errors: [], include: true });
+    expect(drafts[1]).toMatchObject({ type: 'other', errors: ['Missing or unreadable date'], include: false });
+
+    expect(inferRecordType('Surgery')).toBe('surgery');
+    expect(inferRecordType('Emergency exam')).toBe('emergency');
+    expect(inferRecordType('Carprofen 75mg chewable')).toBe('medication');
+  });
+
+  test('should read the clinic, vet, date and priced items from invoice text', () => {
+    const invoice = parseInvoiceText(INVOICE);
+
+    expect(invoice).toEqual({
+      clinic: 'Happy Paws Animal Hospital',
+      veterinarian: 'Jane Lee',
+      date: '2025-03-04',
+      items: [
+        { description: 'Wellness exam', cost: 65 },
+        { description: 'Rabies vaccine', cost: 25 }
+      ]
+    });
+    expect(invoiceToDrafts(invoice).map(d => [d.type, d.title, d.description])).toEqual([
+      ['checkup', 'Wellness exam', 'Imported from Happy Paws Animal Hospital invoice'],
+      ['vaccination', 'Rabies vaccine', 'Imported from Happy Paws Animal Hospital invoice']
+    ]);
+  });
+
+  test('should leave out drafts matching existing records or repeated in the file', () => {
+    const existing = [
+      { id: 'rec-1', type: 'vaccination' as const, title: 'Rabies Vaccine (3yr)', date: '2025-03-04', cost: 30 },
+      { id: 'rec-2', type: 'checkup' as const, title: 'Annual visit', date: '2025-03-04', cost: 65 }
+    ];
+    const invoiceDrafts = markDuplicates(invoiceToDrafts(parseInvoiceText(INVOICE)), existing);
+
+    expect(invoiceDrafts.map(d => [d.duplicateOf?.id, d.include])).toEqual([
+      ['rec-2', false],
+      ['rec-1', false]
+    ]);
+
+    const repeated = markDuplicates(
+      csvRowsToDrafts([['2025-05-01', 'Nail trim', '15'], ['2025-05-01', 'Nail trim', '15']], ['date', 'title', 'cost']),
+      existing
+    );
+    expect(repeated.map(d => [d.errors, d.include])).toEqual([
+      [[], true],
+      [['Repeated in this file'], false]
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+import { test, expect } from '@playwright/test';
+import {
+  combineHealthScores,
+  computeHealthScore,
+  getCheckupIntervalMonths,
+  type HealthScoreInput
+} from '../src/lib/healthScore.ts';
+import type { HealthRecord, PetVital } from '../src/lib/supabase.ts';
+
+const TODAY = '2025-06-01';
+
+function record(type: HealthRecord['type'], title: string, date: string) {
+  return { type, title, date, description: undefined };
+}
+
+function weight(recordedAt: string, value: number): PetVital {
+  return { id: recordedAt, pet_id: 'pet-1', recorded_at: recordedAt, created_at: recordedAt, weight: value };
+}
+
+function input(overrides: Partial<HealthScoreInput> = {}): HealthScoreInput {
+  return {
+    pet: { species: 'bird', date_of_birth: '2022-01-01' },
+    records: [record('checkup', 'Annual exam', '2025-03-01')],
+    medications: [],
+    vitals: [weight('2025-05-01', 1.2), weight('2025-05-25', 1.2)],
+    ...overrides
+  };
+}
+
+const breakdown = (score: ReturnType<typeof computeHealthScore>) =>
+  Object.fromEntries(score.factors.map(f => [f.id, [f.points, f.detail]]));
+
+// Runs without a browser: scoring is pure
+test.describe('Health score', () => {
+  test('should give full marks with an explanation for every factor', () => {
+    const score = computeHealthScore(input(), TODAY);
+
+    expect(score.score).toBe(100);
+    expect(breakdown(score)).toEqual({
+      preventive_care: [25, 'Last checkup 3 months ago; checkups every 12 months are recommended'],
+      vaccinations: [25, 'No standard vaccine protocol for this species'],
+      medications: [10, 'No ongoing medications'],
+      recent_issues: [20, 'No recent emergencies or symptoms'],
+      weight_trend: [20, 'Weight and vitals within normal range']
+    });
+    expect(score.factors.map(f => f.maxPoints).reduce((sum, max) => sum + max, 0)).toBe(100);
+  });
+
+  test('should expect checkups twice a year for young and senior pets', () => {
+    expect(getCheckupIntervalMonths({ species: 'dog', date_of_birth: '2025-01-01' }, TODAY)).toBe(6);
+    expect(getCheckupIntervalMonths({ species: 'dog', date_of_birth: '2018-01-01' }, TODAY)).toBe(6);
+    expect(getCheckupIntervalMonths({ species: 'dog', date_of_birth: '2020-01-01' }, TODAY)).toBe(12);
+    expect(getCheckupIntervalMonths({ species: 'hamster', date_of_birth: '2015-01-01' }, TODAY)).toBe(12);
+    expect(getCheckupIntervalMonths({ species: 'cat', date_of_birth: undefined }, TODAY)).toBe(12);
+  });
+
+  test('should step preventive care down as the last checkup ages', () => {
+    const preventive = (records: HealthScoreInput['records']) =>
+      computeHealthScore(input({ records }), TODAY).factors.find(f => f.id === 'preventive_care');
+
+    expect(preventive([record('checkup', 'Exam', '2024-04-27')])).toMatchObject({ points: 15 });
+    expect(preventive([record('checkup', 'Exam', '2023-10-01')])).toMatchObject({ points: 5 });
+    expect(preventive([record('checkup', 'Exam', '2025-09-01')])).toMatchObject({
+      points: 0,
+      detail: 'No checkup on record; checkups every 12 months are recommended'
+    });
+  });
+
+  test('should take points off for overdue vaccines, medications, recent issues and vitals', () => {
+    const score = computeHealthScore(input({
+      pet: { species: 'dog', date_of_birth: '2020-01-01' },
+      records: [record('emergency', 'Ate a sock', '2025-04-01'), record('symptom', 'Limping', '2025-05-20')],
+      medications: [
+        { is_active: true, frequency: 'daily', end_date: undefined },
+        { is_active: true, frequency: 'twice_daily', end_date: '2025-06-10' },
+        { is_active: true, frequency: 'as_needed', end_date: undefined },
+        { is_active: true, frequency: 'daily', end_date: '2025-05-01' }
+      ],
+      vitals: [weight('2025-05-01', 50), weight('2025-05-25', 44)]
+    }), TODAY);
+
+    expect(breakdown(score)).toEqual({
+      preventive_care: [0, 'No checkup on record; checkups every 12 months are recommended'],
+      vaccinations: [5, 'Overdue: DHPP, Rabies'],
+      medications: [4, '2 ongoing medications being given'],
+      recent_issues: [6, '1 emergency in 90 days, 1 symptom in 30 days'],
+      weight_trend: [5, 'Lost 12.0% of body weight in 30 days']
+    });
+    expect(score.score).toBe(20);
+  });
+
+  test('should never take a factor below zero', () => {
+    const emergencies = ['2025-05-01', '2025-05-10', '2025-05-20'].map(date => record('emergency', 'Seizure', date));
+    const recent = computeHealthScore(input({ records: emergencies }), TODAY).factors.find(f => f.id === 'recent_issues');
+
+    expect(recent).toMatchObject({ points: 0, detail: '3 emergencies in 90 days' });
+  });
+
+  test('should average pets factor by factor and name the ones losing points', () => {
+    const healthy = computeHealthScore(input(), TODAY);
+    const overdue = computeHealthScore(input({ records: [] }), TODAY);
+    const combined = combineHealthScores([
+      { name: 'Kiwi', score: healthy },
+      { name: 'Mango', score: overdue }
+    ]);
+
+    expect(combined.factors[0]).toMatchObject({
+      points: 13,
+      detail: 'Mango: No checkup on record; checkups every 12 months are recommended'
+    });
+    expect(combined.factors[2]).toMatchObject({ points: 10, detail: 'All 2 pets on track' });
+    expect(combined.score).toBe(88);
+    expect(combineHealthScores([{ name: 'Kiwi', score: healthy }])).toBe(healthy);
+  });
+});
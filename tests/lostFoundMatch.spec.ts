@@ -0,0 +1,67 @@
+import { test, expect } from '@playwright/test';
+import { scoreMatch, extractColors, LIKELY_MATCH_SCORE } from '../supabase/functions/_shared/lostFoundMatch.ts';
+import type { MatchableReport } from '../supabase/functions/_shared/lostFoundMatch.ts';
+
+const lost: MatchableReport = {
+  id: 'lost-1',
+  status: 'lost',
+  species: 'dog',
+  breed: 'Golden Retriever',
+  color: 'golden',
+  description: 'Friendly golden retriever with a red collar and a limp on the back leg',
+  latitude: 37.7749,
+  longitude: -122.4194,
+  created_at: '2025-08-01T10:00:00Z'
+};
+
+const found: MatchableReport = {
+  ...lost,
+  id: 'found-1',
+  status: 'found',
+  breed: 'golden retriever mix',
+  color: 'Gold',
+  description: 'Found a golden dog with red collar, limping slightly',
+  latitude: 37.7849,
+  longitude: -122.4094,
+  created_at: '2025-08-02T15:00:00Z'
+};
+
+// Runs without a browser: the scoring is pure
+test.describe('Lost & found matching', () => {
+  test('should score a close, similar pair as a likely match', () => {
+    const result = scoreMatch(lost, found)!;
+    expect(result.score).toBeGreaterThanOrEqual(LIKELY_MATCH_SCORE);
+    expect(result.factors.find(f => f.id === 'breed')!.points).toBe(20);
+    expect(result.factors.find(f => f.id === 'color')!.points).toBe(15);
+    expect(result.distanceMiles).toBeLessThan(1);
+  });
+
+  test('should never match different species or distant pairs', () => {
+    expect(scoreMatch(lost, { ...found, species: 'cat' })).toBeNull();
+    expect(scoreMatch(lost, { ...found, latitude: 38.5, longitude: -121.5 })).toBeNull();
+  });
+
+  test('should rule out pets found long before or after', () => {
+    expect(scoreMatch(lost, { ...found, created_at: '2025-07-20T10:00:00Z' })).toBeNull();
+    expect(scoreMatch(lost, { ...found, created_at: '2025-12-01T10:00:00Z' })).toBeNull();
+  });
+
+  test('should score mismatched breed and color lower', () => {
+    const other = scoreMatch(lost, { ...found, breed: 'Poodle', color: 'black', description: 'Black poodle, no collar' })!;
+    expect(other.score).toBeLessThan(LIKELY_MATCH_SCORE);
+    expect(other.score).toBeLessThan(scoreMatch(lost, found)!.score);
+  });
+
+  test('should use photo labels only when both reports have them', () => {
+    const labels = [{ label: 'golden_retriever', score: 0.9 }, { label: 'dog', score: 0.95 }];
+    expect(scoreMatch(lost, { ...found, photo_labels: labels })!.factors.map(f => f.id)).not.toContain('photo');
+
+    const withPhotos = scoreMatch({ ...lost, photo_labels: labels }, { ...found, photo_labels: labels })!;
+    expect(withPhotos.factors.find(f => f.id === 'photo')!.points).toBe(10);
+  });
+
+  test('should normalize color names', () => {
+    expect(extractColors('Grey and white tabby')).toEqual(['grey', 'white', 'tabby']);
+    expect(extractColors('ginger')).toEqual(['orange']);
+  });
+});
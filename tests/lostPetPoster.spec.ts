@@ -0,0 +1,86 @@
+import { test, expect } from '@playwright/test';
+import {
+  renderLostPetPosterHtml,
+  createPosterQrSvg,
+  mapTilesAround,
+  publicReportUrl
+} from '../src/lib/lostPetPoster.ts';
+import type { LostFound } from '../src/lib/supabase.ts';
+
+const report: LostFound = {
+  id: 'report-1',
+  reporter_id: 'user-1',
+  status: 'lost',
+  pet_name: 'Biscuit <3',
+  species: 'dog',
+  breed: 'Beagle',
+  color: 'tricolor',
+  description: 'Small beagle with a blue collar',
+  photo_url: 'https://example.com/biscuit.jpg',
+  last_seen_location: 'Dolores Park',
+  latitude: 37.7596,
+  longitude: -122.4269,
+  relay_alias: 'a1b2c3d4e5f6',
+  reward_offered: true,
+  reward_amount: 200,
+  is_resolved: false,
+  created_at: '2025-08-01T10:00:00Z'
+};
+
+// Runs without a browser: rendering is pure
+test.describe('Lost pet poster', () => {
+  test('links the QR code to the public report page', async () => {
+    const reportUrl = publicReportUrl(report.id, 'https://app.example.com');
+    expect(reportUrl).toBe('https://app.example.com/lost/report-1');
+
+    const qrSvg = await createPosterQrSvg(reportUrl);
+    expect(qrSvg).toContain('<svg');
+
+    const html = renderLostPetPosterHtml(report, { pageSize: 'a4', reportUrl, qrSvg });
+    expect(html).toContain(qrSvg);
+    expect(html).toContain(reportUrl);
+  });
+
+  test('uses the chosen page size', () => {
+    const options = { reportUrl: 'https://app.example.com/lost/report-1', qrSvg: '<svg></svg>' };
+    expect(renderLostPetPosterHtml(report, { ...options, pageSize: 'a4' })).toContain('size: A4');
+    expect(renderLostPetPosterHtml(report, { ...options, pageSize: 'letter' })).toContain('size: letter');
+  });
+
+  test('shows reward and contact details and escapes report text', () => {
+    const html = renderLostPetPosterHtml(report, {
+      pageSize: 'letter',
+      reportUrl: 'https://app.example.com/lost/report-1',
+      qrSvg: '<svg></svg>',
+      contact: { phone: '555-0100', email: 'lost-a1b2c3d4e5f6@relay.example.com' }
+    });
+    expect(html).toContain('Biscuit &lt;3');
+    expect(html).not.toContain('Biscuit <3');
+    expect(html).toContain('$200 Reward');
+    expect(html).toContain('555-0100');
+    expect(html).toContain('lost-a1b2c3d4e5f6@relay.example.com');
+    expect(html).toContain('Beagle · tricolor');
+  });
+
+  test('leaves out the reward when none is offered', () => {
+    const html = renderLostPetPosterHtml({ ...report, reward_offered: false }, {
+      pageSize: 'letter',
+      reportUrl: 'https://app.example.com/lost/report-1',
+      qrSvg: '<svg></svg>'
+    });
+    expect(html).not.toContain('Reward');
+  });
+
+  test('centers the map snippet on the last-seen location', () => {
+    const tiles = mapTilesAround(report.latitude, report.longitude, 16);
+    expect(tiles).toHaveLength(9);
+
+    // The middle tile is the one containing the point, so it covers the center
+    const middle = tiles[4];
+    expect(middle.url).toBe('https://tile.openstreetmap.org/16/10480/25334.png');
+    expect(middle.left).toBeLessThanOrEqual(0);
+    expect(middle.left).toBeGreaterThan(-256);
+    expect(middle.top).toBeLessThanOrEqual(0);
+    expect(middle.top).toBeGreaterThan(-256);
+  });
+});
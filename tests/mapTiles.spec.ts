@@ -0,0 +1,42 @@
+import { test, expect } from '@playwright/test';
+import { clusterMarkers, projectToPixels, tileUrl, DEFAULT_TILE_URL } from '../src/lib/mapTiles.ts';
+
+// Two reports a block apart in the Mission and one across the bay in Oakland
+const points = [
+  { id: 'a', latitude: 37.7596, longitude: -122.4269 },
+  { id: 'b', latitude: 37.7601, longitude: -122.4262 },
+  { id: 'c', latitude: 37.8044, longitude: -122.2712 }
+];
+
+// Runs without a browser: tiles and clustering are pure
+test.describe('Map tiles', () => {
+  test('fills in OpenStreetMap-style tile templates', () => {
+    expect(tileUrl(DEFAULT_TILE_URL, 16, 10480, 25334)).toBe('https://tile.openstreetmap.org/16/10480/25334.png');
+    expect(tileUrl('https://{s}.tiles.example.org/osm/{z}/{x}/{y}.png', 3, 1, 2))
+      .toBe('https://a.tiles.example.org/osm/3/1/2.png');
+  });
+
+  test('projects onto the world map in pixels', () => {
+    expect(projectToPixels(0, 0, 0)).toEqual({ x: 128, y: 128 });
+
+    // Each zoom level doubles the size of the world
+    const low = projectToPixels(37.7596, -122.4269, 10);
+    const high = projectToPixels(37.7596, -122.4269, 11);
+    expect(high.x).toBeCloseTo(low.x * 2);
+    expect(high.y).toBeCloseTo(low.y * 2);
+  });
+
+  test('clusters markers that would overlap on screen', () => {
+    const clusters = clusterMarkers(points, 10);
+    expect(clusters).toHaveLength(2);
+    expect(clusters[0].items.map(p => p.id)).toEqual(['a', 'b']);
+    expect(clusters[0].latitude).toBeCloseTo(37.75985);
+    expect(clusters[0].longitude).toBeCloseTo(-122.42655);
+    expect(clusters[1].items.map(p => p.id)).toEqual(['c']);
+  });
+
+  test('splits clusters apart when zoomed in', () => {
+    expect(clusterMarkers(points, 18)).toHaveLength(3);
+    expect(clusterMarkers(points, 4)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,108 @@
+import { test, expect } from '@playwright/test';
+import {
+  buildDoseTimeline,
+  countMissedDoses,
+  expandDoses,
+  getNextDose,
+  getPendingDoseState,
+  getTodaysDoses,
+  resolveDoseStatus,
+  zonedTimeToUtc
+} from '../src/lib/medicationSchedule.ts';
+import type { Medication, MedicationDose } from '../src/lib/supabase.ts';
+
+type Schedule = Pick<Medication, 'frequency' | 'dose_times' | 'timezone' | 'start_date' | 'end_date'>;
+
+const NEW_YORK = 'America/New_York';
+
+function schedule(overrides: Partial<Schedule> = {}): Schedule {
+  return {
+    frequency: 'daily',
+    dose_times: ['08:00'],
+    timezone: NEW_YORK,
+    start_date: '2025-01-01',
+    end_date: undefined,
+    ...overrides
+  };
+}
+
+function dose(scheduledFor: string, status: MedicationDose['status']): MedicationDose {
+  return {
+    id: scheduledFor,
+    medication_id: 'med-1',
+    scheduled_for: scheduledFor,
+    status,
+    logged_at: scheduledFor,
+    created_at: scheduledFor
+  };
+}
+
+const iso = (dates: Date[]) => dates.map(date => date.toISOString());
+
+// Runs without a browser: the schedule maths is pure
+test.describe('Medication schedule', () => {
+  test('should expand dose times in the medication time zone', () => {
+    const twiceDaily = schedule({ frequency: 'twice_daily', dose_times: ['20:00', '08:00'] });
+    const from = zonedTimeToUtc('2025-06-10', '00:00', NEW_YORK);
+    const to = zonedTimeToUtc('2025-06-10', '23:59', NEW_YORK);
+
+    expect(iso(expandDoses(twiceDaily, from, to))).toEqual([
+      '2025-06-10T12:00:00.000Z',
+      '2025-06-11T00:00:00.000Z'
+    ]);
+  });
+
+  test('should keep the wall-clock time across DST changes', () => {
+    const spring = expandDoses(schedule(), new Date('2025-03-08T00:00:00Z'), new Date('2025-03-10T23:00:00Z'));
+    expect(iso(spring)).toEqual([
+      '2025-03-08T13:00:00.000Z',
+      '2025-03-09T12:00:00.000Z',
+      '2025-03-10T12:00:00.000Z'
+    ]);
+
+    expect(zonedTimeToUtc('2025-11-01', '08:00', NEW_YORK).toISOString()).toBe('2025-11-01T12:00:00.000Z');
+    expect(zonedTimeToUtc('2025-11-02', '08:00', NEW_YORK).toISOString()).toBe('2025-11-02T13:00:00.000Z');
+  });
+
+  test('should repeat weekly doses on the start weekday and stop at the end date', () => {
+    const weekly = schedule({ frequency: 'weekly', start_date: '2025-06-02', end_date: '2025-06-20' });
+    const doses = expandDoses(weekly, new Date('2025-06-01T00:00:00Z'), new Date('2025-07-01T00:00:00Z'));
+
+    expect(iso(doses)).toEqual([
+      '2025-06-02T12:00:00.000Z',
+      '2025-06-09T12:00:00.000Z',
+      '2025-06-16T12:00:00.000Z'
+    ]);
+  });
+
+  test('should not schedule medications without a time zone', () => {
+    const backfilled = schedule({ timezone: null, dose_times: [] });
+    const now = new Date('2025-06-10T15:00:00Z');
+
+    expect(expandDoses(backfilled, new Date('2025-06-01T00:00:00Z'), now)).toEqual([]);
+    expect(getTodaysDoses(backfilled, [], now)).toEqual([]);
+    expect(getNextDose(backfilled, now)).toBeNull();
+    expect(countMissedDoses(backfilled, [], 7, now)).toBe(0);
+  });
+
+  test('should log doses as late after the grace period, and skips as skipped', () => {
+    const scheduledFor = new Date('2025-06-10T12:00:00Z');
+
+    expect(resolveDoseStatus(scheduledFor, 'given', new Date('2025-06-10T12:45:00Z'))).toBe('given');
+    expect(resolveDoseStatus(scheduledFor, 'given', new Date('2025-06-10T13:30:00Z'))).toBe('late');
+    expect(resolveDoseStatus(scheduledFor, 'skipped', new Date('2025-06-10T11:00:00Z'))).toBe('skipped');
+
+    expect(getPendingDoseState(scheduledFor, new Date('2025-06-10T10:00:00Z'))).toBe('upcoming');
+    expect(getPendingDoseState(scheduledFor, new Date('2025-06-10T11:45:00Z'))).toBe('due');
+    expect(getPendingDoseState(scheduledFor, new Date('2025-06-10T13:30:00Z'))).toBe('missed');
+  });
+
+  test('should pair logged doses with the timeline and count the rest as missed', () => {
+    const now = new Date('2025-06-10T15:00:00Z');
+    const logged = [dose('2025-06-08T12:00:00.000Z', 'given'), dose('2025-06-09T12:00:00.000Z', 'skipped')];
+    const timeline = buildDoseTimeline(schedule(), logged, new Date('2025-06-07T00:00:00Z'), now, now);
+
+    expect(timeline.map(d => d.state)).toEqual(['missed', 'given', 'skipped', 'missed']);
+    expect(countMissedDoses(schedule(), logged, 4, now)).toBe(2);
+  });
+});
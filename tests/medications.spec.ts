@@ -0,0 +1,41 @@
+import { test, expect } from '@playwright/test';
+
+test.describe('Medication Tracker', () => {
+  test.beforeEach(async ({ page }) => {
+    // Login
+    await page.goto('/auth/login');
+    await page.fill('input[type="email"]', 'test@example.com');
+    await page.fill('input[type="password"]', 'password123');
+    await page.click('button[type="submit"]');
+    await page.waitForURL('/dashboard');
+  });
+
+  test('should add a twice daily medication with dose times', async ({ page }) => {
+    await page.goto('/health');
+    await page.click('button:has-text("Medications")');
+    await page.click('button:has-text("Add Medication")');
+
+    await page.selectOption('select[required]', { index: 1 }); // Select first pet
+    await page.fill('input[placeholder*="Rimadyl"]', 'Rimadyl');
+    await page.fill('input[placeholder*="25mg"]', '25mg');
+    await page.locator('select').nth(1).selectOption('twice_daily');
+
+    // Twice daily should expand into two dose time inputs
+    await expect(page.locator('input[type="time"]')).toHaveCount(2);
+
+    await page.click('button[type="submit"]');
+    await expect(page.locator('text=Medication added!')).toBeVisible();
+    await expect(page.locator('text=Twice daily').first()).toBeVisible();
+  });
+
+  test('should log a due dose from the tracker', async ({ page }) => {
+    await page.goto('/health');
+    await page.click('button:has-text("Medications")');
+
+    const givenButton = page.locator('button:has-text("Given")').first();
+    if (await givenButton.isVisible()) {
+      await givenButton.click();
+      await expect(page.locator('text=/Dose logged/')).toBeVisible();
+    }
+  });
+});
@@ -0,0 +1,74 @@
+import { test, expect } from '@playwright/test';
+import {
+  checkRelayMessage,
+  lookupCodePrefix,
+  MAX_RELAY_MESSAGE_LENGTH,
+  MIN_LOOKUP_CODE_LENGTH,
+  normalizeLookupCode
+} from '../supabase/functions/_shared/microchip.ts';
+import type { RelayMessageInput } from '../supabase/functions/_shared/microchip.ts';
+
+const now = new Date('2025-08-21T12:00:00Z').getTime();
+
+const input: RelayMessageInput = {
+  relay_token: '5f3c2a1e-8b7d-4c6e-9a0f-1d2e3c4b5a69',
+  message: 'Found him in my garden on Oak Ave, he is safe with me',
+  contact_name: 'Sam',
+  contact_phone: '+1 555 010 2030',
+  website: '',
+  form_started_at: now - 60 * 1000
+};
+
+// Runs without a browser: the checks are pure
+test.describe('Microchip relay messages', () => {
+  test('accepts a message with a way to reach the finder', () => {
+    const result = checkRelayMessage(input, now);
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.relayMessage.contact_phone).toBe('+1 555 010 2030');
+      expect(result.relayMessage.contact_email).toBeNull();
+    }
+  });
+
+  test('requires a phone number or email', () => {
+    const result = checkRelayMessage({ ...input, contact_phone: '  ' }, now);
+    expect(result).toEqual({ ok: false, spam: false, error: 'Leave a phone number or email so the owner can reach you' });
+  });
+
+  test('rejects a malformed relay token', () => {
+    const result = checkRelayMessage({ ...input, relay_token: 'not-a-token' }, now);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.spam).toBe(false);
+  });
+
+  test('rejects overlong messages', () => {
+    const result = checkRelayMessage({ ...input, message: 'a'.repeat(MAX_RELAY_MESSAGE_LENGTH + 1) }, now);
+    expect(result.ok).toBe(false);
+  });
+
+  test('treats honeypots, instant submits and links as spam', () => {
+    for (const spam of [
+      { ...input, website: 'http://spam.example' },
+      { ...input, form_started_at: now - 500 },
+      { ...input, message: 'Claim your reward at www.example.com' }
+    ]) {
+      const result = checkRelayMessage(spam, now);
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.spam).toBe(true);
+    }
+  });
+
+  test('normalizes lookup codes and keeps short ones out', () => {
+    expect(normalizeLookupCode('985 112-003 456 789')).toBe('985112003456789');
+    expect(normalizeLookupCode('ab-12')).toBe('AB12');
+    expect(normalizeLookupCode('AB-12').length).toBeLessThan(MIN_LOOKUP_CODE_LENGTH);
+    expect(normalizeLookupCode('123 456 789').length).toBeGreaterThanOrEqual(MIN_LOOKUP_CODE_LENGTH);
+  });
+
+  test('groups neighbouring codes under one prefix for the scan limit', () => {
+    const scanned = ['985112003456000', '985112003456001', '985112003456999'].map(lookupCodePrefix);
+    expect(new Set(scanned)).toEqual(new Set(['985112003456']));
+    expect(lookupCodePrefix('985112003457000')).not.toBe(scanned[0]);
+    expect(lookupCodePrefix('AB12')).toBe('A');
+  });
+});
@@ -0,0 +1,58 @@
+import { test, expect } from '@playwright/test';
+import { diffWords, revisionAt, type PostRevision } from '../src/lib/postRevisions.ts';
+
+function revision(version: number, content: string, createdAt: string): PostRevision {
+  return {
+    id: `rev-${version}`,
+    post_id: 'post-1',
+    source_post_id: 'post-1',
+    version,
+    content,
+    media_urls: [],
+    visibility: 'public',
+    editor_id: 'user-1',
+    created_at: createdAt
+  };
+}
+
+// Runs without a browser: the diff and lookup are pure
+test.describe('Post edit history', () => {
+  test('should mark replaced words as removed then added', () => {
+    expect(diffWords('Biscuit loves the park', 'Biscuit hates the beach')).toEqual([
+      { type: 'same', text: 'Biscuit ' },
+      { type: 'removed', text: 'loves' },
+      { type: 'added', text: 'hates' },
+      { type: 'same', text: ' the ' },
+      { type: 'removed', text: 'park' },
+      { type: 'added', text: 'beach' }
+    ]);
+  });
+
+  test('should rebuild both versions from the diff, line breaks included', () => {
+    const before = 'First walk today!\nSo tired now';
+    const after = 'First long walk today!\n\nSo tired';
+    const parts = diffWords(before, after);
+
+    expect(parts.filter(p => p.type !== 'added').map(p => p.text).join('')).toBe(before);
+    expect(parts.filter(p => p.type !== 'removed').map(p => p.text).join('')).toBe(after);
+  });
+
+  test('should treat an unchanged or empty version as a single run', () => {
+    expect(diffWords('Same text', 'Same text')).toEqual([{ type: 'same', text: 'Same text' }]);
+    expect(diffWords('', 'New post')).toEqual([{ type: 'added', text: 'New post' }]);
+    expect(diffWords('Old post', '')).toEqual([{ type: 'removed', text: 'Old post' }]);
+  });
+
+  test('should find the version that was live when a report was filed', () => {
+    const revisions = [
+      revision(1, 'Original', '2025-08-01T10:00:00Z'),
+      revision(2, 'First edit', '2025-08-02T10:00:00Z'),
+      revision(3, 'Cleaned up', '2025-08-03T10:00:00Z')
+    ];
+
+    expect(revisionAt(revisions, '2025-08-02T12:00:00Z')?.version).toBe(2);
+    expect(revisionAt(revisions, '2025-08-02T10:00:00Z')?.version).toBe(2);
+    expect(revisionAt(revisions, '2025-08-05T00:00:00Z')?.version).toBe(3);
+    expect(revisionAt(revisions, '2025-07-31T00:00:00Z')).toBeNull();
+  });
+});
@@ -0,0 +1,37 @@
+import { test, expect } from '@playwright/test';
+import { extractMentions, extractTags, normalizeTag, parseRichText } from '../src/lib/richText.ts';
+
+// Runs without a browser: the parsing is pure
+test.describe('Hashtags and mentions', () => {
+  test('should split text into tags, mentions and plain text', () => {
+    expect(parseRichText('Walk with @Sam_K at the #DogPark!')).toEqual([
+      { type: 'text', text: 'Walk with ' },
+      { type: 'mention', text: '@Sam_K', handle: 'sam_k' },
+      { type: 'text', text: ' at the ' },
+      { type: 'tag', text: '#DogPark', tag: 'dogpark' },
+      { type: 'text', text: '!' }
+    ]);
+  });
+
+  test('should leave emails, URL fragments and numbers alone', () => {
+    const text = 'Mail vet@clinic.com, see example.com/page#top, we are #1 and @me is too short';
+    expect(parseRichText(text)).toEqual([{ type: 'text', text }]);
+  });
+
+  test('should skip handles and tags that run too long rather than truncate them', () => {
+    expect(extractMentions(`@${'a'.repeat(31)} @${'b'.repeat(30)}`)).toEqual(['b'.repeat(30)]);
+    expect(extractTags(`#${'t'.repeat(51)}`)).toEqual([]);
+  });
+
+  test('should dedupe tags and mentions case-insensitively', () => {
+    const text = '#Puppy #puppy,#PUPPY @Biscuit @biscuit\n#goodboy';
+    expect(extractTags(text)).toEqual(['puppy', 'goodboy']);
+    expect(extractMentions(text)).toEqual(['biscuit']);
+  });
+
+  test('should normalize suggested labels into tags', () => {
+    expect(normalizeTag('#Golden Retriever')).toBe('goldenretriever');
+    expect(normalizeTag('outdoor')).toBe('outdoor');
+    expect(normalizeTag('4th of july')).toBeNull();
+  });
+});
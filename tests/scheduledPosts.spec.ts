@@ -0,0 +1,103 @@
+import { test, expect } from '@playwright/test';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  buildScheduledPost,
+  formatScheduledTime,
+  publishScheduledPost,
+  scheduledInstant,
+  type ScheduledPost
+} from '../src/lib/scheduledPosts.ts';
+
+const row: ScheduledPost = {
+  id: 'scheduled-1',
+  author_id: 'user-1',
+  content: 'Morning walk with Biscuit',
+  visibility: 'public',
+  is_draft: false,
+  status: 'published',
+  post_id: 'post-1',
+  created_at: '2025-08-21T08:00:00Z'
+};
+
+// Stands in for the Supabase client, recording RPC calls
+function fakeClient(result: { data: ScheduledPost[] | null; error: Error | null }) {
+  const calls: Array<{ fn: string; params: Record<string, unknown> }> = [];
+  const client = {
+    rpc: async (fn: string, params: Record<string, unknown>) => {
+      calls.push({ fn, params });
+      return result;
+    }
+  } as unknown as SupabaseClient;
+  return { client, calls };
+}
+
+test.describe('Scheduled posts', () => {
+  test('publishes through the same RPC as the scheduled publisher', async () => {
+    const { client, calls } = fakeClient({ data: [row], error: null });
+
+    const result = await publishScheduledPost(client, 'scheduled-1');
+
+    expect(calls).toEqual([{ fn: 'publish_scheduled_post', params: { p_id: 'scheduled-1' } }]);
+    expect(result?.post_id).toBe('post-1');
+  });
+
+  test('returns null when the post was already published', async () => {
+    const { client } = fakeClient({ data: [], error: null });
+    expect(await publishScheduledPost(client, 'scheduled-1')).toBeNull();
+  });
+
+  test('throws RPC errors', async () => {
+    const { client } = fakeClient({ data: null, error: new Error('Scheduled post not found') });
+    await expect(publishScheduledPost(client, 'scheduled-1')).rejects.toThrow('Scheduled post not found');
+  });
+
+  test('carries the uploaded media onto the scheduled row and the published post', async () => {
+    const mediaUrls = ['https://x.supabase.co/storage/v1/object/public/post-media/user-1/walk.jpg'];
+    const scheduled = buildScheduledPost('user-1', {
+      content: '  Morning walk with Biscuit  ',
+      visibility: 'friends',
+      pet_id: 'pet-1',
+      scheduled_for: '2025-08-21T14:30',
+      is_draft: false
+    }, mediaUrls);
+
+    expect(scheduled).toMatchObject({
+      author_id: 'user-1',
+      content: 'Morning walk with Biscuit',
+      media_urls: mediaUrls,
+      visibility: 'friends',
+      pet_id: 'pet-1',
+      is_draft: false,
+      status: 'scheduled'
+    });
+
+    const { client } = fakeClient({ data: [{ ...row, media_urls: scheduled.media_urls }], error: null });
+    expect((await publishScheduledPost(client, 'scheduled-1'))?.media_urls).toEqual(mediaUrls);
+  });
+
+  test('saves drafts without a publish time', () => {
+    const draft = buildScheduledPost('user-1', {
+      content: 'Ideas for the weekend',
+      visibility: 'public',
+      pet_id: '',
+      scheduled_for: '2025-08-21T14:30',
+      is_draft: true
+    }, []);
+
+    expect(draft).toMatchObject({ pet_id: null, scheduled_for: null, media_urls: [], status: 'draft' });
+  });
+
+  test('stores the local time the author picked as an instant', () => {
+    const local = '2025-08-21T14:30';
+    expect(new Date(scheduledInstant(local)).getTime()).toBe(new Date(local).getTime());
+    expect(scheduledInstant(local)).toMatch(/Z$/);
+  });
+
+  test('describes how long until a post goes out', () => {
+    const now = new Date('2025-08-21T12:00:00Z');
+    expect(formatScheduledTime('2025-08-21T12:30:00Z', now)).toBe('in 30 minutes');
+    expect(formatScheduledTime('2025-08-21T13:00:00Z', now)).toBe('in 1 hour');
+    expect(formatScheduledTime('2025-08-23T12:00:00Z', now)).toBe('in 2 days');
+    expect(formatScheduledTime('2025-08-21T11:59:00Z', now)).toBe('publishing shortly');
+  });
+});
@@ -0,0 +1,63 @@
+import { test, expect } from '@playwright/test';
+import { checkSighting, parsePhotoDataUrl, MIN_FORM_SECONDS } from '../supabase/functions/_shared/sighting.ts';
+import type { SightingInput } from '../supabase/functions/_shared/sighting.ts';
+
+const now = new Date('2025-08-03T12:00:00Z').getTime();
+const reportCreatedAt = '2025-08-01T10:00:00Z';
+
+const input: SightingInput = {
+  report_id: '0b7e6f4e-3c1a-4d2b-9f5e-2a6c8d1e4f70',
+  location_description: 'Behind the library on Elm St',
+  latitude: 37.77,
+  longitude: -122.42,
+  seen_at: '2025-08-03T09:30:00Z',
+  notes: 'Heading towards the park',
+  contact_email: 'helper@example.com',
+  website: '',
+  form_started_at: now - 60 * 1000
+};
+
+// Runs without a browser: the checks are pure
+test.describe('Public sightings', () => {
+  test('accepts a complete sighting', () => {
+    const result = checkSighting(input, reportCreatedAt, now);
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.sighting.location_description).toBe('Behind the library on Elm St');
+      expect(result.sighting.seen_at).toBe('2025-08-03T09:30:00.000Z');
+      expect(result.sighting.contact_phone).toBeNull();
+    }
+  });
+
+  test('treats a filled honeypot or an instant submit as spam', () => {
+    expect(checkSighting({ ...input, website: 'http://spam.example' }, reportCreatedAt, now))
+      .toMatchObject({ ok: false, spam: true });
+    expect(checkSighting({ ...input, form_started_at: now - (MIN_FORM_SECONDS - 1) * 1000 }, reportCreatedAt, now))
+      .toMatchObject({ ok: false, spam: true });
+    expect(checkSighting({ ...input, notes: 'http://a.example http://b.example' }, reportCreatedAt, now))
+      .toMatchObject({ ok: false, spam: true });
+  });
+
+  test('rejects sightings without a place or with an impossible time', () => {
+    expect(checkSighting({ ...input, location_description: '  ' }, reportCreatedAt, now))
+      .toMatchObject({ ok: false, spam: false });
+    expect(checkSighting({ ...input, seen_at: '2025-08-04T12:00:00Z' }, reportCreatedAt, now))
+      .toMatchObject({ ok: false, spam: false });
+    expect(checkSighting({ ...input, seen_at: '2025-07-20T12:00:00Z' }, reportCreatedAt, now))
+      .toMatchObject({ ok: false, spam: false });
+  });
+
+  test('drops coordinates that are out of range', () => {
+    const result = checkSighting({ ...input, latitude: 120 }, reportCreatedAt, now);
+    expect(result.ok && result.sighting.latitude).toBeNull();
+  });
+
+  test('only accepts small image data URLs', () => {
+    expect(parsePhotoDataUrl('data:image/png;base64,iVBORw0KGgo=')).toEqual({
+      contentType: 'image/png',
+      base64: 'iVBORw0KGgo='
+    });
+    expect(parsePhotoDataUrl('data:text/html;base64,PGgxPg==')).toBeNull();
+    expect(parsePhotoDataUrl(`data:image/jpeg;base64,${'A'.repeat(8 * 1024 * 1024)}`)).toBeNull();
+  });
+});
@@ -0,0 +1,42 @@
+import { test, expect } from '@playwright/test';
+import { sightingTimeline, heatmapCells, travelSummary } from '../src/lib/sightings.ts';
+
+const report = { id: 'report-1', latitude: 37.7700, longitude: -122.4200, created_at: '2025-08-01T10:00:00Z' };
+
+const sightings = [
+  { id: 's3', latitude: 37.7805, longitude: -122.4105, seen_at: '2025-08-02T10:00:00Z' },
+  { id: 's1', latitude: 37.7740, longitude: -122.4160, seen_at: '2025-08-01T14:00:00Z' },
+  { id: 's2', latitude: undefined, longitude: undefined, seen_at: '2025-08-01T18:00:00Z' },
+  { id: 's4', latitude: 37.7803, longitude: -122.4103, seen_at: '2025-08-02T11:00:00Z' }
+];
+
+// Runs without a browser: the map data is computed by pure functions
+test.describe('Sightings timeline and heatmap', () => {
+  test('starts at the last-seen location and orders sightings by time', () => {
+    const timeline = sightingTimeline(report, sightings);
+    expect(timeline.map(p => p.id)).toEqual(['report-1', 's1', 's3', 's4']);
+    expect(timeline[0].isOrigin).toBe(true);
+  });
+
+  test('groups nearby sightings into the same heatmap cell', () => {
+    const cells = heatmapCells(sightingTimeline(report, sightings));
+    expect(cells).toHaveLength(3);
+
+    const busiest = cells.find(c => c.count === 2)!;
+    expect(busiest.intensity).toBe(1);
+    expect(busiest.latitude).toBeCloseTo(37.78, 2);
+    expect(cells.filter(c => c.count === 1).every(c => c.intensity === 0.5)).toBe(true);
+  });
+
+  test('summarizes the direction of travel', () => {
+    const summary = travelSummary(sightingTimeline(report, sightings))!;
+    expect(summary.direction).toBe('NE');
+    expect(summary.miles).toBeGreaterThan(0.8);
+    expect(summary.miles).toBeLessThan(1);
+    expect(summary.hours).toBe(25);
+  });
+
+  test('has no direction without a located sighting', () => {
+    expect(travelSummary(sightingTimeline(report, [sightings[2]]))).toBeNull();
+  });
+});
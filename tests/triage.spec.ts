@@ -0,0 +1,77 @@
+import { test, expect } from '@playwright/test';
+import {
+  triageSymptoms, validateTriageResult, getAIProviders, triageWith, AIResponseError
+} from '../supabase/functions/_shared/ai/index.ts';
+import type { AIProvider } from '../supabase/functions/_shared/ai/index.ts';
+
+// Runs without a browser or network: the local provider is deterministic
+test.describe('Symptom triage', () => {
+  test('should rate mild, short-lived sneezing as low urgency', () => {
+    const result = triageSymptoms({ species: 'dog', symptoms: ['Sneezing'], severity: 'mild', duration: 'today' });
+    expect(result.urgency_level).toBe('low');
+    expect(result.possible_causes).toContain('Upper respiratory infection');
+  });
+
+  test('should escalate with severity, duration and appetite', () => {
+    const result = triageSymptoms({
+      species: 'dog',
+      symptoms: ['Vomiting', 'Lethargy'],
+      severity: 'moderate',
+      duration: 'few_days',
+      appetite: 'decreased'
+    });
+    expect(result.urgency_level).toBe('high');
+
+    const milder = triageSymptoms({ species: 'dog', symptoms: ['Vomiting'], severity: 'mild', duration: 'yesterday' });
+    expect(milder.urgency_level).toBe('medium');
+  });
+
+  test('should treat difficulty breathing as an emergency', () => {
+    const result = triageSymptoms({ species: 'cat', symptoms: ['Difficulty breathing'], severity: 'mild', duration: 'few_hours' });
+    expect(result.urgency_level).toBe('high');
+    expect(result.when_to_see_vet).toMatch(/now/);
+  });
+
+  test('should apply species rules', () => {
+    const input = { symptoms: ['Loss of appetite'], severity: 'mild' as const, duration: 'few_hours' };
+    expect(triageSymptoms({ ...input, species: 'dog' }).urgency_level).toBe('low');
+    expect(triageSymptoms({ ...input, species: 'rabbit' }).urgency_level).toBe('high');
+    expect(triageSymptoms({ ...input, species: 'rabbit' }).possible_causes[0]).toBe('Gastrointestinal stasis');
+  });
+
+  test('should produce results that pass schema validation', () => {
+    const result = triageSymptoms({ species: 'cat', symptoms: ['Hiding behavior', 'Bad breath'], severity: 'mild', duration: 'week' });
+    expect(validateTriageResult(JSON.stringify(result))).toEqual(result);
+  });
+
+  test('should reject malformed provider responses', () => {
+    expect(() => validateTriageResult('not json')).toThrow(AIResponseError);
+    expect(() => validateTriageResult({ urgency_level: 'urgent', recommendations: ['x'], when_to_see_vet: 'now' }))
+      .toThrow(/urgency_level/);
+    expect(() => validateTriageResult({
+      urgency_level: 'low', possible_causes: [], recommendations: [], when_to_see_vet: 'later', warning_signs: []
+    })).toThrow(/recommendations/);
+  });
+
+  test('should use the local provider without an API key', () => {
+    const providers = getAIProviders(() => undefined);
+    expect(providers.map(p => p.name)).toEqual(['local']);
+
+    const forced = getAIProviders(name => ({ OPENAI_API_KEY: 'sk-test', AI_PROVIDER: 'local' } as Record<string, string>)[name]);
+    expect(forced.map(p => p.name)).toEqual(['local']);
+  });
+
+  test('should fall back when a provider fails', async () => {
+    const failing: AIProvider = {
+      name: 'broken',
+      model: 'none',
+      triage: async () => validateTriageResult('{"urgency_level": "maybe"}'),
+      healthTip: async () => { throw new Error('offline'); }
+    };
+    const { result, provider } = await triageWith([failing, ...getAIProviders(() => undefined)], {
+      species: 'dog', symptoms: ['Limping'], severity: 'mild', duration: 'today'
+    });
+    expect(provider.name).toBe('local');
+    expect(result.urgency_level).toBe('low');
+  });
+});
@@ -0,0 +1,110 @@
+import { test, expect } from '@playwright/test';
+import {
+  evaluateVaccinations,
+  evaluateVaccine,
+  getCustomVaccinations,
+  matchProtocol,
+  VACCINE_PROTOCOLS
+} from '../src/lib/vaccineProtocols.ts';
+
+const protocol = (id: string) => VACCINE_PROTOCOLS.find(p => p.id === id)!;
+
+function shot(title: string, date: string, description?: string) {
+  return { type: 'vaccination' as const, title, date, description };
+}
+
+// Runs without a browser: the protocols are plain data and date maths
+test.describe('Vaccine protocols', () => {
+  test('should schedule a puppy first dose from its date of birth', () => {
+    const status = evaluateVaccine(protocol('dog_dhpp'), { date_of_birth: '2025-01-01' }, [], '2025-02-01');
+
+    expect(status).toMatchObject({
+      status: 'upcoming',
+      dueDate: '2025-02-12',
+      dosesGiven: 0,
+      seriesComplete: false,
+      message: 'First dose due at 6 weeks of age'
+    });
+  });
+
+  test('should space the initial series and flag a missed dose as overdue', () => {
+    const pet = { date_of_birth: '2025-01-01' };
+    const records = [shot('DHPP #1', '2025-02-12'), shot('DA2PP #2', '2025-03-05')];
+
+    expect(evaluateVaccine(protocol('dog_dhpp'), pet, records, '2025-03-20')).toMatchObject({
+      status: 'upcoming',
+      dueDate: '2025-03-26',
+      message: 'Next dose of the initial series (2 given)'
+    });
+    expect(evaluateVaccine(protocol('dog_dhpp'), pet, records, '2025-04-10').status).toBe('overdue');
+  });
+
+  test('should complete the series at 16 weeks and book the first booster a year later', () => {
+    const records = [
+      shot('DHPP', '2025-02-12'),
+      shot('DHPP', '2025-03-05'),
+      shot('DHPP', '2025-03-26'),
+      shot('DHPP', '2025-04-23')
+    ];
+    const status = evaluateVaccine(protocol('dog_dhpp'), { date_of_birth: '2025-01-01' }, records, '2025-06-01');
+
+    expect(status).toMatchObject({
+      status: 'complete',
+      dueDate: '2026-04-23',
+      seriesComplete: true,
+      message: 'First booster after the initial series'
+    });
+  });
+
+  test('should use the three-year rabies interval unless the record says one year', () => {
+    const pet = { date_of_birth: undefined };
+    const threeYear = [shot('Rabies', '2022-05-01'), shot('Rabies', '2023-05-01')];
+    const oneYear = [shot('Rabies', '2022-05-01'), shot('Rabies', '2023-05-01', '1 year vaccine')];
+
+    expect(evaluateVaccine(protocol('dog_rabies'), pet, threeYear, '2025-06-01')).toMatchObject({
+      status: 'complete',
+      dueDate: '2026-05-01',
+      message: 'Booster every 3 years'
+    });
+    expect(evaluateVaccine(protocol('dog_rabies'), pet, oneYear, '2025-06-01')).toMatchObject({
+      status: 'overdue',
+      dueDate: '2024-05-01',
+      message: 'Annual booster'
+    });
+  });
+
+  test('should treat adults with no history as due now and lifestyle vaccines as optional', () => {
+    const adult = { date_of_birth: '2018-01-01' };
+
+    expect(evaluateVaccine(protocol('dog_rabies'), adult, [], '2025-06-01')).toMatchObject({
+      status: 'overdue',
+      dueDate: '2025-06-01',
+      message: 'No doses on record'
+    });
+    expect(evaluateVaccine(protocol('dog_lyme'), adult, [], '2025-06-01').status).toBe('optional');
+  });
+
+  test('should count future-dated records as booked appointments', () => {
+    const records = [shot('Rabies', '2022-05-01'), shot('Rabies', '2025-07-01')];
+    const status = evaluateVaccine(protocol('dog_rabies'), { date_of_birth: undefined }, records, '2025-06-01');
+
+    expect(status).toMatchObject({ status: 'upcoming', scheduledDate: '2025-07-01', dosesGiven: 1 });
+  });
+
+  test('should match records by species and keep unknown vaccines as custom', () => {
+    const records = [
+      shot('FVRCP booster', '2024-06-01'),
+      shot('Rabies', '2024-06-01'),
+      shot('Ringworm vaccine', '2024-06-01'),
+      { type: 'checkup' as const, title: 'Rabies titer check', date: '2024-06-01', description: undefined }
+    ];
+
+    expect(matchProtocol('cat', 'FVRCP booster')?.id).toBe('cat_fvrcp');
+    expect(matchProtocol('dog', 'FVRCP booster')).toBeNull();
+    expect(getCustomVaccinations('cat', records).map(r => r.title)).toEqual(['Ringworm vaccine']);
+
+    const statuses = evaluateVaccinations({ species: 'cat', date_of_birth: undefined }, records, '2025-01-01');
+    expect(statuses.map(s => s.protocol.id)).toEqual(['cat_fvrcp', 'cat_rabies', 'cat_felv']);
+    expect(statuses.find(s => s.protocol.id === 'cat_rabies')?.dosesGiven).toBe(1);
+  });
+});
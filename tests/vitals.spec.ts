@@ -0,0 +1,84 @@
+import { test, expect } from '@playwright/test';
+import { detectVitalAlerts, getLatest, getPercentChange, getSeries } from '../src/lib/vitals.ts';
+import type { PetVital } from '../src/lib/supabase.ts';
+
+function vital(recordedAt: string, reading: Partial<PetVital>): PetVital {
+  return { id: recordedAt, pet_id: 'pet-1', recorded_at: recordedAt, created_at: recordedAt, ...reading };
+}
+
+// Runs without a browser: the trend maths is pure
+test.describe('Vitals', () => {
+  test('should build a date-ordered series that skips readings without the metric', () => {
+    const vitals = [
+      vital('2025-02-15', { weight: 48 }),
+      vital('2025-01-01', { weight: 50 }),
+      vital('2025-02-01', { temperature: 101.2 })
+    ];
+
+    expect(getSeries(vitals, 'weight')).toEqual([
+      { date: '2025-01-01', value: 50 },
+      { date: '2025-02-15', value: 48 }
+    ]);
+    expect(getLatest(vitals, 'temperature')).toEqual({ date: '2025-02-01', value: 101.2 });
+    expect(getLatest(vitals, 'heart_rate')).toBeNull();
+  });
+
+  test('should measure the change against the earliest reading inside the window', () => {
+    const series = [
+      { date: '2025-01-01', value: 50 },
+      { date: '2025-01-20', value: 48 },
+      { date: '2025-02-10', value: 45 }
+    ];
+
+    expect(getPercentChange(series, 30)).toBe(-6.25);
+    expect(getPercentChange(series, 60)).toBe(-10);
+    expect(getPercentChange(series.slice(2), 30)).toBeNull();
+    expect(getPercentChange([], 30)).toBeNull();
+  });
+
+  test('should flag weight loss from the heaviest recent reading as critical', () => {
+    const vitals = [
+      vital('2025-02-01', { weight: 50 }),
+      vital('2025-02-15', { weight: 52 }),
+      vital('2025-03-01', { weight: 46 })
+    ];
+
+    expect(detectVitalAlerts(vitals, 'dog', '2025-03-05')).toEqual([{
+      metric: 'weight',
+      severity: 'critical',
+      message: 'Lost 11.5% of body weight in 30 days',
+      date: '2025-03-01'
+    }]);
+  });
+
+  test('should warn on weight gain and ignore changes outside the window', () => {
+    const gained = [vital('2025-02-10', { weight: 40 }), vital('2025-03-01', { weight: 45 })];
+    const slow = [vital('2025-01-01', { weight: 40 }), vital('2025-03-01', { weight: 45 })];
+
+    expect(detectVitalAlerts(gained, 'cat', '2025-03-01')).toMatchObject([
+      { metric: 'weight', severity: 'warning', message: 'Gained 12.5% of body weight in 30 days' }
+    ]);
+    expect(detectVitalAlerts(slow, 'cat', '2025-03-01')).toEqual([]);
+  });
+
+  test('should check species ranges and list critical alerts first', () => {
+    const vitals = [vital('2025-03-01', { temperature: 104.5, heart_rate: 150, body_condition_score: 7 })];
+
+    expect(detectVitalAlerts(vitals, 'dog', '2025-03-02').map(a => [a.metric, a.severity])).toEqual([
+      ['temperature', 'critical'],
+      ['body_condition_score', 'warning'],
+      ['heart_rate', 'warning']
+    ]);
+    expect(detectVitalAlerts(vitals, 'cat', '2025-03-02').map(a => a.metric)).toEqual([
+      'temperature',
+      'body_condition_score'
+    ]);
+    expect(detectVitalAlerts(vitals, 'bird', '2025-03-02').map(a => a.metric)).toEqual(['body_condition_score']);
+  });
+
+  test('should not alert on stale readings', () => {
+    const vitals = [vital('2025-01-01', { temperature: 105, body_condition_score: 9 })];
+
+    expect(detectVitalAlerts(vitals, 'dog', '2025-03-15')).toEqual([]);
+  });
+});